@@ -270,6 +270,7 @@ export class MainUI extends BaseService {
     // Initialize run tracker widget now that widget system is ready
     // Use setTimeout to ensure services are fully registered
     setTimeout(() => this.initializeRunTrackerWidget(), 100);
+    setTimeout(() => this.initializeLeaderboardWidget(), 100);
 
     // Force widget system debug info
     console.log('MainUI: Widget system debug info:', this.widgetSystem.getDebugInfo());
@@ -325,6 +326,18 @@ export class MainUI extends BaseService {
     }
   }
 
+  /**
+   * Initialize the neighbourhood leaderboard widget after MainUI is ready
+   */
+  private initializeLeaderboardWidget(): void {
+    const services = (window as any).RunRealm?.services;
+    if (services?.leaderboardWidget) {
+      services.leaderboardWidget.initializeWidget();
+    } else {
+      console.warn('MainUI: Could not find LeaderboardWidget service');
+    }
+  }
+
   /**
    * Toggle GameFi mode
    */
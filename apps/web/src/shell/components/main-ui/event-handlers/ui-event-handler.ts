@@ -2,6 +2,7 @@ import { WidgetSystem } from '@runrealm/shared-core/components/widget-system';
 import { EventBus } from '@runrealm/shared-core/core/event-bus';
 import { DOMService } from '@runrealm/shared-core/services/dom-service';
 import { LocationService } from '@runrealm/shared-core/services/location-service';
+import { PreferenceService } from '@runrealm/shared-core/services/preference-service';
 import { RouteStateService } from '@runrealm/shared-core/services/route-state-service';
 import { UIService } from '@runrealm/shared-core/services/ui-service';
 import { Web3Service } from '@runrealm/shared-core/services/web3-service';
@@ -607,6 +608,18 @@ export class EventHandler {
       }
     });
 
+    // Territory mode: loop claims the enclosed area, trace only the route
+    this.domService.delegate(document.body, '#toggle-territory-loop', 'change', (e) => {
+      const target = e.target as HTMLInputElement;
+      new PreferenceService().saveTerritoryMode(target.checked ? 'loop' : 'trace');
+      this.uiService.showToast(
+        target.checked
+          ? 'Loop runs will claim the area inside them'
+          : 'Runs will claim only the cells they pass through',
+        { type: 'info' }
+      );
+    });
+
     // Rewards visibility preference toggle
     this.domService.delegate(
       document.body,
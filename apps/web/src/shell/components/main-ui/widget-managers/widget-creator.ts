@@ -2,6 +2,7 @@ import { WidgetSystem } from '@runrealm/shared-core/components/widget-system';
 import { ConfigService } from '@runrealm/shared-core/core/app-config';
 import { VisibilityService } from '@runrealm/shared-core/internal/_legacy-widget/visibility-service';
 import { LocationService } from '@runrealm/shared-core/services/location-service';
+import { PreferenceService } from '@runrealm/shared-core/services/preference-service';
 import { UserDashboardService } from '@runrealm/shared-core/services/user-dashboard-service';
 import { ConfidentialShieldWidget } from '../../confidential-shield-widget';
 import { WalletWidget } from '../../wallet-widget';
@@ -394,6 +395,19 @@ export class WidgetCreator {
         </div>
       </div>
 
+      <div class="widget-section">
+        <div class="widget-section-title">🗺️ Territory</div>
+        <div class="widget-toggles">
+          <label class="widget-toggle">
+            <input type="checkbox" id="toggle-territory-loop" ${
+              new PreferenceService().getTerritoryMode() === 'loop' ? 'checked' : ''
+            }>
+            <span class="toggle-slider"></span>
+            <span class="toggle-label">Claim the area inside loop runs</span>
+          </label>
+        </div>
+      </div>
+
       <div class="widget-section">
         <div class="widget-section-title">💰 Rewards</div>
         <div class="widget-toggles">
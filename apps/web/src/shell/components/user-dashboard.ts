@@ -9,12 +9,18 @@
  */
 
 import { EventBus } from '@runrealm/shared-core/core/event-bus';
+import type { DeviceSyncStatus } from '@runrealm/shared-core/services/device-sync-service';
 import { DOMService } from '@runrealm/shared-core/services/dom-service';
+import type { Territory } from '@runrealm/shared-core/services/territory-service';
 import {
   DashboardData,
   DashboardState,
   UserDashboardService,
 } from '@runrealm/shared-core/services/user-dashboard-service';
+import { HEART_RATE_ZONES, type HeartRateSummary } from '@runrealm/shared-core/utils/heart-rate';
+import { type RunSplit, SPLIT_DISTANCE } from '@runrealm/shared-core/utils/splits';
+import { formatRealm, type PendingOffers } from '@runrealm/shared-core/utils/territory-trade';
+import type { TrainingLoadSummary } from '@runrealm/shared-core/utils/training-load';
 
 export class UserDashboard {
   private container: HTMLElement | null = null;
@@ -284,6 +290,105 @@ export class UserDashboard {
         break;
       }
 
+      case 'gift-territory':
+      case 'list-territory': {
+        const territoryId = target.getAttribute('data-territory-id');
+        const input = this.container?.querySelector(
+          `.trade-input[data-action-for="${action}"][data-territory-id="${territoryId}"]`
+        ) as HTMLInputElement | null;
+        const value = input?.value.trim();
+        if (!territoryId || !value) {
+          this.eventBus.emit('ui:toast', {
+            message: action === 'gift-territory' ? 'Enter a wallet address' : 'Enter a price',
+            type: 'warning',
+          });
+          break;
+        }
+        if (action === 'gift-territory') {
+          this.eventBus.emit('territory:gift', { territoryId, to: value });
+        } else {
+          this.eventBus.emit('territory:listForSale', { territoryId, price: value });
+        }
+        break;
+      }
+
+      case 'cancel-territory-listing': {
+        const territoryId = target.getAttribute('data-territory-id');
+        if (territoryId) {
+          this.eventBus.emit('territory:cancelListing', { territoryId });
+        }
+        break;
+      }
+
+      case 'accept-territory-offer': {
+        const territoryId = target.getAttribute('data-territory-id');
+        const buyer = target.getAttribute('data-buyer');
+        if (territoryId && buyer) {
+          this.eventBus.emit('territory:acceptOffer', { territoryId, buyer });
+        }
+        break;
+      }
+
+      case 'withdraw-territory-offer': {
+        const territoryId = target.getAttribute('data-territory-id');
+        if (territoryId) {
+          this.eventBus.emit('territory:withdrawOffer', { territoryId });
+        }
+        break;
+      }
+
+      case 'export-run': {
+        const format = target.getAttribute('data-format') as 'gpx' | 'tcx' | 'geojson' | null;
+        const file = format ? this.dashboardService.exportRun(format) : null;
+        if (file) {
+          this.dashboardService.downloadExport(file);
+        } else {
+          this.eventBus.emit('ui:toast', {
+            message: 'No completed run to export',
+            type: 'warning',
+          });
+        }
+        break;
+      }
+
+      case 'connect-heart-rate': {
+        this.dashboardService.connectHeartRateMonitor().then((connected) => {
+          this.eventBus.emit('ui:toast', {
+            message: connected ? 'Heart-rate monitor connected' : 'Could not connect to the sensor',
+            type: connected ? 'success' : 'warning',
+          });
+        });
+        break;
+      }
+
+      case 'disconnect-sensors':
+        this.dashboardService.disconnectSensors();
+        break;
+
+      case 'export-territories':
+      case 'export-territory': {
+        const format = target.getAttribute('data-format') as 'geojson' | 'kml' | null;
+        const territoryId = target.getAttribute('data-territory-id');
+        const territories = this.dashboardService
+          .getData()
+          .territories.filter((t) => !territoryId || t.geohash === territoryId);
+        const file = format ? this.dashboardService.exportTerritories(format, territories) : null;
+        if (file) {
+          this.dashboardService.downloadExport(file);
+        } else {
+          this.eventBus.emit('ui:toast', { message: 'No territories to export', type: 'warning' });
+        }
+        break;
+      }
+
+      case 'sync-now':
+        void this.dashboardService.syncNow();
+        break;
+
+      case 'clear-sync-conflicts':
+        this.dashboardService.clearSyncConflicts();
+        break;
+
       case 'claim-challenge': {
         const challengeId = target.getAttribute('data-challenge-id');
         if (challengeId) {
@@ -305,6 +410,7 @@ export class UserDashboard {
     this.container.innerHTML = `
       <div class="dashboard-header">
         <h2>User Dashboard</h2>
+        ${this.renderSyncStatus(data.sync)}
         <button id="dashboard-close" class="dashboard-close-btn">✕</button>
       </div>
       <div class="dashboard-tabs">
@@ -326,11 +432,18 @@ export class UserDashboard {
       case 'overview':
         return `
           ${this.renderPlayerStats(data.userStats)}
+          ${this.renderSyncConflicts(data.sync)}
+          ${this.renderTrainingLoad(this.dashboardService.getTrainingLoad())}
           ${this.renderCurrentRun(data.currentRun)}
+          ${this.renderSensors()}
+          ${this.renderLastRunExport(data.recentActivity.lastRun)}
           ${this.renderWalletInfo(data.walletInfo)}
         `;
       case 'territories':
-        return this.renderTerritories(data.territories);
+        return `
+          ${this.renderTerritories(data.territories)}
+          ${this.renderPendingOffers(data.offers, data.territories)}
+        `;
       case 'ghosts':
         return this.renderGhostRunners(data.ghosts);
       case 'challenges':
@@ -372,6 +485,90 @@ export class UserDashboard {
     `;
   }
 
+  private renderSyncStatus(sync: DeviceSyncStatus): string {
+    const labels: Record<DeviceSyncStatus['state'], string> = {
+      idle: 'Not synced',
+      syncing: 'Syncing…',
+      synced: sync.lastSyncedAt
+        ? `Synced ${this.formatTimeAgo(sync.lastSyncedAt).toLowerCase()}`
+        : 'Synced',
+      offline: 'Offline',
+      'signed-out': 'Sign in to sync',
+      error: 'Sync failed',
+    };
+    const pending = sync.pending > 0 ? ` · ${sync.pending} pending` : '';
+    const title = sync.error ? sync.error.replace(/"/g, '&quot;') : 'Sync with your other devices';
+
+    return `
+      <button class="dashboard-sync ${sync.state}" data-action="sync-now" title="${title}"
+        ${sync.state === 'syncing' ? 'disabled' : ''}>⟳ ${labels[sync.state]}${pending}</button>
+    `;
+  }
+
+  private renderSyncConflicts(sync: DeviceSyncStatus): string {
+    if (sync.conflicts.length === 0) return '';
+
+    const items = sync.conflicts
+      .map(
+        (c) => `
+          <p class="sync-conflict">${c.kind} ${c.id}: ${c.reason}, kept ${c.kept === 'server' ? 'the other device' : 'this device'}'s copy</p>
+        `
+      )
+      .join('');
+
+    return `
+      <div class="dashboard-section">
+        <h3>🔄 Sync Conflicts</h3>
+        ${items}
+        <button class="action-btn" data-action="clear-sync-conflicts">Dismiss</button>
+      </div>
+    `;
+  }
+
+  private renderTrainingLoad(load: TrainingLoadSummary | null): string {
+    if (!load) return '';
+
+    const maxDistance = Math.max(...load.weeks.map((w) => w.distance), 1);
+    const bars = load.weeks
+      .map(
+        (w) => `
+          <div class="load-week" title="${(w.distance / 1000).toFixed(1)}km · ${w.runs} runs">
+            <span style="height: ${((w.distance / maxDistance) * 100).toFixed(1)}%"></span>
+          </div>
+        `
+      )
+      .join('');
+    const warnings = load.warnings
+      .map((w) => `<p class="load-warning ${w.severity}">⚠️ ${w.message}</p>`)
+      .join('');
+
+    return `
+      <div class="dashboard-section">
+        <h3>📈 Training Load</h3>
+        <div class="stats-grid">
+          <div class="stat-item">
+            <div class="stat-value">${Math.round(load.fitness)}</div>
+            <div class="stat-label">Fitness</div>
+          </div>
+          <div class="stat-item">
+            <div class="stat-value">${Math.round(load.fatigue)}</div>
+            <div class="stat-label">Fatigue</div>
+          </div>
+          <div class="stat-item">
+            <div class="stat-value">${load.form > 0 ? '+' : ''}${Math.round(load.form)}</div>
+            <div class="stat-label">Form · ${load.formStatus}</div>
+          </div>
+          <div class="stat-item">
+            <div class="stat-value">${(load.weeks[load.weeks.length - 1].distance / 1000).toFixed(1)}km</div>
+            <div class="stat-label">Last 7 days</div>
+          </div>
+        </div>
+        <div class="load-weeks">${bars}</div>
+        ${warnings}
+      </div>
+    `;
+  }
+
   private renderCurrentRun(currentRun: any): string {
     if (!currentRun) return '';
 
@@ -397,6 +594,120 @@ export class UserDashboard {
     `;
   }
 
+  private renderLastRunExport(lastRun: any): string {
+    if (!lastRun || !lastRun.points?.length) return '';
+
+    return `
+      <div class="dashboard-section">
+        <div class="section-header">
+          <h3>Last Run</h3>
+          <div class="section-actions">
+            <button class="action-btn" data-action="export-run" data-format="gpx">GPX</button>
+            <button class="action-btn" data-action="export-run" data-format="tcx">TCX</button>
+            <button class="action-btn" data-action="export-run" data-format="geojson">GeoJSON</button>
+          </div>
+        </div>
+        <p class="info-text">${(lastRun.totalDistance / 1000).toFixed(2)}km on ${new Date(lastRun.startTime).toLocaleDateString()}</p>
+        ${this.renderSplits(this.dashboardService.getRunSplits(lastRun))}
+        ${this.renderHeartRateZones(this.dashboardService.getHeartRateSummary(lastRun))}
+      </div>
+    `;
+  }
+
+  private renderSensors(): string {
+    const reading = this.dashboardService.getLiveSensorReading();
+    if (!reading && !this.dashboardService.canConnectHeartRateMonitor()) return '';
+
+    const live = reading
+      ? `
+        <div class="run-stats">
+          <div class="stat-item">
+            <div class="stat-value">${reading.heartRate ?? '--'} bpm</div>
+            <div class="stat-label">Heart Rate${reading.zone ? ` · Z${reading.zone}` : ''}</div>
+          </div>
+          <div class="stat-item">
+            <div class="stat-value">${reading.cadence ?? '--'} spm</div>
+            <div class="stat-label">Cadence</div>
+          </div>
+        </div>
+      `
+      : '<p class="info-text">Pair a Bluetooth heart-rate strap to record heart rate and zones.</p>';
+
+    return `
+      <div class="dashboard-section">
+        <div class="section-header">
+          <h3>❤️ Sensors</h3>
+          <div class="section-actions">
+            ${
+              reading
+                ? '<button class="action-btn" data-action="disconnect-sensors">Disconnect</button>'
+                : '<button class="action-btn" data-action="connect-heart-rate">Connect</button>'
+            }
+          </div>
+        </div>
+        ${live}
+      </div>
+    `;
+  }
+
+  private renderHeartRateZones(summary: HeartRateSummary | null): string {
+    if (!summary) return '';
+
+    const total = summary.timeInZones.reduce((sum, z) => sum + z.duration, 0);
+    const rows = summary.timeInZones
+      .map((z) => {
+        const share = total > 0 ? (z.duration / total) * 100 : 0;
+        return `
+          <li class="hr-zone-row zone-${z.zone}">
+            <span class="hr-zone-label">Z${z.zone} ${HEART_RATE_ZONES[z.zone - 1].name}</span>
+            <span class="hr-zone-bar"><span style="width: ${share.toFixed(1)}%"></span></span>
+            <span class="hr-zone-time">${Math.round(z.duration / 60000)}min</span>
+          </li>
+        `;
+      })
+      .join('');
+
+    return `
+      <p class="info-text">
+        ❤️ avg ${summary.averageHeartRate} bpm · peak ${summary.peakHeartRate} bpm${
+          summary.averageCadence !== undefined ? ` · ${summary.averageCadence} spm` : ''
+        }
+      </p>
+      <ul class="hr-zones">${rows}</ul>
+    `;
+  }
+
+  private renderSplits(splits: RunSplit[]): string {
+    if (splits.length === 0) return '';
+
+    const rows = splits
+      .map((split) => {
+        const minutes = Math.floor(split.pace / 60);
+        const seconds = Math.floor(split.pace % 60)
+          .toString()
+          .padStart(2, '0');
+        const label = split.partial
+          ? `${(split.distance / SPLIT_DISTANCE[split.unit]).toFixed(2)} ${split.unit}`
+          : `${split.index} ${split.unit}`;
+        const elevation =
+          split.elevationDelta !== undefined
+            ? `${split.elevationDelta >= 0 ? '+' : ''}${Math.round(split.elevationDelta)}m`
+            : '';
+        const marker = split.fastest ? '⚡' : split.slowest ? '🐢' : '';
+        return `
+          <li class="split-row${split.fastest ? ' fastest' : ''}${split.slowest ? ' slowest' : ''}">
+            <span class="split-label">${label}</span>
+            <span class="split-pace">${minutes}:${seconds}/${split.unit}</span>
+            <span class="split-elevation">${elevation}</span>
+            <span class="split-marker">${marker}</span>
+          </li>
+        `;
+      })
+      .join('');
+
+    return `<ul class="run-splits">${rows}</ul>`;
+  }
+
   private renderTerritories(territories: any[]): string {
     if (!territories || territories.length === 0) {
       return `
@@ -418,6 +729,8 @@ export class UserDashboard {
           <h3>🗺️ Your Territories (${territoryCount})</h3>
           <div class="section-actions">
             <button class="action-btn" data-action="open-territory-widget">Widget</button>
+            <button class="action-btn" data-action="export-territories" data-format="geojson">GeoJSON</button>
+            <button class="action-btn" data-action="export-territories" data-format="kml">KML</button>
             <button class="action-btn" data-action="show-territories-on-map">Map →</button>
           </div>
         </div>
@@ -461,6 +774,51 @@ export class UserDashboard {
     `;
   }
 
+  private renderPendingOffers(offers: PendingOffers, territories: Territory[]): string {
+    const byToken = new Map(territories.filter((t) => t.tokenId).map((t) => [t.tokenId, t]));
+    const row = (offer: PendingOffers['incoming'][number], incoming: boolean): string => {
+      const territory = byToken.get(offer.tokenId);
+      if (!territory) return '';
+      const buyer = `${offer.buyer.slice(0, 6)}…${offer.buyer.slice(-4)}`;
+      return `
+        <div class="offer-item">
+          <div class="offer-info">
+            <div class="territory-name">${territory.metadata?.name || territory.geohash}</div>
+            <div class="territory-meta">
+              <span class="territory-reward">${formatRealm(offer.amountWei)} $REALM</span>
+              ${incoming ? `<span class="offer-buyer">from ${buyer}</span>` : ''}
+              <span class="offer-age">${this.formatTimeAgo(offer.madeAt)}</span>
+            </div>
+          </div>
+          ${
+            incoming
+              ? `<button class="action-btn" data-action="accept-territory-offer" data-territory-id="${territory.id}" data-buyer="${offer.buyer}">Accept</button>`
+              : `<button class="action-btn secondary" data-action="withdraw-territory-offer" data-territory-id="${territory.id}">Withdraw</button>`
+          }
+        </div>
+      `;
+    };
+
+    const incoming = offers.incoming.map((o) => row(o, true)).join('');
+    const outgoing = offers.outgoing.map((o) => row(o, false)).join('');
+
+    return `
+      <div class="dashboard-section">
+        <div class="section-header">
+          <h3>🤝 Pending Offers</h3>
+        </div>
+        ${
+          incoming || outgoing
+            ? `
+          ${incoming ? `<h4>For your territories</h4><div class="offer-list">${incoming}</div>` : ''}
+          ${outgoing ? `<h4>Your offers</h4><div class="offer-list">${outgoing}</div>` : ''}
+        `
+            : '<p class="empty-state">No pending offers.</p>'
+        }
+      </div>
+    `;
+  }
+
   private renderTerritoryCard(territory: any): string {
     const isExpanded = this.expandedTerritoryId === territory.geohash;
     const activityPoints = territory.activityPoints || 500;
@@ -578,7 +936,51 @@ export class UserDashboard {
               +100 Points (50 $REALM)
             </button>
           </div>
+
+          ${this.renderTradeActions(territory)}
+
+          <div class="action-group">
+            <label>Export</label>
+            <button class="action-btn secondary" data-action="export-territory" data-territory-id="${territory.geohash}" data-format="geojson">GeoJSON</button>
+            <button class="action-btn secondary" data-action="export-territory" data-territory-id="${territory.geohash}" data-format="kml">KML</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderTradeActions(territory: Territory): string {
+    if (!territory.tokenId) {
+      return `
+        <div class="action-group">
+          <label>Trade</label>
+          <p class="info-text">Claim this territory on-chain to gift or sell it.</p>
         </div>
+      `;
+    }
+
+    const listing = territory.listing
+      ? `
+        <span class="info-text">Listed for ${formatRealm(territory.listing.priceWei)} $REALM</span>
+        <button class="action-btn secondary" data-action="cancel-territory-listing" data-territory-id="${territory.id}">Cancel Listing</button>
+      `
+      : `
+        <input class="trade-input" type="text" inputmode="decimal" placeholder="Price in $REALM"
+               data-action-for="list-territory" data-territory-id="${territory.id}" />
+        <button class="action-btn secondary" data-action="list-territory" data-territory-id="${territory.id}">List</button>
+      `;
+
+    return `
+      <div class="action-group">
+        <label>Sell</label>
+        ${listing}
+      </div>
+
+      <div class="action-group">
+        <label>Gift</label>
+        <input class="trade-input" type="text" placeholder="0x… wallet address"
+               data-action-for="gift-territory" data-territory-id="${territory.id}" />
+        <button class="action-btn secondary" data-action="gift-territory" data-territory-id="${territory.id}">Gift</button>
       </div>
     `;
   }
@@ -845,6 +1247,11 @@ export class UserDashboard {
       }
     }
 
+    const sync = this.container.querySelector('.dashboard-sync');
+    if (sync) {
+      sync.outerHTML = this.renderSyncStatus(data.sync);
+    }
+
     // Update content
     const contentContainer = this.container.querySelector('.dashboard-content');
     if (contentContainer) {
@@ -21,6 +21,7 @@ library RealmRules {
   uint256 public constant ACTIVITY_BOOST_COST_REALM_E18    = 50 * 10**18;
   uint256 public constant ACTIVITY_BOOST_POINTS            = 100;
   uint256 public constant ACTIVITY_BOOST_LIMIT_PER_DAY     = 1;
+  uint256 public constant ACTIVITY_RUN_THROUGH_POINTS_PER_CELL = 25;
   uint256 public constant ACTIVITY_STRONG_MIN              = 700;
   uint256 public constant ACTIVITY_MODERATE_MIN            = 300;
   uint256 public constant ACTIVITY_VULNERABLE_MIN          = 100;
@@ -34,6 +35,8 @@ library RealmRules {
   uint256 public constant DIFFICULTY_BONUS_MAX_E18         = 2 * 10**18;
   uint256 public constant STAKING_BASE_APY_PERCENT         = 10;
   uint256 public constant STAKING_MIN_PERIOD_DAYS          = 7;
+  uint256 public constant DISTRICT_CONTROL_BONUS_E18       = 100 * 10**18;
+  uint256 public constant REGION_CONTROL_BONUS_E18         = 1000 * 10**18;
 
   // Territory validation (mirrors contracts/libraries/GameLogic.sol)
   uint256 public constant MIN_TERRITORY_DISTANCE_METERS    = 100;
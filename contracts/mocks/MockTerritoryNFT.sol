@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/**
+ * @title MockTerritoryNFT
+ * @dev Test stand-in for the territory NFT side of `RunRealmUniversal`:
+ * a plain ERC-721 anyone can mint, for the market tests.
+ */
+contract MockTerritoryNFT is ERC721 {
+    constructor() ERC721("RunRealm Territory", "TERRITORY") {}
+
+    function mint(address to, uint256 tokenId) external {
+        _mint(to, tokenId);
+    }
+}
@@ -0,0 +1,146 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@zetachain/protocol-contracts/contracts/zevm/interfaces/IZRC20.sol";
+
+/**
+ * @title RunRealmTerritoryMarketV1
+ * @dev Additive territory marketplace, deployed alongside the frozen
+ * `RunRealmUniversal` like `RunRealmBoostV1`.
+ *
+ * Nothing is held in escrow:
+ *   - A listing records the seller and a REALM price. The seller
+ *     approves this contract for the territory NFT; `buy` pulls the
+ *     price from the buyer to the seller and moves the NFT in one
+ *     transaction. The buyer names the most they will pay, so a
+ *     relisting at a higher price that lands first makes `buy`
+ *     revert instead. A listing goes stale once the seller no longer
+ *     owns the token and `buy` reverts on it.
+ *   - An offer records a REALM amount per `(tokenId, buyer)`. The
+ *     buyer approves this contract for the amount; whoever owns the
+ *     token when `acceptOffer` is called receives it.
+ *
+ * Gifting needs no market: owners call `safeTransferFrom` on
+ * `RunRealmUniversal` directly. Every ownership change, sale or gift,
+ * shows up as the ERC-721 `Transfer` event, which is what the
+ * off-chain `TerritoryService` follows.
+ */
+contract RunRealmTerritoryMarketV1 is ReentrancyGuard {
+    struct Listing {
+        address seller;
+        uint256 price;
+    }
+
+    /// @notice The territory NFT (`RunRealmUniversal`).
+    IERC721 public immutable territories;
+
+    /// @notice ZRC-20 REALM token trades are paid in.
+    IZRC20 public immutable realmToken;
+
+    /// @notice Open listing per tokenId; `seller == address(0)` when none.
+    mapping(uint256 => Listing) public listings;
+
+    /// @notice Open offer amount per tokenId per buyer; 0 when none.
+    mapping(uint256 => mapping(address => uint256)) public offers;
+
+    event Listed(uint256 indexed tokenId, address indexed seller, uint256 price);
+    event ListingCancelled(uint256 indexed tokenId, address indexed seller);
+    event Sold(uint256 indexed tokenId, address indexed seller, address indexed buyer, uint256 price);
+    event OfferMade(uint256 indexed tokenId, address indexed buyer, uint256 amount);
+    event OfferWithdrawn(uint256 indexed tokenId, address indexed buyer);
+    event OfferAccepted(
+        uint256 indexed tokenId,
+        address indexed seller,
+        address indexed buyer,
+        uint256 amount
+    );
+
+    error NotTokenOwner(uint256 tokenId);
+    error NotListed(uint256 tokenId);
+    error NoOffer(uint256 tokenId, address buyer);
+    error PriceAboveMax(uint256 tokenId, uint256 price, uint256 maxPrice);
+    error ZeroAmount();
+
+    constructor(address _territoriesAddress, address _realmTokenAddress) {
+        require(_territoriesAddress != address(0), "RunRealmTerritoryMarketV1: zero territories");
+        require(_realmTokenAddress != address(0), "RunRealmTerritoryMarketV1: zero realm token");
+        territories = IERC721(_territoriesAddress);
+        realmToken = IZRC20(_realmTokenAddress);
+    }
+
+    /**
+     * @notice List a territory for `price` REALM, replacing any earlier listing.
+     * @dev The caller must own the token and have approved this contract
+     * for it (`approve` or `setApprovalForAll`) before anyone can `buy`.
+     */
+    function list(uint256 tokenId, uint256 price) external {
+        if (territories.ownerOf(tokenId) != msg.sender) revert NotTokenOwner(tokenId);
+        if (price == 0) revert ZeroAmount();
+        listings[tokenId] = Listing(msg.sender, price);
+        emit Listed(tokenId, msg.sender, price);
+    }
+
+    function cancelListing(uint256 tokenId) external {
+        if (listings[tokenId].seller != msg.sender) revert NotListed(tokenId);
+        delete listings[tokenId];
+        emit ListingCancelled(tokenId, msg.sender);
+    }
+
+    /**
+     * @notice Buy a listed territory at its price, if that is at most
+     * `maxPrice`. The caller must have approved the price.
+     */
+    function buy(uint256 tokenId, uint256 maxPrice) external nonReentrant {
+        Listing memory listing = listings[tokenId];
+        if (listing.seller == address(0)) revert NotListed(tokenId);
+        if (territories.ownerOf(tokenId) != listing.seller) revert NotListed(tokenId);
+        if (listing.price > maxPrice) revert PriceAboveMax(tokenId, listing.price, maxPrice);
+        delete listings[tokenId];
+        delete offers[tokenId][msg.sender];
+
+        require(
+            realmToken.transferFrom(msg.sender, listing.seller, listing.price),
+            "RunRealmTerritoryMarketV1: REALM transferFrom failed"
+        );
+        territories.safeTransferFrom(listing.seller, msg.sender, tokenId);
+
+        emit Sold(tokenId, listing.seller, msg.sender, listing.price);
+    }
+
+    /// @notice Offer `amount` REALM for a territory, replacing the caller's earlier offer.
+    function makeOffer(uint256 tokenId, uint256 amount) external {
+        if (amount == 0) revert ZeroAmount();
+        if (territories.ownerOf(tokenId) == msg.sender) revert NotTokenOwner(tokenId);
+        offers[tokenId][msg.sender] = amount;
+        emit OfferMade(tokenId, msg.sender, amount);
+    }
+
+    function withdrawOffer(uint256 tokenId) external {
+        if (offers[tokenId][msg.sender] == 0) revert NoOffer(tokenId, msg.sender);
+        delete offers[tokenId][msg.sender];
+        emit OfferWithdrawn(tokenId, msg.sender);
+    }
+
+    /**
+     * @notice Sell to `buyer` at their offer. The caller must own the
+     * token and have approved this contract for it; the buyer must
+     * have approved the amount.
+     */
+    function acceptOffer(uint256 tokenId, address buyer) external nonReentrant {
+        if (territories.ownerOf(tokenId) != msg.sender) revert NotTokenOwner(tokenId);
+        uint256 amount = offers[tokenId][buyer];
+        if (amount == 0) revert NoOffer(tokenId, buyer);
+        delete offers[tokenId][buyer];
+        delete listings[tokenId];
+
+        require(
+            realmToken.transferFrom(buyer, msg.sender, amount),
+            "RunRealmTerritoryMarketV1: REALM transferFrom failed"
+        );
+        territories.safeTransferFrom(msg.sender, buyer, tokenId);
+
+        emit OfferAccepted(tokenId, msg.sender, buyer, amount);
+    }
+}
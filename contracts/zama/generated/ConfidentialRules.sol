@@ -35,6 +35,8 @@ library ConfidentialRules {
   uint64 public constant LEVEL_DISTANCE_THRESHOLD_METERS  = uint64(10000);
 
   uint64 public constant H3_RESOLUTION                    = uint64(9);
+  uint64 public constant H3_DISTRICT_RESOLUTION           = uint64(7);
+  uint64 public constant H3_REGION_RESOLUTION             = uint64(5);
 
   // Zama fhEVM supported chain IDs (mirrors GAME_RULES.zama.supportedChainIds).
   uint256 public constant ZAMA_CHAIN_ID_0 = 11155111;
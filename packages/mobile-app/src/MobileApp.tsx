@@ -5,6 +5,20 @@
 
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { NavigationContainer } from '@react-navigation/native';
+import { ApiAuthService } from '@runrealm/shared-core/services/api-auth-service';
+import { DeviceSyncService } from '@runrealm/shared-core/services/device-sync-service';
+import {
+  type PlayerStats,
+  ProgressionService,
+} from '@runrealm/shared-core/services/progression-service';
+import {
+  RUN_HISTORY_STORAGE_KEY,
+  type RunSession,
+} from '@runrealm/shared-core/services/run-tracking-service';
+import { type Territory, TerritoryService } from '@runrealm/shared-core/services/territory-service';
+import { Web3Service } from '@runrealm/shared-core/services/web3-service';
+import { STATS_DOCUMENT_ID } from '@runrealm/shared-core/utils/device-sync';
+import { StorageAdapter } from '@runrealm/shared-core/utils/storage-adapter';
 import { useEffect, useState } from 'react';
 import MobileOnboarding from './components/MobileOnboarding';
 import { DashboardScreen } from './screens/DashboardScreen';
@@ -12,15 +26,76 @@ import { HistoryScreen } from './screens/HistoryScreen';
 import MapScreen from './screens/MapScreen';
 import { ProfileScreen } from './screens/ProfileScreen';
 import { SettingsScreen } from './screens/SettingsScreen';
+import { MobileWeb3Adapter } from './services/MobileWeb3Adapter';
 
 const Tab = createBottomTabNavigator();
 
+/** Run history as MobileRunTrackingService keeps it in storage. */
+async function readRunHistory(): Promise<RunSession[]> {
+  const stored = await StorageAdapter.getItem(RUN_HISTORY_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+/** Add or replace runs in the stored history, keeping the rest. */
+async function writeRunHistory(runs: RunSession[]): Promise<void> {
+  const synced = new Set(runs.map((r) => r.id));
+  const history = [...(await readRunHistory()).filter((r) => !synced.has(r.id)), ...runs].sort(
+    (a, b) => a.startTime - b.startTime
+  );
+  await StorageAdapter.setItem(RUN_HISTORY_STORAGE_KEY, JSON.stringify(history));
+}
+
+/**
+ * Sync run history, territories and progression with the user's other
+ * devices. Run history is read and written in storage directly, where
+ * MobileRunTrackingService saves each run: there is no RunTrackingService
+ * here holding it in memory.
+ */
+function startDeviceSync(): void {
+  const apiAuth = ApiAuthService.getInstance();
+  // Sign in to the API with the mobile wallet; Strava and run uploads share it
+  apiAuth.setWallet(new MobileWeb3Adapter(Web3Service.getInstance()));
+  const deviceSync = DeviceSyncService.getInstance();
+  const apiUrl = process.env.EXPO_PUBLIC_API_URL;
+  if (apiUrl) {
+    apiAuth.setBaseUrl(apiUrl);
+    deviceSync.setBaseUrl(apiUrl);
+  }
+  deviceSync.setApiAuth(apiAuth);
+
+  const territory = TerritoryService.getInstance();
+  const progression = ProgressionService.getInstance();
+  deviceSync.registerSource<RunSession>('run', {
+    idOf: (run) => run.id,
+    read: readRunHistory,
+    write: writeRunHistory,
+  });
+  deviceSync.registerSource<Territory>('territory', {
+    idOf: (t) => t.id,
+    read: () => territory.getClaimedTerritories(),
+    write: (territories) => territory.addSyncedTerritories(territories),
+  });
+  deviceSync.registerSource<PlayerStats>('stats', {
+    idOf: () => STATS_DOCUMENT_ID,
+    read: () => [progression.getStats()],
+    write: ([stats]) => progression.setSyncedStats(stats),
+  });
+
+  apiAuth
+    .initialize()
+    .then(() => deviceSync.initialize())
+    .catch((error) => {
+      console.error('Failed to start device sync:', error);
+    });
+}
+
 export default function MobileApp() {
   const [_showOnboarding, setShowOnboarding] = useState(false);
 
   useEffect(() => {
     // Check if onboarding should be shown
     // This will be handled by MobileOnboarding component itself
+    startDeviceSync();
   }, []);
 
   return (
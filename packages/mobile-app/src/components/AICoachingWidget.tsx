@@ -5,6 +5,7 @@
 
 import { AIService } from '@runrealm/shared-core/services/ai-service';
 import { RunSession } from '@runrealm/shared-core/services/run-tracking-service';
+import { summarizeHeartRate } from '@runrealm/shared-core/utils/heart-rate';
 import React, { useCallback, useEffect, useState } from 'react';
 import {
   ActivityIndicator,
@@ -14,6 +15,7 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import { MobilePreferenceService } from '../services/MobilePreferenceService';
 
 interface AICoachingWidgetProps {
   currentRun: RunSession | null;
@@ -63,10 +65,25 @@ export const AICoachingWidget: React.FC<AICoachingWidgetProps> = ({
         removeLastSegment: () => {},
       } as any; // Simplified object for AI service
 
-      const coaching = await aiService.getRunningCoaching(currentRunForAI, {
-        distance: 5000, // Default goal
-        timeConstraint: '30 minutes',
-      });
+      // Heart rate and cadence from a connected sensor, if any
+      const maxHeartRate = await new MobilePreferenceService().getMaxHeartRate();
+      const lastPoint = currentRun.points[currentRun.points.length - 1];
+      const physiology = {
+        heartRate: lastPoint?.heartRate,
+        cadence: lastPoint?.cadence,
+        maxHeartRate,
+        summary: summarizeHeartRate(currentRun.points, maxHeartRate),
+      };
+
+      const coaching = await aiService.getRunningCoaching(
+        currentRunForAI,
+        {
+          distance: 5000, // Default goal
+          timeConstraint: '30 minutes',
+        },
+        undefined,
+        physiology
+      );
 
       setCoachingData(coaching);
     } catch (error) {
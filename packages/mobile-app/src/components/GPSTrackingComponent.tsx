@@ -4,6 +4,7 @@
  */
 
 import { RunSession } from '@runrealm/shared-core';
+import { ApiAuthService } from '@runrealm/shared-core/services/api-auth-service';
 import * as Location from 'expo-location';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
@@ -49,7 +50,17 @@ const GPSTrackingComponent: React.FC<GPSTrackingProps> = ({ onRunStart, onRunSto
   const buttonScaleAnim = useRef(new Animated.Value(1)).current;
   const pulseAnim = useRef(new Animated.Value(1)).current;
 
-  const mobileTrackingService = useRef(new MobileRunTrackingService()).current;
+  const mobileTrackingService = useRef(
+    new MobileRunTrackingService({
+      // Uploads sign in with the wallet MobileApp hands ApiAuthService
+      sync: process.env.EXPO_PUBLIC_API_URL
+        ? {
+            apiBaseUrl: process.env.EXPO_PUBLIC_API_URL,
+            getAuthToken: () => ApiAuthService.getInstance().getAuthToken(),
+          }
+        : undefined,
+    })
+  ).current;
   const backgroundTrackingService = useRef(BackgroundTrackingService.getInstance()).current;
 
   // Visual feedback functions
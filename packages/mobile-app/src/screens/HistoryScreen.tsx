@@ -1,15 +1,26 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { RunSession } from '@runrealm/shared-core/services/run-tracking-service';
+import { exportRun, RunExportFormat } from '@runrealm/shared-core/utils/activity-file-exporters';
+import {
+  computeSplits,
+  RunSplit,
+  SPLIT_DISTANCE,
+  SplitUnit,
+  splitUnitFor,
+} from '@runrealm/shared-core/utils/splits';
 import React, { useCallback, useEffect, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   RefreshControl,
   ScrollView,
+  Share,
   StyleSheet,
   Text,
   TouchableOpacity,
   View,
 } from 'react-native';
+import { MobilePreferenceService } from '../services/MobilePreferenceService';
 
 const RUN_HISTORY_KEY = 'runrealm_run_history';
 const MAX_HISTORY_ITEMS = 100;
@@ -18,6 +29,14 @@ export const HistoryScreen: React.FC = () => {
   const [runs, setRuns] = useState<RunSession[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [splitUnit, setSplitUnit] = useState<SplitUnit>('km');
+
+  useEffect(() => {
+    new MobilePreferenceService()
+      .getUseMetric()
+      .then((useMetric) => setSplitUnit(splitUnitFor(useMetric)));
+  }, []);
 
   const loadRunHistory = useCallback(async () => {
     try {
@@ -45,6 +64,82 @@ export const HistoryScreen: React.FC = () => {
     loadRunHistory();
   }, [loadRunHistory]);
 
+  const shareRun = useCallback(async (run: RunSession, format: RunExportFormat) => {
+    try {
+      const file = exportRun(run, format);
+      await Share.share({ title: file.fileName, message: file.content });
+    } catch (error) {
+      console.error('Failed to export run:', error);
+      Alert.alert('Export failed', 'Could not export this run.');
+    }
+  }, []);
+
+  const promptExport = useCallback(
+    (run: RunSession) => {
+      if (!run.points?.length) {
+        Alert.alert('Nothing to export', 'This run has no GPS points.');
+        return;
+      }
+      Alert.alert('Export run', 'Choose a file format', [
+        { text: 'GPX', onPress: () => shareRun(run, 'gpx') },
+        { text: 'TCX', onPress: () => shareRun(run, 'tcx') },
+        { text: 'GeoJSON', onPress: () => shareRun(run, 'geojson') },
+        { text: 'Cancel', style: 'cancel' },
+      ]);
+    },
+    [shareRun]
+  );
+
+  // Stored splits are in the unit preferred when the run was recorded;
+  // older runs have none. Either way, re-split in the current unit.
+  const splitsFor = (run: RunSession): RunSplit[] => {
+    if (run.splits?.length && run.splits[0].unit === splitUnit) return run.splits;
+    return run.points?.length > 1 ? computeSplits(run.points, splitUnit) : [];
+  };
+
+  const formatPace = (secondsPerUnit: number, unit: SplitUnit): string => {
+    const minutes = Math.floor(secondsPerUnit / 60);
+    const seconds = Math.floor(secondsPerUnit % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}/${unit}`;
+  };
+
+  const renderSplits = (run: RunSession) => {
+    const splits = splitsFor(run);
+    if (splits.length === 0) {
+      return <Text style={styles.splitsEmpty}>Not enough GPS data for splits</Text>;
+    }
+    return (
+      <View style={styles.splitsList}>
+        {splits.map((split) => (
+          <View key={split.index} style={styles.splitRow}>
+            <Text style={styles.splitLabel}>
+              {split.partial
+                ? `${(split.distance / SPLIT_DISTANCE[split.unit]).toFixed(2)} ${split.unit}`
+                : `${split.index} ${split.unit}`}
+            </Text>
+            <Text
+              style={[
+                styles.splitPace,
+                split.fastest && styles.splitFastest,
+                split.slowest && styles.splitSlowest,
+              ]}
+            >
+              {formatPace(split.pace, split.unit)}
+            </Text>
+            <Text style={styles.splitElevation}>
+              {split.elevationDelta !== undefined
+                ? `${split.elevationDelta >= 0 ? '+' : ''}${Math.round(split.elevationDelta)} m`
+                : ''}
+            </Text>
+            <Text style={styles.splitMarker}>
+              {split.fastest ? '⚡' : split.slowest ? '🐢' : ''}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const formatDuration = (milliseconds: number): string => {
     const totalSeconds = Math.floor(milliseconds / 1000);
     const hours = Math.floor(totalSeconds / 3600);
@@ -107,41 +202,52 @@ export const HistoryScreen: React.FC = () => {
           <Text style={styles.emptySubtext}>Complete a run to see it here</Text>
         </View>
       ) : (
-        <View style={styles.runsList}>
-          {runs.map((run) => (
-            <TouchableOpacity key={run.id} style={styles.runCard}>
-              <View style={styles.runHeader}>
-                <Text style={styles.runDate}>{formatDate(run.startTime)}</Text>
-                {run.territoryEligible && (
-                  <View style={styles.territoryBadge}>
-                    <Text style={styles.territoryBadgeText}>🏰</Text>
-                  </View>
-                )}
-              </View>
-              <View style={styles.runStats}>
-                <View style={styles.statItem}>
-                  <Text style={styles.statValue}>{formatDistance(run.totalDistance)}</Text>
-                  <Text style={styles.statLabel}>Distance</Text>
+        <>
+          <Text style={styles.hintText}>
+            Tap a run for splits · long-press to export it as GPX, TCX or GeoJSON
+          </Text>
+          <View style={styles.runsList}>
+            {runs.map((run) => (
+              <TouchableOpacity
+                key={run.id}
+                style={styles.runCard}
+                onPress={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)}
+                onLongPress={() => promptExport(run)}
+              >
+                <View style={styles.runHeader}>
+                  <Text style={styles.runDate}>{formatDate(run.startTime)}</Text>
+                  {run.territoryEligible && (
+                    <View style={styles.territoryBadge}>
+                      <Text style={styles.territoryBadgeText}>🏰</Text>
+                    </View>
+                  )}
                 </View>
-                <View style={styles.statItem}>
-                  <Text style={styles.statValue}>{formatDuration(run.totalDuration)}</Text>
-                  <Text style={styles.statLabel}>Duration</Text>
-                </View>
-                <View style={styles.statItem}>
-                  <Text style={styles.statValue}>{(run.averageSpeed * 3.6).toFixed(1)} km/h</Text>
-                  <Text style={styles.statLabel}>Avg Speed</Text>
-                </View>
-              </View>
-              {run.externalActivity && (
-                <View style={styles.externalBadge}>
-                  <Text style={styles.externalBadgeText}>
-                    📱 {run.externalActivity.source.toUpperCase()}
-                  </Text>
+                <View style={styles.runStats}>
+                  <View style={styles.statItem}>
+                    <Text style={styles.statValue}>{formatDistance(run.totalDistance)}</Text>
+                    <Text style={styles.statLabel}>Distance</Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={styles.statValue}>{formatDuration(run.totalDuration)}</Text>
+                    <Text style={styles.statLabel}>Duration</Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={styles.statValue}>{(run.averageSpeed * 3.6).toFixed(1)} km/h</Text>
+                    <Text style={styles.statLabel}>Avg Speed</Text>
+                  </View>
                 </View>
-              )}
-            </TouchableOpacity>
-          ))}
-        </View>
+                {run.externalActivity && (
+                  <View style={styles.externalBadge}>
+                    <Text style={styles.externalBadgeText}>
+                      📱 {run.externalActivity.source.toUpperCase()}
+                    </Text>
+                  </View>
+                )}
+                {expandedRunId === run.id && renderSplits(run)}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
       )}
     </ScrollView>
   );
@@ -214,6 +320,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#999',
   },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   runsList: {
     gap: 12,
   },
@@ -267,6 +379,48 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  splitsList: {
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+    paddingTop: 8,
+  },
+  splitsEmpty: {
+    marginTop: 12,
+    fontSize: 12,
+    color: '#999',
+  },
+  splitRow: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+  },
+  splitLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#ccc',
+  },
+  splitPace: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  splitFastest: {
+    color: '#00ff88',
+  },
+  splitSlowest: {
+    color: '#ff9f43',
+  },
+  splitElevation: {
+    flex: 1,
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'right',
+  },
+  splitMarker: {
+    width: 24,
+    textAlign: 'right',
+  },
   externalBadge: {
     marginTop: 12,
     alignSelf: 'flex-start',
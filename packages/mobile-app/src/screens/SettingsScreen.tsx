@@ -1,4 +1,11 @@
+import { EventBus } from '@runrealm/shared-core/core/event-bus';
+import { ApiAuthService } from '@runrealm/shared-core/services/api-auth-service';
+import {
+  DeviceSyncService,
+  type DeviceSyncStatus,
+} from '@runrealm/shared-core/services/device-sync-service';
 import { ExternalFitnessService } from '@runrealm/shared-core/services/external-fitness-service';
+import type { TerritoryMode } from '@runrealm/shared-core/utils/loop-territory';
 import React, { useCallback, useEffect, useState } from 'react';
 import {
   Alert,
@@ -12,13 +19,38 @@ import {
 } from 'react-native';
 import { MobilePreferenceService } from '../services/MobilePreferenceService';
 
+const SYNC_LABELS: Record<DeviceSyncStatus['state'], string> = {
+  idle: 'Not synced',
+  syncing: 'Syncing…',
+  synced: 'Synced',
+  offline: 'Offline',
+  'signed-out': 'Connect your wallet to sync',
+  error: 'Sync failed',
+};
+
+const formatSyncedAt = (timestamp: number | null): string =>
+  timestamp ? new Date(timestamp).toLocaleString() : 'Never';
+
 export const SettingsScreen: React.FC = () => {
   const [units, setUnits] = useState<'metric' | 'imperial'>('metric');
   const [notifications, setNotifications] = useState(true);
   const [backgroundTracking, setBackgroundTracking] = useState(true);
+  const [territoryMode, setTerritoryMode] = useState<TerritoryMode>('loop');
   const [loading, setLoading] = useState(true);
-  const [fitnessService] = useState(() => new ExternalFitnessService());
+  const [fitnessService] = useState(() => {
+    const service = new ExternalFitnessService();
+    service.setApiAuth(ApiAuthService.getInstance());
+    return service;
+  });
   const [preferenceService] = useState(() => new MobilePreferenceService());
+  const [deviceSync] = useState(() => DeviceSyncService.getInstance());
+  const [syncStatus, setSyncStatus] = useState<DeviceSyncStatus>(() => deviceSync.getStatus());
+
+  useEffect(() => {
+    const eventBus = EventBus.getInstance();
+    eventBus.on('sync:statusChanged', setSyncStatus);
+    return () => eventBus.off('sync:statusChanged', setSyncStatus);
+  }, []);
 
   const handleLogout = useCallback(() => {
     console.error('not implemented');
@@ -70,10 +102,12 @@ export const SettingsScreen: React.FC = () => {
         const useMetric = await preferenceService.getUseMetric();
         const notificationsEnabled = await preferenceService.getNotifications();
         const backgroundTrackingEnabled = await preferenceService.getBackgroundTracking();
+        const savedTerritoryMode = await preferenceService.getTerritoryMode();
 
         setUnits(useMetric ? 'metric' : 'imperial');
         setNotifications(notificationsEnabled);
         setBackgroundTracking(backgroundTrackingEnabled);
+        setTerritoryMode(savedTerritoryMode);
       } catch (error) {
         console.error('Failed to load preferences:', error);
       } finally {
@@ -105,9 +139,15 @@ export const SettingsScreen: React.FC = () => {
     await preferenceService.saveBackgroundTracking(value);
   };
 
-  const handleStravaConnect = () => {
+  const handleTerritoryModeChange = async (value: boolean) => {
+    const mode = value ? 'loop' : 'trace';
+    setTerritoryMode(mode);
+    await preferenceService.saveTerritoryMode(mode);
+  };
+
+  const handleStravaConnect = async () => {
     try {
-      const authUrl = fitnessService.initiateStravaAuth();
+      const authUrl = await fitnessService.initiateStravaAuth();
       // Open Strava OAuth in browser - callback will be handled via deep linking
       Linking.openURL(authUrl);
     } catch (error) {
@@ -118,6 +158,14 @@ export const SettingsScreen: React.FC = () => {
     }
   };
 
+  const handleSyncNow = () => {
+    void deviceSync.syncNow();
+  };
+
+  const handleClearConflicts = () => {
+    deviceSync.clearConflicts();
+  };
+
   const handlePrivacyPolicy = () => {
     Linking.openURL('https://runrealm.xyz/privacy');
   };
@@ -165,6 +213,15 @@ export const SettingsScreen: React.FC = () => {
         </View>
       </View>
 
+      {/* Territory Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🗺️ Territory</Text>
+        <View style={styles.settingRow}>
+          <Text style={styles.settingLabel}>Claim the area inside loop runs</Text>
+          <Switch value={territoryMode === 'loop'} onValueChange={handleTerritoryModeChange} />
+        </View>
+      </View>
+
       {/* Fitness Integration Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>🏃 Fitness Integration</Text>
@@ -174,6 +231,34 @@ export const SettingsScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      {/* Sync Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🔄 Sync</Text>
+        <View style={styles.settingRow}>
+          <Text style={styles.settingLabel}>{SYNC_LABELS[syncStatus.state]}</Text>
+          <Text style={styles.settingValue}>{formatSyncedAt(syncStatus.lastSyncedAt)}</Text>
+        </View>
+        {syncStatus.error && <Text style={styles.syncError}>{syncStatus.error}</Text>}
+        {syncStatus.conflicts.map((c) => (
+          <Text key={`${c.kind}:${c.id}`} style={styles.syncConflict}>
+            {`${c.kind} ${c.id}: ${c.reason}, kept ${c.kept === 'server' ? 'the other device' : 'this device'}'s copy`}
+          </Text>
+        ))}
+        {syncStatus.conflicts.length > 0 && (
+          <TouchableOpacity style={styles.settingRow} onPress={handleClearConflicts}>
+            <Text style={styles.settingLabel}>Dismiss conflicts</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={styles.settingRow}
+          onPress={handleSyncNow}
+          disabled={syncStatus.state === 'syncing'}
+        >
+          <Text style={styles.settingLabel}>Sync now</Text>
+          <Text style={styles.settingValue}>⟳</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* About Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>ℹ️ About</Text>
@@ -245,6 +330,16 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  syncError: {
+    fontSize: 14,
+    color: '#dc3545',
+    paddingVertical: 8,
+  },
+  syncConflict: {
+    fontSize: 14,
+    color: '#b36b00',
+    paddingVertical: 4,
+  },
   logoutButton: {
     backgroundColor: '#dc3545',
     paddingVertical: 16,
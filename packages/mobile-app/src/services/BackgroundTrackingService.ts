@@ -35,6 +35,7 @@ interface RawBackgroundLocation {
     latitude: number;
     longitude: number;
     accuracy: number | null;
+    altitude?: number | null;
   };
   timestamp: number;
 }
@@ -61,6 +62,7 @@ const defineBackgroundTask = (): void => {
           lat: l.coords.latitude,
           lng: l.coords.longitude,
           accuracy: l.coords.accuracy ?? undefined,
+          altitude: l.coords.altitude ?? undefined,
           source: 'gps',
           timestamp: l.timestamp,
         }));
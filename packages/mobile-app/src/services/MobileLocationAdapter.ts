@@ -110,6 +110,7 @@ export class MobileLocationAdapter {
       lat: pos.coords.latitude,
       lng: pos.coords.longitude,
       accuracy: pos.coords.accuracy ?? undefined,
+      altitude: pos.coords.altitude ?? undefined,
       source: 'gps',
       timestamp: pos.timestamp,
     };
@@ -12,6 +12,7 @@ import {
   TerritoryMetadata,
   TerritoryPreview,
 } from '@runrealm/shared-core/services/territory-service';
+import { cellToPolygon } from '@runrealm/shared-core/utils/h3-territory';
 
 export interface MobileMapState {
   runTrail: Array<{ latitude: number; longitude: number }>;
@@ -154,13 +155,32 @@ export class MobileMapAdapter {
   }
 
   /**
-   * Draw territory (delegates to MapService, updates mobile state)
+   * Draw territory (delegates to MapService, updates mobile state). With
+   * `cells` each claimed hex becomes its own polygon.
    */
-  public drawTerritory(points: RunPoint[]): void {
+  public drawTerritory(points: RunPoint[], cells?: string[]): void {
     // Update MapService
-    this.mapService.drawTerritory(points);
+    this.mapService.drawTerritory(points, cells);
 
     // Update mobile state
+    const style = {
+      fillColor: 'rgba(0, 255, 136, 0.3)',
+      strokeColor: '#00ff88',
+      metadata: {},
+    };
+    if (cells?.length) {
+      this.state.territories = cells.map((h3Index) => ({
+        id: `current-territory-${h3Index}`,
+        coordinates: cellToPolygon(h3Index).coordinates[0].map(([longitude, latitude]) => ({
+          latitude,
+          longitude,
+        })),
+        ...style,
+      }));
+      this.notifyListeners();
+      return;
+    }
+
     const coordinates = this.convertRunPoints(points);
     // Close the polygon
     if (coordinates.length > 0) {
@@ -171,9 +191,7 @@ export class MobileMapAdapter {
       {
         id: 'current-territory',
         coordinates,
-        fillColor: 'rgba(0, 255, 136, 0.3)',
-        strokeColor: '#00ff88',
-        metadata: {},
+        ...style,
       },
     ];
     this.notifyListeners();
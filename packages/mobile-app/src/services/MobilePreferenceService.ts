@@ -4,10 +4,14 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { TerritoryMode } from '@runrealm/shared-core/utils/loop-territory';
 
 const USE_METRIC_KEY = 'runmap-use_metric';
 const NOTIFICATIONS_KEY = 'runrealm-notifications';
 const BACKGROUND_TRACKING_KEY = 'runrealm-background_tracking';
+const MAX_HEART_RATE_KEY = 'runmap-max_heart_rate';
+const DEFAULT_MAX_HEART_RATE = 190;
+const TERRITORY_MODE_KEY = 'runmap-territory_mode';
 
 export class MobilePreferenceService {
   /**
@@ -81,4 +85,53 @@ export class MobilePreferenceService {
       console.error('Failed to save background tracking preference:', error);
     }
   }
+
+  /**
+   * Get max heart rate (bpm), used for heart-rate zones
+   */
+  async getMaxHeartRate(): Promise<number> {
+    try {
+      const value = Number(await AsyncStorage.getItem(MAX_HEART_RATE_KEY));
+      return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_HEART_RATE;
+    } catch (error) {
+      console.error('Failed to get max heart rate preference:', error);
+      return DEFAULT_MAX_HEART_RATE;
+    }
+  }
+
+  /**
+   * Save max heart rate (bpm)
+   */
+  async saveMaxHeartRate(value: number): Promise<void> {
+    try {
+      await AsyncStorage.setItem(MAX_HEART_RATE_KEY, `${Math.round(value)}`);
+    } catch (error) {
+      console.error('Failed to save max heart rate preference:', error);
+    }
+  }
+
+  /**
+   * Get territory mode: 'loop' claims the area a loop run encloses,
+   * 'trace' only the cells the route passes through
+   */
+  async getTerritoryMode(): Promise<TerritoryMode> {
+    try {
+      const value = await AsyncStorage.getItem(TERRITORY_MODE_KEY);
+      return value === 'trace' ? 'trace' : 'loop'; // Default to loop
+    } catch (error) {
+      console.error('Failed to get territory mode preference:', error);
+      return 'loop';
+    }
+  }
+
+  /**
+   * Save territory mode
+   */
+  async saveTerritoryMode(value: TerritoryMode): Promise<void> {
+    try {
+      await AsyncStorage.setItem(TERRITORY_MODE_KEY, value);
+    } catch (error) {
+      console.error('Failed to save territory mode preference:', error);
+    }
+  }
 }
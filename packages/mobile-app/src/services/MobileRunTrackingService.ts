@@ -6,6 +6,8 @@
  *  - MobileLocationAdapter (expo-location foreground watcher + background flush)
  *  - BackgroundTrackingService (expo-task-manager background buffer)
  *  - RunSyncService (offline-first upload queue)
+ *  - shared GPS filter pipeline (Kalman + outlier rejection), applied to
+ *    foreground and replayed background fixes alike
  *  - expo-keep-awake (wake lock bound to recording state)
  *
  * Replaces the previous mock that emitted hardcoded NYC coordinates and never
@@ -17,9 +19,14 @@ import {
   RunSession,
   RunTrackingService,
 } from '@runrealm/shared-core/services/run-tracking-service';
+import {
+  createGpsFilterPipeline,
+  type GpsFilterOptions,
+} from '@runrealm/shared-core/utils/gps-filter';
 import { AppState, type AppStateStatus } from 'react-native';
 import { BackgroundTrackingService } from './BackgroundTrackingService';
 import { MobileLocationAdapter } from './MobileLocationAdapter';
+import { MobilePreferenceService } from './MobilePreferenceService';
 import { type RunSyncConfig, RunSyncService } from './RunSyncService';
 
 const AsyncStorage = (AsyncStorageDefault ??
@@ -41,6 +48,8 @@ try {
 export interface MobileRunTrackingConfig {
   sync?: RunSyncConfig;
   enableBackgroundOnStart?: boolean;
+  /** Overrides for the shared GPS filter, e.g. looser accuracy for older devices. */
+  gpsFilter?: GpsFilterOptions;
 }
 
 class MobileRunTrackingService {
@@ -48,11 +57,15 @@ class MobileRunTrackingService {
   private readonly backgroundTracker: BackgroundTrackingService;
   private readonly locationAdapter: MobileLocationAdapter;
   private readonly syncService: RunSyncService | null;
+  private readonly preferenceService = new MobilePreferenceService();
   private readonly enableBackgroundOnStart: boolean;
   private appStateSubscription: { remove: () => void } | null = null;
 
   constructor(config: MobileRunTrackingConfig = {}) {
     this.runTrackingService = new RunTrackingService();
+    if (config.gpsFilter) {
+      this.runTrackingService.setGpsFilter(createGpsFilterPipeline(config.gpsFilter));
+    }
     this.backgroundTracker = BackgroundTrackingService.getInstance();
     this.locationAdapter = new MobileLocationAdapter();
     this.syncService = config.sync ? new RunSyncService(config.sync) : null;
@@ -101,6 +114,7 @@ class MobileRunTrackingService {
   }
 
   async startRun(): Promise<string> {
+    await this.applyTerritoryMode();
     const runId = await this.runTrackingService.startRun();
     this.activateWakeLock();
     if (this.enableBackgroundOnStart) {
@@ -115,6 +129,7 @@ class MobileRunTrackingService {
   }
 
   async startRunWithRoute(coordinates: number[][], distance: number): Promise<string> {
+    await this.applyTerritoryMode();
     const runId = await this.runTrackingService.startRunWithRoute(coordinates, distance);
     this.activateWakeLock();
     if (this.enableBackgroundOnStart) {
@@ -164,6 +179,11 @@ class MobileRunTrackingService {
 
   // --- internals ---
 
+  /** Claim territory in the mode chosen in SettingsScreen. */
+  private async applyTerritoryMode(): Promise<void> {
+    this.runTrackingService.setTerritoryMode(await this.preferenceService.getTerritoryMode());
+  }
+
   private async afterRunComplete(session: RunSession | null): Promise<void> {
     this.deactivateWakeLock();
     try {
@@ -214,7 +234,11 @@ class MobileRunTrackingService {
     if (!run) return;
     try {
       const raw = await AsyncStorage.getItem('runrealm_run_history');
-      const history: RunSession[] = raw ? JSON.parse(raw) : [];
+      // The shared RunTrackingService persists to the same key, so the run
+      // may already be there
+      const history: RunSession[] = (raw ? JSON.parse(raw) : []).filter(
+        (r: RunSession) => r.id !== run.id
+      );
       history.push(run);
       await AsyncStorage.setItem('runrealm_run_history', JSON.stringify(history));
     } catch (e) {
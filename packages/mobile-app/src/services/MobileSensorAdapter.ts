@@ -0,0 +1,106 @@
+/**
+ * MobileSensorAdapter
+ *
+ * Bridges a Bluetooth LE heart-rate strap or running footpod to the shared
+ * SensorService, which stamps the readings onto each RunPoint.
+ *
+ * Design notes:
+ *  - The app doesn't bundle a BLE library. Whichever one is linked
+ *    (react-native-ble-plx, react-native-ble-manager, a native module)
+ *    is wrapped in a `BleTransport` and passed in, so this adapter and the
+ *    decoding it relies on stay testable without native code.
+ *  - Decoding of the standard Heart Rate and Running Speed and Cadence
+ *    characteristics is shared with the web (utils/ble-fitness.ts).
+ *  - Usage: `SensorService.getInstance().connect(new MobileSensorAdapter(transport))`.
+ */
+
+import type {
+  SensorKind,
+  SensorSample,
+  SensorSource,
+} from '@runrealm/shared-core/services/sensor-service';
+import {
+  BLE_UUIDS,
+  parseHeartRateMeasurement,
+  parseRscMeasurement,
+} from '@runrealm/shared-core/utils/ble-fitness';
+
+export interface BleDevice {
+  id: string;
+  name?: string;
+}
+
+/**
+ * The slice of a BLE library the adapter needs. UUIDs are full 128-bit
+ * strings; values are the raw characteristic bytes (decode base64 in
+ * the transport if the library hands those over).
+ */
+export interface BleTransport {
+  /** Scan for and connect to the nearest device advertising `serviceUuid`. */
+  connect(serviceUuid: string): Promise<BleDevice>;
+  /** Subscribe to notifications; returns an unsubscribe function. */
+  monitor(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    onValue: (value: Uint8Array) => void
+  ): () => void;
+  disconnect(deviceId: string): Promise<void>;
+}
+
+export class MobileSensorAdapter implements SensorSource {
+  readonly id: string;
+  readonly kinds: SensorKind[];
+  name: string;
+  private device: BleDevice | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private readonly transport: BleTransport,
+    kind: SensorKind = 'heartRate'
+  ) {
+    this.kinds = [kind];
+    this.id = `ble-${kind}`;
+    this.name = kind === 'heartRate' ? 'Bluetooth heart rate' : 'Bluetooth footpod';
+  }
+
+  async start(onSample: (sample: SensorSample) => void): Promise<void> {
+    const heartRate = this.kinds.includes('heartRate');
+    const serviceUuid = heartRate ? BLE_UUIDS.heartRateService : BLE_UUIDS.rscService;
+    const characteristicUuid = heartRate
+      ? BLE_UUIDS.heartRateMeasurement
+      : BLE_UUIDS.rscMeasurement;
+
+    this.device = await this.transport.connect(serviceUuid);
+    if (this.device.name) this.name = this.device.name;
+
+    this.unsubscribe = this.transport.monitor(
+      this.device.id,
+      serviceUuid,
+      characteristicUuid,
+      (bytes) => {
+        const value = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        try {
+          onSample(
+            heartRate
+              ? { timestamp: Date.now(), heartRate: parseHeartRateMeasurement(value).heartRate }
+              : { timestamp: Date.now(), cadence: parseRscMeasurement(value).cadence }
+          );
+        } catch (error) {
+          // Truncated notification; the next one will do
+          console.warn('MobileSensorAdapter: could not decode sensor value', error);
+        }
+      }
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.device) {
+      const { id } = this.device;
+      this.device = null;
+      await this.transport.disconnect(id);
+    }
+  }
+}
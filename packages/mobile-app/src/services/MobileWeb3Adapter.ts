@@ -177,6 +177,13 @@ export class MobileWeb3Adapter extends BaseService {
     return this.web3Service.sendTransaction(transaction);
   }
 
+  /**
+   * Sign a message, e.g. to sign in to the backend (delegates to Web3Service)
+   */
+  public async signMessage(message: string): Promise<string> {
+    return this.web3Service.signMessage(message);
+  }
+
   /**
    * Get balance (delegates to Web3Service)
    */
@@ -6,9 +6,15 @@
  * field; uploads run with exponential backoff. The mobile app remains the
  * authoritative recorder; the server only validates and writes to chain.
  *
- * Status: SCAFFOLD. The /api/runs endpoint on the server is a stub that
- * acknowledges receipt; chain submission still flows through the existing
- * web app territory-service. See server.js for the receiver.
+ * Status: SCAFFOLD. The /api/runs endpoint runs the shared anti-cheat
+ * checks (shared-core utils/run-validation.ts) and answers 422 for runs
+ * they reject, which are not retried. Uploads need a wallet session
+ * token, since the server keeps each run under the wallet that sent it:
+ * GPSTrackingComponent wires `getAuthToken` to ApiAuthService
+ * (shared-core), which MobileApp gives the MobileWeb3Adapter. Chain submission still flows through
+ * the existing web app territory-service. See server.js for the
+ * receiver. Run history itself reaches the user's other devices through
+ * the shared DeviceSyncService, which MobileApp starts.
  */
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { RunSession } from '@runrealm/shared-core/services/run-tracking-service';
@@ -59,7 +65,7 @@ export class RunSyncService {
       let mutated = false;
       for (const entry of queue) {
         if (entry.status === 'uploaded') continue;
-        if (entry.attempts >= MAX_ATTEMPTS && entry.status === 'failed') continue;
+        if (entry.status === 'failed') continue;
         if (
           entry.lastAttemptAt &&
           Date.now() - entry.lastAttemptAt < this.backoff(entry.attempts)
@@ -71,9 +77,10 @@ export class RunSyncService {
         entry.lastAttemptAt = Date.now();
         mutated = true;
         try {
-          await this.upload(entry.run);
-          entry.status = 'uploaded';
-          entry.lastError = undefined;
+          const rejection = await this.upload(entry.run);
+          // A rejected run fails for good; uploading it again won't help
+          entry.status = rejection ? 'failed' : 'uploaded';
+          entry.lastError = rejection ?? undefined;
         } catch (e) {
           entry.status = entry.attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
           entry.lastError = e instanceof Error ? e.message : String(e);
@@ -95,7 +102,8 @@ export class RunSyncService {
     return queue.filter((e) => e.status === 'pending' || e.status === 'failed').length;
   }
 
-  private async upload(run: RunSession): Promise<void> {
+  /** Resolves to the server's reasons when it rejects the run, else null. */
+  private async upload(run: RunSession): Promise<string | null> {
     const token = this.config.getAuthToken ? await this.config.getAuthToken() : null;
     const res = await fetch(`${this.config.apiBaseUrl}/api/runs`, {
       method: 'POST',
@@ -103,11 +111,17 @@ export class RunSyncService {
         'Content-Type': 'application/json',
         ...(token ? { Authorization: `Bearer ${token}` } : {}),
       },
-      body: JSON.stringify({ run }),
+      // The server claims cells in the mode the run was recorded in
+      body: JSON.stringify({ run, territoryMode: run.territoryMode }),
     });
+    if (res.status === 422) {
+      const body = await res.json().catch(() => ({}));
+      return `run rejected: ${(body.reasons ?? []).join('; ') || 'failed validation'}`;
+    }
     if (!res.ok) {
       throw new Error(`upload failed: ${res.status} ${res.statusText}`);
     }
+    return null;
   }
 
   private backoff(attempts: number): number {
@@ -91,4 +91,41 @@ describe('MobilePreferenceService', () => {
       expect(AsyncStorage.setItem).toHaveBeenCalledWith('runrealm-background_tracking', 'true');
     });
   });
+
+  describe('getMaxHeartRate', () => {
+    it('should return the stored value', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue('184');
+      const result = await service.getMaxHeartRate();
+      expect(result).toBe(184);
+      expect(AsyncStorage.getItem).toHaveBeenCalledWith('runmap-max_heart_rate');
+    });
+
+    it('should return 190 as default when no value is stored', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      const result = await service.getMaxHeartRate();
+      expect(result).toBe(190);
+    });
+  });
+
+  describe('getTerritoryMode', () => {
+    it('should return trace when stored', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue('trace');
+      const result = await service.getTerritoryMode();
+      expect(result).toBe('trace');
+      expect(AsyncStorage.getItem).toHaveBeenCalledWith('runmap-territory_mode');
+    });
+
+    it('should return loop as default when no value is stored', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      const result = await service.getTerritoryMode();
+      expect(result).toBe('loop');
+    });
+  });
+
+  describe('saveTerritoryMode', () => {
+    it('should save territory mode', async () => {
+      await service.saveTerritoryMode('trace');
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith('runmap-territory_mode', 'trace');
+    });
+  });
 });
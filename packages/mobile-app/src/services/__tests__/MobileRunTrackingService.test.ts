@@ -147,6 +147,18 @@ describe('MobileRunTrackingService', () => {
       );
     });
 
+    it('should replace a run already in history', async () => {
+      mockGetItem().mockResolvedValue(JSON.stringify([{ ...mockRunSession, totalDistance: 1 }]));
+      mockSetItem().mockResolvedValue(undefined);
+
+      await mobileService.saveRunToHistory(mockRunSession);
+
+      expect(mockSetItem()).toHaveBeenCalledWith(
+        'runrealm_run_history',
+        JSON.stringify([mockRunSession])
+      );
+    });
+
     it('should handle errors gracefully', async () => {
       mockGetItem().mockRejectedValue(new Error('Storage error'));
 
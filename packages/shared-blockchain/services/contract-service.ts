@@ -53,6 +53,22 @@ export interface TerritoryMetadata {
   crossChainHistory?: Array<{ chainId: number; timestamp: number; transactionHash?: string }>;
 }
 
+/** Receipt summary for the trade calls (gift, list, offer, accept). */
+export interface TradeReceipt {
+  transactionHash: string;
+  blockNumber: number;
+  status: number;
+}
+
+/** An open offer read back from `RunRealmTerritoryMarketV1`. */
+export interface MarketOffer {
+  tokenId: string;
+  buyer: string;
+  amountWei: string;
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
 export interface PlayerStats {
   totalDistance: number;
   territoriesOwned: number;
@@ -73,6 +89,7 @@ export class ContractService extends BaseService {
   private universalContract: any = null;
   private realmTokenContract: any = null;
   private boostContract: any = null;
+  private marketContract: any = null;
 
   constructor(web3Service: Web3Service) {
     super();
@@ -112,6 +129,7 @@ export class ContractService extends BaseService {
       const universalConfig = getContractConfig('universal');
       const realmTokenConfig = getContractConfig('realmToken');
       const boostConfig = getContractConfig('boost');
+      const marketConfig = getContractConfig('market');
 
       // Initialize Universal Contract
       this.universalContract = this.web3Service.getContract(
@@ -132,14 +150,23 @@ export class ContractService extends BaseService {
       // service rather than a confusing revert from a missing
       // contract.
       this.boostContract =
-        boostConfig.address === '0x0000000000000000000000000000000000000000'
+        boostConfig.address === ZERO_ADDRESS
           ? null
           : this.web3Service.getContract(boostConfig.address, boostConfig.abi);
 
+      // Territory market, the same way: trading is off until it's deployed
+      this.stopWatchingTrades();
+      this.marketContract =
+        marketConfig.address === ZERO_ADDRESS
+          ? null
+          : this.web3Service.getContract(marketConfig.address, marketConfig.abi);
+      this.watchTrades();
+
       console.log('ContractService: Contracts initialized successfully');
       console.log('Universal Contract:', universalConfig.address);
       console.log('REALM Token:', realmTokenConfig.address);
       console.log('Boost Contract:', boostConfig.address);
+      console.log('Market Contract:', marketConfig.address);
     } catch (error) {
       console.error('ContractService: Failed to initialize contracts:', error);
       throw error;
@@ -165,8 +192,10 @@ export class ContractService extends BaseService {
           console.error('Failed to reinitialize contracts after network change:', error);
         }
       } else {
+        this.stopWatchingTrades();
         this.universalContract = null;
         this.realmTokenContract = null;
+        this.marketContract = null;
         console.warn(
           `Wrong network: ${data.chainId}. Expected: ${getCurrentNetworkConfig().chainId}`
         );
@@ -389,6 +418,281 @@ export class ContractService extends BaseService {
     }
   }
 
+  /**
+   * Gift a territory: a plain ERC-721 `safeTransferFrom` from the
+   * connected wallet to `to`. No market contract involved, so gifting
+   * works before the market is deployed.
+   */
+  public async giftTerritory(tokenId: number | string, to: string): Promise<TradeReceipt> {
+    const from = this.requireTradingWallet();
+    if (!this.universalContract) {
+      throw new Error('Universal contract not initialized');
+    }
+    return this.sendTransaction(
+      this.universalContract,
+      CONTRACT_METHODS.universal.safeTransferFrom,
+      [from, to, tokenId],
+      'territory_gift'
+    );
+  }
+
+  /**
+   * List a territory for `priceWei` REALM. Approves the market for the
+   * wallet's territories first if it isn't already.
+   */
+  public async listTerritory(tokenId: number | string, priceWei: string): Promise<TradeReceipt> {
+    const market = this.requireMarket();
+    await this.ensureMarketApproval();
+    return this.sendTransaction(
+      market,
+      CONTRACT_METHODS.market.list,
+      [tokenId, priceWei],
+      'territory_list'
+    );
+  }
+
+  public async cancelListing(tokenId: number | string): Promise<TradeReceipt> {
+    return this.sendTransaction(
+      this.requireMarket(),
+      CONTRACT_METHODS.market.cancelListing,
+      [tokenId],
+      'territory_unlist'
+    );
+  }
+
+  /**
+   * Buy a listed territory at the `priceWei` the buyer saw; the market
+   * reverts if the listing has since gone up. Approves `priceWei` REALM
+   * to the market first.
+   */
+  public async buyTerritory(tokenId: number | string, priceWei: string): Promise<TradeReceipt> {
+    const market = this.requireMarket();
+    await this.addRealmAllowance(priceWei);
+    return this.sendTransaction(
+      market,
+      CONTRACT_METHODS.market.buy,
+      [tokenId, priceWei],
+      'territory_buy'
+    );
+  }
+
+  /**
+   * Offer `amountWei` REALM for a territory. The REALM stays in the
+   * wallet; the market is approved for it and pulls it on acceptance.
+   */
+  public async makeOffer(tokenId: number | string, amountWei: string): Promise<TradeReceipt> {
+    const market = this.requireMarket();
+    await this.addRealmAllowance(amountWei);
+    return this.sendTransaction(
+      market,
+      CONTRACT_METHODS.market.makeOffer,
+      [tokenId, amountWei],
+      'territory_offer'
+    );
+  }
+
+  public async withdrawOffer(tokenId: number | string): Promise<TradeReceipt> {
+    return this.sendTransaction(
+      this.requireMarket(),
+      CONTRACT_METHODS.market.withdrawOffer,
+      [tokenId],
+      'territory_offer_withdraw'
+    );
+  }
+
+  /** Sell to `buyer` at their open offer. */
+  public async acceptOffer(tokenId: number | string, buyer: string): Promise<TradeReceipt> {
+    const market = this.requireMarket();
+    await this.ensureMarketApproval();
+    return this.sendTransaction(
+      market,
+      CONTRACT_METHODS.market.acceptOffer,
+      [tokenId, buyer],
+      'territory_offer_accept'
+    );
+  }
+
+  /**
+   * Open offers on a territory: every buyer who ever made one, per the
+   * `OfferMade` log, whose offer is still standing in the contract.
+   */
+  public async getOffers(tokenId: number | string): Promise<MarketOffer[]> {
+    if (!this.marketContract) return [];
+    try {
+      const made = await this.marketContract.queryFilter(
+        this.marketContract.filters[CONTRACT_EVENTS.market.OfferMade](tokenId)
+      );
+      const buyers = [...new Set<string>(made.map((log: any) => log.args.buyer))];
+      const offers = await Promise.all(
+        buyers.map(async (buyer) => ({
+          tokenId: tokenId.toString(),
+          buyer,
+          amountWei: (
+            await this.marketContract[CONTRACT_METHODS.market.offers](tokenId, buyer)
+          ).toString(),
+        }))
+      );
+      return offers.filter((offer) => offer.amountWei !== '0');
+    } catch (error) {
+      console.warn('ContractService: getOffers failed:', error);
+      return [];
+    }
+  }
+
+  private requireTradingWallet(): string {
+    const address = this.web3Service.getCurrentWallet()?.address;
+    if (!address || !this.web3Service.isConnected()) {
+      throw new Error('Wallet not connected');
+    }
+    return address;
+  }
+
+  private requireMarket(): any {
+    this.requireTradingWallet();
+    if (!this.marketContract) {
+      throw new Error(
+        'Market contract not deployed. Set RUNREALM_MARKET_ADDRESS in env and reconnect wallet.'
+      );
+    }
+    return this.marketContract;
+  }
+
+  private async ensureMarketApproval(): Promise<void> {
+    const owner = this.requireTradingWallet();
+    const operator = getContractConfig('market').address;
+    const approved = await this.universalContract[CONTRACT_METHODS.universal.isApprovedForAll](
+      owner,
+      operator
+    );
+    if (approved) return;
+    await this.sendTransaction(
+      this.universalContract,
+      CONTRACT_METHODS.universal.setApprovalForAll,
+      [operator, true],
+      'territory_market_approval'
+    );
+  }
+
+  /**
+   * Raise the market's REALM allowance by `amountWei`. Every open offer
+   * draws on the one allowance, so a new offer or buy adds to it rather
+   * than replacing what earlier offers still count on.
+   */
+  private async addRealmAllowance(amountWei: string): Promise<void> {
+    const owner = this.requireTradingWallet();
+    if (!this.realmTokenContract) {
+      throw new Error('Realm token contract not initialized');
+    }
+    const spender = getContractConfig('market').address;
+    const allowance = await this.realmTokenContract[CONTRACT_METHODS.realmToken.allowance](
+      owner,
+      spender
+    );
+    await this.sendTransaction(
+      this.realmTokenContract,
+      CONTRACT_METHODS.realmToken.approve,
+      [spender, (BigInt(allowance) + BigInt(amountWei)).toString()],
+      'realm_approval'
+    );
+  }
+
+  /** Estimate with a 20% buffer, send, announce, and wait one block. */
+  private async sendTransaction(
+    contract: any,
+    method: string,
+    args: unknown[],
+    type: string
+  ): Promise<TradeReceipt> {
+    const gasEstimate = await contract[method].estimateGas(...args);
+    const gasLimit = Math.ceil(Number(gasEstimate) * 1.2);
+    const tx = await contract[method](...args, { gasLimit });
+
+    this.safeEmit('web3:transactionSubmitted', { hash: tx.hash, type });
+
+    const receipt = await tx.wait(1);
+    if (receipt.status === 1) {
+      this.safeEmit('web3:transactionConfirmed', {
+        hash: tx.hash,
+        blockNumber: receipt.blockNumber,
+      });
+    }
+    return {
+      transactionHash: tx.hash,
+      blockNumber: receipt.blockNumber,
+      status: receipt.status,
+    };
+  }
+
+  /**
+   * Follow ownership and the market on-chain. Every territory move, gift
+   * or sale, is an ERC-721 `Transfer` and becomes `territory:transferred`;
+   * mints are left to the claim flow. Offers and listings become their
+   * own events so `TerritoryService` can keep its book current.
+   */
+  private watchTrades(): void {
+    const chainId = getCurrentNetworkConfig().chainId;
+    const hashOf = (event: any): string | undefined => event?.log?.transactionHash;
+
+    if (this.universalContract && typeof this.universalContract.on === 'function') {
+      this.universalContract.on(
+        CONTRACT_EVENTS.universal.Transfer,
+        (from: string, to: string, tokenId: bigint, event: any) => {
+          if (from === ZERO_ADDRESS) return;
+          this.safeEmit('territory:transferred', {
+            tokenId: tokenId.toString(),
+            from,
+            to,
+            chainId,
+            transactionHash: hashOf(event),
+          });
+        }
+      );
+    }
+
+    if (!this.marketContract || typeof this.marketContract.on !== 'function') return;
+    this.marketContract.on(
+      CONTRACT_EVENTS.market.OfferMade,
+      (tokenId: bigint, buyer: string, amount: bigint, event: any) => {
+        this.safeEmit('territory:offerMade', {
+          tokenId: tokenId.toString(),
+          buyer,
+          amountWei: amount.toString(),
+          transactionHash: hashOf(event),
+        });
+      }
+    );
+    this.marketContract.on(
+      CONTRACT_EVENTS.market.OfferWithdrawn,
+      (tokenId: bigint, buyer: string) => {
+        this.safeEmit('territory:offerWithdrawn', { tokenId: tokenId.toString(), buyer });
+      }
+    );
+    this.marketContract.on(
+      CONTRACT_EVENTS.market.Listed,
+      (tokenId: bigint, seller: string, price: bigint) => {
+        this.safeEmit('territory:listed', {
+          tokenId: tokenId.toString(),
+          seller,
+          priceWei: price.toString(),
+        });
+      }
+    );
+    this.marketContract.on(
+      CONTRACT_EVENTS.market.ListingCancelled,
+      (tokenId: bigint, seller: string) => {
+        this.safeEmit('territory:listingCancelled', { tokenId: tokenId.toString(), seller });
+      }
+    );
+  }
+
+  private stopWatchingTrades(): void {
+    for (const contract of [this.universalContract, this.marketContract]) {
+      if (contract && typeof contract.removeAllListeners === 'function') {
+        contract.removeAllListeners();
+      }
+    }
+  }
+
   /**
    * Phase 3 — convenience wrapper for legacy callers that expected
    * the old `Promise<string>` return shape (Phase 2 signature). The
@@ -705,6 +1009,15 @@ export class ContractService extends BaseService {
     return this.boostContract !== null;
   }
 
+  /**
+   * True when `RunRealmTerritoryMarketV1` is initialised (i.e.
+   * `RUNREALM_MARKET_ADDRESS` is set in env). Gifting doesn't need it;
+   * listings and offers do.
+   */
+  public isMarketReady(): boolean {
+    return this.marketContract !== null;
+  }
+
   /**
    * Check if we're on the correct network
    */
@@ -735,8 +1048,10 @@ export class ContractService extends BaseService {
   }
 
   protected async onDestroy(): Promise<void> {
+    this.stopWatchingTrades();
     this.universalContract = null;
     this.realmTokenContract = null;
     this.boostContract = null;
+    this.marketContract = null;
   }
 }
@@ -1,11 +1,13 @@
 import { BaseService } from '../core/base-service';
-import { RunSession } from '../services/run-tracking-service';
+import type { RunLap, RunWorkout } from '../services/run-tracking-service';
 import {
   formatDuration,
   formatPace,
   formatSpeed,
   getFormattedDistance,
 } from '../utils/distance-formatter';
+import type { IntentProgress } from '../utils/intent-progress';
+import type { WorkoutStep } from '../utils/workout-plan';
 
 export interface RunStats {
   distance: number; // meters
@@ -26,13 +28,17 @@ export class EnhancedRunControls extends BaseService {
   private currentStats: RunStats | null = null;
   private isRecording = false;
   private isPaused = false;
+  private isAutoPaused = false;
   private startTime: number = 0;
+  private pausedAt: number | null = null; // manual or auto pause in progress
+  private pausedTotal = 0; // completed pauses, excluded from the timer
   private updateInterval: number | null = null;
   private boundClickHandler: (event: Event) => void;
 
   // Guards to avoid duplicate rendering and ensure idempotency
   private widgetInitialized = false;
   private standaloneActive = false;
+  private intentOffRoute = false;
 
   constructor() {
     super();
@@ -93,6 +99,14 @@ export class EnhancedRunControls extends BaseService {
       this.handleRunResumed(data);
     });
 
+    this.subscribe('run:autoPaused', (data) => {
+      this.handleRunAutoPaused(data);
+    });
+
+    this.subscribe('run:autoResumed', (data) => {
+      this.handleRunAutoResumed(data);
+    });
+
     this.subscribe('run:completed', (data) => {
       this.handleRunCompleted(data);
     });
@@ -144,6 +158,42 @@ export class EnhancedRunControls extends BaseService {
       this.addLapToList(data.lap);
     });
 
+    this.subscribe('workout:stepStarted', (data) => {
+      this.showFeedback(`${data.step.label} — ${this.describeWorkoutStep(data.step)}`, 'info');
+    });
+
+    this.subscribe('workout:paceAlert', (data) => {
+      this.showFeedback(
+        data.status === 'tooSlow'
+          ? '⬆️ Pick it up — behind target pace'
+          : '⬇️ Ease off — ahead of target pace',
+        'warning'
+      );
+    });
+
+    this.subscribe('territory:intentProgress', (data) => {
+      this.renderIntentProgress(data.intent.metadata.name, data.progress);
+      if (data.progress.offRoute && !this.intentOffRoute) {
+        this.showFeedback(
+          `↩️ ${Math.round(data.progress.deviation ?? 0)} m off your planned route`,
+          'warning'
+        );
+      }
+      this.intentOffRoute = data.progress.offRoute;
+    });
+
+    this.subscribe('territory:intentCompleted', (data) => {
+      this.renderIntentProgress(data.intent.metadata.name, data.progress);
+      this.showFeedback(`🎯 ${data.intent.metadata.name} covered — ready to claim!`, 'success');
+      this.hapticFeedback('heavy');
+    });
+
+    this.subscribe('territory:intentExpired', (data) => {
+      if (!data.runId) return;
+      this.hideIntentProgress();
+      this.showFeedback(`⌛ Your plan for ${data.intent.metadata.name} expired`, 'warning');
+    });
+
     this.subscribe('territory:eligible', (data) => {
       this.showTerritoryEligibleNotification(data);
       // Add haptic feedback for territory eligibility
@@ -156,7 +206,7 @@ export class EnhancedRunControls extends BaseService {
         if (currentRun) {
           const mapService = this.getMapService();
           if (mapService) {
-            mapService.drawTerritory(currentRun.points);
+            mapService.drawTerritory(currentRun.points, currentRun.h3Cells);
           }
         }
       }
@@ -318,6 +368,10 @@ export class EnhancedRunControls extends BaseService {
         <ul id="splits-list"></ul>
       </div>
 
+      <div id="workout-breakdown" class="workout-breakdown" style="display: none;"></div>
+
+      <div id="intent-progress" class="intent-progress" style="display: none;"></div>
+
       <div class="run-controls">
         ${this.renderControlButtons()}
       </div>
@@ -488,13 +542,13 @@ export class EnhancedRunControls extends BaseService {
     this.safeEmit('run:lapRequested', {});
   }
 
-  private addLapToList(lap: { number: number; distance: number; time: number }): void {
+  private addLapToList(lap: RunLap): void {
     const splitsList = document.getElementById('splits-list');
     if (!splitsList) return;
 
     const lapElement = document.createElement('li');
     lapElement.innerHTML = `
-      <span class="lap-number">Lap ${lap.number}</span>
+      <span class="lap-number">${lap.label ?? `Lap ${lap.lapNumber}`}</span>
       <span class="lap-distance">${this.formatDistance(lap.distance)}</span>
       <span class="lap-time">${this.formatDuration(lap.time)}</span>
     `;
@@ -504,6 +558,94 @@ export class EnhancedRunControls extends BaseService {
     splitsList.scrollTop = splitsList.scrollHeight;
   }
 
+  private describeWorkoutStep(step: WorkoutStep): string {
+    const length =
+      step.distance !== undefined
+        ? this.formatDistance(step.distance)
+        : step.duration !== undefined
+          ? this.formatDuration(step.duration)
+          : 'until lap';
+    const target = step.targetPace
+      ? ` @ ${this.formatTargetPace(step.targetPace.fastest)}–${this.formatTargetPace(step.targetPace.slowest)}`
+      : '';
+    return `${length}${target}`;
+  }
+
+  private formatTargetPace(secondsPerKm: number): string {
+    return this.formatPace(1000 / secondsPerKm);
+  }
+
+  /**
+   * Post-run table of each workout step against its target pace
+   */
+  private renderWorkoutBreakdown(workout: RunWorkout): void {
+    const container = document.getElementById('workout-breakdown');
+    if (!container) return;
+
+    const statusIcon: Record<string, string> = {
+      onTarget: '✅',
+      tooFast: '⏫',
+      tooSlow: '⏬',
+      noTarget: '',
+    };
+    const rows = workout.intervals
+      .map(
+        (interval) => `
+        <tr class="interval-${interval.kind}${interval.completed ? '' : ' interval-partial'}">
+          <td>${interval.label}</td>
+          <td>${this.formatDistance(interval.distance)}</td>
+          <td>${this.formatDuration(interval.duration)}</td>
+          <td>${interval.pace !== null ? this.formatTargetPace(interval.pace) : '--:--'}</td>
+          <td>${statusIcon[interval.status]}</td>
+        </tr>`
+      )
+      .join('');
+
+    container.innerHTML = `
+      <h4>${workout.name}${workout.completed ? '' : ' (incomplete)'}</h4>
+      <table>
+        <thead><tr><th>Step</th><th>Dist</th><th>Time</th><th>Pace</th><th></th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+    `;
+    container.style.display = 'block';
+  }
+
+  private hideWorkoutBreakdown(): void {
+    const container = document.getElementById('workout-breakdown');
+    if (container) {
+      container.style.display = 'none';
+      container.innerHTML = '';
+    }
+  }
+
+  /**
+   * Live coverage of the territory intent the run is working on
+   */
+  private renderIntentProgress(name: string, progress: IntentProgress): void {
+    const container = document.getElementById('intent-progress');
+    if (!container) return;
+
+    const route =
+      progress.checkpointsTotal > 0
+        ? ` · ${progress.offRoute ? `⚠️ ${Math.round(progress.deviation ?? 0)} m off route` : 'on route'}`
+        : '';
+    container.innerHTML = `
+      <div class="intent-name">🎯 ${name}: ${progress.percentComplete}%</div>
+      <div class="intent-bar"><div style="width: ${progress.percentComplete}%"></div></div>
+      <div class="intent-detail">${progress.cellsCovered}/${progress.cellsTotal} cells${route}</div>
+    `;
+    container.style.display = 'block';
+  }
+
+  private hideIntentProgress(): void {
+    const container = document.getElementById('intent-progress');
+    if (container) {
+      container.style.display = 'none';
+      container.innerHTML = '';
+    }
+  }
+
   private async startRun(): Promise<void> {
     try {
       console.log('EnhancedRunControls: Starting run...');
@@ -597,10 +739,16 @@ export class EnhancedRunControls extends BaseService {
   private handleRunStarted(_data: any): void {
     this.isRecording = true;
     this.isPaused = false;
+    this.isAutoPaused = false;
     this.startTime = Date.now();
+    this.pausedAt = null;
+    this.pausedTotal = 0;
     this.startRealTimeUpdates();
     this.updateDisplay();
     this.showFeedback('🏃‍♂️ Run started! GPS tracking active.', 'success');
+    this.hideWorkoutBreakdown();
+    this.hideIntentProgress();
+    this.intentOffRoute = false;
 
     const splitsContainer = document.getElementById('run-splits-container');
     if (splitsContainer) {
@@ -616,6 +764,9 @@ export class EnhancedRunControls extends BaseService {
   private handleRunPaused(_data: any): void {
     this.isRecording = false;
     this.isPaused = true;
+    // A manual pause during an auto-pause keeps the earlier start.
+    this.isAutoPaused = false;
+    this.pausedAt ??= Date.now();
     this.stopRealTimeUpdates();
     this.updateDisplay();
     this.showFeedback('⏸️ Run paused', 'info');
@@ -624,14 +775,37 @@ export class EnhancedRunControls extends BaseService {
   private handleRunResumed(_data: any): void {
     this.isRecording = true;
     this.isPaused = false;
+    this.endPause(Date.now());
     this.startRealTimeUpdates();
     this.updateDisplay();
     this.showFeedback('▶️ Run resumed', 'success');
   }
 
+  private handleRunAutoPaused(data: { timestamp: number }): void {
+    this.isAutoPaused = true;
+    this.pausedAt = data.timestamp;
+    this.updateDisplay();
+    this.showFeedback('⏸️ Auto-paused — resumes when you start moving', 'info');
+  }
+
+  private handleRunAutoResumed(data: { timestamp: number }): void {
+    this.isAutoPaused = false;
+    this.endPause(data.timestamp);
+    this.updateDisplay();
+    this.showFeedback('▶️ Moving again — run resumed', 'success');
+  }
+
+  private endPause(at: number): void {
+    if (this.pausedAt !== null) {
+      this.pausedTotal += Math.max(0, at - this.pausedAt);
+      this.pausedAt = null;
+    }
+  }
+
   private handleRunCompleted(data: any): void {
     this.isRecording = false;
     this.isPaused = false;
+    this.isAutoPaused = false;
     this.stopRealTimeUpdates();
     this.updateDisplay();
 
@@ -647,6 +821,10 @@ export class EnhancedRunControls extends BaseService {
       this.showFeedback(`✅ Run completed! ${distance} in ${duration}.`, 'success');
     }
 
+    if (data.run.workout) {
+      this.renderWorkoutBreakdown(data.run.workout);
+    }
+
     const splitsContainer = document.getElementById('run-splits-container');
     if (splitsContainer) {
       splitsContainer.style.display = 'none';
@@ -665,6 +843,7 @@ export class EnhancedRunControls extends BaseService {
   private handleRunCancelled(_data: any): void {
     this.isRecording = false;
     this.isPaused = false;
+    this.isAutoPaused = false;
     this.currentStats = null;
     this.stopRealTimeUpdates();
     this.updateDisplay();
@@ -706,14 +885,14 @@ export class EnhancedRunControls extends BaseService {
 
   private startRealTimeUpdates(): void {
     this.updateInterval = window.setInterval(() => {
-      if (this.isRecording && this.currentStats) {
+      if (this.isRecording && !this.isAutoPaused && this.currentStats) {
         const currentTime = Date.now();
-        const elapsedTime = currentTime - this.startTime;
+        const movingTime = currentTime - this.startTime - this.pausedTotal;
 
         // Update duration display
         const durationEl = this.container?.querySelector('#duration-display');
         if (durationEl) {
-          durationEl.textContent = this.formatDuration(elapsedTime);
+          durationEl.textContent = this.formatDuration(movingTime);
         }
       }
     }, 1000);
@@ -892,6 +1071,54 @@ export class EnhancedRunControls extends BaseService {
         border: 1px solid rgba(255, 255, 255, 0.1);
       }
 
+      .run-status.auto-paused {
+        color: #ffaa00;
+        animation: auto-paused-blink 1.5s ease-in-out infinite;
+      }
+
+      @keyframes auto-paused-blink {
+        50% { opacity: 0.5; }
+      }
+
+      .workout-breakdown table {
+        width: 100%;
+        font-size: 12px;
+        border-collapse: collapse;
+        margin-bottom: 12px;
+      }
+
+      .workout-breakdown th,
+      .workout-breakdown td {
+        padding: 4px;
+        text-align: left;
+      }
+
+      .workout-breakdown .interval-work {
+        color: #00ff88;
+      }
+
+      .workout-breakdown .interval-partial {
+        opacity: 0.6;
+      }
+
+      .intent-progress {
+        font-size: 12px;
+        margin-bottom: 12px;
+      }
+
+      .intent-progress .intent-bar {
+        height: 4px;
+        margin: 4px 0;
+        background: rgba(255, 255, 255, 0.15);
+        border-radius: 2px;
+      }
+
+      .intent-progress .intent-bar div {
+        height: 100%;
+        background: #00ff88;
+        border-radius: 2px;
+      }
+
       .run-stats {
         display: flex;
         flex-direction: column;
@@ -1218,12 +1445,14 @@ export class EnhancedRunControls extends BaseService {
   }
 
   private getStatusClass(): string {
+    if (this.isRecording && this.isAutoPaused) return 'auto-paused';
     if (this.isRecording) return 'recording';
     if (this.isPaused) return 'paused';
     return 'idle';
   }
 
   private getStatusText(): string {
+    if (this.isRecording && this.isAutoPaused) return 'Auto-paused';
     if (this.isRecording) return 'Recording';
     if (this.isPaused) return 'Paused';
     return 'Ready';
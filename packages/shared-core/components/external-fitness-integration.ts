@@ -1,7 +1,9 @@
+import { GAME_RULES } from '../config/game-rules';
 import { BaseService } from '../core/base-service';
 import { ExternalFitnessService } from '../services/external-fitness-service';
 import { ExternalActivity } from '../services/run-tracking-service';
 import { TerritoryPreview } from '../services/territory-service';
+import { TERRITORY_LOOP_CLOSURE_METERS } from '../utils/territory-eligibility';
 
 export class ExternalFitnessIntegration extends BaseService {
   private container: HTMLElement;
@@ -41,6 +43,16 @@ export class ExternalFitnessIntegration extends BaseService {
               <div class="service-status">Connect</div>
             </div>
             
+            <div class="service-card file-import" data-source="file">
+              <div class="service-icon">📂</div>
+              <div class="service-info">
+                <h4>Watch File</h4>
+                <p>Import GPX, TCX or FIT</p>
+              </div>
+              <div class="service-status">Choose</div>
+              <input class="activity-file-input" type="file" accept=".gpx,.tcx,.fit" style="display: none;" />
+            </div>
+
             <div class="service-card coming-soon">
               <div class="service-icon">⌚</div>
               <div class="service-info">
@@ -71,9 +83,18 @@ export class ExternalFitnessIntegration extends BaseService {
     const closeBtn = portal.querySelector('.portal-close') as HTMLButtonElement;
     const stravaCard = portal.querySelector('.service-card.strava') as HTMLElement;
     const loadMoreBtn = portal.querySelector('.load-more-btn') as HTMLButtonElement;
+    const fileCard = portal.querySelector('.service-card.file-import') as HTMLElement;
+    const fileInput = portal.querySelector('.activity-file-input') as HTMLInputElement;
 
     closeBtn.addEventListener('click', () => this.hide());
     stravaCard.addEventListener('click', () => this.connectStrava());
+    fileCard.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('click', (e) => e.stopPropagation());
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (file) this.importActivityFile(file);
+    });
     loadMoreBtn.addEventListener('click', () => this.loadMoreActivities());
 
     // Listen for fitness service events
@@ -121,7 +142,7 @@ export class ExternalFitnessIntegration extends BaseService {
     stravaCard.classList.add('connecting');
 
     try {
-      const authUrl = this.fitnessService.initiateStravaAuth();
+      const authUrl = await this.fitnessService.initiateStravaAuth();
 
       // Open OAuth window
       const authWindow = window.open(
@@ -380,7 +401,7 @@ export class ExternalFitnessIntegration extends BaseService {
         previewBtn.setAttribute('disabled', 'true');
         previewBtn.setAttribute(
           'title',
-          'This run is not eligible for territory claiming. Runs must be at least 500m and start and end in a similar location.'
+          `This run is not eligible for territory claiming: ${runSession.territoryReasons?.join('; ') ?? 'it did not pass'}. Runs must be at least ${GAME_RULES.territory.minDistanceMeters}m, finish within ${TERRITORY_LOOP_CLOSURE_METERS}m of where they started and pass run validation, which needs a timestamp on every point. Strava imports carry only the route, so to claim this one import its GPX or FIT file.`
         );
       }
     } catch (error) {
@@ -391,6 +412,44 @@ export class ExternalFitnessIntegration extends BaseService {
     }
   }
 
+  /**
+   * Import a GPX/TCX/FIT file through RunTrackingService and report the
+   * territory eligibility of the resulting run on the file card.
+   */
+  private async importActivityFile(file: File): Promise<void> {
+    const fileCard = this.container.querySelector('.service-card.file-import') as HTMLElement;
+    const status = fileCard.querySelector('.service-status') as HTMLElement;
+    const runTrackingService = this.getSiblingService('RunTrackingService');
+
+    if (!runTrackingService) {
+      this.showError('Run tracking is not available');
+      return;
+    }
+
+    status.textContent = 'Importing...';
+    fileCard.classList.add('connecting');
+
+    try {
+      const buffer = await file.arrayBuffer();
+      const runSession = await runTrackingService.importActivityFile(buffer, file.name);
+      const distanceKm = (runSession.totalDistance / 1000).toFixed(1);
+
+      status.textContent = runSession.territoryEligible ? '✓ Claimable' : '✓ Imported';
+      this.safeEmit('ui:toast', {
+        message: runSession.territoryEligible
+          ? `Imported ${distanceKm}km run — territory eligible!`
+          : `Imported ${distanceKm}km run, no territory: ${runSession.territoryReasons?.join('; ') ?? 'not eligible'}`,
+        type: runSession.territoryEligible ? 'success' : 'info',
+      });
+    } catch (error) {
+      console.error('Failed to import activity file:', error);
+      status.textContent = 'Failed';
+      this.showError(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      fileCard.classList.remove('connecting');
+    }
+  }
+
   private showError(message: string): void {
     const errorContainer = this.container.querySelector('.portal-content');
     if (!errorContainer) return;
@@ -0,0 +1,268 @@
+import { BaseService } from '../core/base-service';
+import { LeaderboardService, type LeaderboardSnapshot } from '../services/leaderboard-service';
+import { type LeaderboardEntry, type LeaderboardMetric, ownerColor } from '../utils/leaderboard';
+
+const METRICS: Array<{ metric: LeaderboardMetric; label: string }> = [
+  { metric: 'cells', label: 'Cells' },
+  { metric: 'area', label: 'Area' },
+  { metric: 'activity', label: 'Activity' },
+];
+
+const MAX_ROWS = 20;
+
+/**
+ * Neighbourhood leaderboard widget: ranked owners around the runner with
+ * metric tabs and a text filter. Clicking an owner narrows the map's
+ * ownership choropleth to their cells; clicking them again clears it.
+ */
+export class LeaderboardWidget extends BaseService {
+  private leaderboard = LeaderboardService.getInstance();
+  private widgetInitialized = false;
+  private query = '';
+  private boundClickHandler: (event: Event) => void;
+  private boundInputHandler: (event: Event) => void;
+
+  constructor() {
+    super();
+    this.boundClickHandler = this.handleClick.bind(this);
+    this.boundInputHandler = this.handleInput.bind(this);
+  }
+
+  protected async onInitialize(): Promise<void> {
+    this.subscribe('leaderboard:updated', () => this.render());
+    this.safeEmit('service:initialized', { service: 'LeaderboardWidget', success: true });
+  }
+
+  /**
+   * Initialize widget after MainUI is ready
+   */
+  public initializeWidget(): void {
+    if (this.widgetInitialized) return;
+    const widgetSystem = this.getWidgetSystem();
+    if (!widgetSystem) {
+      console.warn('[Leaderboard] WidgetSystem not found; leaderboard widget not shown.');
+      return;
+    }
+
+    widgetSystem.registerWidget({
+      id: 'leaderboard',
+      title: 'Neighbourhood',
+      icon: '🏆',
+      position: 'top-right',
+      minimized: true,
+      priority: 6,
+      content: this.getWidgetContent(),
+    });
+    this.widgetInitialized = true;
+    this.addWidgetStyles();
+
+    document.removeEventListener('click', this.boundClickHandler);
+    document.removeEventListener('input', this.boundInputHandler);
+    document.addEventListener('click', this.boundClickHandler);
+    document.addEventListener('input', this.boundInputHandler);
+    this.registerCleanup(() => {
+      document.removeEventListener('click', this.boundClickHandler);
+      document.removeEventListener('input', this.boundInputHandler);
+    });
+  }
+
+  private getWidgetSystem(): any {
+    return (
+      (window as any).runRealmApp?.mainUI?.widgetSystem ||
+      (window as any).RunRealm?.mainUI?.widgetSystem ||
+      null
+    );
+  }
+
+  private render(): void {
+    if (!this.widgetInitialized) return;
+    this.getWidgetSystem()?.updateWidget('leaderboard', this.getWidgetContent());
+  }
+
+  private getWidgetContent(): string {
+    const snapshot = this.leaderboard.getSnapshot();
+    const metric = this.leaderboard.getMetric();
+    const tabs = METRICS.map(
+      (m) =>
+        `<button class="leaderboard-tab${m.metric === metric ? ' active' : ''}" data-metric="${m.metric}">${m.label}</button>`
+    ).join('');
+
+    return `
+      <div class="leaderboard-widget">
+        <div class="leaderboard-tabs">${tabs}</div>
+        <input id="leaderboard-filter" class="leaderboard-filter" type="search"
+          placeholder="Filter runners" value="${escapeHtml(this.query)}" />
+        <div id="leaderboard-rows">${this.getRows(snapshot)}</div>
+      </div>
+    `;
+  }
+
+  private getRows(snapshot: LeaderboardSnapshot | null): string {
+    if (!snapshot) {
+      return '<div class="leaderboard-empty">Waiting for your location…</div>';
+    }
+    const query = this.query.trim().toLowerCase();
+    const entries = snapshot.entries.filter((e) => !query || e.owner.includes(query));
+    if (entries.length === 0) {
+      return `<div class="leaderboard-empty">${
+        snapshot.entries.length ? 'No runners match' : 'Nobody holds territory around here yet'
+      }</div>`;
+    }
+
+    const filter = this.leaderboard.getOwnerFilter();
+    const me = this.getWalletSnapshot()?.address.toLowerCase();
+    return entries
+      .slice(0, MAX_ROWS)
+      .map(
+        (entry) => `
+        <div class="leaderboard-row${entry.owner === filter ? ' selected' : ''}${
+          entry.owner === me ? ' mine' : ''
+        }" data-owner="${escapeHtml(entry.owner)}">
+          <span class="leaderboard-rank">${entry.rank}</span>
+          <span class="leaderboard-swatch" style="background: ${ownerColor(entry.owner)}"></span>
+          <span class="leaderboard-owner">${entry.owner === me ? 'You' : escapeHtml(shortOwner(entry.owner))}</span>
+          <span class="leaderboard-score">${formatScore(entry, snapshot.metric)}</span>
+        </div>
+      `
+      )
+      .join('');
+  }
+
+  private handleClick(event: Event): void {
+    const target = event.target as HTMLElement;
+    if (!target.closest('#widget-leaderboard')) return;
+
+    const tab = target.closest('[data-metric]') as HTMLElement | null;
+    if (tab?.dataset.metric) {
+      event.preventDefault();
+      this.leaderboard.setMetric(tab.dataset.metric as LeaderboardMetric);
+      this.render();
+      return;
+    }
+
+    const row = target.closest('[data-owner]') as HTMLElement | null;
+    if (row?.dataset.owner) {
+      event.preventDefault();
+      const owner = row.dataset.owner;
+      this.leaderboard.setOwnerFilter(this.leaderboard.getOwnerFilter() === owner ? null : owner);
+      this.renderRows();
+    }
+  }
+
+  private handleInput(event: Event): void {
+    const target = event.target as HTMLInputElement;
+    if (target.id !== 'leaderboard-filter') return;
+    this.query = target.value;
+    // Only the rows: redrawing the whole widget would drop the input's focus
+    this.renderRows();
+  }
+
+  private renderRows(): void {
+    const rows = document.getElementById('leaderboard-rows');
+    if (rows) rows.innerHTML = this.getRows(this.leaderboard.getSnapshot());
+  }
+
+  private addWidgetStyles(): void {
+    if (document.querySelector('#leaderboard-widget-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'leaderboard-widget-styles';
+    style.textContent = `
+      .leaderboard-widget {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        min-width: 220px;
+      }
+
+      .leaderboard-tabs {
+        display: flex;
+        gap: 4px;
+      }
+
+      .leaderboard-tab {
+        flex: 1;
+        padding: 4px 8px;
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        border-radius: 6px;
+        background: transparent;
+        color: inherit;
+        font-size: 12px;
+        cursor: pointer;
+      }
+
+      .leaderboard-tab.active {
+        background: rgba(0, 255, 136, 0.2);
+        border-color: #00ff88;
+      }
+
+      .leaderboard-filter {
+        padding: 6px 8px;
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        border-radius: 6px;
+        background: rgba(255, 255, 255, 0.05);
+        color: inherit;
+        font-size: 12px;
+      }
+
+      .leaderboard-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 4px 6px;
+        border-radius: 6px;
+        font-size: 13px;
+        cursor: pointer;
+      }
+
+      .leaderboard-row:hover,
+      .leaderboard-row.selected {
+        background: rgba(255, 255, 255, 0.1);
+      }
+
+      .leaderboard-row.mine .leaderboard-owner {
+        font-weight: 600;
+        color: #00ff88;
+      }
+
+      .leaderboard-rank {
+        width: 20px;
+        text-align: right;
+        opacity: 0.7;
+      }
+
+      .leaderboard-swatch {
+        width: 10px;
+        height: 10px;
+        border-radius: 2px;
+      }
+
+      .leaderboard-owner {
+        flex: 1;
+        font-family: monospace;
+      }
+
+      .leaderboard-empty {
+        font-size: 12px;
+        opacity: 0.7;
+        padding: 4px 0;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+function formatScore(entry: LeaderboardEntry, metric: LeaderboardMetric): string {
+  if (metric === 'area') return `${entry.areaKm2.toFixed(2)} km²`;
+  if (metric === 'activity') return `${entry.activityPoints} pts`;
+  return `${entry.cells} cells`;
+}
+
+/** 0x1234…abcd for wallet addresses, anything else as is. */
+function shortOwner(owner: string): string {
+  return /^0x[0-9a-f]{40}$/.test(owner) ? `${owner.slice(0, 6)}…${owner.slice(-4)}` : owner;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
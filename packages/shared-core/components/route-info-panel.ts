@@ -1,5 +1,17 @@
 import { EventBus } from '../core/event-bus';
 import { DOMService } from '../services/dom-service';
+import {
+  analyzeElevation,
+  type ElevationProfilePoint,
+  type ElevationSample,
+} from '../utils/elevation';
+
+interface ElevationInfo {
+  gain: number;
+  loss: number;
+  profile: ElevationProfilePoint[];
+  gradeAdjustedSpeed?: number;
+}
 
 export class RouteInfoPanel {
   private static instance: RouteInfoPanel;
@@ -36,10 +48,18 @@ export class RouteInfoPanel {
           description: wp.description || '',
           type: wp.type,
         })),
+        elevation: this.elevationFromRoute(data.route?.coordinates || data.waypoints || []),
       };
       this.showRouteInfo(uiData);
     });
 
+    // Show the climb profile of a finished run, when it recorded altitude
+    this.eventBus.on('run:completed', (data: any) => {
+      if (data?.run?.elevation?.profile?.length >= 2) {
+        this.showRunElevation(data.run);
+      }
+    });
+
     // Listen for route clear events
     this.eventBus.on('ai:routeClear', () => {
       this.hide();
@@ -123,6 +143,7 @@ export class RouteInfoPanel {
     difficulty?: number;
     waypoints: Array<{ name: string; description: string; type?: string }>;
     reasoning?: string;
+    elevation?: ElevationInfo | null;
   }): void {
     if (!this.panelElement) return;
 
@@ -190,6 +211,10 @@ export class RouteInfoPanel {
     summary.appendChild(difficultyBox);
     contentContainer.appendChild(summary);
 
+    if (data.elevation) {
+      contentContainer.appendChild(this.createElevationSection(data.elevation));
+    }
+
     // Add reasoning
     if (data.reasoning) {
       const reasoningTitle = this.domService.createElement('h3', {
@@ -316,6 +341,107 @@ export class RouteInfoPanel {
     this.show();
   }
 
+  /**
+   * Show the elevation profile of a completed run
+   */
+  public showRunElevation(run: { totalDistance: number; elevation?: ElevationInfo }): void {
+    if (!this.panelElement || !run.elevation) return;
+
+    const contentContainer = this.panelElement.querySelector('#route-info-content');
+    if (!contentContainer) return;
+
+    contentContainer.innerHTML = '';
+
+    const title = this.domService.createElement('h2', {
+      textContent: `Run Elevation · ${(run.totalDistance / 1000).toFixed(2)} km`,
+      style: {
+        margin: '0 0 15px 0',
+        color: '#333',
+        fontSize: '20px',
+        fontWeight: 'bold',
+      },
+    });
+    contentContainer.appendChild(title);
+    contentContainer.appendChild(this.createElevationSection(run.elevation));
+
+    this.show();
+  }
+
+  /**
+   * Elevation stats for routes whose coordinates carry altitude, either
+   * as a third GeoJSON ordinate or as `RunPoint.altitude`
+   */
+  private elevationFromRoute(coordinates: Array<number[] | any>): ElevationInfo | null {
+    const samples: ElevationSample[] = coordinates.map((c) =>
+      Array.isArray(c) ? { lng: c[0], lat: c[1], altitude: c[2] } : c
+    );
+    return analyzeElevation(samples);
+  }
+
+  private createElevationSection(elevation: ElevationInfo): HTMLElement {
+    const gap = elevation.gradeAdjustedSpeed
+      ? ` · GAP ${this.formatPace(elevation.gradeAdjustedSpeed)}`
+      : '';
+
+    return this.domService.createElement('div', {
+      innerHTML: `
+        <h3 style="margin: 0 0 6px 0; color: #333; font-size: 16px;">Elevation Profile</h3>
+        <div style="font-size: 13px; color: #666; margin-bottom: 8px;">
+          ↑ ${Math.round(elevation.gain)} m · ↓ ${Math.round(elevation.loss)} m${gap}
+        </div>
+        ${this.renderElevationChart(elevation.profile)}
+      `,
+      style: {
+        marginBottom: '20px',
+      },
+    });
+  }
+
+  /**
+   * Inline SVG area chart of altitude against distance
+   */
+  private renderElevationChart(profile: ElevationProfilePoint[]): string {
+    if (profile.length < 2) return '';
+
+    const width = 260;
+    const height = 80;
+    const totalDistance = profile[profile.length - 1].distance || 1;
+    const altitudes = profile.map((p) => p.altitude);
+    const min = Math.min(...altitudes);
+    const max = Math.max(...altitudes);
+    // Keep at least 20 m of vertical range so flat routes look flat
+    const range = Math.max(max - min, 20);
+    const base = min - (range - (max - min)) / 2;
+
+    const points = profile
+      .map((p) => {
+        const x = (p.distance / totalDistance) * width;
+        const y = height - ((p.altitude - base) / range) * (height - 4) - 2;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+
+    return `
+      <svg viewBox="0 0 ${width} ${height + 14}" width="100%" role="img"
+        aria-label="Elevation profile from ${Math.round(min)} m to ${Math.round(max)} m">
+        <polygon points="0,${height} ${points} ${width},${height}" fill="rgba(0, 189, 0, 0.15)" />
+        <polyline points="${points}" fill="none" stroke="#00bd00" stroke-width="2" />
+        <text x="0" y="${height + 12}" font-size="10" fill="#999">0 km</text>
+        <text x="${width}" y="${height + 12}" font-size="10" fill="#999" text-anchor="end">
+          ${(totalDistance / 1000).toFixed(1)} km
+        </text>
+        <text x="2" y="10" font-size="10" fill="#999">${Math.round(max)} m</text>
+      </svg>
+    `;
+  }
+
+  private formatPace(speed: number): string {
+    const secondsPerKm = Math.round(1000 / speed);
+    const minutes = Math.floor(secondsPerKm / 60);
+    const seconds = secondsPerKm % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}/km`;
+  }
+
   private showErrorMessage(message: string): void {
     if (!this.panelElement) return;
 
@@ -5,13 +5,15 @@
 
 import { BaseService } from '../core/base-service';
 import { AnimationService } from '../services/animation-service';
+import type { QueuedClaim } from '../services/claim-queue-service';
 import { DOMService } from '../services/dom-service';
 import { UIService } from '../services/ui-service';
 
 export interface TransactionInfo {
   hash: string;
   type: 'territory_claim' | 'token_transfer' | 'stake' | 'unstake' | 'reward_claim' | 'generic';
-  status: 'pending' | 'confirmed' | 'failed' | 'cancelled';
+  // 'queued' and 'claiming' are territory claims waiting on the wallet
+  status: 'queued' | 'claiming' | 'pending' | 'confirmed' | 'failed' | 'cancelled';
   timestamp: number;
   gasUsed?: string;
   gasPrice?: string;
@@ -26,6 +28,16 @@ export interface TransactionInfo {
   };
 }
 
+// How a queued claim's state reads here (see ClaimQueueService)
+const QUEUED_CLAIM_STATUS: Record<QueuedClaim['status'], TransactionInfo['status']> = {
+  queued: 'queued',
+  claiming: 'claiming',
+  claimed: 'confirmed',
+  failed: 'failed',
+};
+
+const IN_FLIGHT: TransactionInfo['status'][] = ['queued', 'claiming', 'pending'];
+
 export interface TransactionStatusOptions {
   showInToast?: boolean;
   showInModal?: boolean;
@@ -114,6 +126,11 @@ export class TransactionStatus extends BaseService {
       }
     );
 
+    // Claims held until the wallet is back
+    this.subscribe('territory:claimQueueChanged', (data) => {
+      this.trackQueuedClaim(data.entry);
+    });
+
     // Token events
     this.subscribe(
       'token:transferStarted',
@@ -148,6 +165,39 @@ export class TransactionStatus extends BaseService {
     });
   }
 
+  /**
+   * One row per queued geohash. Retries move it between queued and
+   * claiming quietly; only queuing and the outcome raise a toast.
+   */
+  private trackQueuedClaim(entry: QueuedClaim): void {
+    const hash = `claim_${entry.geohash}`;
+    const status = QUEUED_CLAIM_STATUS[entry.status];
+    const existing = this.activeTransactions.get(hash);
+
+    if (!existing) {
+      this.addTransaction({
+        hash,
+        type: 'territory_claim',
+        status,
+        timestamp: entry.queuedAt,
+        error: entry.lastError,
+        metadata: {
+          territoryId: entry.payload.id,
+          description: `Claiming territory: ${entry.payload.metadata?.name || entry.geohash}`,
+        },
+      });
+      return;
+    }
+    if (existing.status === status) return;
+
+    if (status === 'queued' || status === 'claiming') {
+      this.activeTransactions.set(hash, { ...existing, status, error: entry.lastError });
+      this.updateStatusDisplay();
+      return;
+    }
+    this.updateTransaction(hash, { status, error: entry.lastError });
+  }
+
   public addTransaction(
     transaction: Omit<TransactionInfo, 'timestamp'> & { timestamp?: number }
   ): void {
@@ -191,6 +241,14 @@ export class TransactionStatus extends BaseService {
     let toastType: 'info' | 'success' | 'warning' | 'error' = 'info';
 
     switch (status) {
+      case 'queued':
+        message = `📥 ${this.getTransactionDescription(type, metadata)} - Queued until your wallet is back`;
+        toastType = 'info';
+        break;
+      case 'claiming':
+        message = `⏳ ${this.getTransactionDescription(type, metadata)} - Claiming...`;
+        toastType = 'info';
+        break;
       case 'pending':
         message = `⏳ ${this.getTransactionDescription(type, metadata)} - Transaction pending...`;
         toastType = 'info';
@@ -248,7 +306,7 @@ export class TransactionStatus extends BaseService {
     if (!this.statusContainer) return;
 
     const pendingTransactions = Array.from(this.activeTransactions.values())
-      .filter((tx) => tx.status === 'pending')
+      .filter((tx) => IN_FLIGHT.includes(tx.status))
       .sort((a, b) => b.timestamp - a.timestamp);
 
     if (pendingTransactions.length === 0) {
@@ -273,7 +331,7 @@ export class TransactionStatus extends BaseService {
   }
 
   private renderTransactionItem(transaction: TransactionInfo): string {
-    const { hash, type, metadata, timestamp } = transaction;
+    const { hash, type, status, metadata, timestamp } = transaction;
     const shortHash = `${hash.slice(0, 6)}...${hash.slice(-4)}`;
     const timeAgo = this.getTimeAgo(timestamp);
     const description = this.getTransactionDescription(type, metadata);
@@ -287,14 +345,18 @@ export class TransactionStatus extends BaseService {
             <span class="transaction-time">${timeAgo}</span>
           </div>
         </div>
-        <div class="transaction-status">
-          <div class="status-spinner"></div>
-          <span class="status-label">Pending</span>
+        <div class="transaction-status status-${status}">
+          ${status === 'queued' ? '<span class="status-queued-icon">📥</span>' : '<div class="status-spinner"></div>'}
+          <span class="status-label">${status === 'queued' ? 'Queued' : status === 'claiming' ? 'Claiming' : 'Pending'}</span>
         </div>
         <div class="transaction-actions">
-          <button class="view-tx-btn" onclick="window.open('https://explorer.zetachain.com/tx/${hash}', '_blank')" title="View on explorer">
+          ${
+            hash.startsWith('0x')
+              ? `<button class="view-tx-btn" onclick="window.open('https://explorer.zetachain.com/tx/${hash}', '_blank')" title="View on explorer">
             🔗
-          </button>
+          </button>`
+              : ''
+          }
           <button class="cancel-tx-btn" onclick="this.closest('.transaction-item').remove()" title="Hide">
             ×
           </button>
@@ -645,10 +707,15 @@ export class TransactionStatus extends BaseService {
           max-width: 200px;
         }
 
-        .status-pending {
+        .status-pending,
+        .status-claiming {
           color: #ffc107;
         }
 
+        .status-queued {
+          color: #8ab4f8;
+        }
+
         .status-confirmed {
           color: #00ff88;
         }
@@ -21,6 +21,7 @@ export interface NetworkConfig {
     universal: ContractConfig;
     realmToken: ContractConfig;
     boost: ContractConfig;
+    market: ContractConfig;
     confidentialTerritoryDefense: ContractConfig;
   };
 }
@@ -129,6 +130,55 @@ const UNIVERSAL_CONTRACT_ABI = [
     name: 'RewardsDistributed',
     type: 'event',
   },
+  // ERC-721 surface used for gifting and market approvals
+  {
+    inputs: [{ internalType: 'uint256', name: 'tokenId', type: 'uint256' }],
+    name: 'ownerOf',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'from', type: 'address' },
+      { internalType: 'address', name: 'to', type: 'address' },
+      { internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+    ],
+    name: 'safeTransferFrom',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'operator', type: 'address' },
+      { internalType: 'bool', name: 'approved', type: 'bool' },
+    ],
+    name: 'setApprovalForAll',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'owner', type: 'address' },
+      { internalType: 'address', name: 'operator', type: 'address' },
+    ],
+    name: 'isApprovedForAll',
+    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'from', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'to', type: 'address' },
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+    ],
+    name: 'Transfer',
+    type: 'event',
+  },
 ];
 
 const BOOST_CONTRACT_ABI = [
@@ -181,6 +231,155 @@ const BOOST_CONTRACT_ABI = [
   },
 ];
 
+/**
+ * ABI for the additive `RunRealmTerritoryMarketV1`: REALM-priced
+ * listings and offers on territory NFTs, settled without escrow.
+ */
+const MARKET_CONTRACT_ABI = [
+  {
+    inputs: [
+      { internalType: 'address', name: '_territoriesAddress', type: 'address' },
+      { internalType: 'address', name: '_realmTokenAddress', type: 'address' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'constructor',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { internalType: 'uint256', name: 'price', type: 'uint256' },
+    ],
+    name: 'list',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'tokenId', type: 'uint256' }],
+    name: 'cancelListing',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { internalType: 'uint256', name: 'maxPrice', type: 'uint256' },
+    ],
+    name: 'buy',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { internalType: 'uint256', name: 'amount', type: 'uint256' },
+    ],
+    name: 'makeOffer',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'tokenId', type: 'uint256' }],
+    name: 'withdrawOffer',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { internalType: 'address', name: 'buyer', type: 'address' },
+    ],
+    name: 'acceptOffer',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    name: 'listings',
+    outputs: [
+      { internalType: 'address', name: 'seller', type: 'address' },
+      { internalType: 'uint256', name: 'price', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: '', type: 'uint256' },
+      { internalType: 'address', name: '', type: 'address' },
+    ],
+    name: 'offers',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'seller', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'price', type: 'uint256' },
+    ],
+    name: 'Listed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'seller', type: 'address' },
+    ],
+    name: 'ListingCancelled',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'seller', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'buyer', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'price', type: 'uint256' },
+    ],
+    name: 'Sold',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'buyer', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'amount', type: 'uint256' },
+    ],
+    name: 'OfferMade',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'buyer', type: 'address' },
+    ],
+    name: 'OfferWithdrawn',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { indexed: true, internalType: 'address', name: 'seller', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'buyer', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'amount', type: 'uint256' },
+    ],
+    name: 'OfferAccepted',
+    type: 'event',
+  },
+];
+
 /**
  * Phase 5 — ABI for `ConfidentialTerritoryDefense`. Mirrors the
  * public surface of `IConfidentialTerritory` plus the contract's own
@@ -436,6 +635,16 @@ export function getCurrentNetworkConfig(): NetworkConfig {
             ?.RUNREALM_BOOST_ADDRESS || '0x0000000000000000000000000000000000000000',
         abi: BOOST_CONTRACT_ABI,
       },
+      market: {
+        // RunRealmTerritoryMarketV1, the additive listings/offers
+        // contract next to RunRealmUniversal. Read from
+        // RUNREALM_MARKET_ADDRESS; the zero-address placeholder keeps
+        // trading off until scripts/deployment/deploy-market.js runs.
+        address:
+          (globalThis as { __ENV__?: { RUNREALM_MARKET_ADDRESS?: string } }).__ENV__
+            ?.RUNREALM_MARKET_ADDRESS || '0x0000000000000000000000000000000000000000',
+        abi: MARKET_CONTRACT_ABI,
+      },
       confidentialTerritoryDefense: {
         // The additive `ConfidentialTerritoryDefense` contract, deployed
         // to the Zama Protocol FHEVM host chain (Ethereum Sepolia). Its
@@ -489,7 +698,7 @@ export function getConfidentialNetworkConfig() {
  * Get contract configuration by name
  */
 export function getContractConfig(
-  contractName: 'universal' | 'realmToken' | 'boost' | 'confidentialTerritoryDefense'
+  contractName: 'universal' | 'realmToken' | 'boost' | 'market' | 'confidentialTerritoryDefense'
 ): ContractConfig {
   const networkConfig = getCurrentNetworkConfig();
   return networkConfig.contracts[contractName];
@@ -504,6 +713,7 @@ export function getContractAddresses() {
     universal: networkConfig.contracts.universal.address,
     realmToken: networkConfig.contracts.realmToken.address,
     boost: networkConfig.contracts.boost.address,
+    market: networkConfig.contracts.market.address,
     confidentialTerritoryDefense: networkConfig.contracts.confidentialTerritoryDefense.address,
   };
 }
@@ -545,11 +755,16 @@ export const CONTRACT_METHODS = {
     getPlayerStats: 'getPlayerStats',
     getTotalTerritories: 'getTotalTerritories',
     calculateTerritoryReward: 'calculateTerritoryReward',
+    ownerOf: 'ownerOf',
+    safeTransferFrom: 'safeTransferFrom',
+    setApprovalForAll: 'setApprovalForAll',
+    isApprovedForAll: 'isApprovedForAll',
   },
   realmToken: {
     balanceOf: 'balanceOf',
     transfer: 'transfer',
     approve: 'approve',
+    allowance: 'allowance',
     name: 'name',
     symbol: 'symbol',
     decimals: 'decimals',
@@ -559,6 +774,16 @@ export const CONTRACT_METHODS = {
     lastBoostDay: 'lastBoostDay',
     BOOST_COST: 'BOOST_COST',
   },
+  market: {
+    list: 'list',
+    cancelListing: 'cancelListing',
+    buy: 'buy',
+    makeOffer: 'makeOffer',
+    withdrawOffer: 'withdrawOffer',
+    acceptOffer: 'acceptOffer',
+    listings: 'listings',
+    offers: 'offers',
+  },
   confidential: {
     anchorFromZeta: 'anchorFromZeta',
     boostEncrypted: 'boostEncrypted',
@@ -579,11 +804,20 @@ export const CONTRACT_EVENTS = {
   universal: {
     TerritoryCreated: 'TerritoryCreated',
     RewardsDistributed: 'RewardsDistributed',
+    Transfer: 'Transfer',
   },
   realmToken: {
     Transfer: 'Transfer',
     Approval: 'Approval',
   },
+  market: {
+    Listed: 'Listed',
+    ListingCancelled: 'ListingCancelled',
+    Sold: 'Sold',
+    OfferMade: 'OfferMade',
+    OfferWithdrawn: 'OfferWithdrawn',
+    OfferAccepted: 'OfferAccepted',
+  },
   confidential: {
     TerritoryAnchored: 'TerritoryAnchored',
     EncryptedBoost: 'EncryptedBoost',
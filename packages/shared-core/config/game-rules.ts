@@ -40,6 +40,10 @@ export const GAME_RULES = {
     /** One boost per territory per calendar day — enforced on-chain via
      *  a per-address `lastBoostDay` mapping keyed off this constant. */
     boostLimitPerDay: 1,
+    /** Worth of one H3 cell of a territory run through: the owner's run
+     *  adds it, a challenger's takes it off. Each cell counts once per
+     *  run. */
+    runThroughPointsPerCell: 25,
     thresholds: {
       strongMin: 700,
       moderateMin: 300,
@@ -75,6 +79,14 @@ export const GAME_RULES = {
      *  source of truth rather than three literals scattered. */
     apyDaysPerYear: 365,
     apyMonthsPerYear: 12,
+    /** One-off bonus for taking control of an H3 district (res 7) or
+     *  region (res 5); see utils/territory-hierarchy.ts. Same pairing as
+     *  the boost cost: the `E18` string is synced to Solidity, the
+     *  whole-REALM number is what the JS side credits. They MUST agree. */
+    districtControlBonusE18: '100 * 10**18',
+    districtControlBonusRealm: 100,
+    regionControlBonusE18: '1000 * 10**18',
+    regionControlBonusRealm: 1000,
   },
 
   // ---------------------------------------------------------------------
@@ -101,6 +113,9 @@ export const GAME_RULES = {
   // ---------------------------------------------------------------------
   h3: {
     resolution: 9,
+    /** Parent levels of the territory hierarchy: districts and regions. */
+    districtResolution: 7,
+    regionResolution: 5,
   },
 
   // ---------------------------------------------------------------------
@@ -72,6 +72,7 @@ describe('service-composer', () => {
       'location',
       'runTracking',
       'web3',
+      'apiAuth',
       'ai',
       'game',
       'contractService',
@@ -79,9 +80,11 @@ describe('service-composer', () => {
       'zamaSupport',
       'confidentialTerritory',
       'territory',
+      'claimQueue',
       'territoryToggle',
       'runProgressFeedback',
       'progression',
+      'deviceSync',
       'onboarding',
       'navigation',
       'animation',
@@ -96,6 +99,11 @@ describe('service-composer', () => {
       'gamefiUI',
       'haptics',
       'replay',
+      'sensors',
+      'personalRecords',
+      'trainingLoad',
+      'leaderboard',
+      'leaderboardWidget',
     ];
     for (const key of expectedKeys) {
       expect((services as unknown as Record<string, unknown>)[key]).toBeDefined();
@@ -2,13 +2,26 @@
 
 import { WidgetState } from '../internal/_legacy-widget/widget-state-service';
 import { GhostRunner } from '../services/ai-service';
-import { RunPoint, RunSession } from '../services/run-tracking-service';
+import type { QueuedClaim } from '../services/claim-queue-service';
+import type { DeviceSyncStatus } from '../services/device-sync-service';
+import type { LeaderboardSnapshot } from '../services/leaderboard-service';
+import { RunLap, RunPoint, RunSession } from '../services/run-tracking-service';
+import type { SensorKind, SensorSample } from '../services/sensor-service';
 import {
   Territory,
   TerritoryBounds,
+  TerritoryIntent,
   TerritoryMetadata,
   TerritoryPreview,
 } from '../services/territory-service';
+import type { IntentProgress } from '../utils/intent-progress';
+import type { PersonalRecord } from '../utils/personal-records';
+import type { RunSplit } from '../utils/splits';
+import type { TerritoryContest } from '../utils/territory-contest';
+import type { ControlChange } from '../utils/territory-hierarchy';
+import type { TerritoryOffer } from '../utils/territory-trade';
+import type { TrainingLoadSummary } from '../utils/training-load';
+import type { StepResult, WorkoutStep } from '../utils/workout-plan';
 
 // Define route-related types
 interface RouteData {
@@ -71,7 +84,7 @@ interface Achievement {
   points?: number;
   unlockedAt?: number;
   criteria?: {
-    type: 'distance' | 'territories' | 'level' | 'challenges' | 'streak' | 'time';
+    type: 'distance' | 'territories' | 'level' | 'challenges' | 'streak' | 'time' | 'records';
     value: number;
   };
   reward?: {
@@ -180,6 +193,7 @@ export interface Web3Events {
     from: string;
     to: string;
     chainId: number;
+    transactionHash?: string;
   };
   'territory:staked': { tokenId: string; amount: number; staker: string };
   'territory:unstaked': { tokenId: string; amount: number; staker: string };
@@ -213,6 +227,7 @@ export interface AppEvents extends Web3Events {
   'run:pointRemoved': { totalDistance: number };
   'run:cleared': { runId: string };
   'run:loaded': { run: any };
+  'run:imported': { run: RunSession; source: string };
   'territory:toggleVisibility': Record<string, never>;
   'route:stateChanged': { routeId: string; routeData: any; isActive: boolean };
   'route:cleared': Record<string, never>;
@@ -225,7 +240,29 @@ export interface AppEvents extends Web3Events {
   'run:completed': { distance: number; duration: number; points: any[] };
   'run:paused': { runId: string; timestamp: number; stats: any };
   'run:resumed': { runId: string; timestamp: number; stats: any };
+  'run:autoPaused': { runId: string; timestamp: number; stats: any };
+  'run:autoResumed': { runId: string; timestamp: number; pausedDuration: number; stats: any };
   'run:cancelled': { runId: string; timestamp: number };
+  'run:split': { runId: string; split: RunSplit };
+  'workout:stepStarted': { runId: string; index: number; step: WorkoutStep; total: number };
+  'workout:stepCompleted': {
+    runId: string;
+    index: number;
+    step: WorkoutStep;
+    result: StepResult;
+  };
+  'workout:paceAlert': {
+    runId: string;
+    index: number;
+    step: WorkoutStep;
+    status: 'tooFast' | 'tooSlow';
+  };
+  'workout:completed': { runId: string; planId: string };
+  'sensor:connected': { sourceId: string; name: string; kinds: SensorKind[] };
+  'sensor:disconnected': { sourceId: string; name: string };
+  'sensor:sample': { sourceId: string; sample: SensorSample };
+  'pr:achieved': { record: PersonalRecord; runId: string };
+  'training:loadUpdated': { runId: string; summary: TrainingLoadSummary };
   'run:statusChanged': { status: string };
   'run:statsUpdated': { distance: number; duration: number; speed: number };
   'ui:settingsOpened': Record<string, never>;
@@ -342,7 +379,7 @@ export interface AppEvents extends Web3Events {
   'run:pauseRequested': Record<string, never>;
   'run:resumeRequested': Record<string, never>;
   'run:stopRequested': Record<string, never>;
-  'run:lap': { lap: { number: number; distance: number; time: number }; runId: string };
+  'run:lap': { lap: RunLap; runId: string };
   'ui:territoryPreview': { point: any; totalDistance: number };
   'ui:gamefiEnabled': { enabled: boolean };
   'token:transferStarted': {
@@ -378,6 +415,11 @@ export interface AppEvents extends Web3Events {
   'ui:showChallenges': Record<string, never>;
   'territory:manage': { territoryId: string };
   'territory:boostActivity': { territoryId: string };
+  'territory:gift': { territoryId: string; to: string };
+  'territory:listForSale': { territoryId: string; price: string }; // REALM, as typed
+  'territory:cancelListing': { territoryId: string };
+  'territory:acceptOffer': { territoryId: string; buyer: string };
+  'territory:withdrawOffer': { territoryId: string };
   'game:claimChallenge': { challengeId: string };
   // Cross-chain events
   'crosschain:territoryClaimRequested': {
@@ -450,12 +492,49 @@ export interface AppEvents extends Web3Events {
   // Territory activity events
   'territory:activityUpdated': { territory: any };
   'territory:vulnerable': { territory: any };
+  // Contest events: started or attacked, then captured / defended / expired
+  'territory:contestUpdated': { territory: Territory; contest: TerritoryContest };
+  'territory:contestResolved': { territory: Territory; contest: TerritoryContest };
+  // Intent events: progress on each point of a run working on an intent
+  'territory:intentProgress': { runId: string; intent: TerritoryIntent; progress: IntentProgress };
+  'territory:intentCompleted': {
+    intent: TerritoryIntent;
+    runId: string;
+    progress: IntentProgress;
+  };
+  'territory:intentExpired': {
+    intent: TerritoryIntent;
+    runId?: string;
+    progress?: IntentProgress;
+  };
+  // A district or region changed hands; `bonus` is what the new controller earns
+  'territory:controlChanged': ControlChange & { bonus: number };
   'territory:boostRequested': {
     territoryId: string;
     tokenId?: string;
     cost: string;
     points: number;
   };
+  // Territory market, as seen on-chain; amounts are REALM in wei
+  'territory:listed': { tokenId: string; seller: string; priceWei: string };
+  'territory:listingCancelled': { tokenId: string; seller: string };
+  'territory:offerMade': {
+    tokenId: string;
+    buyer: string;
+    amountWei: string;
+    transactionHash?: string;
+  };
+  'territory:offerWithdrawn': { tokenId: string; buyer: string };
+  // TerritoryService's book of open offers changed
+  'territory:offersUpdated': { offers: TerritoryOffer[] };
+  // Territories arrived from the user's other devices
+  'territory:synced': { territories: Territory[] };
+  // A claim waiting on the wallet was queued, tried, made or given up
+  'territory:claimQueueChanged': { entry: QueuedClaim; pending: number };
+  // Cross-device sync started, finished, failed or found a conflict
+  'sync:statusChanged': DeviceSyncStatus;
+  // Neighbourhood leaderboard recomputed
+  'leaderboard:updated': LeaderboardSnapshot;
   // GameFi toggle event
   'gamefi:toggled': { enabled: boolean };
   // Dashboard events
@@ -21,16 +21,26 @@ export async function initializeGameFi(opts: GameFiBootstrapOptions): Promise<vo
     await services.location.initialize();
     services.runTracking.setLocationService(services.location);
     await services.runTracking.initialize();
+    // Records first: training load takes threshold pace from them
+    await services.personalRecords.initialize();
+    await services.trainingLoad.initialize();
     await services.territory.initialize();
+    await services.leaderboard.initialize();
+    await services.leaderboardWidget.initialize();
     await services.enhancedRunControls.initialize();
 
     if (services.config.isWeb3Enabled()) {
       await (services.web3 as { initialize(): Promise<void> }).initialize();
+      await services.apiAuth.initialize();
+      // Signs in with the wallet, so only once there is one
+      await services.deviceSync.initialize();
       if (platformUI.walletWidget?.initialize) {
         await platformUI.walletWidget.initialize();
       }
       await services.crossChainService.initialize();
     }
+    // After web3, so a restored wallet is already connected
+    await services.claimQueue.initialize();
 
     await services.ai.initializeService();
     await services.gamefiUI.initialize();
@@ -7,15 +7,17 @@
  * that other widgets (vanilla-DOM and React shell) still read from.
  *
  * Order of construction matches the original (dependency-first):
- *   config, eventBus → preferences, ui, dom → location, web3, ai,
- *   game, contractService, territory, territoryToggle, runTracking,
- *   progression, onboarding, navigation, animation, sound,
+ *   config, eventBus → preferences, ui, dom → location, web3, apiAuth, ai,
+ *   game, contractService, territory, claimQueue, territoryToggle,
+ *   runTracking, progression, deviceSync, onboarding, navigation,
+ *   animation, sound,
  *   aiOrchestrator, crossChain, crossChainDemo, mapService,
  *   externalFitness, ghostRunner, enhancedRunControls, gamefiUI,
- *   geocodingService, routeInfoPanel.
+ *   geocodingService, routeInfoPanel, leaderboard.
  *
  * Token-dependent services (geocoding, route info) get a separate
  * call so the mapbox access token can be loaded from runtime first.
+ * The geocoder also becomes TerritoryService's landmark provider.
  */
 
 import { ConfidentialContractService } from '@runrealm/shared-blockchain/services/confidential-contract-service';
@@ -25,29 +27,37 @@ import { ZamaSupportService } from '@runrealm/shared-blockchain/services/zama-su
 import { CrossChainDemoComponent } from '../components/cross-chain-demo';
 import { EnhancedRunControls } from '../components/enhanced-run-controls';
 import { GameFiUI } from '../components/gamefi-ui';
+import { LeaderboardWidget } from '../components/leaderboard-widget';
 import { RouteInfoPanel } from '../components/route-info-panel';
 import { RunProgressFeedback } from '../components/run-progress-feedback';
 import { TerritoryToggle } from '../components/territory-toggle';
 import { AIOrchestrator } from '../services/ai-orchestrator';
 import { AIService } from '../services/ai-service';
 import { AnimationService } from '../services/animation-service';
+import { ApiAuthService } from '../services/api-auth-service';
+import { ClaimQueueService } from '../services/claim-queue-service';
 import { ConfidentialTerritoryService } from '../services/confidential-territory-service';
+import { DeviceSyncService } from '../services/device-sync-service';
 import { DOMService } from '../services/dom-service';
 import { ExternalFitnessService } from '../services/external-fitness-service';
 import { GameService } from '../services/game-service';
-import { GeocodingService } from '../services/geocoding-service';
+import { GeocodingLandmarkProvider, GeocodingService } from '../services/geocoding-service';
 import { GhostRunnerService } from '../services/ghost-runner-service';
 import { HapticsService } from '../services/haptics-service';
+import { LeaderboardService } from '../services/leaderboard-service';
 import { LocationService } from '../services/location-service';
 import { MapService } from '../services/map-service';
 import { NavigationService } from '../services/navigation-service';
 import { OnboardingService } from '../services/onboarding-service';
+import { PersonalRecordsService } from '../services/personal-records-service';
 import { PreferenceService } from '../services/preference-service';
-import { ProgressionService } from '../services/progression-service';
+import { type PlayerStats, ProgressionService } from '../services/progression-service';
 import { ReplayService } from '../services/replay-service';
-import { RunTrackingService } from '../services/run-tracking-service';
+import { type RunSession, RunTrackingService } from '../services/run-tracking-service';
+import { SensorService } from '../services/sensor-service';
 import { SoundService } from '../services/sound-service';
-import { TerritoryService } from '../services/territory-service';
+import { type Territory, TerritoryService } from '../services/territory-service';
+import { TrainingLoadService } from '../services/training-load-service';
 import { UIService } from '../services/ui-service';
 import { Web3Service } from '../services/web3-service';
 import {
@@ -55,6 +65,7 @@ import {
   TerritoryDashboard as TerritoryDashboardInterface,
   WalletWidget as WalletWidgetInterface,
 } from '../types/ui-interfaces';
+import { STATS_DOCUMENT_ID } from '../utils/device-sync';
 import { ConfigService } from './app-config';
 import { EventBus } from './event-bus';
 
@@ -67,6 +78,7 @@ export interface Services {
   location: LocationService;
   runTracking: RunTrackingService;
   web3: Web3Service;
+  apiAuth: ApiAuthService;
   ai: AIService;
   game: GameService;
   contractService: ContractService;
@@ -74,9 +86,11 @@ export interface Services {
   zamaSupport: ZamaSupportService;
   confidentialTerritory: ConfidentialTerritoryService;
   territory: TerritoryService;
+  claimQueue: ClaimQueueService;
   territoryToggle: TerritoryToggle;
   runProgressFeedback: RunProgressFeedback;
   progression: ProgressionService;
+  deviceSync: DeviceSyncService;
   onboarding: OnboardingService;
   navigation: NavigationService;
   animation: AnimationService;
@@ -91,6 +105,11 @@ export interface Services {
   gamefiUI: GameFiUI;
   haptics: HapticsService;
   replay: ReplayService;
+  sensors: SensorService;
+  personalRecords: PersonalRecordsService;
+  trainingLoad: TrainingLoadService;
+  leaderboard: LeaderboardService;
+  leaderboardWidget: LeaderboardWidget;
 }
 
 export interface TokenDependentServices {
@@ -105,6 +124,7 @@ export function createServices(): Services {
   const ui = UIService.getInstance();
   const location = new LocationService();
   const web3 = Web3Service.getInstance();
+  const apiAuth = ApiAuthService.getInstance();
   const ai = AIService.getInstance();
   const game = new GameService();
   const contractService = new ContractService(web3);
@@ -113,11 +133,30 @@ export function createServices(): Services {
   const confidentialTerritory = ConfidentialTerritoryService.getInstance();
   confidentialTerritory.setZamaSupport(zamaSupport);
   const territory = TerritoryService.getInstance();
+  const claimQueue = ClaimQueueService.getInstance();
+  territory.setClaimQueue(claimQueue);
   const territoryToggle = new TerritoryToggle();
   const runProgressFeedback = new RunProgressFeedback();
   const dom = DOMService.getInstance();
   const progression = ProgressionService.getInstance();
   const runTracking = new RunTrackingService();
+  const deviceSync = DeviceSyncService.getInstance();
+  deviceSync.setApiAuth(apiAuth);
+  deviceSync.registerSource<RunSession>('run', {
+    idOf: (run) => run.id,
+    read: () => runTracking.getStoredRuns(),
+    write: (runs) => runTracking.addSyncedRuns(runs),
+  });
+  deviceSync.registerSource<Territory>('territory', {
+    idOf: (territory) => territory.id,
+    read: () => territory.getClaimedTerritories(),
+    write: (territories) => territory.addSyncedTerritories(territories),
+  });
+  deviceSync.registerSource<PlayerStats>('stats', {
+    idOf: () => STATS_DOCUMENT_ID,
+    read: () => [progression.getStats()],
+    write: ([stats]) => progression.setSyncedStats(stats),
+  });
   const onboarding = OnboardingService.getInstance();
   const navigation = NavigationService.getInstance();
   const animation = AnimationService.getInstance();
@@ -127,11 +166,17 @@ export function createServices(): Services {
   const crossChainDemo = new CrossChainDemoComponent();
   const mapService = new MapService();
   const externalFitnessService = new ExternalFitnessService();
+  externalFitnessService.setApiAuth(apiAuth);
   const ghostRunnerService = GhostRunnerService.getInstance();
   const enhancedRunControls = new EnhancedRunControls();
   const gamefiUI = GameFiUI.getInstance();
   const haptics = HapticsService.getInstance();
   const replay = ReplayService.getInstance();
+  const sensors = SensorService.getInstance();
+  const personalRecords = PersonalRecordsService.getInstance();
+  const trainingLoad = TrainingLoadService.getInstance();
+  const leaderboard = LeaderboardService.getInstance();
+  const leaderboardWidget = new LeaderboardWidget();
 
   return {
     config,
@@ -142,6 +187,7 @@ export function createServices(): Services {
     location,
     runTracking,
     web3,
+    apiAuth,
     ai,
     game,
     contractService,
@@ -149,9 +195,11 @@ export function createServices(): Services {
     zamaSupport,
     confidentialTerritory,
     territory,
+    claimQueue,
     territoryToggle,
     runProgressFeedback,
     progression,
+    deviceSync,
     onboarding,
     navigation,
     animation,
@@ -166,11 +214,23 @@ export function createServices(): Services {
     gamefiUI,
     haptics,
     replay,
+    sensors,
+    personalRecords,
+    trainingLoad,
+    leaderboard,
+    leaderboardWidget,
   };
 }
 
 export function createTokenDependentServices(config: ConfigService): TokenDependentServices {
-  const geocodingService = new GeocodingService(config.getConfig().mapbox.accessToken);
+  const { accessToken } = config.getConfig().mapbox;
+  const geocodingService = new GeocodingService(accessToken);
+  // Name territories after real places when the geocoder is available
+  if (accessToken) {
+    TerritoryService.getInstance().setLandmarkProvider(
+      new GeocodingLandmarkProvider(geocodingService)
+    );
+  }
   const routeInfoPanel = RouteInfoPanel.getInstance();
   routeInfoPanel.initialize();
   return { geocodingService, routeInfoPanel };
@@ -199,9 +259,11 @@ export function registerGlobalServices(services: Services, platformUI: PlatformU
     location: services.location,
     runTracking: services.runTracking,
     territory: services.territory,
+    claimQueue: services.claimQueue,
     enhancedRunControls: services.enhancedRunControls,
     gamefiUI: services.gamefiUI,
     web3: services.web3,
+    apiAuth: services.apiAuth,
     ai: services.ai,
     crossChain: services.crossChainService,
     externalFitness: services.externalFitnessService,
@@ -211,6 +273,7 @@ export function registerGlobalServices(services: Services, platformUI: PlatformU
     navigation: services.navigation,
     onboarding: services.onboarding,
     progression: services.progression,
+    deviceSync: services.deviceSync,
     game: services.game,
     contractService: services.contractService,
     // Phase 5 — registered with PascalCase to match
@@ -222,5 +285,7 @@ export function registerGlobalServices(services: Services, platformUI: PlatformU
     zamaSupport: services.zamaSupport,
     confidentialTerritory: services.confidentialTerritory,
     mapService: services.mapService,
+    leaderboard: services.leaderboard,
+    leaderboardWidget: services.leaderboardWidget,
   };
 }
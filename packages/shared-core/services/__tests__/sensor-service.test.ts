@@ -0,0 +1,123 @@
+/**
+ * Tests for SensorService and its sources.
+ *
+ * Uses SimulatedSensorSource with manual emits, plus a fake Web
+ * Bluetooth stack to check GATT values are decoded.
+ *
+ * @jest-environment jsdom
+ */
+import { parseHeartRateMeasurement, parseRscMeasurement } from '../../utils/ble-fitness';
+import { SensorService, SimulatedSensorSource, WebBluetoothSensorSource } from '../sensor-service';
+
+function bytes(...values: number[]): DataView {
+  return new DataView(new Uint8Array(values).buffer);
+}
+
+describe('SensorService', () => {
+  let service: SensorService;
+  let now: number;
+
+  beforeEach(async () => {
+    service = SensorService.getInstance();
+    await service.disconnect();
+    now = 1_000_000;
+  });
+
+  it('merges samples into the latest reading and lets them go stale', async () => {
+    const source = new SimulatedSensorSource({ intervalMs: 0, now: () => now });
+    await service.connect(source);
+    expect(service.isConnected('heartRate')).toBe(true);
+
+    source.emit({ heartRate: 152, cadence: 176 });
+    expect(service.getLatest(now)).toEqual({ heartRate: 152, cadence: 176 });
+
+    now += 3000;
+    source.emit({ heartRate: 155 });
+    expect(service.getLatest(now)).toEqual({ heartRate: 155, cadence: 176 });
+
+    // Cadence stopped arriving 6 s ago
+    expect(service.getLatest(now + 3000)).toEqual({ heartRate: 155 });
+  });
+
+  it('stops listening to a source once disconnected', async () => {
+    const source = new SimulatedSensorSource({ intervalMs: 0, now: () => now });
+    await service.connect(source);
+    await service.disconnect(source.id);
+
+    source.emit({ heartRate: 180 });
+    expect(service.isConnected()).toBe(false);
+    expect(service.getLatest(now)).toEqual({});
+  });
+
+  it('does not register a source that fails to start', async () => {
+    const source = new SimulatedSensorSource();
+    source.start = () => Promise.reject(new Error('no device'));
+    await expect(service.connect(source)).rejects.toThrow('no device');
+    expect(service.getSources()).toEqual([]);
+  });
+
+  it('decodes heart-rate notifications from Web Bluetooth', async () => {
+    let listener = null as ((event: Event) => void) | null;
+    const characteristic = {
+      value: undefined as DataView | undefined,
+      startNotifications: jest.fn().mockResolvedValue(undefined),
+      stopNotifications: jest.fn().mockResolvedValue(undefined),
+      addEventListener: (_: string, fn: (event: Event) => void) => {
+        listener = fn;
+      },
+      removeEventListener: jest.fn(),
+    };
+    const gatt = {
+      connected: true,
+      connect: async () => ({
+        getPrimaryService: async () => ({ getCharacteristic: async () => characteristic }),
+      }),
+      disconnect: jest.fn(),
+    };
+    (navigator as any).bluetooth = {
+      requestDevice: jest.fn().mockResolvedValue({ id: 'strap', name: 'HRM-Pro', gatt }),
+    };
+
+    const source = new WebBluetoothSensorSource('heartRate');
+    await service.connect(source);
+    expect(source.name).toBe('HRM-Pro');
+
+    characteristic.value = bytes(0x00, 148);
+    listener?.({ target: characteristic } as unknown as Event);
+    expect(service.getLatest().heartRate).toBe(148);
+
+    await service.disconnect();
+    expect(characteristic.stopNotifications).toHaveBeenCalled();
+    expect(gatt.disconnect).toHaveBeenCalled();
+    delete (navigator as any).bluetooth;
+  });
+});
+
+describe('ble-fitness', () => {
+  it('parses 8- and 16-bit heart rates with contact, energy and RR intervals', () => {
+    expect(parseHeartRateMeasurement(bytes(0x06, 72))).toEqual({
+      heartRate: 72,
+      contactDetected: true,
+      rrIntervals: [],
+    });
+    // 16-bit HR 300, energy 10 kJ, one RR interval of 512/1024 s
+    expect(parseHeartRateMeasurement(bytes(0x19, 0x2c, 0x01, 0x0a, 0x00, 0x00, 0x02))).toEqual({
+      heartRate: 300,
+      energyExpended: 10,
+      rrIntervals: [500],
+    });
+  });
+
+  it('parses running speed and cadence with stride length and distance', () => {
+    // 3.5 m/s, 172 spm, 1.22 m stride, 1234.5 m total, running
+    expect(
+      parseRscMeasurement(bytes(0x07, 0x80, 0x03, 172, 0x7a, 0x00, 0x39, 0x30, 0x00, 0x00))
+    ).toEqual({
+      speed: 3.5,
+      cadence: 172,
+      strideLength: 1.22,
+      totalDistance: 1234.5,
+      running: true,
+    });
+  });
+});
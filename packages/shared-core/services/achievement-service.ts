@@ -4,6 +4,11 @@
  */
 
 import { BaseService } from '../core/base-service';
+import {
+  BEST_EFFORT_DISTANCES,
+  isBestEffort,
+  type PersonalRecord,
+} from '../utils/personal-records';
 import { RunSession } from './run-tracking-service';
 
 export interface Achievement {
@@ -29,6 +34,7 @@ export interface UserStats {
   totalTerritories: number;
   longestRun: number; // in meters
   fastestPace: number; // meters per second
+  personalRecords: number; // records beaten
   currentStreak: number; // consecutive days with runs
   bestStreak: number;
   totalRealm: number;
@@ -73,6 +79,7 @@ export class AchievementService extends BaseService {
       totalTerritories: 0,
       longestRun: 0,
       fastestPace: 0,
+      personalRecords: 0,
       currentStreak: 0,
       bestStreak: 0,
       totalRealm: 0,
@@ -127,6 +134,27 @@ export class AchievementService extends BaseService {
         reward: { realm: 50, xp: 200 },
         condition: (stats) => stats.fastestPace > 3.33, // 5 min/km = 3.33 m/s
       },
+      {
+        id: 'personal_best',
+        title: 'Personal Best',
+        description: 'Beat one of your personal records',
+        icon: '🏅',
+        category: 'running',
+        rarity: 'common',
+        reward: { realm: 20, xp: 100 },
+        condition: (stats) => stats.personalRecords >= 1,
+      },
+      {
+        id: 'record_machine',
+        title: 'Record Machine',
+        description: 'Beat 10 personal records',
+        icon: '📈',
+        category: 'running',
+        rarity: 'rare',
+        reward: { realm: 75, xp: 300 },
+        condition: (stats) => stats.personalRecords >= 10,
+        progress: (stats) => ({ current: stats.personalRecords, target: 10 }),
+      },
 
       // Territory Achievements
       {
@@ -205,6 +233,42 @@ export class AchievementService extends BaseService {
   private setupEventListeners(): void {
     // Note: Achievement checking is handled externally by calling checkAchievements()
     // after runs and territory claims in the mobile app
+    this.subscribe('pr:achieved', ({ record }) => {
+      this.recordPersonalRecord(record);
+    });
+  }
+
+  /**
+   * Fold a beaten personal record into the stats and unlock anything it
+   * qualifies for.
+   */
+  public recordPersonalRecord(record: PersonalRecord): Achievement[] {
+    this.userStats.personalRecords += 1;
+    if (record.kind === 'longestRun') {
+      this.userStats.longestRun = Math.max(this.userStats.longestRun, record.value);
+    } else if (isBestEffort(record.kind) && record.value > 0) {
+      const speed = BEST_EFFORT_DISTANCES[record.kind] / (record.value / 1000);
+      this.userStats.fastestPace = Math.max(this.userStats.fastestPace, speed);
+    }
+    return this.checkAchievements();
+  }
+
+  /**
+   * Unlock every achievement whose condition now holds. Returns the newly
+   * unlocked ones.
+   */
+  public checkAchievements(runData?: RunSession): Achievement[] {
+    const unlocked = this.achievements.filter(
+      (achievement) =>
+        !this.unlockedAchievements.has(achievement.id) &&
+        achievement.condition(this.userStats, runData)
+    );
+    for (const achievement of unlocked) {
+      achievement.unlockedAt = Date.now();
+      this.unlockedAchievements.add(achievement.id);
+    }
+    this.saveUserProgress();
+    return unlocked;
   }
 
   public getAchievements(): Achievement[] {
@@ -248,6 +312,17 @@ export class AchievementService extends BaseService {
     return { ...this.userStats };
   }
 
+  private saveUserProgress(): void {
+    try {
+      localStorage.setItem(
+        'runrealm_achievements',
+        JSON.stringify({ unlocked: [...this.unlockedAchievements], stats: this.userStats })
+      );
+    } catch (error) {
+      console.warn('Failed to save achievement progress:', error);
+    }
+  }
+
   private async loadUserProgress(): Promise<void> {
     try {
       const stored = localStorage.getItem('runrealm_achievements');
@@ -5,10 +5,13 @@
 
 import type { CurrentRun } from '@runrealm/shared-utils/current-run';
 import { BaseService } from '../core/base-service';
+import { HEART_RATE_ZONES, type HeartRateSummary, heartRateZone } from '../utils/heart-rate';
+import type { TrainingLoadSummary } from '../utils/training-load';
 import { RunPoint } from './run-tracking-service';
 // Dynamically import Google Generative AI to reduce initial bundle size
 // import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
 import { Territory } from './territory-service';
+import { TrainingLoadService } from './training-load-service';
 
 export interface RouteOptimization {
   suggestedRoute: {
@@ -59,6 +62,20 @@ export interface AIGoals {
   priority?: string;
 }
 
+/**
+ * Live sensor data and training state for coaching. All optional: most
+ * runs have no strap.
+ */
+export interface CoachingPhysiology {
+  heartRate?: number; // bpm, current
+  cadence?: number; // steps per minute, current
+  maxHeartRate?: number; // bpm; zones need it
+  summary?: HeartRateSummary | null; // time in zone so far
+  // Fitness, fatigue and ramp warnings; read from TrainingLoadService
+  // when not given
+  trainingLoad?: TrainingLoadSummary | null;
+}
+
 export class AIService extends BaseService {
   private static instance: AIService;
   private genAI: any = null;
@@ -793,7 +810,8 @@ export class AIService extends BaseService {
   public async getRunningCoaching(
     currentRun: CurrentRun,
     userGoals: AIGoals,
-    weatherConditions?: string
+    weatherConditions?: string,
+    physiology?: CoachingPhysiology
   ): Promise<{
     motivation: string;
     tips: string[];
@@ -802,11 +820,15 @@ export class AIService extends BaseService {
   }> {
     await this.ensureInitialized();
 
+    if (physiology?.trainingLoad === undefined) {
+      physiology = { ...physiology, trainingLoad: TrainingLoadService.getInstance().getSummary() };
+    }
+
     if (!this.isEnabled) {
-      return this.createFallbackCoaching(currentRun, userGoals);
+      return this.createFallbackCoaching(currentRun, userGoals, physiology);
     }
 
-    const prompt = this.buildCoachingPrompt(currentRun, userGoals, weatherConditions);
+    const prompt = this.buildCoachingPrompt(currentRun, userGoals, weatherConditions, physiology);
 
     return this.retry(
       async () => {
@@ -999,18 +1021,26 @@ Provide GameFi-focused analysis that helps players make strategic decisions base
     `.trim();
   }
 
-  private buildCoachingPrompt(currentRun: CurrentRun, goals: AIGoals, weather?: string): string {
+  private buildCoachingPrompt(
+    currentRun: CurrentRun,
+    goals: AIGoals,
+    weather?: string,
+    physiology?: CoachingPhysiology
+  ): string {
     return `
 Provide motivational running coaching for RunRealm GameFi app.
 Current run: ${currentRun.distance}m distance
 Goals: ${JSON.stringify(goals)}
 Weather: ${weather || 'Unknown'}
-
+${this.describePhysiology(physiology)}
+${this.describeTrainingLoad(physiology?.trainingLoad)}
 Give personalized, gamified coaching that:
 - Motivates the user
 - Provides practical running tips
 - Warns about potential issues
 - Suggests optimal pace
+- Uses the heart rate and cadence data, when given, to judge effort
+- Takes recent training load into account, easing off when fatigue is high or load is ramping up fast
 
 Respond with JSON format:
 {
@@ -1024,6 +1054,52 @@ Make this feel like a personal AI running coach in a game world!
     `.trim();
   }
 
+  /**
+   * Sensor lines for the coaching prompt; says so when there's no data
+   * so the model doesn't invent any.
+   */
+  private describePhysiology(physiology?: CoachingPhysiology): string {
+    if (!physiology || (physiology.heartRate === undefined && !physiology.summary)) {
+      return 'Heart rate: no sensor connected';
+    }
+
+    const lines: string[] = [];
+    const { heartRate, cadence, maxHeartRate, summary } = physiology;
+    if (heartRate !== undefined) {
+      const zone = maxHeartRate ? heartRateZone(heartRate, maxHeartRate) : null;
+      const zoneName = zone ? HEART_RATE_ZONES[zone - 1].name : null;
+      lines.push(
+        `Heart rate: ${heartRate} bpm${zone ? ` (zone ${zone} ${zoneName} of 5)` : ''}${maxHeartRate ? `, max ${maxHeartRate} bpm` : ''}`
+      );
+    }
+    if (summary) {
+      const zones = summary.timeInZones
+        .filter((z) => z.duration > 0)
+        .map((z) => `Z${z.zone} ${Math.round(z.duration / 60000)}min`)
+        .join(', ');
+      lines.push(
+        `Heart rate so far: avg ${summary.averageHeartRate} bpm, peak ${summary.peakHeartRate} bpm${zones ? `; time in zone: ${zones}` : ''}`
+      );
+    }
+    const stepRate = cadence ?? summary?.averageCadence;
+    if (stepRate !== undefined) lines.push(`Cadence: ${stepRate} steps/min`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Training-load lines for the coaching prompt.
+   */
+  private describeTrainingLoad(load?: TrainingLoadSummary | null): string {
+    if (!load) return 'Training load: no run history';
+
+    const lines = [
+      `Training load: fitness ${Math.round(load.fitness)}, fatigue ${Math.round(load.fatigue)}, form ${Math.round(load.form)} (${load.formStatus})`,
+      `Last 7 days: load ${Math.round(load.acuteLoad)}, ${(load.weeks[load.weeks.length - 1].distance / 1000).toFixed(1)} km${load.loadRatio !== null ? `; ${load.loadRatio.toFixed(2)}× the 4-week average` : ''}`,
+    ];
+    for (const warning of load.warnings) lines.push(`Training warning: ${warning.message}`);
+    return lines.join('\n');
+  }
+
   // Response parsers
   private async parseRouteOptimization(
     text: string,
@@ -1212,15 +1288,43 @@ Make this feel like a personal AI running coach in a game world!
     };
   }
 
-  private createFallbackCoaching(currentRun: CurrentRun, _goals: AIGoals): any {
+  private createFallbackCoaching(
+    currentRun: CurrentRun,
+    _goals: AIGoals,
+    physiology?: CoachingPhysiology
+  ): any {
+    const tips = [
+      'Maintain steady breathing',
+      'Keep your territory claiming pace',
+      'Stay hydrated for optimal performance',
+    ];
+    const warnings = currentRun.distance > 5000 ? ['Consider a rest break'] : [];
+
+    const { heartRate, cadence, maxHeartRate } = physiology ?? {};
+    if (heartRate !== undefined && maxHeartRate) {
+      const zone = heartRateZone(heartRate, maxHeartRate);
+      if (zone === 5) warnings.push(`Heart rate ${heartRate} bpm is in zone 5 — ease off a little`);
+      else if (zone !== null && zone <= 2)
+        tips.unshift('Easy effort — a good pace to build endurance');
+    }
+    if (cadence !== undefined && cadence < 160) {
+      tips.push(`Cadence is ${cadence} steps/min — try quicker, shorter steps`);
+    }
+
+    const trainingLoad = physiology?.trainingLoad;
+    if (trainingLoad) {
+      warnings.push(...trainingLoad.warnings.map((w) => w.message));
+      if (trainingLoad.formStatus === 'overreaching') {
+        warnings.push('Fatigue is well above your fitness — keep today easy');
+      } else if (trainingLoad.formStatus === 'fresh') {
+        tips.push("You're well rested — a good day for a harder effort");
+      }
+    }
+
     return {
       motivation: `Great work, Runner! You've covered ${Math.floor(currentRun.distance)}m. Every step earns you territory and $REALM tokens!`,
-      tips: [
-        'Maintain steady breathing',
-        'Keep your territory claiming pace',
-        'Stay hydrated for optimal performance',
-      ],
-      warnings: currentRun.distance > 5000 ? ['Consider a rest break'] : [],
+      tips,
+      warnings,
       paceRecommendation: 4.5, // 4.5 seconds per meter (moderate pace)
     };
   }
@@ -0,0 +1,192 @@
+/**
+ * ApiAuthService — signs in to the backend API with the wallet.
+ *
+ * Sign-In with Ethereum against server.js's /api/auth: fetch a nonce,
+ * have the wallet sign a message carrying it (see utils/siwe.ts) and
+ * keep the session token the server returns. `getAuthToken` is what
+ * backend calls use — RunSyncService's `getAuthToken` hook on mobile,
+ * the Strava routes on web — so runs and links belong to the wallet
+ * that will claim them. It signs in again once the token is about to
+ * expire or a different wallet connects, and the session is dropped
+ * when the wallet disconnects. Background work that shouldn't pop up a
+ * signature request, like DeviceSyncService's periodic sync, takes
+ * `getSessionToken` instead.
+ *
+ * The wallet is Web3Service unless `setWallet` hands over another, like
+ * MobileWeb3Adapter on mobile. Singleton, like ClaimQueueService.
+ */
+import { BaseService } from '../core/base-service';
+import { formatSiweMessage, SIWE_STATEMENT } from '../utils/siwe';
+import { type WalletInfo, Web3Service } from './web3-service';
+
+export interface ApiSession {
+  token: string;
+  address: string; // lower-case
+  expiresAt: number;
+}
+
+/** What signing in needs from a wallet; Web3Service and MobileWeb3Adapter both fit. */
+export interface SigningWallet {
+  getCurrentWallet(): WalletInfo | null;
+  signMessage(message: string): Promise<string>;
+}
+
+const SESSION_KEY = 'runrealm_api_session';
+const EXPIRY_MARGIN_MS = 60_000;
+
+export class ApiAuthService extends BaseService {
+  private static instance: ApiAuthService;
+  private wallet: SigningWallet = Web3Service.getInstance();
+  private baseUrl = '';
+  private session: ApiSession | null = null;
+  private signingIn: Promise<ApiSession> | null = null;
+
+  static getInstance(): ApiAuthService {
+    if (!ApiAuthService.instance) {
+      ApiAuthService.instance = new ApiAuthService();
+    }
+    return ApiAuthService.instance;
+  }
+
+  protected async onInitialize(): Promise<void> {
+    this.session = this.readSession();
+
+    this.subscribe('web3:walletConnected', ({ address }) => {
+      if (this.session && this.session.address !== address.toLowerCase()) this.signOut();
+    });
+    this.subscribe('web3:walletDisconnected', () => this.signOut());
+
+    this.safeEmit('service:initialized', {
+      service: 'ApiAuthService',
+      success: true,
+    });
+  }
+
+  setWallet(wallet: SigningWallet): void {
+    this.wallet = wallet;
+  }
+
+  /** Where the API lives; same origin (the web app) when unset. */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * A session token for the connected wallet, signing in if there isn't
+   * a live one. Null with no wallet or when signing in fails.
+   */
+  async getAuthToken(): Promise<string | null> {
+    const wallet = this.wallet.getCurrentWallet();
+    if (!wallet) return null;
+    if (this.isLive(this.session, wallet.address)) return this.session.token;
+    try {
+      return (await this.signIn()).token;
+    } catch (error) {
+      console.warn('Failed to sign in to the API:', error);
+      return null;
+    }
+  }
+
+  /** The connected wallet's live session token, without asking it to sign in. */
+  getSessionToken(): string | null {
+    const wallet = this.wallet.getCurrentWallet();
+    return wallet && this.isLive(this.session, wallet.address) ? this.session.token : null;
+  }
+
+  /** Ask the wallet to sign in. Calls made while one is underway share it. */
+  signIn(): Promise<ApiSession> {
+    if (!this.signingIn) {
+      this.signingIn = this.requestSession().finally(() => {
+        this.signingIn = null;
+      });
+    }
+    return this.signingIn;
+  }
+
+  signOut(): void {
+    this.session = null;
+    try {
+      localStorage.removeItem(SESSION_KEY);
+    } catch {
+      // No storage (e.g. React Native); the session only lived in memory
+    }
+  }
+
+  private async requestSession(): Promise<ApiSession> {
+    const wallet = this.wallet.getCurrentWallet();
+    if (!wallet) {
+      throw new Error('No wallet connected');
+    }
+
+    const nonceResponse = await fetch(`${this.baseUrl}/api/auth/nonce`);
+    if (!nonceResponse.ok) {
+      throw new Error(`Failed to get a sign-in nonce: ${nonceResponse.status}`);
+    }
+    const { nonce } = await nonceResponse.json();
+
+    const site = new URL(
+      typeof window !== 'undefined' && window.location?.origin
+        ? window.location.origin
+        : this.baseUrl
+    );
+    const message = formatSiweMessage({
+      domain: site.host,
+      address: wallet.address,
+      statement: SIWE_STATEMENT,
+      uri: site.origin,
+      version: '1',
+      chainId: wallet.chainId,
+      nonce,
+      issuedAt: new Date().toISOString(),
+    });
+    const signature = await this.wallet.signMessage(message);
+
+    const response = await fetch(`${this.baseUrl}/api/auth/verify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message, signature }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Sign-in refused: ${body.error || response.statusText}`);
+    }
+
+    const session: ApiSession = {
+      token: body.token,
+      address: body.address,
+      expiresAt: Date.parse(body.expiresAt),
+    };
+    this.session = session;
+    this.writeSession(session);
+    return session;
+  }
+
+  private isLive(session: ApiSession | null, address: string): session is ApiSession {
+    return (
+      session !== null &&
+      session.address === address.toLowerCase() &&
+      session.expiresAt - EXPIRY_MARGIN_MS > Date.now()
+    );
+  }
+
+  private readSession(): ApiSession | null {
+    try {
+      const stored = localStorage.getItem(SESSION_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeSession(session: ApiSession): void {
+    try {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.warn('Failed to save API session:', error);
+    }
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * ClaimQueueService — territory claims that wait for the wallet.
+ *
+ * The web counterpart of RunSyncService on mobile: a claim made while
+ * the wallet is disconnected, the contract service isn't ready or the
+ * network drops is queued in localStorage with its Territory instead
+ * of failing, and is retried with backoff (see utils/claim-queue.ts).
+ * The queue flushes when the wallet connects, the browser comes back
+ * online, or an entry's backoff runs out. Attempts only run while a
+ * wallet is connected, so time spent offline doesn't use them up.
+ *
+ * The claim itself is TerritoryService's; it hands over a submitter
+ * with `setSubmitter`. Every change to an entry is announced as
+ * `territory:claimQueueChanged` for TransactionStatus to show.
+ *
+ * Singleton, like LeaderboardService.
+ */
+import { BaseService } from '../core/base-service';
+import {
+  type ClaimOutcome,
+  type ClaimQueueEntry,
+  dueClaims,
+  enqueueClaim,
+  finishClaim,
+  nextClaimDue,
+  pruneSettled,
+  recoverInterrupted,
+  retryNow,
+  startClaim,
+} from '../utils/claim-queue';
+import type { Territory } from './territory-service';
+import { Web3Service } from './web3-service';
+
+export type QueuedClaim = ClaimQueueEntry<Territory>;
+export type ClaimSubmitter = (claim: QueuedClaim) => Promise<ClaimOutcome>;
+
+const QUEUE_KEY = 'runrealm_claim_queue';
+
+export class ClaimQueueService extends BaseService {
+  private static instance: ClaimQueueService;
+  private queue: QueuedClaim[] = [];
+  private submitter: ClaimSubmitter | null = null;
+  private walletConnected = false;
+  private flushing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  static getInstance(): ClaimQueueService {
+    if (!ClaimQueueService.instance) {
+      ClaimQueueService.instance = new ClaimQueueService();
+    }
+    return ClaimQueueService.instance;
+  }
+
+  protected async onInitialize(): Promise<void> {
+    this.queue = recoverInterrupted(this.readQueue());
+    this.writeQueue();
+    // A wallet restored before this point announced itself already
+    this.walletConnected = Web3Service.getInstance().isConnected();
+
+    this.subscribe('web3:walletConnected', () => {
+      this.walletConnected = true;
+      this.queue = retryNow(this.queue, Date.now());
+      void this.flush();
+    });
+    this.subscribe('web3:walletDisconnected', () => {
+      this.walletConnected = false;
+    });
+    this.subscribe('web3:networkChanged', () => {
+      void this.flush();
+    });
+
+    if (typeof window !== 'undefined') {
+      const onOnline = () => {
+        this.queue = retryNow(this.queue, Date.now());
+        void this.flush();
+      };
+      window.addEventListener('online', onOnline);
+      this.registerCleanup(() => window.removeEventListener('online', onOnline));
+    }
+    this.registerCleanup(() => {
+      if (this.retryTimer) clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    });
+
+    this.scheduleRetry();
+    this.safeEmit('service:initialized', {
+      service: 'ClaimQueueService',
+      success: true,
+    });
+  }
+
+  /** Who makes the claim when an entry comes due; TerritoryService in the app. */
+  setSubmitter(submitter: ClaimSubmitter | null): void {
+    this.submitter = submitter;
+  }
+
+  /**
+   * Queue a territory claim. A geohash already waiting keeps its entry.
+   * Returns the entry as queued.
+   */
+  enqueue(territory: Territory, runId?: string): QueuedClaim {
+    const now = Date.now();
+    this.queue = enqueueClaim(
+      this.queue,
+      { geohash: territory.geohash, payload: territory, runId },
+      now
+    );
+    const entry = this.find(territory.geohash) as QueuedClaim;
+    this.changed(entry);
+    this.scheduleRetry();
+    return entry;
+  }
+
+  getEntries(): QueuedClaim[] {
+    return [...this.queue];
+  }
+
+  /** Claims still waiting or in flight. */
+  pendingCount(): number {
+    return this.queue.filter((e) => e.status === 'queued' || e.status === 'claiming').length;
+  }
+
+  isQueued(geohash: string): boolean {
+    const entry = this.find(geohash);
+    return entry?.status === 'queued' || entry?.status === 'claiming';
+  }
+
+  /**
+   * Try every entry whose backoff is over. Safe to call from any
+   * reconnect handler; overlapping calls are dropped.
+   */
+  async flush(): Promise<void> {
+    if (this.flushing || !this.submitter || !this.walletConnected) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+    this.flushing = true;
+    try {
+      for (const due of dueClaims(this.queue, Date.now())) {
+        this.queue = startClaim(this.queue, due.geohash, Date.now());
+        this.changed(this.find(due.geohash) as QueuedClaim);
+
+        let outcome: ClaimOutcome;
+        try {
+          outcome = await this.submitter(this.find(due.geohash) as QueuedClaim);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          outcome = { ok: false, error: message, retryable: false };
+        }
+
+        this.queue = finishClaim(this.queue, due.geohash, outcome, Date.now());
+        const entry = this.find(due.geohash) as QueuedClaim;
+        this.changed(entry);
+        if (entry.status === 'failed') {
+          this.safeEmit('territory:claimFailed', {
+            error: entry.lastError || 'Unknown error',
+            territory: entry.payload,
+            runId: entry.runId,
+          });
+        }
+      }
+    } finally {
+      this.flushing = false;
+      this.queue = pruneSettled(this.queue, Date.now());
+      this.writeQueue();
+      this.scheduleRetry();
+    }
+  }
+
+  private find(geohash: string): QueuedClaim | undefined {
+    return this.queue.find((e) => e.geohash === geohash);
+  }
+
+  private changed(entry: QueuedClaim): void {
+    this.writeQueue();
+    this.safeEmit('territory:claimQueueChanged', { entry, pending: this.pendingCount() });
+  }
+
+  /** Wake up when the next entry's backoff runs out. */
+  private scheduleRetry(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    const due = nextClaimDue(this.queue);
+    if (due === null) return;
+    this.retryTimer = setTimeout(
+      () => {
+        this.retryTimer = null;
+        void this.flush();
+      },
+      Math.max(0, due - Date.now())
+    );
+  }
+
+  private readQueue(): QueuedClaim[] {
+    try {
+      const stored = localStorage.getItem(QUEUE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load claim queue:', error);
+      return [];
+    }
+  }
+
+  private writeQueue(): void {
+    try {
+      localStorage.setItem(QUEUE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.warn('Failed to save claim queue:', error);
+    }
+  }
+}
@@ -0,0 +1,465 @@
+/**
+ * DeviceSyncService — run history, territories and progression shared
+ * across a user's devices.
+ *
+ * Two-way sync against server.js's /api/sync change feed: pull every
+ * document changed since this device's cursor, take the ones that
+ * haven't also changed here, then push what has changed here with the
+ * `seq` it was based on. The server settles edits two devices made at
+ * once (see utils/device-sync.ts) and answers with its copy, which this
+ * device takes in turn; territory claims it had to choose between are
+ * kept as conflicts for the user to see.
+ *
+ * What gets synced comes from sources registered per kind with
+ * `registerSource`: RunTrackingService, TerritoryService and
+ * ProgressionService on web, AsyncStorage-backed run history on mobile.
+ * A document counts as changed here when its fingerprint differs from
+ * the one recorded when it last synced, and is pushed with the time this
+ * device first saw it that way — its edit time, which settles runs and
+ * territories edited on two devices at once. Removals aren't synced: run
+ * history is trimmed per device and territories leave by changing
+ * status, not by disappearing.
+ *
+ * Sync runs shortly after a run, claim or stats change, when the wallet
+ * connects or the network comes back, every few minutes, and on
+ * `syncNow`. Only `syncNow`, which the user asks for, may have the
+ * wallet sign in; the rest wait for a live session. Every status
+ * change is announced as `sync:statusChanged` for the web dashboard
+ * and the mobile SettingsScreen to show.
+ *
+ * Singleton, like ApiAuthService.
+ */
+import { BaseService } from '../core/base-service';
+import {
+  SYNC_KINDS,
+  type SyncConflict,
+  type SyncKind,
+  type SyncPush,
+  type SyncRecord,
+  syncFingerprint,
+} from '../utils/device-sync';
+import { StorageAdapter } from '../utils/storage-adapter';
+import type { ApiAuthService } from './api-auth-service';
+
+/** Where a kind of document lives on this device. */
+export interface SyncSource<T = unknown> {
+  idOf(item: T): string;
+  read(): T[] | Promise<T[]>;
+  write(items: T[]): void | Promise<void>; // add or replace these
+}
+
+export type SyncState = 'idle' | 'syncing' | 'synced' | 'offline' | 'signed-out' | 'error';
+
+export interface DeviceSyncStatus {
+  state: SyncState;
+  lastSyncedAt: number | null;
+  pending: number; // documents changed here since they last synced
+  conflicts: SyncConflict[];
+  error?: string;
+}
+
+interface SyncedDocument {
+  seq: number;
+  fingerprint: string;
+}
+
+interface LocalEdit {
+  fingerprint: string;
+  at: number; // when this device first saw the document this way
+}
+
+interface StoredSyncState {
+  deviceId: string;
+  owner: string | null; // wallet the cursor and records belong to
+  cursor: number;
+  synced: Record<string, SyncedDocument>; // by `${kind}:${id}`
+  edits: Record<string, LocalEdit>; // documents changed here, by key
+  statsBase?: unknown; // the stats as last synced, for the server's merge
+  lastSyncedAt: number | null;
+  conflicts: SyncConflict[];
+}
+
+interface PushResult {
+  kind: SyncKind;
+  id: string;
+  applied: boolean;
+  record: SyncRecord;
+  conflict?: SyncConflict;
+}
+
+const STATE_KEY = 'runrealm_device_sync';
+const SYNC_DELAY_MS = 5_000;
+const SYNC_INTERVAL_MS = 5 * 60_000;
+const PUSH_BATCH = 200; // server/sync-store.js takes at most this many
+const PUSH_BYTES = 4_000_000; // of JSON, under server.js's 5 MB body limit
+const MAX_CONFLICTS = 20;
+
+export class DeviceSyncService extends BaseService {
+  private static instance: DeviceSyncService;
+  private apiAuth: ApiAuthService | null = null;
+  private baseUrl = '';
+  private sources = new Map<SyncKind, SyncSource>();
+  private state: StoredSyncState = DeviceSyncService.freshState(DeviceSyncService.newDeviceId());
+  private status: DeviceSyncStatus = {
+    state: 'idle',
+    lastSyncedAt: null,
+    pending: 0,
+    conflicts: [],
+  };
+  private syncing: Promise<DeviceSyncStatus> | null = null;
+  private scheduled: ReturnType<typeof setTimeout> | null = null;
+
+  static getInstance(): DeviceSyncService {
+    if (!DeviceSyncService.instance) {
+      DeviceSyncService.instance = new DeviceSyncService();
+    }
+    return DeviceSyncService.instance;
+  }
+
+  protected async onInitialize(): Promise<void> {
+    this.state = await this.readState();
+    this.setStatus({ lastSyncedAt: this.state.lastSyncedAt, conflicts: this.state.conflicts });
+
+    const soon = () => this.scheduleSync(SYNC_DELAY_MS);
+    this.subscribe('run:completed', soon);
+    this.subscribe('run:imported', soon);
+    this.subscribe('territory:claimed', soon);
+    this.subscribe('game:statsUpdated', soon);
+    this.subscribe('web3:walletConnected', ({ address }) => {
+      this.switchOwner(address.toLowerCase());
+      this.scheduleSync(0);
+    });
+    this.subscribe('web3:walletDisconnected', () => this.setStatus({ state: 'signed-out' }));
+
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      const onOnline = () => this.scheduleSync(0);
+      window.addEventListener('online', onOnline);
+      this.registerCleanup(() => window.removeEventListener('online', onOnline));
+    }
+    const interval = setInterval(() => void this.runSync(false), SYNC_INTERVAL_MS);
+    this.registerCleanup(() => {
+      clearInterval(interval);
+      if (this.scheduled) clearTimeout(this.scheduled);
+      this.scheduled = null;
+    });
+
+    this.scheduleSync(SYNC_DELAY_MS);
+    this.safeEmit('service:initialized', {
+      service: 'DeviceSyncService',
+      success: true,
+    });
+  }
+
+  /** Signs sync requests in with the wallet. */
+  setApiAuth(apiAuth: ApiAuthService): void {
+    this.apiAuth = apiAuth;
+  }
+
+  /** Where the API lives; same origin (the web app) when unset. */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  registerSource<T>(kind: SyncKind, source: SyncSource<T>): void {
+    this.sources.set(kind, source as SyncSource);
+  }
+
+  getStatus(): DeviceSyncStatus {
+    return { ...this.status, conflicts: [...this.status.conflicts] };
+  }
+
+  /** Forget the conflicts shown so far, once the user has seen them. */
+  clearConflicts(): void {
+    this.state.conflicts = [];
+    void this.writeState();
+    this.setStatus({ conflicts: [] });
+  }
+
+  /** Sync now, signing in if need be. */
+  syncNow(): Promise<DeviceSyncStatus> {
+    return this.runSync(true);
+  }
+
+  /** Calls made while a sync is underway share it. */
+  private runSync(signIn: boolean): Promise<DeviceSyncStatus> {
+    if (!this.syncing) {
+      this.syncing = this.sync(signIn).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private scheduleSync(delay: number): void {
+    if (this.scheduled) clearTimeout(this.scheduled);
+    this.scheduled = setTimeout(() => {
+      this.scheduled = null;
+      void this.runSync(false);
+    }, delay);
+  }
+
+  private async sync(signIn: boolean): Promise<DeviceSyncStatus> {
+    // Before anything that can stop the sync, so an edit made offline
+    // still goes out with the time it was made
+    await this.noteEdits();
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      return this.setStatus({ state: 'offline' });
+    }
+    const token = signIn
+      ? await this.apiAuth?.getAuthToken()
+      : (this.apiAuth?.getSessionToken() ?? null);
+    if (!token) return this.setStatus({ state: 'signed-out' });
+
+    this.setStatus({ state: 'syncing', error: undefined });
+    try {
+      const local = await this.readLocal();
+
+      // Take what changed elsewhere, unless it changed here too: the
+      // push below hands those to the server to settle
+      const pulled: SyncRecord[] = [];
+      for (const record of await this.pull(token)) {
+        const key = this.keyOf(record.kind, record.id);
+        const known = this.state.synced[key];
+        if (known && record.seq <= known.seq) continue;
+        const mine = local.get(key);
+        if (mine !== undefined && this.changedHere(key, mine)) continue;
+        this.recordSynced(record);
+        pulled.push(record);
+        local.delete(key);
+      }
+      await this.writeLocal(pulled);
+
+      // Each batch is written back before the next goes, so a failure
+      // part way leaves nothing recorded as synced that isn't here
+      const changes = [...local.entries()]
+        .filter(([key, data]) => this.changedHere(key, data))
+        .map(([key, data]) => this.pushOf(key, data));
+      for (const batch of DeviceSyncService.batches(changes)) {
+        const settled: SyncRecord[] = [];
+        for (const result of await this.push(token, batch)) {
+          const key = this.keyOf(result.kind, result.id);
+          this.recordSynced(result.record);
+          if (this.changedHere(key, local.get(key))) settled.push(result.record);
+          if (result.conflict) this.state.conflicts.push(result.conflict);
+        }
+        await this.writeLocal(settled);
+      }
+
+      this.state.conflicts = this.state.conflicts.slice(-MAX_CONFLICTS);
+      this.state.lastSyncedAt = Date.now();
+      await this.writeState();
+      return this.setStatus({
+        state: 'synced',
+        lastSyncedAt: this.state.lastSyncedAt,
+        pending: 0,
+        conflicts: this.state.conflicts,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn('Device sync failed:', message);
+      await this.writeState();
+      return this.setStatus({
+        state: 'error',
+        error: message,
+        pending: await this.countPending(),
+      });
+    }
+  }
+
+  /** Every change after the cursor, following pages to the end. */
+  private async pull(token: string): Promise<SyncRecord[]> {
+    const records: SyncRecord[] = [];
+    let hasMore = true;
+    while (hasMore) {
+      const page = await this.request<{ changes: SyncRecord[]; cursor: number; hasMore: boolean }>(
+        token,
+        `/api/sync/changes?cursor=${this.state.cursor}`
+      );
+      records.push(...page.changes.filter((record) => this.sources.has(record.kind)));
+      this.state.cursor = page.cursor;
+      hasMore = page.hasMore && page.changes.length > 0;
+    }
+    return records;
+  }
+
+  private async push(token: string, changes: SyncPush[]): Promise<PushResult[]> {
+    const { results } = await this.request<{ results: PushResult[] }>(token, '/api/sync/changes', {
+      method: 'POST',
+      body: JSON.stringify({ changes }),
+    });
+    return results;
+  }
+
+  private async request<T>(token: string, path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    });
+    if (response.status === 401) {
+      // The server no longer knows the session; sign in afresh next time
+      this.apiAuth?.signOut();
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(`Sync request failed: ${body.error || response.status}`);
+    }
+    return response.json();
+  }
+
+  private pushOf(key: string, data: unknown): SyncPush {
+    const [kind, ...rest] = key.split(':');
+    return {
+      kind: kind as SyncKind,
+      id: rest.join(':'),
+      data,
+      updatedAt: this.state.edits[key]?.at ?? Date.now(),
+      deviceId: this.state.deviceId,
+      baseSeq: this.state.synced[key]?.seq ?? 0,
+      ...(kind === 'stats' && this.state.statsBase ? { base: this.state.statsBase } : {}),
+    };
+  }
+
+  private recordSynced(record: SyncRecord): void {
+    this.state.synced[this.keyOf(record.kind, record.id)] = {
+      seq: record.seq,
+      fingerprint: syncFingerprint(record.data),
+    };
+    if (record.kind === 'stats') this.state.statsBase = record.data;
+  }
+
+  /** Stamp documents that changed here since last looked at. */
+  private async noteEdits(): Promise<void> {
+    let local: Map<string, unknown>;
+    try {
+      local = await this.readLocal();
+    } catch {
+      return; // the sync itself reports it
+    }
+    const now = Date.now();
+    let noted = false;
+    for (const [key, data] of local) {
+      const fingerprint = syncFingerprint(data);
+      if (this.state.synced[key]?.fingerprint === fingerprint) {
+        if (!this.state.edits[key]) continue;
+        delete this.state.edits[key];
+        noted = true;
+      } else if (this.state.edits[key]?.fingerprint !== fingerprint) {
+        this.state.edits[key] = { fingerprint, at: now };
+        noted = true;
+      }
+    }
+    if (noted) await this.writeState();
+  }
+
+  private changedHere(key: string, data: unknown): boolean {
+    return this.state.synced[key]?.fingerprint !== syncFingerprint(data);
+  }
+
+  private async countPending(): Promise<number> {
+    const local = await this.readLocal();
+    return [...local.entries()].filter(([key, data]) => this.changedHere(key, data)).length;
+  }
+
+  private async readLocal(): Promise<Map<string, unknown>> {
+    const local = new Map<string, unknown>();
+    for (const kind of SYNC_KINDS) {
+      const source = this.sources.get(kind);
+      if (!source) continue;
+      for (const item of await source.read()) {
+        local.set(this.keyOf(kind, source.idOf(item)), item);
+      }
+    }
+    return local;
+  }
+
+  /**
+   * Hand the server's copies to their sources, then note how each reads
+   * back here: a source may fill in defaults, and that mustn't look like
+   * a change to push.
+   */
+  private async writeLocal(records: SyncRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    for (const kind of SYNC_KINDS) {
+      const items = records.filter((record) => record.kind === kind).map((record) => record.data);
+      if (items.length > 0) await this.sources.get(kind)?.write(items);
+    }
+    const local = await this.readLocal();
+    for (const record of records) {
+      const key = this.keyOf(record.kind, record.id);
+      if (local.has(key)) this.state.synced[key].fingerprint = syncFingerprint(local.get(key));
+    }
+  }
+
+  private keyOf(kind: SyncKind, id: string): string {
+    return `${kind}:${id}`;
+  }
+
+  /** Another wallet's feed starts from the beginning. */
+  private switchOwner(owner: string): void {
+    if (this.state.owner === owner) return;
+    this.state = { ...DeviceSyncService.freshState(this.state.deviceId), owner };
+    void this.writeState();
+    this.setStatus({ lastSyncedAt: null, conflicts: [] });
+  }
+
+  private setStatus(changes: Partial<DeviceSyncStatus>): DeviceSyncStatus {
+    this.status = { ...this.status, ...changes };
+    const status = this.getStatus();
+    this.safeEmit('sync:statusChanged', status);
+    return status;
+  }
+
+  /** Changes in pushes the server will take, by count and by size. */
+  private static batches(changes: SyncPush[]): SyncPush[][] {
+    const batches: SyncPush[][] = [];
+    let batch: SyncPush[] = [];
+    let bytes = 0;
+    for (const change of changes) {
+      // Runs carry their GPS points, so a few can outweigh the count limit
+      const size = JSON.stringify(change).length;
+      if (batch.length > 0 && (batch.length >= PUSH_BATCH || bytes + size > PUSH_BYTES)) {
+        batches.push(batch);
+        batch = [];
+        bytes = 0;
+      }
+      batch.push(change);
+      bytes += size;
+    }
+    if (batch.length > 0) batches.push(batch);
+    return batches;
+  }
+
+  private static freshState(deviceId: string): StoredSyncState {
+    return {
+      deviceId,
+      owner: null,
+      cursor: 0,
+      synced: {},
+      edits: {},
+      lastSyncedAt: null,
+      conflicts: [],
+    };
+  }
+
+  private static newDeviceId(): string {
+    return `device_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  private async readState(): Promise<StoredSyncState> {
+    try {
+      const stored = await StorageAdapter.getItem(STATE_KEY);
+      if (stored) return { ...this.state, ...JSON.parse(stored) };
+    } catch (error) {
+      console.warn('Failed to load sync state:', error);
+    }
+    return this.state;
+  }
+
+  private async writeState(): Promise<void> {
+    try {
+      await StorageAdapter.setItem(STATE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.warn('Failed to save sync state:', error);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { ConfigService } from '../core/app-config';
 import { BaseService } from '../core/base-service';
 import { RateLimiterFactory } from '../utils/rate-limiter';
+import type { ApiAuthService } from './api-auth-service';
 import { ExternalActivity } from './run-tracking-service';
 
 export class ExternalFitnessService extends BaseService {
@@ -9,6 +10,7 @@ export class ExternalFitnessService extends BaseService {
   private refreshTokens: Map<string, string> = new Map();
   private tokenExpirations: Map<string, number> = new Map();
   private stravaRateLimiter = RateLimiterFactory.getStravaLimiter();
+  private apiAuth: ApiAuthService | null = null;
 
   constructor() {
     super();
@@ -16,6 +18,33 @@ export class ExternalFitnessService extends BaseService {
     this.loadStoredTokens();
   }
 
+  /** Signs the server's Strava routes in with the wallet. */
+  setApiAuth(apiAuth: ApiAuthService): void {
+    this.apiAuth = apiAuth;
+  }
+
+  private async requireApiToken(): Promise<string> {
+    const token = this.apiAuth ? await this.apiAuth.getAuthToken() : null;
+    if (!token) {
+      throw new Error('Connect your wallet to use Strava');
+    }
+    return token;
+  }
+
+  /** A single-use OAuth state from the server, standing in for the wallet session. */
+  private async requestStravaState(): Promise<string> {
+    const apiToken = await this.requireApiToken();
+    const response = await fetch(`${this.apiAuth?.getBaseUrl() ?? ''}/api/strava/state`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiToken}` },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to start the Strava connection: ${response.status}`);
+    }
+    const { state } = await response.json();
+    return state;
+  }
+
   /**
    * Load stored tokens from localStorage
    */
@@ -87,10 +116,12 @@ export class ExternalFitnessService extends BaseService {
     }
 
     try {
+      const apiToken = await this.requireApiToken();
       const response = await fetch('/api/strava/refresh', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiToken}`,
         },
         body: JSON.stringify({ refresh_token: refreshToken }),
       });
@@ -120,9 +151,10 @@ export class ExternalFitnessService extends BaseService {
   }
 
   /**
-   * Initiate Strava OAuth flow
+   * Initiate Strava OAuth flow. The OAuth `state` is a single-use value
+   * the server ties to the wallet's session, since its callback needs it.
    */
-  public initiateStravaAuth(callbackUrl?: string): string {
+  public async initiateStravaAuth(callbackUrl?: string): Promise<string> {
     const stravaConfig = this.configService.getStravaConfig();
     if (!stravaConfig?.clientId) {
       throw new Error('Strava configuration not found. Please check your credentials.');
@@ -136,6 +168,7 @@ export class ExternalFitnessService extends BaseService {
       response_type: 'code',
       scope: 'read,activity:read_all',
       approval_prompt: 'auto',
+      state: await this.requestStravaState(),
     });
 
     const authUrl = `https://www.strava.com/oauth/authorize?${params.toString()}`;
@@ -1,7 +1,18 @@
+import {
+  isInBounds,
+  type Landmark,
+  type LandmarkBounds,
+  type LandmarkProvider,
+  landmarkKindFromCategory,
+} from '../utils/landmarks';
+
 export type GeocodeFeature = {
   name: string;
   center: [number, number];
   context?: any;
+  id?: string;
+  text?: string; // short name, without the address
+  category?: string; // POI category list, e.g. "park, playground"
 };
 
 export class GeocodingService {
@@ -46,4 +57,65 @@ export class GeocodingService {
       return null;
     }
   }
+
+  /**
+   * Points of interest nearest a location (reverse geocode restricted to
+   * POIs). Empty on any error, like the other lookups.
+   */
+  async reversePointsOfInterest(
+    lngLat: [number, number],
+    limit = 5,
+    signal?: AbortSignal
+  ): Promise<GeocodeFeature[]> {
+    const [lng, lat] = lngLat;
+    const url = `${this.endpoint}/${lng},${lat}.json?types=poi&limit=${limit}&access_token=${encodeURIComponent(this.token)}`;
+    try {
+      const res = await fetch(url, { signal });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const json = await res.json();
+      const features = json?.features || [];
+      return features.map((f: any) => ({
+        name: f.place_name as string,
+        center: f.center as [number, number],
+        context: f.context,
+        id: f.id as string,
+        text: f.text as string,
+        category: f.properties?.category as string | undefined,
+      }));
+    } catch (e) {
+      console.warn('POI lookup error', e);
+      return [];
+    }
+  }
+}
+
+/**
+ * Landmark provider backed by the geocoder: POIs around the centre of the
+ * bounds, kept if they fall inside. The geocoder has no notion of
+ * significance, so only its categories feed rarity.
+ */
+export class GeocodingLandmarkProvider implements LandmarkProvider {
+  readonly name = 'geocoding';
+
+  constructor(
+    private readonly geocoding: GeocodingService,
+    private readonly limit = 5 // the most a single-type reverse lookup returns
+  ) {}
+
+  async findLandmarks(bounds: LandmarkBounds, signal?: AbortSignal): Promise<Landmark[]> {
+    const center: [number, number] = [
+      (bounds.east + bounds.west) / 2,
+      (bounds.north + bounds.south) / 2,
+    ];
+    const features = await this.geocoding.reversePointsOfInterest(center, this.limit, signal);
+    return features
+      .map((f) => ({
+        id: f.id ?? f.name,
+        name: f.text ?? f.name.split(',')[0],
+        kind: landmarkKindFromCategory(f.category),
+        lng: f.center[0],
+        lat: f.center[1],
+      }))
+      .filter((landmark) => isInBounds(landmark, bounds));
+  }
 }
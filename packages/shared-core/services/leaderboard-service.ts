@@ -0,0 +1,167 @@
+/**
+ * LeaderboardService — who owns what around the runner.
+ *
+ * Rolls the claimed territories up into parent H3 cells around the
+ * runner's last known location (see utils/leaderboard.ts), ranks their
+ * owners and shades the map by dominant owner. Recomputes when the
+ * runner moves into another parent cell or a territory is claimed,
+ * captured or loses activity, and emits `leaderboard:updated`.
+ *
+ * Legacy territories without H3 cells count the cells inside their
+ * bounds, as they do for overlap checks in TerritoryService.
+ *
+ * Singleton, like TrainingLoadService.
+ */
+import { BaseService } from '../core/base-service';
+import { boundsToCells } from '../utils/h3-territory';
+import {
+  LEADERBOARD_RESOLUTION,
+  LEADERBOARD_RINGS,
+  type LeaderboardEntry,
+  type LeaderboardMetric,
+  type LeaderboardTerritory,
+  leaderboardArea,
+  type OwnershipCell,
+  ownershipCells,
+  rankOwners,
+} from '../utils/leaderboard';
+import { type Territory, TerritoryService } from './territory-service';
+
+export interface LeaderboardSnapshot {
+  center: { lat: number; lng: number };
+  metric: LeaderboardMetric;
+  entries: LeaderboardEntry[];
+  cells: OwnershipCell[];
+  updatedAt: number;
+}
+
+export class LeaderboardService extends BaseService {
+  private static instance: LeaderboardService;
+  private center: { lat: number; lng: number } | null = null;
+  private areaCells: string[] = [];
+  private metric: LeaderboardMetric = 'cells';
+  private ownerFilter: string | null = null;
+  private choroplethVisible = true;
+  private snapshot: LeaderboardSnapshot | null = null;
+
+  static getInstance(): LeaderboardService {
+    if (!LeaderboardService.instance) {
+      LeaderboardService.instance = new LeaderboardService();
+    }
+    return LeaderboardService.instance;
+  }
+
+  protected async onInitialize(): Promise<void> {
+    this.subscribe('location:changed', (location) => {
+      this.setCenter({ lat: location.lat, lng: location.lng });
+    });
+
+    const refresh = () => this.refresh();
+    this.subscribe('territory:claimed', refresh);
+    this.subscribe('territory:activityUpdated', refresh);
+    this.subscribe('territory:contestResolved', refresh);
+    this.subscribe('territory:transferred', refresh);
+
+    this.safeEmit('service:initialized', {
+      service: 'LeaderboardService',
+      success: true,
+    });
+  }
+
+  getSnapshot(): LeaderboardSnapshot | null {
+    return this.snapshot;
+  }
+
+  getMetric(): LeaderboardMetric {
+    return this.metric;
+  }
+
+  getOwnerFilter(): string | null {
+    return this.ownerFilter;
+  }
+
+  /**
+   * Center the leaderboard on a location. Only recomputes when the
+   * location falls in another parent cell, so GPS updates are cheap.
+   */
+  setCenter(center: { lat: number; lng: number }): void {
+    const area = leaderboardArea(center, LEADERBOARD_RESOLUTION, LEADERBOARD_RINGS);
+    const moved = area[0] !== this.areaCells[0];
+    this.center = center;
+    if (!moved) return;
+    this.areaCells = area;
+    this.refresh();
+  }
+
+  setMetric(metric: LeaderboardMetric): void {
+    if (metric === this.metric) return;
+    this.metric = metric;
+    this.refresh();
+  }
+
+  /** Narrow the choropleth to one owner's cells, or show all with null. */
+  setOwnerFilter(owner: string | null): void {
+    this.ownerFilter = owner?.toLowerCase() ?? null;
+    const mapService = this.getSiblingService('MapService');
+    if (mapService && typeof mapService.setOwnershipFilter === 'function') {
+      mapService.setOwnershipFilter(this.ownerFilter);
+    }
+  }
+
+  setChoroplethVisible(visible: boolean): void {
+    this.choroplethVisible = visible;
+    if (visible) {
+      this.drawChoropleth();
+      return;
+    }
+    const mapService = this.getSiblingService('MapService');
+    if (mapService && typeof mapService.clearOwnershipChoropleth === 'function') {
+      mapService.clearOwnershipChoropleth();
+    }
+  }
+
+  isChoroplethVisible(): boolean {
+    return this.choroplethVisible;
+  }
+
+  /** Recompute from the current territories. Null until there's a location. */
+  refresh(): LeaderboardSnapshot | null {
+    if (!this.center) return null;
+
+    const territories = TerritoryService.getInstance()
+      .getClaimedTerritories()
+      .map(toLeaderboardTerritory);
+    this.snapshot = {
+      center: this.center,
+      metric: this.metric,
+      entries: rankOwners(territories, this.areaCells, this.metric, LEADERBOARD_RESOLUTION),
+      cells: ownershipCells(territories, this.areaCells, LEADERBOARD_RESOLUTION),
+      updatedAt: Date.now(),
+    };
+
+    if (this.choroplethVisible) this.drawChoropleth();
+    this.safeEmit('leaderboard:updated', this.snapshot);
+    return this.snapshot;
+  }
+
+  private drawChoropleth(): void {
+    if (!this.snapshot) return;
+    const mapService = this.getSiblingService('MapService');
+    if (!mapService || typeof mapService.drawOwnershipChoropleth !== 'function') return;
+    mapService.drawOwnershipChoropleth(this.snapshot.cells);
+    if (typeof mapService.setOwnershipFilter === 'function') {
+      mapService.setOwnershipFilter(this.ownerFilter);
+    }
+  }
+}
+
+function toLeaderboardTerritory(territory: Territory): LeaderboardTerritory {
+  return {
+    id: territory.id,
+    owner: territory.defense?.owner || territory.owner,
+    cells: territory.h3Cells?.length
+      ? territory.h3Cells.map((c) => c.h3Index)
+      : boundsToCells(territory.bounds),
+    activityPoints: territory.activityPoints,
+  };
+}
@@ -13,6 +13,7 @@ export interface LocationInfo {
   lat: number;
   lng: number;
   accuracy?: number;
+  altitude?: number; // meters, when the fix has one
   address?: string;
   source: 'gps' | 'search' | 'manual' | 'default';
   timestamp: number;
@@ -829,6 +830,7 @@ export class LocationService extends BaseService {
           lat: position.coords.latitude,
           lng: position.coords.longitude,
           accuracy: position.coords.accuracy,
+          altitude: position.coords.altitude ?? undefined,
           source: 'gps',
           timestamp: Date.now(),
         };
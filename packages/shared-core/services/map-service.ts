@@ -1,7 +1,13 @@
 import type { Map as MaplibreMap } from 'maplibre-gl';
 import { BaseService } from '../core/base-service';
 import { cellToPolygon, type TerritoryCell } from '../utils/h3-territory';
+import { type OwnershipCell, ownerColor } from '../utils/leaderboard';
 import { makeEaseToThrottle, makeMapThrottle, type ThrottledFn } from '../utils/map-throttle';
+import {
+  LEVEL_MIN_ZOOM,
+  type TerritoryHierarchy,
+  type TerritoryLevel,
+} from '../utils/territory-hierarchy';
 import { ReplayService } from './replay-service';
 import { RunPoint } from './run-tracking-service';
 import { TerritoryIntent, TerritoryPreview } from './territory-service';
@@ -26,6 +32,10 @@ const H3_CELLS_BORDER_LAYER_ID = 'h3-cells-border-layer';
 const CONTESTED_CELLS_SOURCE_ID = 'contested-cells-source';
 const CONTESTED_CELLS_LAYER_ID = 'contested-cells-layer';
 const CONTESTED_CELLS_BORDER_LAYER_ID = 'contested-cells-border-layer';
+const OWNERSHIP_SOURCE_ID = 'ownership-choropleth-source';
+const OWNERSHIP_LAYER_ID = 'ownership-choropleth-layer';
+const OWNERSHIP_BORDER_LAYER_ID = 'ownership-choropleth-border-layer';
+const HIERARCHY_SOURCE_ID = 'territory-hierarchy-source';
 
 export interface TerritoryMapOptions {
   showPreviews?: boolean;
@@ -62,6 +72,7 @@ export class MapService extends BaseService {
   // Step 7: contested-border pulse animation handle
   private contestedPulseRafId: number | null = null;
   private contestedPulseStartMs: number = 0;
+  private ownershipFilter: string | null = null;
 
   /**
    * Initialize map layers for territory preview functionality
@@ -542,36 +553,32 @@ export class MapService extends BaseService {
     });
   }
 
-  public drawTerritory(points: RunPoint[]): void {
+  /**
+   * Fill the territory a run claims. With `cells` (a run's `h3Cells`) the
+   * claimed hexes are drawn, so a loop's enclosed area shows up filled;
+   * without them the trace itself is closed into a polygon.
+   */
+  public drawTerritory(points: RunPoint[], cells?: string[]): void {
     if (!this.map) return;
 
-    const coordinates = points.map((p) => [p.lng, p.lat]);
-    // Close the polygon
-    if (coordinates.length > 0) {
-      coordinates.push(coordinates[0]);
-    }
+    const data = cells?.length
+      ? {
+          type: 'FeatureCollection' as const,
+          features: cells.map((h3Index) => ({
+            type: 'Feature' as const,
+            properties: { h3Index },
+            geometry: cellToPolygon(h3Index),
+          })),
+        }
+      : this.traceToPolygon(points);
 
     const source = this.map.getSource(TERRITORY_SOURCE_ID) as any;
     if (source) {
-      source.setData({
-        type: 'Feature',
-        properties: {},
-        geometry: {
-          type: 'Polygon',
-          coordinates: [coordinates],
-        },
-      });
+      source.setData(data);
     } else {
       this.map.addSource(TERRITORY_SOURCE_ID, {
         type: 'geojson',
-        data: {
-          type: 'Feature',
-          properties: {},
-          geometry: {
-            type: 'Polygon',
-            coordinates: [coordinates],
-          },
-        },
+        data,
       });
 
       this.map.addLayer({
@@ -589,6 +596,22 @@ export class MapService extends BaseService {
     }
   }
 
+  private traceToPolygon(points: RunPoint[]) {
+    const coordinates = points.map((p) => [p.lng, p.lat]);
+    // Close the polygon
+    if (coordinates.length > 0) {
+      coordinates.push(coordinates[0]);
+    }
+    return {
+      type: 'Feature' as const,
+      properties: {},
+      geometry: {
+        type: 'Polygon' as const,
+        coordinates: [coordinates],
+      },
+    };
+  }
+
   public clearRun(): void {
     if (!this.map) return;
 
@@ -862,4 +885,173 @@ export class MapService extends BaseService {
       this.map.removeSource(CONTESTED_CELLS_SOURCE_ID);
     }
   }
+
+  // ─────────────────────────────────────────────────────────────
+  // Neighbourhood ownership choropleth
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Shade leaderboard parent cells by their dominant owner, more opaque
+   * the larger the share of the cell they hold. Replaces whatever was
+   * drawn before; the owner filter carries over.
+   */
+  public drawOwnershipChoropleth(cells: OwnershipCell[]): void {
+    if (!this.map) return;
+
+    const features = cells.map((cell) => ({
+      type: 'Feature' as const,
+      properties: {
+        h3Index: cell.h3Index,
+        owner: cell.owner,
+        share: cell.share,
+        color: ownerColor(cell.owner),
+      },
+      geometry: cellToPolygon(cell.h3Index),
+    }));
+
+    const source = this.map.getSource(OWNERSHIP_SOURCE_ID) as any;
+    if (source) {
+      source.setData({ type: 'FeatureCollection', features });
+      return;
+    }
+
+    this.map.addSource(OWNERSHIP_SOURCE_ID, {
+      type: 'geojson',
+      data: { type: 'FeatureCollection', features },
+    });
+    this.map.addLayer({
+      id: OWNERSHIP_LAYER_ID,
+      type: 'fill',
+      source: OWNERSHIP_SOURCE_ID,
+      paint: {
+        'fill-color': ['get', 'color'],
+        // Even a sliver of a cell should show, and no share hides the map
+        'fill-opacity': ['interpolate', ['linear'], ['get', 'share'], 0, 0.1, 1, 0.6],
+      },
+    });
+    this.map.addLayer({
+      id: OWNERSHIP_BORDER_LAYER_ID,
+      type: 'line',
+      source: OWNERSHIP_SOURCE_ID,
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-width': 1,
+        'line-opacity': 0.8,
+      },
+    });
+    if (this.ownershipFilter) this.setOwnershipFilter(this.ownershipFilter);
+  }
+
+  /** Show only the cells an owner leads, or every owner's with null. */
+  public setOwnershipFilter(owner: string | null): void {
+    this.ownershipFilter = owner?.toLowerCase() ?? null;
+    if (!this.map) return;
+    const filter = this.ownershipFilter ? ['==', ['get', 'owner'], this.ownershipFilter] : null;
+    for (const layer of [OWNERSHIP_LAYER_ID, OWNERSHIP_BORDER_LAYER_ID]) {
+      if (this.map.getLayer(layer)) this.map.setFilter(layer, filter as any);
+    }
+  }
+
+  public getOwnershipFilter(): string | null {
+    return this.ownershipFilter;
+  }
+
+  public clearOwnershipChoropleth(): void {
+    if (!this.map) return;
+    if (this.map.getLayer(OWNERSHIP_BORDER_LAYER_ID)) {
+      this.map.removeLayer(OWNERSHIP_BORDER_LAYER_ID);
+    }
+    if (this.map.getLayer(OWNERSHIP_LAYER_ID)) this.map.removeLayer(OWNERSHIP_LAYER_ID);
+    if (this.map.getSource(OWNERSHIP_SOURCE_ID)) this.map.removeSource(OWNERSHIP_SOURCE_ID);
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Territory hierarchy: cells, districts and regions by zoom
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Draw held cells, districts and regions, one level per zoom range
+   * (LEVEL_MIN_ZOOM): each level gets its own fill and border layer with
+   * min/max zoom set, so maplibre switches between them as the user
+   * zooms. Districts and regions show their leader's colour, solid when
+   * controlled and faint while nobody has a majority.
+   */
+  public drawTerritoryHierarchy(hierarchy: TerritoryHierarchy): void {
+    if (!this.map) return;
+
+    const feature = (
+      h3Index: string,
+      level: TerritoryLevel,
+      owner: string,
+      controlled: boolean
+    ) => ({
+      type: 'Feature' as const,
+      properties: { h3Index, level, owner, controlled, color: ownerColor(owner) },
+      geometry: cellToPolygon(h3Index),
+    });
+    const features = [
+      ...Object.entries(hierarchy.cells).map(([h3Index, owner]) =>
+        feature(h3Index, 'cell', owner, true)
+      ),
+      ...[...hierarchy.districts, ...hierarchy.regions]
+        .filter((parent) => parent.leader)
+        .map((parent) =>
+          feature(parent.h3Index, parent.level, parent.leader, parent.controller !== null)
+        ),
+    ];
+
+    const source = this.map.getSource(HIERARCHY_SOURCE_ID) as any;
+    if (source) {
+      source.setData({ type: 'FeatureCollection', features });
+      return;
+    }
+
+    this.map.addSource(HIERARCHY_SOURCE_ID, {
+      type: 'geojson',
+      data: { type: 'FeatureCollection', features },
+    });
+    const levels: TerritoryLevel[] = ['region', 'district', 'cell'];
+    levels.forEach((level, i) => {
+      const zoom = {
+        minzoom: LEVEL_MIN_ZOOM[level],
+        ...(levels[i + 1] ? { maxzoom: LEVEL_MIN_ZOOM[levels[i + 1]] } : {}),
+      };
+      this.map?.addLayer({
+        id: `territory-hierarchy-${level}-layer`,
+        type: 'fill',
+        source: HIERARCHY_SOURCE_ID,
+        filter: ['==', ['get', 'level'], level],
+        ...zoom,
+        paint: {
+          'fill-color': ['get', 'color'],
+          'fill-opacity': ['case', ['get', 'controlled'], 0.45, 0.12],
+        },
+      });
+      this.map?.addLayer({
+        id: `territory-hierarchy-${level}-border-layer`,
+        type: 'line',
+        source: HIERARCHY_SOURCE_ID,
+        filter: ['==', ['get', 'level'], level],
+        ...zoom,
+        paint: {
+          'line-color': ['get', 'color'],
+          'line-width': ['case', ['get', 'controlled'], 2, 1],
+          'line-opacity': 0.8,
+        },
+      });
+    });
+  }
+
+  public clearTerritoryHierarchy(): void {
+    if (!this.map) return;
+    for (const level of ['region', 'district', 'cell']) {
+      for (const id of [
+        `territory-hierarchy-${level}-border-layer`,
+        `territory-hierarchy-${level}-layer`,
+      ]) {
+        if (this.map.getLayer(id)) this.map.removeLayer(id);
+      }
+    }
+    if (this.map.getSource(HIERARCHY_SOURCE_ID)) this.map.removeSource(HIERARCHY_SOURCE_ID);
+  }
 }
@@ -0,0 +1,129 @@
+/**
+ * PersonalRecordsService — best efforts and records across run history.
+ *
+ * Keeps a record book (see utils/personal-records.ts) in storage and
+ * checks every completed or imported run against it, emitting
+ * `pr:achieved` for each record the run beats. AchievementService and
+ * ProgressionService listen for that event to award achievements and XP.
+ *
+ * The first time it starts without a stored book it rebuilds one from
+ * the run history RunTrackingService keeps, so existing runners don't
+ * start from zero.
+ *
+ * Singleton, like SensorService.
+ */
+import { BaseService } from '../core/base-service';
+import {
+  applyRunToRecords,
+  computeAllRecords,
+  formatRecordValue,
+  PERSONAL_RECORD_LABELS,
+  type PersonalRecord,
+  type PersonalRecordBook,
+  type PersonalRecordKind,
+} from '../utils/personal-records';
+import { StorageAdapter } from '../utils/storage-adapter';
+import { RUN_HISTORY_STORAGE_KEY, type RunSession } from './run-tracking-service';
+
+const RECORDS_STORAGE_KEY = 'runrealm_personal_records';
+
+export class PersonalRecordsService extends BaseService {
+  private static instance: PersonalRecordsService;
+  private records: PersonalRecordBook = {};
+
+  static getInstance(): PersonalRecordsService {
+    if (!PersonalRecordsService.instance) {
+      PersonalRecordsService.instance = new PersonalRecordsService();
+    }
+    return PersonalRecordsService.instance;
+  }
+
+  protected async onInitialize(): Promise<void> {
+    const loaded = await this.loadRecords();
+    if (!loaded) {
+      await this.rebuild(await this.loadStoredRuns());
+    }
+
+    this.subscribe('run:completed' as any, (data: { run?: RunSession }) => {
+      if (data.run) this.checkRun(data.run);
+    });
+    this.subscribe('run:imported', (data) => {
+      this.checkRun(data.run);
+    });
+
+    this.safeEmit('service:initialized', {
+      service: 'PersonalRecordsService',
+      success: true,
+    });
+  }
+
+  getRecords(): PersonalRecordBook {
+    return { ...this.records };
+  }
+
+  getRecord(kind: PersonalRecordKind): PersonalRecord | undefined {
+    return this.records[kind];
+  }
+
+  /**
+   * Check a finished run against the book. Returns the records it beat,
+   * having emitted `pr:achieved` for each.
+   */
+  checkRun(run: RunSession): PersonalRecord[] {
+    if (run.status !== 'completed') return [];
+
+    const { records, achieved } = applyRunToRecords(this.records, run);
+    this.records = records;
+    void this.saveRecords();
+
+    for (const record of achieved) {
+      this.safeEmit('pr:achieved', { record, runId: run.id });
+      this.safeEmit('ui:toast', {
+        message: `🏅 New ${PERSONAL_RECORD_LABELS[record.kind]} record: ${formatRecordValue(record)}`,
+        type: 'success',
+        duration: 5000,
+      });
+    }
+    return achieved;
+  }
+
+  /**
+   * Replace the book with one computed from `runs`. Emits nothing: a
+   * rebuild re-derives records, it doesn't set new ones.
+   */
+  async rebuild(runs: RunSession[]): Promise<PersonalRecordBook> {
+    this.records = computeAllRecords(runs.filter((run) => run.status === 'completed'));
+    await this.saveRecords();
+    return this.getRecords();
+  }
+
+  private async loadRecords(): Promise<boolean> {
+    try {
+      const stored = await StorageAdapter.getItem(RECORDS_STORAGE_KEY);
+      if (!stored) return false;
+      this.records = JSON.parse(stored);
+      return true;
+    } catch (error) {
+      console.warn('Failed to load personal records:', error);
+      return false;
+    }
+  }
+
+  private async loadStoredRuns(): Promise<RunSession[]> {
+    try {
+      const stored = await StorageAdapter.getItem(RUN_HISTORY_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load run history for personal records:', error);
+      return [];
+    }
+  }
+
+  private async saveRecords(): Promise<void> {
+    try {
+      await StorageAdapter.setItem(RECORDS_STORAGE_KEY, JSON.stringify(this.records));
+    } catch (error) {
+      console.error('Failed to save personal records:', error);
+    }
+  }
+}
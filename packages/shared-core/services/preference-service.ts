@@ -1,3 +1,4 @@
+import type { TerritoryMode } from '../utils/loop-territory';
 import { MapFocus } from './map-focus';
 
 /**
@@ -12,6 +13,9 @@ export class PreferenceService {
   private MAP_STYLE_KEY = 'runmap-map_style';
   private LAST_RUN_KEY = 'runmap-last_run';
   private SHOW_TERRITORIES_KEY = 'runmap-show_territories';
+  private AUTO_PAUSE_KEY = 'runmap-auto_pause';
+  private MAX_HEART_RATE_KEY = 'runmap-max_heart_rate';
+  private TERRITORY_MODE_KEY = 'runmap-territory_mode';
 
   public getLastOrDefaultFocus(): MapFocus {
     const lastFocus = localStorage.getItem(this.LAST_FOCUS_KEY);
@@ -59,6 +63,33 @@ export class PreferenceService {
     this.saveBooleanPreference(this.SHOW_TERRITORIES_KEY, value);
   }
 
+  public getAutoPause(): boolean {
+    return this.loadBooleanPreference(this.AUTO_PAUSE_KEY); // Default: on
+  }
+
+  public saveAutoPause(value: boolean): void {
+    this.saveBooleanPreference(this.AUTO_PAUSE_KEY, value);
+  }
+
+  public getMaxHeartRate(): number {
+    return this.loadNumberPreference(this.MAX_HEART_RATE_KEY, 190); // bpm, for HR zones
+  }
+
+  public saveMaxHeartRate(value: number): void {
+    this.saveStringPreference(this.MAX_HEART_RATE_KEY, `${Math.round(value)}`);
+  }
+
+  public getTerritoryMode(): TerritoryMode {
+    // Default: claim the area inside loops
+    return this.loadStringPreference(this.TERRITORY_MODE_KEY, 'loop') === 'trace'
+      ? 'trace'
+      : 'loop';
+  }
+
+  public saveTerritoryMode(value: TerritoryMode): void {
+    this.saveStringPreference(this.TERRITORY_MODE_KEY, value);
+  }
+
   public getMapStyle(): string {
     return this.loadStringPreference(this.MAP_STYLE_KEY, 'street-style');
   }
@@ -101,6 +132,11 @@ export class PreferenceService {
     }
   }
 
+  private loadNumberPreference(settingKey: string, defaultValue: number): number {
+    const setting = Number(localStorage.getItem(settingKey));
+    return Number.isFinite(setting) && setting > 0 ? setting : defaultValue;
+  }
+
   private saveBooleanPreference(settingKey: string, value: boolean): void {
     localStorage.setItem(settingKey, `${value}`); // ugh
   }
@@ -39,6 +39,7 @@ export interface PlayerStats {
   activeChallenges: Challenge[];
   streak: number; // consecutive days
   lastActiveDate?: string; // YYYY-MM-DD
+  personalRecords: number; // records beaten, see PersonalRecordsService
 }
 
 export interface PlayerAchievement {
@@ -47,7 +48,7 @@ export interface PlayerAchievement {
   description: string;
   icon: string;
   criteria: {
-    type: 'distance' | 'territories' | 'level' | 'challenges' | 'streak' | 'time';
+    type: 'distance' | 'territories' | 'level' | 'challenges' | 'streak' | 'time' | 'records';
     value: number;
   };
   reward: {
@@ -81,6 +82,7 @@ export class ProgressionService extends BaseService {
     achievements: [],
     activeChallenges: [],
     streak: 0,
+    personalRecords: 0,
   };
 
   private achievements: Map<string, PlayerAchievement> = new Map();
@@ -128,6 +130,22 @@ export class ProgressionService extends BaseService {
       criteria: { type: 'streak', value: 7 },
       reward: { experience: 250 },
     },
+    {
+      id: 'record-breaker',
+      name: 'Record Breaker',
+      description: 'Beat one of your personal records',
+      icon: '🏅',
+      criteria: { type: 'records', value: 1 },
+      reward: { experience: 100 },
+    },
+    {
+      id: 'record-hunter',
+      name: 'Record Hunter',
+      description: 'Beat 10 personal records',
+      icon: '📈',
+      criteria: { type: 'records', value: 10 },
+      reward: { experience: 300 },
+    },
     {
       id: 'level-5',
       name: 'Rising Runner',
@@ -264,6 +282,11 @@ export class ProgressionService extends BaseService {
       }
     });
 
+    // Listen for personal records
+    this.subscribe('pr:achieved', () => {
+      this.addPersonalRecord();
+    });
+
     // Listen for challenge claims
     this.subscribe('game:claimChallenge', (data) => {
       this.claimChallengeReward(data.challengeId);
@@ -339,6 +362,20 @@ export class ProgressionService extends BaseService {
     this.emitStatsUpdate();
   }
 
+  /**
+   * Add a beaten personal record to player stats
+   */
+  public addPersonalRecord(): void {
+    this.stats.personalRecords += 1;
+    this.addExperience(75); // Fixed XP per record
+
+    // Check for record-based achievements
+    this.checkRecordAchievements();
+
+    this.saveStats();
+    this.emitStatsUpdate();
+  }
+
   /**
    * Add experience points
    */
@@ -475,6 +512,21 @@ export class ProgressionService extends BaseService {
     });
   }
 
+  /**
+   * Check personal-record achievements
+   */
+  private checkRecordAchievements(): void {
+    const recordAchievements = Array.from(this.achievements.values()).filter(
+      (a) => a.criteria.type === 'records' && !this.stats.achievements.includes(a.id)
+    );
+
+    recordAchievements.forEach((achievement) => {
+      if (this.stats.personalRecords >= achievement.criteria.value) {
+        this.unlockAchievement(achievement.id);
+      }
+    });
+  }
+
   /**
    * Unlock an achievement
    */
@@ -546,6 +598,15 @@ export class ProgressionService extends BaseService {
     return { ...this.stats };
   }
 
+  /**
+   * Take stats merged with the user's other devices (DeviceSyncService)
+   */
+  public setSyncedStats(stats: PlayerStats): void {
+    this.stats = { ...this.stats, ...stats };
+    this.saveStats();
+    this.emitStatsUpdate();
+  }
+
   /**
    * Get unlocked achievements
    */
@@ -734,6 +795,7 @@ export class ProgressionService extends BaseService {
       achievements: [],
       activeChallenges: [],
       streak: 0,
+      personalRecords: 0,
     };
 
     this.saveStats();
@@ -1,7 +1,50 @@
 import { LocationInfo } from '@runrealm/shared-types/location';
+import { GAME_RULES } from '../config/game-rules';
 import { BaseService } from '../core/base-service';
+import { type ParsedActivity, parseActivityFile } from '../utils/activity-file-parsers';
+import { AutoPauseDetector, type AutoPauseOptions } from '../utils/auto-pause';
 import { calculateDistance } from '../utils/distance-formatter';
-import { territoryIdFromCenter } from '../utils/territory-id';
+import { analyzeElevation, type ElevationSummary } from '../utils/elevation';
+import {
+  createGpsFilterPipeline,
+  type GpsFilterOptions,
+  type GpsFilterPipeline,
+} from '../utils/gps-filter';
+import { type HeartRateSummary, heartRateZone, summarizeHeartRate } from '../utils/heart-rate';
+import {
+  type IntentProgress,
+  IntentTracker,
+  intentCells,
+  isNearIntent,
+} from '../utils/intent-progress';
+import type { TerritoryMode } from '../utils/loop-territory';
+import type { RunVerdict } from '../utils/run-validation';
+import {
+  computeSplits,
+  markSplitExtremes,
+  type RunSplit,
+  SplitTracker,
+  type SplitUnit,
+  splitUnitFor,
+} from '../utils/splits';
+import { StorageAdapter } from '../utils/storage-adapter';
+import {
+  assessTerritoryEligibility,
+  TERRITORY_LOOP_CLOSURE_METERS,
+} from '../utils/territory-eligibility';
+import {
+  type IntervalSummary,
+  type PaceTarget,
+  summarizeWorkout,
+  type WorkoutPlan,
+  WorkoutSession,
+  type WorkoutStepKind,
+  type WorkoutUpdate,
+} from '../utils/workout-plan';
+import { HapticsService } from './haptics-service';
+import { SensorService } from './sensor-service';
+import { SoundService } from './sound-service';
+import type { TerritoryIntent } from './territory-service';
 
 export interface RunPoint {
   lat: number;
@@ -10,6 +53,8 @@ export interface RunPoint {
   accuracy?: number;
   altitude?: number;
   speed?: number;
+  heartRate?: number; // bpm
+  cadence?: number; // steps per minute
 }
 
 export interface RunSegment {
@@ -20,6 +65,9 @@ export interface RunSegment {
   duration: number; // milliseconds
   averageSpeed: number; // m/s
   geometry: GeoJSON.LineString;
+  // Set when the run has altitude data (see utils/elevation.ts)
+  grade?: number; // rise over run
+  gradeAdjustedSpeed?: number; // m/s equivalent on the flat
 }
 
 export interface RunLap {
@@ -27,8 +75,19 @@ export interface RunLap {
   time: number; // duration of the lap in ms
   distance: number; // distance of the lap in meters
   totalTime: number; // total time at the end of the lap
+  // Set on laps closed by a structured workout (see utils/workout-plan.ts)
+  workoutStep?: number; // index into the plan's steps
+  kind?: WorkoutStepKind;
+  label?: string;
+  targetPace?: PaceTarget;
 }
 
+/**
+ * Elevation stats stored on a completed run. Per-segment grades live on
+ * the segments themselves.
+ */
+export type RunElevation = Omit<ElevationSummary, 'segments'>;
+
 export interface ExternalActivity {
   id: string;
   source: 'strava' | 'garmin' | 'apple_health' | 'google_fit';
@@ -51,28 +110,79 @@ export interface RunSession {
   segments: RunSegment[];
   laps: RunLap[];
   totalDistance: number; // meters
-  totalDuration: number; // milliseconds
+  totalDuration: number; // milliseconds; moving time for live runs
   averageSpeed: number; // m/s
   maxSpeed: number; // m/s
   status: 'recording' | 'paused' | 'completed' | 'cancelled';
+  // Live runs only: time spent moving (manual and auto pauses excluded)
+  // vs wall-clock time from start to finish.
+  movingTime?: number; // milliseconds
+  elapsedTime?: number; // milliseconds
+  autoPaused?: boolean; // currently stopped, per the auto-pause detector
   territoryEligible: boolean;
+  territoryReasons?: string[]; // why the run can't claim territory, when it can't
   geohash?: string;
   externalActivity?: ExternalActivity; // Link to imported activity
+  importedFile?: ImportedActivityFile; // Set when the run came from a GPX/TCX/FIT file
+  // H3 cell indices the run claims, attached alongside `geohash` when the
+  // run is territory-eligible: the cells the route passes through, plus
+  // the ones it encloses in loop mode (see utils/loop-territory.ts).
+  h3Cells?: string[];
+  territoryMode?: TerritoryMode; // the mode h3Cells were claimed in
+  elevation?: RunElevation; // absent when the points carry no altitude
+  workout?: RunWorkout; // set when the run followed a workout plan
+  // Whole km/mile splits, in the unit preferred when the run was recorded
+  // or imported (see utils/splits.ts)
+  splits?: RunSplit[];
+  // Zones, time in zone and averages; absent when no point carries a
+  // heart rate (see utils/heart-rate.ts)
+  heartRate?: HeartRateSummary;
+  // Territory intent the run started near, and how far it got
+  // (see utils/intent-progress.ts)
+  intentId?: string;
+  intentProgress?: IntentProgress;
+  // Anti-cheat verdict from the territory eligibility check; only an
+  // 'accepted' run is eligible (see utils/run-validation.ts)
+  validation?: Pick<RunVerdict, 'verdict' | 'score' | 'reasons'>;
+}
+
+/**
+ * Post-run record of a structured workout: one row per step started.
+ */
+export interface RunWorkout {
+  planId: string;
+  name: string;
+  intervals: IntervalSummary[];
+  completed: boolean; // every step finished before the run stopped
+}
+
+export interface ImportedActivityFile {
+  format: ParsedActivity['format'];
+  fileName?: string;
+  name?: string;
+  sport?: string;
+  creator?: string;
 }
 
 export interface RunTrackingConfig {
   minAccuracy: number; // meters
   maxTimeBetweenPoints: number; // milliseconds
   minDistanceBetweenPoints: number; // meters
-  smoothingFactor: number; // 0-1
+  gpsFilter: GpsFilterOptions; // see utils/gps-filter
+  autoPause: AutoPauseOptions & { enabled: boolean }; // see utils/auto-pause
   territoryMinDistance: number; // meters
   territoryMaxDeviation: number; // meters from start
+  territoryMode: TerritoryMode; // see utils/loop-territory
 }
 
 /**
  * Unified run tracking service that handles GPS tracking, distance calculation,
  * territory detection, and run state management
  */
+/** Storage key for completed runs, shared with the mobile app's history screen. */
+export const RUN_HISTORY_STORAGE_KEY = 'runrealm_run_history';
+const MAX_STORED_RUNS = 100;
+
 export class RunTrackingService extends BaseService {
   private currentRun: RunSession | null = null;
   private lastPoint: RunPoint | null = null;
@@ -81,6 +191,17 @@ export class RunTrackingService extends BaseService {
   private locationService: any = null; // Direct reference to avoid registry dependency
   private lastLapDistance: number = 0;
   private lastLapTime: number = 0;
+  private gpsFilter: GpsFilterPipeline;
+  private autoPause: AutoPauseDetector;
+  private autoPauseEnabled = true;
+  private movingSince: number | null = null; // null while paused or auto-paused
+  private movingTimeMs = 0; // accumulated up to movingSince
+  private autoPausedAt: number | null = null;
+  private workoutPlan: WorkoutPlan | null = null; // applied at the next start
+  private workout: WorkoutSession | null = null;
+  private splitTracker: SplitTracker | null = null;
+  private runHistory: RunSession[] = []; // oldest first
+  private intent: { intent: TerritoryIntent; tracker: IntentTracker } | null = null;
 
   constructor() {
     super();
@@ -89,10 +210,72 @@ export class RunTrackingService extends BaseService {
       minAccuracy: 20, // 20 meters
       maxTimeBetweenPoints: 30000, // 30 seconds
       minDistanceBetweenPoints: 5, // 5 meters
-      smoothingFactor: 0.3,
-      territoryMinDistance: 500, // 500 meters minimum
-      territoryMaxDeviation: 50, // 50 meters from start point
+      gpsFilter: {},
+      autoPause: { enabled: true },
+      territoryMinDistance: GAME_RULES.territory.minDistanceMeters,
+      territoryMaxDeviation: TERRITORY_LOOP_CLOSURE_METERS,
+      territoryMode: 'loop',
     };
+    this.gpsFilter = this.createGpsFilter();
+    this.autoPause = new AutoPauseDetector(this.runConfig.autoPause);
+    this.autoPauseEnabled = this.runConfig.autoPause.enabled;
+  }
+
+  /**
+   * Turn auto-pause on or off. Applies immediately; turning it off while
+   * auto-paused resumes the moving clock.
+   */
+  public setAutoPauseEnabled(enabled: boolean): void {
+    this.autoPauseEnabled = enabled;
+    if (!enabled && this.currentRun?.autoPaused) {
+      this.applyAutoPauseTransition({ type: 'resumed', at: Date.now() });
+    }
+  }
+
+  /**
+   * Choose whether eligible runs claim only the cells they pass through
+   * ('trace') or the area their loop encloses too ('loop'). Applies to
+   * runs finished or imported from now on; on web the choice saved in
+   * PreferenceService wins.
+   */
+  public setTerritoryMode(mode: TerritoryMode): void {
+    this.runConfig.territoryMode = mode;
+  }
+
+  public getTerritoryMode(): TerritoryMode {
+    return this.runConfig.territoryMode;
+  }
+
+  /**
+   * Replace the GPS filtering pipeline, e.g. with custom stages or tuning.
+   * Takes effect from the next location update.
+   */
+  public setGpsFilter(pipeline: GpsFilterPipeline): void {
+    this.gpsFilter = pipeline;
+  }
+
+  private createGpsFilter(): GpsFilterPipeline {
+    return createGpsFilterPipeline({
+      maxAccuracyMeters: this.runConfig.minAccuracy,
+      minDisplacementMeters: this.runConfig.minDistanceBetweenPoints,
+      ...this.runConfig.gpsFilter,
+    });
+  }
+
+  /**
+   * Start the filter afresh from a known point (run start or resume), so
+   * the gap since the last fix isn't read as a teleport.
+   */
+  private resetGpsFilter(seed?: RunPoint): void {
+    this.gpsFilter.reset();
+    if (seed) {
+      this.gpsFilter.process({
+        lat: seed.lat,
+        lng: seed.lng,
+        timestamp: seed.timestamp,
+        accuracy: seed.accuracy,
+      });
+    }
   }
 
   /**
@@ -104,6 +287,7 @@ export class RunTrackingService extends BaseService {
 
   protected async onInitialize(): Promise<void> {
     this.setupEventListeners();
+    await this.loadRunHistory();
     this.safeEmit('service:initialized', {
       service: 'RunTrackingService',
       success: true,
@@ -142,6 +326,43 @@ export class RunTrackingService extends BaseService {
     this.subscribe('run:lapRequested' as any, () => this.recordLap());
   }
 
+  /**
+   * Follow a structured workout on the next run. Steps then end
+   * automatically on distance/time, each closing a lap. Pass null to go
+   * back to free running.
+   */
+  public setWorkoutPlan(plan: WorkoutPlan | null): void {
+    if (this.currentRun?.status === 'recording' || this.currentRun?.status === 'paused') {
+      throw new Error('Cannot change the workout plan during a run');
+    }
+    this.workoutPlan = plan;
+  }
+
+  public getWorkoutPlan(): WorkoutPlan | null {
+    return this.workoutPlan;
+  }
+
+  /**
+   * The active workout step, or null without a workout or once it's done
+   */
+  public getWorkoutProgress(): {
+    plan: WorkoutPlan;
+    index: number;
+    step: WorkoutPlan['steps'][number];
+  } | null {
+    const current = this.workout?.getCurrentStep();
+    return this.workout && current ? { plan: this.workout.plan, ...current } : null;
+  }
+
+  /**
+   * The territory intent this run is working towards, or null
+   */
+  public getIntentProgress(): { intent: TerritoryIntent; progress: IntentProgress } | null {
+    return this.intent
+      ? { intent: this.intent.intent, progress: this.intent.tracker.getProgress() }
+      : null;
+  }
+
   /**
    * Start a new run session
    */
@@ -191,6 +412,8 @@ export class RunTrackingService extends BaseService {
       };
 
       this.lastPoint = startPoint;
+      this.resetGpsFilter(startPoint);
+      this.startMovingClock(this.currentRun.startTime);
       this.lastLapDistance = 0;
       this.lastLapTime = 0;
 
@@ -206,6 +429,9 @@ export class RunTrackingService extends BaseService {
         startPoint,
         timestamp: Date.now(),
       });
+      this.startWorkout();
+      this.startSplits(startPoint);
+      this.startIntentTracking(startPoint);
 
       this.safeEmit('run:statusChanged' as any, {
         status: 'recording',
@@ -269,6 +495,8 @@ export class RunTrackingService extends BaseService {
       };
 
       this.lastPoint = startPoint;
+      this.resetGpsFilter(startPoint);
+      this.startMovingClock(this.currentRun.startTime);
       this.lastLapDistance = 0;
       this.lastLapTime = 0;
 
@@ -284,6 +512,9 @@ export class RunTrackingService extends BaseService {
         startPoint,
         timestamp: Date.now(),
       });
+      this.startWorkout();
+      this.startSplits(startPoint);
+      this.startIntentTracking(startPoint);
 
       // Emit event with planned route information
       this.safeEmit('run:plannedRouteActivated' as any, {
@@ -314,6 +545,7 @@ export class RunTrackingService extends BaseService {
     }
 
     this.currentRun.status = 'paused';
+    this.stopMovingClock(Date.now());
     this.stopGPSTracking();
     this.stopRealTimeUpdates();
 
@@ -339,6 +571,11 @@ export class RunTrackingService extends BaseService {
     }
 
     this.currentRun.status = 'recording';
+    this.resetGpsFilter();
+    this.autoPause.reset();
+    this.currentRun.autoPaused = false;
+    this.autoPausedAt = null;
+    this.movingSince = Date.now();
     this.startGPSTracking();
     this.startRealTimeUpdates();
 
@@ -365,13 +602,23 @@ export class RunTrackingService extends BaseService {
 
     this.currentRun.status = 'completed';
     this.currentRun.endTime = Date.now();
-    this.currentRun.totalDuration = this.currentRun.endTime - this.currentRun.startTime;
+    this.stopMovingClock(this.currentRun.endTime);
+    this.currentRun.autoPaused = false;
+    this.currentRun.movingTime = this.movingTimeMs;
+    this.currentRun.elapsedTime = this.currentRun.endTime - this.currentRun.startTime;
+    this.currentRun.totalDuration = this.currentRun.movingTime;
+    this.applyElevation(this.currentRun);
+    this.applyHeartRate(this.currentRun);
+    this.applySplits(this.currentRun, this.splitTracker?.unit);
+    this.splitTracker = null;
 
     this.stopGPSTracking();
     this.stopRealTimeUpdates();
 
     // Calculate final stats
     this.updateRunStats();
+    this.finishWorkout();
+    this.intent = null;
 
     // Check territory eligibility
     this.checkTerritoryEligibility();
@@ -417,6 +664,9 @@ export class RunTrackingService extends BaseService {
 
     this.currentRun = null;
     this.lastPoint = null;
+    this.workout = null;
+    this.splitTracker = null;
+    this.intent = null;
   }
 
   /**
@@ -427,6 +677,20 @@ export class RunTrackingService extends BaseService {
       return;
     }
 
+    // During a workout a manual lap ends the current step instead
+    if (this.workout && !this.workout.isComplete()) {
+      this.applyWorkoutUpdates(
+        this.workout.advance(this.currentRun.totalDistance, this.getMovingTime(Date.now()))
+      );
+      return;
+    }
+
+    this.pushLap();
+  }
+
+  private pushLap(workoutFields: Partial<RunLap> = {}): void {
+    if (!this.currentRun) return;
+
     const now = Date.now();
     const totalTime = now - this.currentRun.startTime;
     const totalDistance = this.currentRun.totalDistance;
@@ -440,6 +704,7 @@ export class RunTrackingService extends BaseService {
       time: lapTime,
       distance: lapDistance,
       totalTime: totalTime,
+      ...workoutFields,
     };
 
     this.currentRun.laps.push(newLap);
@@ -458,17 +723,41 @@ export class RunTrackingService extends BaseService {
       return;
     }
 
-    // Filter out inaccurate readings
-    if (locationInfo.accuracy && locationInfo.accuracy > this.runConfig.minAccuracy) {
-      console.log(`Skipping inaccurate GPS reading: ${locationInfo.accuracy}m`);
+    // Accuracy gate, teleport rejection, Kalman smoothing and stationary
+    // drift suppression — see utils/gps-filter.ts
+    const filtered = this.gpsFilter.process({
+      lat: locationInfo.lat,
+      lng: locationInfo.lng,
+      timestamp: locationInfo.timestamp ?? Date.now(),
+      accuracy: locationInfo.accuracy,
+    });
+
+    // Rejected fixes still carry the filtered speed once they got past
+    // the Kalman stage, which is exactly what a stationary runner produces.
+    if (filtered.fix.speed !== undefined) {
+      this.updateAutoPause(filtered.fix.timestamp, filtered.fix.speed);
+    }
+
+    if (!filtered.accepted) {
+      console.log(`Skipping GPS reading (${filtered.stage}): ${filtered.reason}`);
+      return;
+    }
+
+    // Nothing is recorded while auto-paused; the first fix after resuming
+    // joins up with the last point from before the stop.
+    if (this.currentRun.autoPaused) {
       return;
     }
 
     const newPoint: RunPoint = {
-      lat: locationInfo.lat,
-      lng: locationInfo.lng,
-      timestamp: Date.now(),
+      lat: filtered.fix.lat,
+      lng: filtered.fix.lng,
+      timestamp: filtered.fix.timestamp,
       accuracy: locationInfo.accuracy,
+      altitude: locationInfo.altitude,
+      speed: filtered.fix.speed,
+      // Heart rate and cadence from whatever sensors are connected
+      ...SensorService.getInstance().getLatest(),
     };
 
     // Check if enough time has passed
@@ -485,22 +774,22 @@ export class RunTrackingService extends BaseService {
         return;
       }
 
-      // Apply smoothing to reduce GPS noise
-      const smoothedPoint = this.applySmoothingFilter(this.lastPoint, newPoint);
-
       // Create segment
-      const segment = this.createSegment(this.lastPoint, smoothedPoint);
+      const segment = this.createSegment(this.lastPoint, newPoint);
       this.currentRun.segments.push(segment);
-      this.currentRun.points.push(smoothedPoint);
+      this.currentRun.points.push(newPoint);
 
       // Update stats
       this.updateRunStats();
+      this.updateSplits(newPoint);
+      this.updateWorkout();
+      this.updateIntent(newPoint);
 
-      this.lastPoint = smoothedPoint;
+      this.lastPoint = newPoint;
 
       // Emit real-time updates
       this.safeEmit('run:pointAdded' as any, {
-        point: smoothedPoint,
+        point: newPoint,
         segment,
         stats: this.getCurrentStats(),
       });
@@ -510,20 +799,6 @@ export class RunTrackingService extends BaseService {
     }
   }
 
-  /**
-   * Apply smoothing filter to reduce GPS noise
-   */
-  private applySmoothingFilter(lastPoint: RunPoint, newPoint: RunPoint): RunPoint {
-    const factor = this.runConfig.smoothingFactor;
-
-    return {
-      lat: lastPoint.lat + factor * (newPoint.lat - lastPoint.lat),
-      lng: lastPoint.lng + factor * (newPoint.lng - lastPoint.lng),
-      timestamp: newPoint.timestamp,
-      accuracy: newPoint.accuracy,
-    };
-  }
-
   /**
    * Create a run segment between two points
    */
@@ -570,42 +845,366 @@ export class RunTrackingService extends BaseService {
     if (this.currentRun.segments.length > 0) {
       const speeds = this.currentRun.segments.map((s) => s.averageSpeed);
       this.currentRun.maxSpeed = Math.max(...speeds);
-      this.currentRun.averageSpeed = speeds.reduce((a, b) => a + b, 0) / speeds.length;
+      // Distance over moving time, so stops don't drag the pace down.
+      const movingTime = this.getMovingTime(Date.now());
+      this.currentRun.averageSpeed =
+        movingTime > 0
+          ? this.currentRun.totalDistance / (movingTime / 1000)
+          : speeds.reduce((a, b) => a + b, 0) / speeds.length;
     }
   }
 
   /**
-   * Check if run is eligible for territory claiming
+   * Derive gain/loss, the smoothed profile and grade-adjusted pace from
+   * the run's altitudes. Leaves the run untouched when there are none.
    */
-  private checkTerritoryEligibility(): void {
-    if (!this.currentRun || this.currentRun.points.length < 2) {
-      if (this.currentRun) {
-        this.currentRun.territoryEligible = false;
+  private applyElevation(run: RunSession): void {
+    const summary = analyzeElevation(run.points);
+    if (!summary) return;
+
+    const { segments, ...elevation } = summary;
+    run.elevation = elevation;
+    // Segments are built between consecutive points, so they line up
+    // one-to-one with the analysed pairs.
+    if (segments.length === run.segments.length) {
+      run.segments.forEach((segment, i) => {
+        segment.grade = segments[i].grade;
+        segment.gradeAdjustedSpeed = segments[i].gradeAdjustedSpeed;
+      });
+    }
+  }
+
+  private getMaxHeartRate(): number {
+    const preferenceService = this.getSiblingService('PreferenceService');
+    return preferenceService && typeof preferenceService.getMaxHeartRate === 'function'
+      ? preferenceService.getMaxHeartRate()
+      : 190;
+  }
+
+  /**
+   * Time in each heart-rate zone plus average/peak heart rate and
+   * cadence. Leaves the run untouched when there's no heart-rate data.
+   */
+  private applyHeartRate(run: RunSession): void {
+    const summary = summarizeHeartRate(run.points, this.getMaxHeartRate(), {
+      maxGapMs: this.runConfig.maxTimeBetweenPoints,
+    });
+    if (summary) run.heartRate = summary;
+  }
+
+  /**
+   * Heart-rate summary of the run so far, for live coaching. Null when
+   * no sensor data has been recorded.
+   */
+  public getHeartRateSummary(): HeartRateSummary | null {
+    if (!this.currentRun) return null;
+    return (
+      this.currentRun.heartRate ??
+      summarizeHeartRate(this.currentRun.points, this.getMaxHeartRate(), {
+        maxGapMs: this.runConfig.maxTimeBetweenPoints,
+      })
+    );
+  }
+
+  private getSplitUnit(): SplitUnit {
+    const preferenceService = this.getSiblingService('PreferenceService');
+    const useMetric =
+      preferenceService && typeof preferenceService.getUseMetric === 'function'
+        ? preferenceService.getUseMetric()
+        : true;
+    return splitUnitFor(useMetric);
+  }
+
+  private startSplits(startPoint: RunPoint): void {
+    if (!this.currentRun) return;
+    this.currentRun.splits = [];
+    this.splitTracker = new SplitTracker(this.getSplitUnit(), {
+      maxGapMs: this.runConfig.maxTimeBetweenPoints,
+    });
+    this.splitTracker.addPoint(startPoint);
+  }
+
+  private updateSplits(point: RunPoint): void {
+    if (!this.currentRun || !this.splitTracker) return;
+
+    const completed = this.splitTracker.addPoint(point);
+    if (completed.length === 0) return;
+
+    this.currentRun.splits = markSplitExtremes([...(this.currentRun.splits ?? []), ...completed]);
+    for (const split of completed) {
+      this.safeEmit('run:split', { runId: this.currentRun.id, split });
+    }
+  }
+
+  /**
+   * Recompute splits from the final points: smoothed elevation, the
+   * trailing partial split and fastest/slowest markers.
+   */
+  private applySplits(run: RunSession, unit: SplitUnit = this.getSplitUnit()): void {
+    if (run.points.length < 2) return;
+    run.splits = computeSplits(run.points, unit, {
+      maxGapMs: this.runConfig.maxTimeBetweenPoints,
+    });
+  }
+
+  private startWorkout(): void {
+    this.workout = this.workoutPlan ? new WorkoutSession(this.workoutPlan) : null;
+    const first = this.workout?.getCurrentStep();
+    if (first) {
+      this.applyWorkoutUpdates([{ type: 'stepStarted', ...first }]);
+    }
+  }
+
+  private updateWorkout(): void {
+    if (!this.workout || !this.currentRun || this.currentRun.autoPaused) return;
+
+    const distance = this.currentRun.totalDistance;
+    const movingTime = this.getMovingTime(Date.now());
+    this.applyWorkoutUpdates(this.workout.update(distance, movingTime));
+
+    const paceStatus = this.workout.checkPace(distance, movingTime);
+    const current = this.workout.getCurrentStep();
+    if (paceStatus && current) {
+      this.safeEmit('workout:paceAlert', {
+        runId: this.currentRun.id,
+        index: current.index,
+        step: current.step,
+        status: paceStatus,
+      });
+      this.workoutCue('pace');
+    }
+  }
+
+  /**
+   * Turn step boundaries into laps, events and audio/haptic cues
+   */
+  private applyWorkoutUpdates(updates: WorkoutUpdate[]): void {
+    if (!this.workout || !this.currentRun) return;
+    const runId = this.currentRun.id;
+    const total = this.workout.plan.steps.length;
+
+    for (const update of updates) {
+      if (update.type === 'stepCompleted') {
+        this.pushLap({
+          workoutStep: update.index,
+          kind: update.step.kind,
+          label: update.step.label,
+          targetPace: update.step.targetPace,
+        });
+        this.safeEmit('workout:stepCompleted', {
+          runId,
+          index: update.index,
+          step: update.step,
+          result: update.result,
+        });
+      } else if (update.type === 'stepStarted') {
+        this.safeEmit('workout:stepStarted', {
+          runId,
+          index: update.index,
+          step: update.step,
+          total,
+        });
+        this.workoutCue(update.step.kind === 'work' ? 'work' : 'easy');
+      } else {
+        this.safeEmit('workout:completed', { runId, planId: this.workout.plan.id });
+        this.workoutCue('done');
+      }
+    }
+  }
+
+  /**
+   * Take on the first active territory intent the run starts near, so
+   * its coverage is tracked point by point
+   */
+  private startIntentTracking(startPoint: RunPoint): void {
+    this.intent = null;
+    const territoryService = this.getSiblingService('TerritoryService');
+    if (!territoryService || typeof territoryService.getActiveTerritoryIntents !== 'function') {
+      return;
+    }
+
+    const intents: TerritoryIntent[] = territoryService.getActiveTerritoryIntents();
+    for (const intent of intents) {
+      const cells = intent.h3Cells ?? intentCells(intent.bounds, intent.plannedRoute);
+      if (!isNearIntent(startPoint, { cells, plannedRoute: intent.plannedRoute })) continue;
+
+      this.intent = {
+        intent,
+        tracker: new IntentTracker({
+          id: intent.id,
+          cells,
+          plannedRoute: intent.plannedRoute,
+          expiresAt: intent.expiresAt,
+        }),
+      };
+      if (this.currentRun) this.currentRun.intentId = intent.id;
+      this.updateIntent(startPoint);
+      return;
+    }
+  }
+
+  /**
+   * Report coverage of the intent, completing it once covered or
+   * letting it lapse if its time runs out mid-run
+   */
+  private updateIntent(point: RunPoint): void {
+    if (!this.intent || !this.currentRun) return;
+    const { intent, tracker } = this.intent;
+    const runId = this.currentRun.id;
+    const territoryService = this.getSiblingService('TerritoryService');
+
+    if (tracker.isExpired(point.timestamp)) {
+      const progress = tracker.getProgress();
+      this.currentRun.intentProgress = progress;
+      this.intent = null;
+      if (territoryService && typeof territoryService.expireTerritoryIntent === 'function') {
+        territoryService.expireTerritoryIntent(intent.id, runId, progress);
       }
       return;
     }
 
-    const startPoint = this.currentRun.points[0];
-    const endPoint = this.currentRun.points[this.currentRun.points.length - 1];
+    const progress = tracker.update(point);
+    this.currentRun.intentProgress = progress;
+    this.safeEmit('territory:intentProgress', { runId, intent, progress });
 
-    // Check minimum distance
-    const meetsDistance = this.currentRun.totalDistance >= this.runConfig.territoryMinDistance;
+    if (progress.completed) {
+      this.intent = null;
+      if (territoryService && typeof territoryService.completeTerritoryIntent === 'function') {
+        territoryService.completeTerritoryIntent(intent.id, runId, progress);
+      }
+    }
+  }
 
-    // Check if end point is close to start (loop requirement)
-    const distanceFromStart = this.calculateDistance(startPoint, endPoint);
-    const isLoop = distanceFromStart <= this.runConfig.territoryMaxDeviation;
+  private finishWorkout(): void {
+    if (!this.workout || !this.currentRun) return;
 
-    this.currentRun.territoryEligible = meetsDistance && isLoop;
+    const completed = this.workout.isComplete();
+    this.workout.finish(this.currentRun.totalDistance, this.movingTimeMs);
+    this.currentRun.workout = {
+      planId: this.workout.plan.id,
+      name: this.workout.plan.name,
+      intervals: summarizeWorkout(this.workout.plan, this.workout.getResults()),
+      completed,
+    };
+    this.workout = null;
+  }
 
-    if (this.currentRun.territoryEligible) {
-      // Stable identifier for territory claiming. Source of truth is
-      // `packages/shared-core/utils/territory-id.ts`. Six-decimal precision
-      // and no timestamp suffix — this is what GameLogic.validateTerritory
-      // accepts on the deployed ZetaChain contract.
-      this.currentRun.geohash = territoryIdFromCenter(startPoint.lat, startPoint.lng);
+  /**
+   * Work steps get a stronger buzz than easy ones so the runner can tell
+   * them apart without looking at the screen.
+   */
+  private workoutCue(cue: 'work' | 'easy' | 'pace' | 'done'): void {
+    const sound = SoundService.getInstance();
+    const haptics = HapticsService.getInstance();
+    switch (cue) {
+      case 'work':
+        sound.playNotificationSound();
+        haptics.trigger('heavy');
+        break;
+      case 'easy':
+        sound.playNotificationSound();
+        haptics.trigger('medium');
+        break;
+      case 'pace':
+        haptics.trigger('warning');
+        break;
+      case 'done':
+        sound.playSuccessSound();
+        haptics.trigger('success');
+        break;
     }
   }
 
+  /**
+   * Moving time so far, including the current stretch if moving.
+   */
+  private getMovingTime(now: number): number {
+    return (
+      this.movingTimeMs + (this.movingSince !== null ? Math.max(0, now - this.movingSince) : 0)
+    );
+  }
+
+  private startMovingClock(at: number): void {
+    this.movingTimeMs = 0;
+    this.movingSince = at;
+    this.autoPausedAt = null;
+    this.autoPause.reset();
+    this.autoPauseEnabled = this.isAutoPausePreferred();
+  }
+
+  private stopMovingClock(at: number): void {
+    if (this.movingSince !== null) {
+      this.movingTimeMs += Math.max(0, at - this.movingSince);
+      this.movingSince = null;
+    }
+  }
+
+  /**
+   * The web stores the auto-pause choice in PreferenceService; elsewhere
+   * (mobile, tests) the run config / `setAutoPauseEnabled` decide.
+   */
+  private isAutoPausePreferred(): boolean {
+    const preferenceService = this.getSiblingService('PreferenceService');
+    if (preferenceService && typeof preferenceService.getAutoPause === 'function') {
+      return preferenceService.getAutoPause();
+    }
+    return this.autoPauseEnabled;
+  }
+
+  /** Like auto-pause: PreferenceService on web, the run config elsewhere. */
+  private getPreferredTerritoryMode(): TerritoryMode {
+    const preferenceService = this.getSiblingService('PreferenceService');
+    if (preferenceService && typeof preferenceService.getTerritoryMode === 'function') {
+      return preferenceService.getTerritoryMode();
+    }
+    return this.runConfig.territoryMode;
+  }
+
+  private updateAutoPause(timestamp: number, speed: number): void {
+    if (!this.autoPauseEnabled) return;
+    const transition = this.autoPause.update(timestamp, speed);
+    if (transition) this.applyAutoPauseTransition(transition);
+  }
+
+  private applyAutoPauseTransition(
+    transition: { type: 'paused'; since: number } | { type: 'resumed'; at: number }
+  ): void {
+    if (!this.currentRun || this.currentRun.status !== 'recording') return;
+
+    if (transition.type === 'paused') {
+      if (this.currentRun.autoPaused) return;
+      this.currentRun.autoPaused = true;
+      this.autoPausedAt = transition.since;
+      this.stopMovingClock(transition.since);
+      this.safeEmit('run:autoPaused', {
+        runId: this.currentRun.id,
+        timestamp: transition.since,
+        stats: this.getCurrentStats(),
+      });
+      return;
+    }
+
+    if (!this.currentRun.autoPaused || this.autoPausedAt === null) return;
+    const pausedDuration = Math.max(0, transition.at - this.autoPausedAt);
+    this.currentRun.autoPaused = false;
+    this.autoPausedAt = null;
+    this.movingSince = transition.at;
+    this.safeEmit('run:autoResumed', {
+      runId: this.currentRun.id,
+      timestamp: transition.at,
+      pausedDuration,
+      stats: this.getCurrentStats(),
+    });
+  }
+
+  /**
+   * Check if run is eligible for territory claiming
+   */
+  private checkTerritoryEligibility(): void {
+    if (!this.currentRun) return;
+    this.applyTerritoryEligibility(this.currentRun);
+  }
+
   /**
    * Start GPS tracking
    */
@@ -632,6 +1231,13 @@ export class RunTrackingService extends BaseService {
   private startRealTimeUpdates(): void {
     this.updateInterval = window.setInterval(() => {
       if (this.currentRun?.status === 'recording') {
+        // Catches stops where the device has simply gone quiet.
+        if (this.autoPauseEnabled) {
+          const transition = this.autoPause.tick(Date.now());
+          if (transition) this.applyAutoPauseTransition(transition);
+        }
+        // Time-based steps end even when no fix arrives
+        this.updateWorkout();
         this.safeEmit('run:statsUpdated' as any, {
           stats: this.getCurrentStats(),
           runId: this.currentRun.id,
@@ -658,18 +1264,30 @@ export class RunTrackingService extends BaseService {
       return null;
     }
 
-    const currentTime = Date.now();
+    const currentTime = this.currentRun.endTime ?? Date.now();
     const elapsedTime = currentTime - this.currentRun.startTime;
+    const movingTime = this.getMovingTime(currentTime);
+    const sensors =
+      this.currentRun.status === 'completed' ? {} : SensorService.getInstance().getLatest();
 
     return {
       distance: this.currentRun.totalDistance,
-      duration: elapsedTime,
+      duration: movingTime,
+      movingTime,
+      elapsedTime,
+      autoPaused: this.currentRun.autoPaused === true,
       averageSpeed: this.currentRun.averageSpeed,
       maxSpeed: this.currentRun.maxSpeed,
       pointCount: this.currentRun.points.length,
       segmentCount: this.currentRun.segments.length,
       status: this.currentRun.status,
       territoryEligible: this.currentRun.territoryEligible,
+      heartRate: sensors.heartRate,
+      heartRateZone:
+        sensors.heartRate !== undefined
+          ? heartRateZone(sensors.heartRate, this.getMaxHeartRate())
+          : null,
+      cadence: sensors.cadence,
     };
   }
 
@@ -693,6 +1311,36 @@ export class RunTrackingService extends BaseService {
     } catch (error) {
       console.error('Failed to save run:', error);
     }
+
+    // Keep the full history too; replace rather than duplicate a re-saved run
+    this.runHistory = [...this.runHistory.filter((r) => r.id !== run.id), run]
+      .sort((a, b) => a.startTime - b.startTime)
+      .slice(-MAX_STORED_RUNS);
+    void this.saveRunHistory();
+  }
+
+  private async loadRunHistory(): Promise<void> {
+    try {
+      const stored = await StorageAdapter.getItem(RUN_HISTORY_STORAGE_KEY);
+      if (stored) {
+        const runs: RunSession[] = JSON.parse(stored);
+        // Runs saved before loading finished win over their stored copies
+        const saved = new Set(this.runHistory.map((r) => r.id));
+        this.runHistory = [...runs.filter((r) => !saved.has(r.id)), ...this.runHistory]
+          .sort((a, b) => a.startTime - b.startTime)
+          .slice(-MAX_STORED_RUNS);
+      }
+    } catch (error) {
+      console.error('Failed to load run history:', error);
+    }
+  }
+
+  private async saveRunHistory(): Promise<void> {
+    try {
+      await StorageAdapter.setItem(RUN_HISTORY_STORAGE_KEY, JSON.stringify(this.runHistory));
+    } catch (error) {
+      console.error('Failed to save run history:', error);
+    }
   }
 
   /**
@@ -733,7 +1381,7 @@ export class RunTrackingService extends BaseService {
     runSession.segments = this.generateSegmentsFromPoints(runSession.points);
 
     // Check territory eligibility
-    this.checkImportedTerritoryEligibility(runSession);
+    this.applyTerritoryEligibility(runSession);
 
     // Save imported run
     this.saveRun(runSession);
@@ -744,6 +1392,113 @@ export class RunTrackingService extends BaseService {
     return runSession;
   }
 
+  /**
+   * Import a GPX, TCX or FIT file exported by a watch or another app.
+   * Unlike `importExternalActivity` the file carries real per-point
+   * timestamps, altitude and heart rate, so segments, laps and speeds are
+   * derived from the track itself rather than from summary numbers.
+   */
+  public async importActivityFile(
+    data: string | ArrayBuffer | Uint8Array,
+    fileName?: string
+  ): Promise<RunSession> {
+    const parsed = parseActivityFile(data, fileName);
+    const runSession = this.buildSessionFromParsedActivity(parsed, fileName);
+
+    this.applyElevation(runSession);
+    this.applyHeartRate(runSession);
+    this.applySplits(runSession);
+    this.applyTerritoryEligibility(runSession);
+    this.saveRun(runSession);
+
+    this.safeEmit('run:imported', {
+      run: runSession,
+      source: parsed.format,
+    });
+
+    return runSession;
+  }
+
+  /**
+   * Assemble a completed RunSession from a parsed activity file. Points
+   * are kept verbatim (no smoothing — the device already filtered them);
+   * duplicate timestamps are collapsed so segment speeds stay finite.
+   */
+  private buildSessionFromParsedActivity(parsed: ParsedActivity, fileName?: string): RunSession {
+    const points: RunPoint[] = [];
+    for (const p of parsed.points) {
+      const last = points[points.length - 1];
+      if (last && p.timestamp <= last.timestamp) continue;
+      points.push({ ...p });
+    }
+
+    const segments = this.generateSegmentsFromPoints(points);
+    const totalDistance = segments.reduce((total, segment) => total + segment.distance, 0);
+    const startTime = points[0].timestamp;
+    const endTime = points[points.length - 1].timestamp;
+    const totalDuration = endTime - startTime;
+    const maxSpeed = segments.reduce((max, segment) => Math.max(max, segment.averageSpeed), 0);
+
+    return {
+      id: this.generateRunId(),
+      startTime,
+      endTime,
+      points,
+      segments,
+      laps: this.buildLapsFromMarkers(parsed, segments, startTime, endTime),
+      totalDistance,
+      totalDuration,
+      averageSpeed: totalDuration > 0 ? totalDistance / (totalDuration / 1000) : 0,
+      maxSpeed,
+      status: 'completed',
+      territoryEligible: false,
+      importedFile: {
+        format: parsed.format,
+        fileName,
+        name: parsed.name,
+        sport: parsed.sport,
+        creator: parsed.creator,
+      },
+    };
+  }
+
+  /**
+   * Convert device lap markers into RunLaps. Device-reported time and
+   * distance win; otherwise each lap runs until the next marker and its
+   * distance is summed from the segments that start inside it.
+   */
+  private buildLapsFromMarkers(
+    parsed: ParsedActivity,
+    segments: RunSegment[],
+    startTime: number,
+    endTime: number
+  ): RunLap[] {
+    const laps: RunLap[] = [];
+
+    parsed.laps.forEach((marker, index) => {
+      const next = parsed.laps[index + 1];
+      const lapEnd = next ? next.startTime : endTime;
+      const time = marker.durationMs ?? Math.max(0, lapEnd - marker.startTime);
+      const distance =
+        marker.distance ??
+        segments
+          .filter(
+            (s) => s.startPoint.timestamp >= marker.startTime && s.startPoint.timestamp < lapEnd
+          )
+          .reduce((total, s) => total + s.distance, 0);
+      const previousTotal = laps.length > 0 ? laps[laps.length - 1].totalTime : 0;
+
+      laps.push({
+        lapNumber: index + 1,
+        time,
+        distance,
+        totalTime: laps.length === 0 ? marker.startTime - startTime + time : previousTotal + time,
+      });
+    });
+
+    return laps;
+  }
+
   /**
    * Decode polyline to RunPoints
    */
@@ -815,27 +1570,34 @@ export class RunTrackingService extends BaseService {
   }
 
   /**
-   * Check territory eligibility for imported runs
+   * Territory eligibility shared by live, Strava-imported and file-imported
+   * runs, decided by utils/territory-eligibility.ts exactly as server.js
+   * decides it for synced runs. Eligible runs get the stable territory id
+   * and the H3 cells they claim in the current territory mode.
    */
-  private checkImportedTerritoryEligibility(run: RunSession): void {
-    if (run.points.length < 2) {
-      run.territoryEligible = false;
-      return;
-    }
-
-    const startPoint = run.points[0];
-    const endPoint = run.points[run.points.length - 1];
-
-    const meetsDistance = run.totalDistance >= this.runConfig.territoryMinDistance;
-    const distanceFromStart = this.calculateDistance(startPoint, endPoint);
-    const isLoop = distanceFromStart <= this.runConfig.territoryMaxDeviation;
-
-    run.territoryEligible = meetsDistance && isLoop;
-
-    if (run.territoryEligible) {
-      // Same territory-id helper as `checkTerritoryEligibility()` above
-      // — one source of truth lives in `utils/territory-id.ts`.
-      run.geohash = territoryIdFromCenter(startPoint.lat, startPoint.lng);
+  private applyTerritoryEligibility(run: RunSession): void {
+    const mode = this.getPreferredTerritoryMode();
+    const { eligible, reasons, validation, geohash, h3Cells } = assessTerritoryEligibility(run, {
+      mode,
+      minDistance: this.runConfig.territoryMinDistance,
+      loopClosure: this.runConfig.territoryMaxDeviation,
+    });
+    run.validation = {
+      verdict: validation.verdict,
+      score: validation.score,
+      reasons: validation.reasons,
+    };
+    run.territoryEligible = eligible;
+    run.territoryReasons = eligible ? undefined : reasons;
+    // Uploads carry the mode so the server claims the same cells
+    run.territoryMode = mode;
+
+    if (eligible) {
+      // Source of truth for the id is `packages/shared-core/utils/territory-id.ts`:
+      // six-decimal precision and no timestamp suffix — what
+      // GameLogic.validateTerritory accepts on the deployed ZetaChain contract.
+      run.geohash = geohash;
+      run.h3Cells = h3Cells;
     }
   }
 
@@ -843,17 +1605,28 @@ export class RunTrackingService extends BaseService {
    * Get run history from storage
    */
   public getRunHistory(): Array<{ distance: number; duration: number }> {
-    try {
-      const preferenceService = this.getSiblingService('PreferenceService');
-      if (!preferenceService) {
-        return [];
-      }
-      // Get last run from preference service and return as history
-      // This is a simplified version - in production you'd have a full history
-      return [];
-    } catch (error) {
-      console.error('Failed to get run history:', error);
-      return [];
-    }
+    return this.runHistory.map((run) => ({
+      distance: run.totalDistance,
+      duration: run.totalDuration,
+    }));
+  }
+
+  /**
+   * Every stored completed run, oldest first, points included
+   */
+  public getStoredRuns(): RunSession[] {
+    return [...this.runHistory];
+  }
+
+  /**
+   * Keep runs synced from the user's other devices (DeviceSyncService),
+   * replacing any stored copy with the same id
+   */
+  public async addSyncedRuns(runs: RunSession[]): Promise<void> {
+    const synced = new Set(runs.map((r) => r.id));
+    this.runHistory = [...this.runHistory.filter((r) => !synced.has(r.id)), ...runs]
+      .sort((a, b) => a.startTime - b.startTime)
+      .slice(-MAX_STORED_RUNS);
+    await this.saveRunHistory();
   }
 }
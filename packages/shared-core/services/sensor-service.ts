@@ -0,0 +1,297 @@
+/**
+ * SensorService — heart-rate and cadence streams for run tracking.
+ *
+ * A `SensorSource` is anything that pushes `SensorSample`s: a Bluetooth
+ * chest strap or footpod on the web (`WebBluetoothSensorSource`), a
+ * mobile BLE bridge (see mobile-app's MobileSensorAdapter), or a
+ * `SimulatedSensorSource` for tests and demos. The service merges
+ * whatever is connected into one "latest reading", which
+ * RunTrackingService stamps onto each RunPoint.
+ *
+ * Readings go stale after `maxSampleAgeMs` so a strap that drops out
+ * doesn't keep reporting its last value for the rest of the run.
+ *
+ * Singleton, like HapticsService and SoundService.
+ */
+import { BaseService } from '../core/base-service';
+import {
+  BLE_CHARACTERISTICS,
+  BLE_SERVICES,
+  parseHeartRateMeasurement,
+  parseRscMeasurement,
+} from '../utils/ble-fitness';
+
+export type SensorKind = 'heartRate' | 'cadence';
+
+export interface SensorSample {
+  timestamp: number;
+  heartRate?: number; // bpm
+  cadence?: number; // steps per minute
+}
+
+export interface SensorSource {
+  readonly id: string;
+  readonly name: string;
+  readonly kinds: SensorKind[];
+  /** Begin streaming. Rejects if the device can't be reached. */
+  start(onSample: (sample: SensorSample) => void): Promise<void>;
+  stop(): void | Promise<void>;
+}
+
+export interface SensorReading {
+  heartRate?: number;
+  cadence?: number;
+}
+
+const DEFAULT_MAX_SAMPLE_AGE_MS = 5000;
+
+export class SensorService extends BaseService {
+  private static instance: SensorService;
+  private sources = new Map<string, SensorSource>();
+  private latest: Partial<Record<SensorKind, { value: number; timestamp: number }>> = {};
+  private maxSampleAgeMs = DEFAULT_MAX_SAMPLE_AGE_MS;
+
+  static getInstance(): SensorService {
+    if (!SensorService.instance) {
+      SensorService.instance = new SensorService();
+    }
+    return SensorService.instance;
+  }
+
+  setMaxSampleAge(ms: number): void {
+    this.maxSampleAgeMs = ms;
+  }
+
+  /**
+   * Connect a source and start merging its samples. A source with the
+   * same id replaces the old one.
+   */
+  async connect(source: SensorSource): Promise<void> {
+    if (this.sources.has(source.id)) {
+      await this.disconnect(source.id);
+    }
+    this.sources.set(source.id, source);
+    try {
+      await source.start((sample) => this.handleSample(source, sample));
+    } catch (error) {
+      this.sources.delete(source.id);
+      throw error;
+    }
+    this.safeEmit('sensor:connected', {
+      sourceId: source.id,
+      name: source.name,
+      kinds: source.kinds,
+    });
+  }
+
+  /**
+   * Disconnect one source, or all of them when no id is given.
+   */
+  async disconnect(sourceId?: string): Promise<void> {
+    const ids = sourceId ? [sourceId] : [...this.sources.keys()];
+    for (const id of ids) {
+      const source = this.sources.get(id);
+      if (!source) continue;
+      this.sources.delete(id);
+      try {
+        await source.stop();
+      } catch (error) {
+        this.handleError(error, `disconnecting ${source.name}`);
+      }
+      this.safeEmit('sensor:disconnected', { sourceId: id, name: source.name });
+    }
+    if (this.sources.size === 0) this.latest = {};
+  }
+
+  getSources(): SensorSource[] {
+    return [...this.sources.values()];
+  }
+
+  isConnected(kind?: SensorKind): boolean {
+    return this.getSources().some((s) => !kind || s.kinds.includes(kind));
+  }
+
+  /**
+   * Most recent heart rate and cadence, omitting anything older than
+   * `maxSampleAgeMs` at `now`.
+   */
+  getLatest(now: number = Date.now()): SensorReading {
+    const reading: SensorReading = {};
+    for (const kind of ['heartRate', 'cadence'] as const) {
+      const entry = this.latest[kind];
+      if (entry && now - entry.timestamp <= this.maxSampleAgeMs) {
+        reading[kind] = entry.value;
+      }
+    }
+    return reading;
+  }
+
+  private handleSample(source: SensorSource, sample: SensorSample): void {
+    // Ignore stragglers from a source that has since been replaced or stopped
+    if (this.sources.get(source.id) !== source) return;
+    if (typeof sample.heartRate === 'number' && sample.heartRate > 0) {
+      this.latest.heartRate = { value: sample.heartRate, timestamp: sample.timestamp };
+    }
+    if (typeof sample.cadence === 'number') {
+      this.latest.cadence = { value: sample.cadence, timestamp: sample.timestamp };
+    }
+    this.safeEmit('sensor:sample', { sourceId: source.id, sample });
+  }
+}
+
+// Just enough of the Web Bluetooth API for the two fitness profiles;
+// the DOM lib doesn't ship these types.
+interface BluetoothCharacteristicLike {
+  value?: DataView;
+  startNotifications(): Promise<unknown>;
+  stopNotifications(): Promise<unknown>;
+  addEventListener(type: 'characteristicvaluechanged', listener: (event: Event) => void): void;
+  removeEventListener(type: 'characteristicvaluechanged', listener: (event: Event) => void): void;
+}
+
+interface BluetoothDeviceLike {
+  id: string;
+  name?: string;
+  gatt?: {
+    connected: boolean;
+    connect(): Promise<{
+      getPrimaryService(service: string): Promise<{
+        getCharacteristic(characteristic: string): Promise<BluetoothCharacteristicLike>;
+      }>;
+    }>;
+    disconnect(): void;
+  };
+}
+
+interface BluetoothLike {
+  requestDevice(options: {
+    filters: { services: string[] }[];
+    optionalServices?: string[];
+  }): Promise<BluetoothDeviceLike>;
+}
+
+function getBluetooth(): BluetoothLike | undefined {
+  if (typeof navigator === 'undefined') return undefined;
+  return (navigator as Navigator & { bluetooth?: BluetoothLike }).bluetooth;
+}
+
+/**
+ * Heart-rate strap or footpod over Web Bluetooth. `start()` shows the
+ * browser's device picker, so it must run from a user gesture.
+ */
+export class WebBluetoothSensorSource implements SensorSource {
+  readonly id: string;
+  readonly kinds: SensorKind[];
+  name: string;
+  private device: BluetoothDeviceLike | null = null;
+  private subscriptions: (() => Promise<unknown>)[] = [];
+
+  constructor(kind: SensorKind = 'heartRate') {
+    this.kinds = [kind];
+    this.id = `web-bluetooth-${kind}`;
+    this.name = kind === 'heartRate' ? 'Bluetooth heart rate' : 'Bluetooth footpod';
+  }
+
+  static isAvailable(): boolean {
+    return !!getBluetooth();
+  }
+
+  async start(onSample: (sample: SensorSample) => void): Promise<void> {
+    const bluetooth = getBluetooth();
+    if (!bluetooth) {
+      throw new Error('Web Bluetooth is not available in this browser');
+    }
+
+    const heartRate = this.kinds.includes('heartRate');
+    const service = heartRate ? BLE_SERVICES.heartRate : BLE_SERVICES.runningSpeedAndCadence;
+    const characteristicName = heartRate
+      ? BLE_CHARACTERISTICS.heartRateMeasurement
+      : BLE_CHARACTERISTICS.rscMeasurement;
+
+    this.device = await bluetooth.requestDevice({ filters: [{ services: [service] }] });
+    if (this.device.name) this.name = this.device.name;
+    const server = await this.device.gatt?.connect();
+    if (!server) throw new Error('Sensor does not support GATT');
+
+    const characteristic = await (await server.getPrimaryService(service)).getCharacteristic(
+      characteristicName
+    );
+    const listener = (event: Event) => {
+      const value = (event.target as unknown as BluetoothCharacteristicLike).value;
+      if (!value) return;
+      onSample(
+        heartRate
+          ? { timestamp: Date.now(), heartRate: parseHeartRateMeasurement(value).heartRate }
+          : { timestamp: Date.now(), cadence: parseRscMeasurement(value).cadence }
+      );
+    };
+    characteristic.addEventListener('characteristicvaluechanged', listener);
+    await characteristic.startNotifications();
+    this.subscriptions.push(async () => {
+      characteristic.removeEventListener('characteristicvaluechanged', listener);
+      await characteristic.stopNotifications();
+    });
+  }
+
+  async stop(): Promise<void> {
+    const subscriptions = this.subscriptions;
+    this.subscriptions = [];
+    for (const unsubscribe of subscriptions) {
+      await unsubscribe().catch(() => undefined);
+    }
+    if (this.device?.gatt?.connected) this.device.gatt.disconnect();
+    this.device = null;
+  }
+}
+
+export interface SimulatedSensorOptions {
+  id?: string;
+  /** Sample at `elapsedMs` since start. Default: steady 150 bpm, 170 spm. */
+  profile?: (elapsedMs: number) => Omit<SensorSample, 'timestamp'>;
+  /** Emit on a timer every `intervalMs`; 0 to only emit via `emit()`. Default 1000. */
+  intervalMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Scripted source for tests, demos and the simulator. With
+ * `intervalMs: 0` nothing is emitted until `emit()` is called.
+ */
+export class SimulatedSensorSource implements SensorSource {
+  readonly id: string;
+  readonly name = 'Simulated sensor';
+  readonly kinds: SensorKind[] = ['heartRate', 'cadence'];
+  private readonly profile: NonNullable<SimulatedSensorOptions['profile']>;
+  private readonly intervalMs: number;
+  private readonly now: () => number;
+  private onSample: ((sample: SensorSample) => void) | null = null;
+  private startedAt = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: SimulatedSensorOptions = {}) {
+    this.id = options.id ?? 'simulated';
+    this.profile = options.profile ?? (() => ({ heartRate: 150, cadence: 170 }));
+    this.intervalMs = options.intervalMs ?? 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  async start(onSample: (sample: SensorSample) => void): Promise<void> {
+    this.onSample = onSample;
+    this.startedAt = this.now();
+    if (this.intervalMs > 0) {
+      this.timer = setInterval(() => this.emit(), this.intervalMs);
+    }
+  }
+
+  /** Emit the profile's sample for the current time, or an explicit one. */
+  emit(sample?: Omit<SensorSample, 'timestamp'>): void {
+    const now = this.now();
+    this.onSample?.({ timestamp: now, ...(sample ?? this.profile(now - this.startedAt)) });
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.onSample = null;
+  }
+}
@@ -1,14 +1,64 @@
 import * as turf from '@turf/turf';
 import { GAME_RULES } from '../config/game-rules';
 import { BaseService } from '../core/base-service';
+import { type ClaimOutcome, isRetryableClaimError } from '../utils/claim-queue';
 import { calculateDistance } from '../utils/distance-formatter';
 import {
+  boundsToCells,
+  type CellOverlap,
+  cellOverlap,
+  coordsToCell,
   H3_RESOLUTION,
   H3_RESOLUTION_AREA_KM2,
+  MAX_CONTESTED_FRACTION,
   routeToCells,
   type TerritoryCell,
+  toTerritoryCell,
 } from '../utils/h3-territory';
+import { type IntentProgress, intentCells } from '../utils/intent-progress';
+import { type Landmark, type LandmarkProvider, rankLandmarks } from '../utils/landmarks';
+import {
+  activeContest,
+  isContestable,
+  isContestExpired,
+  recordAttack,
+  resolveContest,
+  startContest,
+  type TerritoryContest,
+  withContest,
+} from '../utils/territory-contest';
+import {
+  applyDefenseEvent,
+  type DefenseEvent,
+  type DefenseState,
+  type DefenseStatus,
+  decayDefense,
+  defenseStatusAt,
+  nextDecayTick,
+  UNCLAIMED_DEFENSE,
+  utcDay,
+} from '../utils/territory-defense';
+import {
+  buildHierarchy,
+  controlBonus,
+  controlChanges,
+  type TerritoryHierarchy,
+} from '../utils/territory-hierarchy';
 import { territoryIdFromBounds } from '../utils/territory-id';
+import { territoryValue } from '../utils/territory-reward';
+import {
+  formatRealm,
+  isWalletAddress,
+  offersAfterTransfer,
+  type PendingOffers,
+  parseRealm,
+  pendingOffers,
+  type TerritoryListing,
+  type TerritoryOffer,
+  withOffer,
+  withoutOffer,
+} from '../utils/territory-trade';
+import type { ClaimQueueService, QueuedClaim } from './claim-queue-service';
 import { RunSession } from './run-tracking-service';
 
 export interface TerritoryBounds {
@@ -41,6 +91,11 @@ export interface TerritoryIntent {
   estimatedDuration: number;
   status: 'active' | 'completed' | 'expired' | 'cancelled';
   userId?: string;
+  // H3 cells the run has to cover: the planned route's, or the ones
+  // inside the bounds when there's no route
+  h3Cells?: string[];
+  completedAt?: number;
+  runId?: string; // the run that completed it
 }
 
 export interface Territory {
@@ -80,7 +135,10 @@ export interface Territory {
   // Activity staking system
   activityPoints?: number; // 0-1000
   lastActivityUpdate?: number; // timestamp
-  defenseStatus?: 'strong' | 'moderate' | 'vulnerable' | 'claimable';
+  defenseStatus?: DefenseStatus;
+  // Defense engine state behind the three fields above
+  // (see utils/territory-defense.ts)
+  defense?: DefenseState;
   // H3 hexagonal cells covered by the run that produced this territory.
   // Additive alongside `geohash`; populated when a RunSession is processed
   // for H3-aware features (contested-cell detection, replay, map render).
@@ -88,6 +146,14 @@ export interface Territory {
   // upgraded — see contracts/H3_MIGRATION.md.
   h3Cells?: TerritoryCell[];
   h3Resolution?: number;
+  // Share of the run's cells already held by other territories at claim
+  // time. Those cells stay with their holders and are left out of h3Cells.
+  contestedFraction?: number;
+  // Challenges by other runners, newest last; an 'active' last entry is
+  // the contest in progress (see utils/territory-contest.ts)
+  contestHistory?: TerritoryContest[];
+  // Open market listing, if the owner has one (see utils/territory-trade.ts)
+  listing?: TerritoryListing;
 }
 
 export interface TerritoryClaimResult {
@@ -95,6 +161,8 @@ export interface TerritoryClaimResult {
   territory?: Territory;
   transactionHash?: string;
   error?: string;
+  retryable?: boolean; // the wallet or network was away; see utils/claim-queue.ts
+  queued?: boolean; // held in the claim queue until the wallet is back
 }
 
 export interface NearbyTerritory {
@@ -103,13 +171,22 @@ export interface NearbyTerritory {
   direction: string; // N, NE, E, SE, S, SW, W, NW
 }
 
+// A claimed territory that shares H3 cells with a preview
+export interface TerritoryConflict {
+  territory: Territory;
+  cells: string[]; // shared H3 indices
+  fraction: number; // shared cells / preview cells
+}
+
 // New interface for territory preview/selection
 export interface TerritoryPreview {
   bounds: TerritoryBounds;
   geohash: string;
   metadata: TerritoryMetadata;
   isAvailable: boolean;
-  conflictingTerritories?: Territory[];
+  conflictingTerritories?: TerritoryConflict[];
+  claimableCells?: string[]; // H3 indices nobody holds yet
+  contestedFraction?: number; // 0-1 share of cells already held
   estimatedClaimability: number; // 0-100 percentage
 }
 
@@ -124,6 +201,21 @@ export class TerritoryService extends BaseService {
   // New: Territory intent management
   private territoryIntents: Map<string, TerritoryIntent> = new Map();
   private readonly INTENT_EXPIRY_HOURS = 24; // Territory intents expire after 24 hours
+  private landmarkProvider: LandmarkProvider | null = null;
+  private readonly MAX_LANDMARKS = 5;
+  // Contest tracking for the run in progress
+  private contestRunId: string | null = null;
+  private runCellsHit: Map<string, Set<string>> = new Map(); // territoryId → cells
+  private pulsingTerritoryId: string | null = null;
+  // Defense timing; see setClock
+  private clock: () => number = () => Date.now();
+  private decayTimer: ReturnType<typeof setTimeout> | null = null;
+  // Districts and regions held, as of the last save
+  private hierarchy: TerritoryHierarchy = buildHierarchy([]);
+  // Open market offers on any territory we know, ours or theirs
+  private offers: TerritoryOffer[] = [];
+  // Claims that wait for the wallet; see setClaimQueue
+  private claimQueue: ClaimQueueService | null = null;
 
   protected constructor() {
     super();
@@ -152,6 +244,16 @@ export class TerritoryService extends BaseService {
     this.setupEventListeners();
     await this.loadClaimedTerritories();
     await this.loadTerritoryIntents();
+    await this.loadTerritoryOffers();
+    // Control won before this session was already rewarded
+    this.hierarchy = this.computeHierarchy();
+    this.drawHierarchy();
+    // Catch up on decay since the app last ran; this also schedules the next tick
+    this.applyActivityDecay();
+    this.registerCleanup(() => {
+      if (this.decayTimer) clearTimeout(this.decayTimer);
+      this.decayTimer = null;
+    });
     this.safeEmit('service:initialized', {
       service: 'TerritoryService',
       success: true,
@@ -165,9 +267,20 @@ export class TerritoryService extends BaseService {
       (data: { distance: number; duration: number; points: any[] }) => {
         // For now, we'll just log this - we need to implement territory eligibility logic
         console.log('Run completed, checking territory eligibility', data);
+        this.contestRunId = null;
+        this.runCellsHit.clear();
       }
     );
 
+    // Running through other runners' vulnerable cells attacks them
+    this.subscribe('run:started' as any, (data: { runId?: string }) => {
+      this.contestRunId = data.runId ?? null;
+      this.runCellsHit.clear();
+    });
+    this.subscribe('run:pointAdded' as any, (data: { point?: { lat: number; lng: number } }) => {
+      if (data.point) this.handleRunThrough(data.point);
+    });
+
     // Listen for location changes to update nearby territories
     this.subscribe('location:changed', (locationInfo) => {
       this.updateNearbyTerritories(locationInfo);
@@ -192,6 +305,49 @@ export class TerritoryService extends BaseService {
     this.subscribe('territory:boostActivity', (data: { territoryId: string }) => {
       this.boostTerritoryActivity(data.territoryId);
     });
+
+    // Trade requests from the dashboard
+    this.subscribe('territory:gift', (data) => this.giftTerritory(data.territoryId, data.to));
+    this.subscribe('territory:listForSale', (data) =>
+      this.listTerritoryForSale(data.territoryId, data.price)
+    );
+    this.subscribe('territory:cancelListing', (data) => this.cancelListing(data.territoryId));
+    this.subscribe('territory:acceptOffer', (data) =>
+      this.acceptOffer(data.territoryId, data.buyer)
+    );
+    this.subscribe('territory:withdrawOffer', (data) => this.withdrawOffer(data.territoryId));
+
+    // The chain is the source of truth for ownership, listings and offers
+    this.subscribe('territory:transferred', (data) => this.handleTransfer(data));
+    this.subscribe('territory:listed', (data) => {
+      const territory = this.territoryByTokenId(data.tokenId);
+      if (!territory) return;
+      territory.listing = { seller: data.seller, priceWei: data.priceWei, listedAt: this.clock() };
+      this.saveTerritoriesToStorage();
+    });
+    this.subscribe('territory:listingCancelled', (data) => {
+      const territory = this.territoryByTokenId(data.tokenId);
+      if (!territory?.listing) return;
+      territory.listing = undefined;
+      this.saveTerritoriesToStorage();
+    });
+    this.subscribe('territory:offerMade', (data) => {
+      this.setOffers(
+        withOffer(this.offers, {
+          tokenId: data.tokenId,
+          buyer: data.buyer,
+          amountWei: data.amountWei,
+          madeAt: this.clock(),
+          transactionHash: data.transactionHash,
+        })
+      );
+    });
+    this.subscribe('territory:offerWithdrawn', (data) => {
+      this.setOffers(withoutOffer(this.offers, data.tokenId, data.buyer));
+    });
+    this.subscribe('web3:walletConnected', () => {
+      this.syncOffers();
+    });
   }
 
   // New: Territory Intent Management Methods
@@ -237,6 +393,7 @@ export class TerritoryService extends BaseService {
       estimatedDistance: estimatedDistance || 0,
       estimatedDuration: estimatedDuration || 0,
       status: 'active',
+      h3Cells: intentCells(bounds, plannedRoute),
     };
 
     this.territoryIntents.set(intent.id, intent);
@@ -252,9 +409,14 @@ export class TerritoryService extends BaseService {
   }
 
   /**
-   * Get territory preview for a given area
+   * Get territory preview for a given area. Overlap is judged on H3 cells:
+   * the route's cells when a route is given, otherwise the cells inside
+   * `bounds`.
    */
-  public async getTerritoryPreview(bounds: TerritoryBounds): Promise<TerritoryPreview> {
+  public async getTerritoryPreview(
+    bounds: TerritoryBounds,
+    route?: Array<{ lat: number; lng: number }>
+  ): Promise<TerritoryPreview> {
     const geohash = territoryIdFromBounds(bounds);
     const isAvailable = await this.checkTerritoryAvailability(geohash);
 
@@ -276,20 +438,23 @@ export class TerritoryService extends BaseService {
 
     const metadata = await this.generateTerritoryMetadata(mockRunSession, bounds);
 
-    // Check for conflicting territories
-    const conflictingTerritories: Territory[] = [];
-    for (const [, territory] of this.claimedTerritories) {
-      if (this.territoriesOverlap(bounds, territory.bounds)) {
-        conflictingTerritories.push(territory);
+    // Check for conflicting territories, cell by cell
+    const cells = route?.length ? routeToCells(route).map((c) => c.h3Index) : boundsToCells(bounds);
+    const overlap = this.overlapWithClaimed(cells);
+    const conflictingTerritories: TerritoryConflict[] = [];
+    for (const conflict of overlap.conflicts) {
+      const territory = this.claimedTerritories.get(conflict.territoryId);
+      if (territory) {
+        conflictingTerritories.push({
+          territory,
+          cells: conflict.cells,
+          fraction: conflict.fraction,
+        });
       }
     }
 
-    const estimatedClaimability =
-      isAvailable && conflictingTerritories.length === 0
-        ? 100
-        : isAvailable
-          ? Math.max(0, 100 - conflictingTerritories.length * 25)
-          : 0;
+    const claimable = isAvailable && this.isClaimableOverlap(overlap);
+    const estimatedClaimability = claimable ? Math.round((1 - overlap.contestedFraction) * 100) : 0;
 
     return {
       bounds,
@@ -297,6 +462,8 @@ export class TerritoryService extends BaseService {
       metadata,
       isAvailable,
       conflictingTerritories,
+      claimableCells: claimable ? overlap.uncontestedCells : [],
+      contestedFraction: overlap.contestedFraction,
       estimatedClaimability,
     };
   }
@@ -312,19 +479,59 @@ export class TerritoryService extends BaseService {
       if (intent.status === 'active' && intent.expiresAt > now) {
         activeIntents.push(intent);
       } else if (intent.expiresAt <= now && intent.status === 'active') {
-        // Mark expired intents
-        intent.status = 'expired';
-        this.territoryIntents.set(intentId, intent);
+        this.expireTerritoryIntent(intentId);
       }
     }
 
-    if (activeIntents.length !== this.territoryIntents.size) {
-      this.saveTerritoryIntentsToStorage();
-    }
-
     return activeIntents;
   }
 
+  /**
+   * Mark an intent done by a run that covered it (see
+   * RunTrackingService's intent tracking)
+   */
+  public completeTerritoryIntent(
+    intentId: string,
+    runId: string,
+    progress: IntentProgress
+  ): TerritoryIntent | null {
+    const intent = this.territoryIntents.get(intentId);
+    if (!intent || intent.status !== 'active') return null;
+
+    intent.status = 'completed';
+    intent.completedAt = Date.now();
+    intent.runId = runId;
+    this.closeTerritoryIntent(intent);
+    this.safeEmit('territory:intentCompleted', { intent, runId, progress });
+    return intent;
+  }
+
+  /**
+   * Let an intent lapse, during a run that was working on it or not
+   */
+  public expireTerritoryIntent(
+    intentId: string,
+    runId?: string,
+    progress?: IntentProgress
+  ): TerritoryIntent | null {
+    const intent = this.territoryIntents.get(intentId);
+    if (!intent || intent.status !== 'active') return null;
+
+    intent.status = 'expired';
+    this.closeTerritoryIntent(intent);
+    this.safeEmit('territory:intentExpired', { intent, runId, progress });
+    return intent;
+  }
+
+  private closeTerritoryIntent(intent: TerritoryIntent): void {
+    this.territoryIntents.set(intent.id, intent);
+    this.saveTerritoryIntentsToStorage();
+    const mapService = this.getSiblingService('MapService');
+    if (mapService && typeof mapService.removeTerritoryIntent === 'function') {
+      mapService.removeTerritoryIntent(intent.id);
+    }
+  }
+
   /**
    * Cancel a territory intent
    */
@@ -351,13 +558,35 @@ export class TerritoryService extends BaseService {
    * territory + run; no side effects, no chain calls. Called by
    * `createTerritoryFromRun` and exposed publicly so map / replay code can
    * backfill cells for legacy territories that only have `geohash`.
+   * Uses the cells the run already claims (loop fill included) when it has
+   * them, otherwise the cells its route crosses.
    */
   public attachH3Cells(territory: Territory, run: RunSession): Territory {
     if (!run.points || run.points.length === 0) return territory;
-    const cells = routeToCells(run.points.map((p) => ({ lat: p.lat, lng: p.lng })));
+    const cells = run.h3Cells?.length
+      ? run.h3Cells.map(toTerritoryCell)
+      : routeToCells(run.points.map((p) => ({ lat: p.lat, lng: p.lng })));
     return { ...territory, h3Cells: cells, h3Resolution: H3_RESOLUTION };
   }
 
+  /**
+   * Where landmark names and rarity come from — a bundled extract, the
+   * geocoder, or null for none. Applies to territories created from now on.
+   */
+  public setLandmarkProvider(provider: LandmarkProvider | null): void {
+    this.landmarkProvider = provider;
+  }
+
+  /**
+   * Where claims go when the wallet, contract or network is away, to be
+   * made once it's back. Without one such claims just fail.
+   */
+  public setClaimQueue(queue: ClaimQueueService | null): void {
+    this.claimQueue?.setSubmitter(null);
+    this.claimQueue = queue;
+    queue?.setSubmitter((claim) => this.submitQueuedClaim(claim));
+  }
+
   /**
    * Read-only summary of H3 metadata. Used by /api/runs and any other
    * consumer that needs to confirm the H3 model is wired without pulling
@@ -415,8 +644,12 @@ export class TerritoryService extends BaseService {
       }
 
       // Attempt to claim territory
-      const result = await this.claimTerritory(territory);
+      const result = await this.claimTerritory(territory, { runId });
 
+      if (result.queued) {
+        // ClaimQueueService reports progress from here on
+        return;
+      }
       if (result.success && result.territory) {
         this.safeEmit('territory:claimed', {
           territory: result.territory,
@@ -557,24 +790,36 @@ export class TerritoryService extends BaseService {
     // Generate metadata
     const metadata = await this.generateTerritoryMetadata(run, bounds);
 
+    const territory: Territory = this.attachH3Cells(
+      {
+        id: this.generateTerritoryId(),
+        geohash: run.geohash,
+        bounds,
+        metadata,
+        runData: {
+          distance: run.totalDistance,
+          duration: run.totalDuration,
+          averageSpeed: run.averageSpeed,
+          pointCount: run.points.length,
+        },
+        status: 'claimable',
+        intentId: run.intentId,
+      },
+      run
+    );
+
     // Check for conflicts with existing territories
-    await this.validateTerritoryUniqueness(run.geohash, bounds);
+    const cells = territory.h3Cells?.map((c) => c.h3Index) ?? boundsToCells(bounds);
+    const overlap = await this.validateTerritoryUniqueness(run.geohash, cells);
+    if (overlap.contestedCells.length === 0) return territory;
 
-    const territory: Territory = {
-      id: this.generateTerritoryId(),
-      geohash: run.geohash,
-      bounds,
-      metadata,
-      runData: {
-        distance: run.totalDistance,
-        duration: run.totalDuration,
-        averageSpeed: run.averageSpeed,
-        pointCount: run.points.length,
-      },
-      status: 'claimable',
+    // Claim only the uncontested cells; the rest stay with their holders
+    const uncontested = new Set(overlap.uncontestedCells);
+    return {
+      ...territory,
+      h3Cells: territory.h3Cells?.filter((c) => uncontested.has(c.h3Index)),
+      contestedFraction: overlap.contestedFraction,
     };
-
-    return this.attachH3Cells(territory, run);
   }
 
   /**
@@ -598,31 +843,26 @@ export class TerritoryService extends BaseService {
   }
 
   /**
-   * Generate territory metadata based on run characteristics
+   * Generate territory metadata based on run characteristics: difficulty,
+   * rarity and reward come from utils/territory-reward.ts, the same
+   * scoring server.js quotes for synced runs
    */
   private async generateTerritoryMetadata(
     run: RunSession,
     bounds: TerritoryBounds
   ): Promise<TerritoryMetadata> {
-    // Calculate difficulty based on distance, duration, and terrain
-    const difficulty = this.calculateDifficulty(run);
-
-    // Determine rarity based on difficulty and location uniqueness
-    const rarity = this.calculateRarity(difficulty, bounds);
-
-    // Estimate reward based on difficulty and rarity
-    const estimatedReward = this.calculateReward(difficulty, rarity);
-
-    // Generate landmarks (this could be enhanced with real POI data)
+    // Real places inside the bounds, most notable first
     const landmarks = await this.identifyLandmarks(bounds);
 
+    const { difficulty, rarity, estimatedReward } = territoryValue(run, landmarks);
+
     const name = this.generateTerritoryName(bounds, landmarks);
     const description = this.generateTerritoryDescription(run, difficulty, landmarks);
 
     return {
       name,
       description,
-      landmarks,
+      landmarks: landmarks.map((landmark) => landmark.name),
       difficulty,
       rarity,
       estimatedReward,
@@ -630,75 +870,32 @@ export class TerritoryService extends BaseService {
   }
 
   /**
-   * Calculate territory difficulty
-   */
-  private calculateDifficulty(run: RunSession): number {
-    const distanceScore = Math.min(run.totalDistance / 5000, 1) * 40; // Max 40 points for 5km+
-    const speedScore = Math.min(run.averageSpeed / 5, 1) * 30; // Max 30 points for 5 m/s average
-    const durationScore = Math.min(run.totalDuration / (60 * 60 * 1000), 1) * 30; // Max 30 points for 1 hour+
-
-    return Math.round(distanceScore + speedScore + durationScore);
-  }
-
-  /**
-   * Calculate territory rarity
-   */
-  private calculateRarity(
-    difficulty: number,
-    bounds: TerritoryBounds
-  ): 'common' | 'rare' | 'epic' | 'legendary' {
-    // Check for special locations (this could be enhanced with real data)
-    const isSpecialLocation = this.isSpecialLocation(bounds);
-
-    if (difficulty >= 90 || isSpecialLocation) return 'legendary';
-    if (difficulty >= 70) return 'epic';
-    if (difficulty >= 50) return 'rare';
-    return 'common';
-  }
-
-  /**
-   * Check if location is special (parks, landmarks, etc.)
-   */
-  private isSpecialLocation(_bounds: TerritoryBounds): boolean {
-    // This would integrate with real POI/landmark data
-    // For now, return false as placeholder
-    return false;
-  }
-
-  /**
-   * Calculate estimated reward
-   */
-  private calculateReward(difficulty: number, rarity: string): number {
-    const baseReward = difficulty;
-    const rarityMultiplier =
-      {
-        common: 1,
-        rare: 1.5,
-        epic: 2,
-        legendary: 3,
-      }[rarity] || 1;
-
-    return Math.round(baseReward * rarityMultiplier);
-  }
-
-  /**
-   * Identify landmarks within territory bounds
+   * Identify landmarks within territory bounds. Empty without a provider
+   * or when the lookup fails — a territory is still claimable unnamed.
    */
-  private async identifyLandmarks(_bounds: TerritoryBounds): Promise<string[]> {
-    // This would integrate with a POI service or geocoding API
-    // For now, return generic landmarks
-    const genericLandmarks = ['Park', 'Street', 'Neighborhood'];
-    return genericLandmarks.slice(0, Math.floor(Math.random() * 3) + 1);
+  private async identifyLandmarks(bounds: TerritoryBounds): Promise<Landmark[]> {
+    if (!this.landmarkProvider) return [];
+    try {
+      const found = await this.landmarkProvider.findLandmarks(bounds);
+      return rankLandmarks(found).slice(0, this.MAX_LANDMARKS);
+    } catch (error) {
+      console.warn(
+        `TerritoryService: ${this.landmarkProvider.name} landmark lookup failed:`,
+        error
+      );
+      return [];
+    }
   }
 
   /**
-   * Generate territory name
+   * Generate territory name: the most notable landmark, else coordinates
    */
-  private generateTerritoryName(bounds: TerritoryBounds, landmarks: string[]): string {
-    const primaryLandmark = landmarks[0] || 'Territory';
-    const lat = bounds.center.lat.toFixed(3);
-    const lng = bounds.center.lng.toFixed(3);
-    return `${primaryLandmark} ${lat}°N ${lng}°W`;
+  private generateTerritoryName(bounds: TerritoryBounds, landmarks: Landmark[]): string {
+    if (landmarks.length > 0) return landmarks[0].name;
+    const { lat, lng } = bounds.center;
+    const ns = `${Math.abs(lat).toFixed(3)}°${lat >= 0 ? 'N' : 'S'}`;
+    const ew = `${Math.abs(lng).toFixed(3)}°${lng >= 0 ? 'E' : 'W'}`;
+    return `Territory ${ns} ${ew}`;
   }
 
   /**
@@ -707,28 +904,38 @@ export class TerritoryService extends BaseService {
   private generateTerritoryDescription(
     run: RunSession,
     difficulty: number,
-    landmarks: string[]
+    landmarks: Landmark[]
   ): string {
     const distanceKm = (run.totalDistance / 1000).toFixed(1);
     const durationMin = Math.round(run.totalDuration / (60 * 1000));
+    const climb = run.elevation ? ` with ${Math.round(run.elevation.gain)}m of climbing` : '';
+    const features =
+      landmarks.length > 0
+        ? ` Features: ${landmarks.map((l) => (l.kind === 'other' ? l.name : `${l.name} (${l.kind})`)).join(', ')}.`
+        : '';
 
-    return `A ${difficulty}/100 difficulty territory covering ${distanceKm}km, completed in ${durationMin} minutes. Features: ${landmarks.join(
-      ', '
-    )}.`;
+    return `A ${difficulty}/100 difficulty territory covering ${distanceKm}km${climb}, completed in ${durationMin} minutes.${features}`;
   }
 
   /**
-   * Validate territory uniqueness
+   * Validate territory uniqueness. Sharing some cells with existing
+   * territories is allowed up to MAX_CONTESTED_FRACTION; the overlap is
+   * returned so the caller can drop the contested cells.
    */
   private async validateTerritoryUniqueness(
     geohash: string,
-    bounds: TerritoryBounds
-  ): Promise<void> {
+    cells: string[]
+  ): Promise<CellOverlap> {
     // Check against existing territories
-    for (const [_id, territory] of this.claimedTerritories) {
-      if (this.territoriesOverlap(bounds, territory.bounds)) {
-        throw new Error('Territory overlaps with existing claimed territory');
-      }
+    const overlap = this.overlapWithClaimed(cells);
+    if (!this.isClaimableOverlap(overlap)) {
+      throw new Error(
+        overlap.uncontestedCells.length === 0
+          ? 'Territory is already fully claimed'
+          : `Territory overlaps existing claims on ${Math.round(
+              overlap.contestedFraction * 100
+            )}% of its cells`
+      );
     }
 
     // Check against blockchain (this would be a real check in production)
@@ -736,17 +943,32 @@ export class TerritoryService extends BaseService {
     if (exists) {
       throw new Error('Territory already exists on blockchain');
     }
+
+    return overlap;
   }
 
   /**
-   * Check if two territories overlap
+   * Overlap between a candidate's cells and every claimed territory.
+   * Legacy territories without h3Cells fall back to the cells inside
+   * their bounds.
    */
-  private territoriesOverlap(bounds1: TerritoryBounds, bounds2: TerritoryBounds): boolean {
-    return !(
-      bounds1.east < bounds2.west ||
-      bounds2.east < bounds1.west ||
-      bounds1.north < bounds2.south ||
-      bounds2.north < bounds1.south
+  private overlapWithClaimed(cells: string[]): CellOverlap {
+    const claimed = [...this.claimedTerritories.values()].map((territory) => ({
+      id: territory.id,
+      cells: this.cellsOf(territory),
+    }));
+    return cellOverlap(cells, claimed);
+  }
+
+  private cellsOf(territory: Territory): string[] {
+    return territory.h3Cells?.length
+      ? territory.h3Cells.map((c) => c.h3Index)
+      : boundsToCells(territory.bounds);
+  }
+
+  private isClaimableOverlap(overlap: CellOverlap): boolean {
+    return (
+      overlap.uncontestedCells.length > 0 && overlap.contestedFraction <= MAX_CONTESTED_FRACTION
     );
   }
 
@@ -793,8 +1015,14 @@ export class TerritoryService extends BaseService {
    * non-null `tokenId` parsed from the `TerritoryCreated` event.
    * Optimistic state mutations are gone; the wallet UI can now trust
    * the `success: true` return value.
+   *
+   * A claim that fails because the wallet or network is away is queued
+   * (see setClaimQueue) and comes back through here with `fromQueue`.
    */
-  private async claimTerritory(territory: Territory): Promise<TerritoryClaimResult> {
+  private async claimTerritory(
+    territory: Territory,
+    options: { runId?: string; fromQueue?: boolean } = {}
+  ): Promise<TerritoryClaimResult> {
     try {
       // Get Web3, Contract, and CrossChain services
       const web3Service = this.getSiblingService('Web3Service');
@@ -900,7 +1128,7 @@ export class TerritoryService extends BaseService {
         // Local state mutation — only on a verified receipt.
         territory.status = 'claimed';
         territory.owner = wallet.address;
-        territory.claimedAt = Date.now();
+        territory.claimedAt = this.clock();
         territory.transactionHash = receipt.transactionHash;
         territory.chainId = wallet.chainId;
         territory.tokenId = receipt.tokenId;
@@ -915,9 +1143,12 @@ export class TerritoryService extends BaseService {
           territory.confidentialShield = crossChainService.isEncryptedShieldEnabled();
         }
 
-        // Store locally
-        this.claimedTerritories.set(territory.id, territory);
-        this.saveTerritoriesToStorage();
+        // Store locally, with its defense starting from the claim
+        this.applyDefense(territory, {
+          type: 'claim',
+          at: territory.claimedAt,
+          owner: wallet.address,
+        });
 
         return {
           success: true,
@@ -927,13 +1158,37 @@ export class TerritoryService extends BaseService {
       }
     } catch (error) {
       console.error('Territory claiming failed:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-      };
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      const retryable = isRetryableClaimError(message);
+      // Not the claim's fault: hold it until the wallet is back
+      if (retryable && !options.fromQueue && this.claimQueue) {
+        this.claimQueue.enqueue(territory, options.runId);
+        return { success: false, territory, error: message, retryable, queued: true };
+      }
+      return { success: false, error: message, retryable };
     }
   }
 
+  /** Make a claim the queue has held; its backoff and retries are the queue's. */
+  private async submitQueuedClaim(claim: QueuedClaim): Promise<ClaimOutcome> {
+    const result = await this.claimTerritory(claim.payload, {
+      runId: claim.runId,
+      fromQueue: true,
+    });
+    if (result.success && result.territory) {
+      this.safeEmit('territory:claimed', {
+        territory: result.territory,
+        transactionHash: result.transactionHash || '',
+      });
+      return { ok: true, transactionHash: result.transactionHash };
+    }
+    return {
+      ok: false,
+      error: result.error || 'Unknown error',
+      retryable: result.retryable ?? false,
+    };
+  }
+
   /**
    * Check if territory is available for claiming
    */
@@ -1025,6 +1280,25 @@ export class TerritoryService extends BaseService {
     return Array.from(this.claimedTerritories.values());
   }
 
+  /**
+   * Take territories synced from the user's other devices
+   * (DeviceSyncService), replacing any copy held here
+   */
+  public addSyncedTerritories(territories: Territory[]): void {
+    for (const territory of territories) {
+      this.claimedTerritories.set(territory.id, territory);
+    }
+    this.saveTerritoriesToStorage();
+    this.safeEmit('territory:synced', { territories });
+  }
+
+  /**
+   * Cells, districts and regions held, with who controls each
+   */
+  public getTerritoryHierarchy(): TerritoryHierarchy {
+    return this.hierarchy;
+  }
+
   /**
    * Get nearby territories
    */
@@ -1041,6 +1315,15 @@ export class TerritoryService extends BaseService {
     return null;
   }
 
+  private async loadTerritoryOffers(): Promise<void> {
+    try {
+      const stored = localStorage.getItem('runrealm_territory_offers');
+      if (stored) this.offers = JSON.parse(stored);
+    } catch (error) {
+      console.error('Failed to load territory offers:', error);
+    }
+  }
+
   /**
    * Load claimed territories from storage
    */
@@ -1062,6 +1345,8 @@ export class TerritoryService extends BaseService {
    * Save territories to storage
    */
   private saveTerritoriesToStorage(): void {
+    // Any save can move a district or region to another runner
+    this.updateHierarchy();
     try {
       const territories = Array.from(this.claimedTerritories.values());
       localStorage.setItem('runrealm_claimed_territories', JSON.stringify(territories));
@@ -1070,6 +1355,41 @@ export class TerritoryService extends BaseService {
     }
   }
 
+  private computeHierarchy(): TerritoryHierarchy {
+    return buildHierarchy(
+      [...this.claimedTerritories.values()].map((territory) => ({
+        owner: territory.defense?.owner || territory.owner,
+        cells: this.cellsOf(territory),
+      }))
+    );
+  }
+
+  /**
+   * Recompute district and region control, announce every change and
+   * credit the control bonus when the connected wallet takes one.
+   */
+  private updateHierarchy(): void {
+    const previous = this.hierarchy;
+    this.hierarchy = this.computeHierarchy();
+
+    const me = this.getWalletSnapshot()?.address.toLowerCase();
+    for (const change of controlChanges(previous, this.hierarchy)) {
+      const bonus = change.to ? controlBonus(change.level) : 0;
+      this.safeEmit('territory:controlChanged', { ...change, bonus });
+      if (me && change.to === me) {
+        this.safeEmit('realm:earned', { amount: bonus, reason: `${change.level}_control` });
+      }
+    }
+    this.drawHierarchy();
+  }
+
+  private drawHierarchy(): void {
+    const mapService = this.getSiblingService('MapService');
+    if (mapService && typeof mapService.drawTerritoryHierarchy === 'function') {
+      mapService.drawTerritoryHierarchy(this.hierarchy);
+    }
+  }
+
   /**
    * Generate unique territory ID
    */
@@ -1078,18 +1398,79 @@ export class TerritoryService extends BaseService {
   }
 
   /**
-   * Update territory activity points
+   * Use a different clock for defense (decay ticks, contest timing).
+   * Simulations and tests pass a fake one; the default is Date.now.
+   */
+  setClock(clock: () => number): void {
+    this.clock = clock;
+    if (this.decayTimer) this.scheduleDecayTick();
+  }
+
+  /**
+   * Grant or take activity points outside the defense rules (e.g. a
+   * ghost run's reward). Decay owed up to now is charged first.
    */
   updateTerritoryActivity(territoryId: string, points: number): void {
     const territory = this.claimedTerritories.get(territoryId);
     if (!territory) return;
+    this.applyDefense(territory, { type: 'adjust', at: this.clock(), points });
+  }
 
-    const current = territory.activityPoints || 500; // Start with 500 on claim
-    territory.activityPoints = Math.min(1000, Math.max(0, current + points));
-    territory.lastActivityUpdate = Date.now();
-    territory.defenseStatus = this.calculateDefenseStatus(territory.activityPoints);
+  /**
+   * Charge decay owed up to now on every territory, lapse stale
+   * contests, and schedule the next run at the following UTC midnight.
+   */
+  applyActivityDecay(): void {
+    const now = this.clock();
+
+    this.claimedTerritories.forEach((territory) => {
+      const before = this.defenseOf(territory);
+      if (decayDefense(before, now) !== before) {
+        this.applyDefense(territory, { type: 'decay', at: now });
+      }
+    });
 
-    this.claimedTerritories.set(territoryId, territory);
+    this.expireStaleContests(now);
+    this.scheduleDecayTick();
+  }
+
+  /**
+   * Get territories by defense status
+   */
+  getTerritoriesByStatus(status: DefenseStatus): Territory[] {
+    return Array.from(this.claimedTerritories.values()).filter((t) => t.defenseStatus === status);
+  }
+
+  /**
+   * A territory's defense state. Territories saved before the engine
+   * existed are picked up from their stored points, decaying from
+   * their last update.
+   */
+  private defenseOf(territory: Territory): DefenseState {
+    if (territory.defense) return territory.defense;
+    const since = territory.lastActivityUpdate ?? territory.claimedAt ?? this.clock();
+    return {
+      ...UNCLAIMED_DEFENSE,
+      owner: territory.owner ?? '',
+      points: territory.activityPoints ?? GAME_RULES.activity.initialPoints,
+      lastActivityAt: since,
+      decayDay: utcDay(since),
+    };
+  }
+
+  /**
+   * Run one event through the defense engine and mirror the result
+   * onto the territory's activityPoints / defenseStatus / owner.
+   */
+  private applyDefense(territory: Territory, event: DefenseEvent): DefenseState {
+    const state = applyDefenseEvent(this.defenseOf(territory), event);
+    territory.defense = state;
+    territory.activityPoints = state.points;
+    territory.lastActivityUpdate = state.lastActivityAt ?? undefined;
+    territory.defenseStatus = defenseStatusAt(state, event.at);
+    if (state.owner) territory.owner = state.owner;
+
+    this.claimedTerritories.set(territory.id, territory);
     this.saveTerritoriesToStorage();
 
     this.safeEmit('territory:activityUpdated', { territory });
@@ -1097,46 +1478,179 @@ export class TerritoryService extends BaseService {
     if (territory.defenseStatus === 'vulnerable') {
       this.safeEmit('territory:vulnerable', { territory });
     }
+    if (!this.decayTimer) this.scheduleDecayTick();
+    return state;
   }
 
   /**
-   * Calculate defense status from activity points
+   * Wake up for the earliest decay tick any territory still has. The
+   * timer is the only thing that moves points with time; everything
+   * else is computed from the event times.
    */
-  private calculateDefenseStatus(
-    points: number
-  ): 'strong' | 'moderate' | 'vulnerable' | 'claimable' {
-    if (points >= 700) return 'strong';
-    if (points >= 300) return 'moderate';
-    if (points >= 100) return 'vulnerable';
-    return 'claimable';
+  private scheduleDecayTick(): void {
+    if (this.decayTimer) clearTimeout(this.decayTimer);
+    this.decayTimer = null;
+
+    const now = this.clock();
+    let next: number | null = null;
+    for (const territory of this.claimedTerritories.values()) {
+      const tick = nextDecayTick(this.defenseOf(territory), now);
+      if (tick !== null && (next === null || tick < next)) next = tick;
+    }
+    if (next === null) return;
+
+    this.decayTimer = setTimeout(() => {
+      this.decayTimer = null;
+      this.applyActivityDecay();
+    }, next - now);
   }
 
   /**
-   * Apply activity point decay for all territories
+   * The contest in progress on a territory, if any
    */
-  applyActivityDecay(): void {
-    const now = Date.now();
-    const dayMs = 24 * 60 * 60 * 1000;
+  getActiveContest(territoryId: string): TerritoryContest | null {
+    return activeContest(this.claimedTerritories.get(territoryId)?.contestHistory);
+  }
 
-    this.claimedTerritories.forEach((territory, id) => {
-      if (!territory.lastActivityUpdate) {
-        territory.lastActivityUpdate = territory.claimedAt || now;
-      }
+  /**
+   * A live run point landed somewhere: if it's in a claimed territory's
+   * cells, the owner defends it and anyone else attacks it. Each cell
+   * counts once per run, so circling one hex doesn't farm points.
+   */
+  private handleRunThrough(point: { lat: number; lng: number }): void {
+    if (!Number.isFinite(point.lat) || !Number.isFinite(point.lng)) return;
+    const cell = coordsToCell(point.lat, point.lng).h3Index;
+    const territory = this.territoryAtCell(cell);
+    if (!territory) return;
 
-      const daysSinceUpdate = (now - territory.lastActivityUpdate) / dayMs;
-      const decayPoints = Math.floor(daysSinceUpdate * 10); // -10 points per day
+    const hits = this.runCellsHit.get(territory.id) ?? new Set<string>();
+    if (hits.has(cell)) return;
+    hits.add(cell);
+    this.runCellsHit.set(territory.id, hits);
 
-      if (decayPoints > 0) {
-        this.updateTerritoryActivity(id, -decayPoints);
-      }
+    const player = this.getWalletSnapshot()?.address;
+    if (!player) return;
+
+    if (territory.owner?.toLowerCase() === player.toLowerCase()) {
+      this.defendTerritory(territory, player);
+    } else {
+      this.attackTerritory(territory, cell, player);
+    }
+  }
+
+  private territoryAtCell(cell: string): Territory | undefined {
+    for (const territory of this.claimedTerritories.values()) {
+      if (territory.h3Cells?.some((c) => c.h3Index === cell)) return territory;
+    }
+    return undefined;
+  }
+
+  /**
+   * Take points off a vulnerable territory, starting a contest if there
+   * isn't one, and hand it over once the defense engine says it has
+   * fallen. One challenger at a time: someone else's hits don't count
+   * until the running contest is resolved.
+   */
+  private attackTerritory(territory: Territory, cell: string, challenger: string): void {
+    const now = this.clock();
+    let contest = activeContest(territory.contestHistory);
+    if (contest && isContestExpired(contest, now)) {
+      this.closeContest(territory, resolveContest(contest, 'expired', now));
+      contest = null;
+    }
+
+    // A boost mid-contest can lift the territory out of reach again
+    if (!isContestable(defenseStatusAt(this.defenseOf(territory), now))) return;
+    if (!contest) {
+      contest = startContest(`contest_${now}_${territory.id}`, challenger, territory.owner, now);
+    } else if (contest.challenger.toLowerCase() !== challenger.toLowerCase()) {
+      return;
+    }
+
+    const attack = recordAttack(contest, {
+      cell,
+      runId: this.contestRunId ?? 'unknown-run',
+      at: now,
     });
+    territory.contestHistory = withContest(territory.contestHistory, attack.contest);
+    territory.status = 'contested';
+    const defense = this.applyDefense(territory, {
+      type: 'runThrough',
+      at: now,
+      runner: challenger,
+    });
+
+    if (defense.owner?.toLowerCase() === challenger.toLowerCase()) {
+      this.captureTerritory(territory, resolveContest(attack.contest, 'captured', now));
+      return;
+    }
+
+    this.saveTerritoriesToStorage();
+    this.safeEmit('territory:contestUpdated', { territory, contest: attack.contest });
+    this.startContestPulse(territory);
   }
 
   /**
-   * Get territories by defense status
+   * The owner ran through their territory: top up its activity and see
+   * off any challenger.
    */
-  getTerritoriesByStatus(status: 'strong' | 'moderate' | 'vulnerable' | 'claimable'): Territory[] {
-    return Array.from(this.claimedTerritories.values()).filter((t) => t.defenseStatus === status);
+  private defendTerritory(territory: Territory, owner: string): void {
+    const now = this.clock();
+    this.applyDefense(territory, { type: 'runThrough', at: now, runner: owner });
+    const contest = activeContest(territory.contestHistory);
+    if (contest) {
+      this.closeContest(territory, resolveContest(contest, 'defended', now));
+    }
+  }
+
+  /**
+   * The challenger broke the territory's defence; the engine has already
+   * made them the owner at the initial activity a fresh claim gets. This
+   * is the local game state; the on-chain token doesn't move with it yet.
+   */
+  private captureTerritory(territory: Territory, contest: TerritoryContest): void {
+    territory.claimedAt = contest.resolvedAt;
+    this.closeContest(territory, contest);
+
+    this.safeEmit('ui:toast', {
+      message: `🏴 ${territory.metadata.name} captured!`,
+      type: 'success',
+    });
+  }
+
+  private closeContest(territory: Territory, contest: TerritoryContest): void {
+    territory.contestHistory = withContest(territory.contestHistory, contest);
+    territory.status = 'claimed';
+    this.claimedTerritories.set(territory.id, territory);
+    this.saveTerritoriesToStorage();
+    this.safeEmit('territory:contestResolved', { territory, contest });
+    if (this.pulsingTerritoryId === territory.id) this.stopContestPulse();
+  }
+
+  private expireStaleContests(now: number): void {
+    for (const territory of this.claimedTerritories.values()) {
+      const contest = activeContest(territory.contestHistory);
+      if (contest && isContestExpired(contest, now)) {
+        this.closeContest(territory, resolveContest(contest, 'expired', now));
+      }
+    }
+  }
+
+  private startContestPulse(territory: Territory): void {
+    if (this.pulsingTerritoryId === territory.id) return;
+    const mapService = this.getSiblingService('MapService');
+    if (mapService && typeof mapService.startContestedPulse === 'function') {
+      mapService.startContestedPulse(territory.h3Cells ?? []);
+      this.pulsingTerritoryId = territory.id;
+    }
+  }
+
+  private stopContestPulse(): void {
+    const mapService = this.getSiblingService('MapService');
+    if (mapService && typeof mapService.stopContestedPulse === 'function') {
+      mapService.stopContestedPulse();
+    }
+    this.pulsingTerritoryId = null;
   }
 
   /**
@@ -1157,8 +1671,9 @@ export class TerritoryService extends BaseService {
    *      wait. The caller must have approved `BOOST_COST` REALM to
    *      the boost contract first — a separate `approve` flow
    *      driven by the wallet UI.
-   *   4. On `receipt.status === 1`, apply the +100 activityPoints
-   *      locally via `updateTerritoryActivity`. The on-chain event
+   *   4. On `receipt.status === 1`, apply the boost locally through
+   *      the defense engine, which holds it to the same one-per-day
+   *      limit and points cap as the contract. The on-chain event
    *      `TerritoryBoosted` is the source of truth; the local
    *      mutation mirrors it for the UI to consume immediately
    *      without a refresh round-trip.
@@ -1217,7 +1732,7 @@ export class TerritoryService extends BaseService {
     // show a "next boost in N hours" message before the user
     // signs a transaction. The contract reverts on duplicate
     // day as a backstop.
-    const today = Math.floor(Date.now() / (24 * 60 * 60 * 1000));
+    const today = utcDay(this.clock());
     const lastDay = await contractService.getLastBoostDay(wallet.address, tokenId);
     if (lastDay >= today) {
       this.safeEmit('ui:toast', {
@@ -1251,11 +1766,11 @@ export class TerritoryService extends BaseService {
       }
 
       // Receipt is the source of truth for the on-chain payment;
-      // the local activityPoints mutation mirrors the on-chain
+      // the local boost event mirrors the on-chain
       // event so the UI updates immediately. The
       // `TerritoryBoosted` event is also re-emitted locally so
       // future map / replay layers can subscribe uniformly.
-      this.updateTerritoryActivity(territoryId, boostPoints);
+      this.applyDefense(territory, { type: 'boost', at: this.clock(), by: wallet.address });
       this.safeEmit('territory:boostConfirmed' as any, {
         territoryId,
         tokenId,
@@ -1276,4 +1791,332 @@ export class TerritoryService extends BaseService {
       });
     }
   }
+
+  /**
+   * Offers waiting on the connected wallet (on territories it owns) and
+   * offers it has made on others'. Empty without a wallet.
+   */
+  getPendingOffers(): PendingOffers {
+    const me = this.getWalletSnapshot()?.address;
+    if (!me) return { incoming: [], outgoing: [] };
+    const owned = [...this.claimedTerritories.values()]
+      .filter((t) => t.tokenId && t.owner?.toLowerCase() === me.toLowerCase())
+      .map((t) => t.tokenId as string);
+    return pendingOffers(this.offers, owned, me);
+  }
+
+  /**
+   * Re-read the open offers on the wallet's on-chain territories from the
+   * market contract, replacing what we had for them. Offers made while
+   * the app was closed only arrive this way.
+   */
+  async syncOffers(): Promise<void> {
+    const contractService = this.getSiblingService('ContractService');
+    if (!contractService || typeof contractService.getOffers !== 'function') return;
+    if (!contractService.isMarketReady()) return;
+    const me = this.getWalletSnapshot()?.address.toLowerCase();
+    if (!me) return;
+
+    const tokenIds = [...this.claimedTerritories.values()]
+      .filter((t) => t.tokenId && t.owner?.toLowerCase() === me)
+      .map((t) => t.tokenId as string);
+    let offers = this.offers.filter((o) => !tokenIds.includes(o.tokenId));
+    for (const tokenId of tokenIds) {
+      const known = this.offers.filter((o) => o.tokenId === tokenId);
+      for (const open of await contractService.getOffers(tokenId)) {
+        const earlier = known.find((o) => o.buyer.toLowerCase() === open.buyer.toLowerCase());
+        offers = withOffer(offers, { ...open, madeAt: earlier?.madeAt ?? this.clock() });
+      }
+    }
+    this.setOffers(offers);
+  }
+
+  /**
+   * Give a territory to another wallet. A straight NFT transfer, so it
+   * works whether or not the market contract is deployed.
+   */
+  async giftTerritory(territoryId: string, to: string): Promise<void> {
+    if (!isWalletAddress(to)) {
+      this.safeEmit('ui:toast', { message: '❌ Enter a valid wallet address', type: 'error' });
+      return;
+    }
+    const trade = this.tradeContext(territoryId, { owner: true, market: false });
+    if (!trade) return;
+    const { territory, tokenId, contractService, wallet } = trade;
+    if (to.trim().toLowerCase() === wallet.address.toLowerCase()) {
+      this.safeEmit('ui:toast', { message: '❌ That territory is already yours', type: 'error' });
+      return;
+    }
+
+    await this.runTrade('Gift', async () => {
+      const receipt = await contractService.giftTerritory(tokenId, to.trim());
+      if (receipt.status !== 1) return receipt;
+      this.recordTransfer(territory, to.trim(), wallet.chainId, receipt.transactionHash);
+      this.safeEmit('ui:toast', {
+        message: `🎁 ${territory.metadata.name} sent to ${to.trim().slice(0, 6)}…${to.trim().slice(-4)}`,
+        type: 'success',
+      });
+      return receipt;
+    });
+  }
+
+  /** List a territory on the market for `price` REALM ("25", "12.5"). */
+  async listTerritoryForSale(territoryId: string, price: string): Promise<void> {
+    const priceWei = parseRealm(price);
+    if (!priceWei) {
+      this.safeEmit('ui:toast', { message: '❌ Enter a REALM price above 0', type: 'error' });
+      return;
+    }
+    const trade = this.tradeContext(territoryId, { owner: true, market: true });
+    if (!trade) return;
+    const { territory, tokenId, contractService, wallet } = trade;
+
+    await this.runTrade('Listing', async () => {
+      const receipt = await contractService.listTerritory(tokenId, priceWei);
+      if (receipt.status !== 1) return receipt;
+      territory.listing = { seller: wallet.address, priceWei, listedAt: this.clock() };
+      this.saveTerritoriesToStorage();
+      this.safeEmit('ui:toast', {
+        message: `🏷️ ${territory.metadata.name} listed for ${formatRealm(priceWei)} $REALM`,
+        type: 'success',
+      });
+      return receipt;
+    });
+  }
+
+  async cancelListing(territoryId: string): Promise<void> {
+    const trade = this.tradeContext(territoryId, { owner: true, market: true });
+    if (!trade) return;
+    const { territory, tokenId, contractService } = trade;
+
+    await this.runTrade('Unlisting', async () => {
+      const receipt = await contractService.cancelListing(tokenId);
+      if (receipt.status !== 1) return receipt;
+      territory.listing = undefined;
+      this.saveTerritoriesToStorage();
+      return receipt;
+    });
+  }
+
+  /** Buy someone else's listed territory at its price. */
+  async buyTerritory(territoryId: string): Promise<void> {
+    const trade = this.tradeContext(territoryId, { owner: false, market: true });
+    if (!trade) return;
+    const { territory, tokenId, contractService, wallet } = trade;
+    if (!territory.listing) {
+      this.safeEmit('ui:toast', { message: '❌ That territory is not for sale', type: 'error' });
+      return;
+    }
+    const { priceWei } = territory.listing;
+
+    await this.runTrade('Purchase', async () => {
+      const receipt = await contractService.buyTerritory(tokenId, priceWei);
+      if (receipt.status !== 1) return receipt;
+      this.recordTransfer(territory, wallet.address, wallet.chainId, receipt.transactionHash);
+      this.safeEmit('ui:toast', {
+        message: `🤝 ${territory.metadata.name} bought for ${formatRealm(priceWei)} $REALM`,
+        type: 'success',
+      });
+      return receipt;
+    });
+  }
+
+  /** Offer `amount` REALM for someone else's territory, replacing an earlier offer. */
+  async makeOffer(territoryId: string, amount: string): Promise<void> {
+    const amountWei = parseRealm(amount);
+    if (!amountWei) {
+      this.safeEmit('ui:toast', { message: '❌ Enter a REALM amount above 0', type: 'error' });
+      return;
+    }
+    const trade = this.tradeContext(territoryId, { owner: false, market: true });
+    if (!trade) return;
+    const { tokenId, contractService, wallet } = trade;
+
+    await this.runTrade('Offer', async () => {
+      const receipt = await contractService.makeOffer(tokenId, amountWei);
+      if (receipt.status !== 1) return receipt;
+      this.setOffers(
+        withOffer(this.offers, {
+          tokenId,
+          buyer: wallet.address,
+          amountWei,
+          madeAt: this.clock(),
+          transactionHash: receipt.transactionHash,
+        })
+      );
+      return receipt;
+    });
+  }
+
+  async withdrawOffer(territoryId: string): Promise<void> {
+    const trade = this.tradeContext(territoryId, { owner: false, market: true });
+    if (!trade) return;
+    const { tokenId, contractService, wallet } = trade;
+
+    await this.runTrade('Withdrawing the offer', async () => {
+      const receipt = await contractService.withdrawOffer(tokenId);
+      if (receipt.status !== 1) return receipt;
+      this.setOffers(withoutOffer(this.offers, tokenId, wallet.address));
+      return receipt;
+    });
+  }
+
+  /** Sell a territory to `buyer` at their open offer. */
+  async acceptOffer(territoryId: string, buyer: string): Promise<void> {
+    const trade = this.tradeContext(territoryId, { owner: true, market: true });
+    if (!trade) return;
+    const { territory, tokenId, contractService, wallet } = trade;
+    const offer = this.offers.find(
+      (o) => o.tokenId === tokenId && o.buyer.toLowerCase() === buyer.toLowerCase()
+    );
+    if (!offer) {
+      this.safeEmit('ui:toast', { message: '❌ That offer is no longer open', type: 'error' });
+      return;
+    }
+
+    await this.runTrade('Accepting the offer', async () => {
+      const receipt = await contractService.acceptOffer(tokenId, offer.buyer);
+      if (receipt.status !== 1) return receipt;
+      this.setOffers(withoutOffer(this.offers, tokenId, offer.buyer));
+      this.recordTransfer(territory, offer.buyer, wallet.chainId, receipt.transactionHash);
+      this.safeEmit('ui:toast', {
+        message: `🤝 ${territory.metadata.name} sold for ${formatRealm(offer.amountWei)} $REALM`,
+        type: 'success',
+      });
+      return receipt;
+    });
+  }
+
+  /**
+   * The checks every trade shares: the territory exists and is on-chain,
+   * a wallet is connected, the market is deployed when the trade needs it,
+   * and the wallet owns the territory (or doesn't, for buyers). Toasts
+   * and returns null when one fails.
+   */
+  private tradeContext(
+    territoryId: string,
+    needs: { owner: boolean; market: boolean }
+  ): {
+    territory: Territory;
+    tokenId: string;
+    contractService: any;
+    wallet: { address: string; chainId: number };
+  } | null {
+    const fail = (message: string) => {
+      this.safeEmit('ui:toast', { message: `❌ ${message}`, type: 'error' });
+      return null;
+    };
+
+    const territory = this.claimedTerritories.get(territoryId);
+    if (!territory) return fail('Territory not found');
+
+    const contractService = this.getSiblingService('ContractService');
+    const web3Service = this.getSiblingService('Web3Service');
+    const wallet = web3Service?.isConnected() ? web3Service.getCurrentWallet() : null;
+    if (!contractService || !wallet) return fail('Wallet not connected');
+    if (needs.market && !contractService.isMarketReady()) {
+      return fail(
+        'Market contract not deployed. Set RUNREALM_MARKET_ADDRESS in env and reconnect wallet.'
+      );
+    }
+
+    const tokenId = territory.tokenId;
+    if (!tokenId) return fail('Territory not on chain yet — claim it first before trading it.');
+
+    const mine = territory.owner?.toLowerCase() === wallet.address.toLowerCase();
+    if (needs.owner && !mine) return fail('Only the owner can do that');
+    if (!needs.owner && mine) return fail('That territory is already yours');
+
+    return { territory, tokenId, contractService, wallet };
+  }
+
+  /** Run a trade's transaction, toasting a revert or failure. */
+  private async runTrade(
+    label: string,
+    send: () => Promise<{ status: number; transactionHash: string }>
+  ): Promise<void> {
+    try {
+      const receipt = await send();
+      if (receipt.status !== 1) {
+        this.safeEmit('ui:toast', {
+          message: `❌ ${label} reverted on-chain (tx ${receipt.transactionHash})`,
+          type: 'error',
+        });
+      }
+    } catch (error) {
+      console.error(`${label} failed:`, error);
+      this.safeEmit('ui:toast', {
+        message: `❌ ${label} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        type: 'error',
+      });
+    }
+  }
+
+  /**
+   * A territory NFT moved on-chain: a gift, a sale or an accepted offer,
+   * ours or anyone's we know about.
+   */
+  private handleTransfer(data: {
+    tokenId: string;
+    from: string;
+    to: string;
+    chainId: number;
+    transactionHash?: string;
+  }): void {
+    const territory = this.territoryByTokenId(data.tokenId);
+    if (!territory) return;
+    if (!this.recordTransfer(territory, data.to, data.chainId, data.transactionHash)) return;
+
+    const me = this.getWalletSnapshot()?.address.toLowerCase();
+    if (me && data.to.toLowerCase() === me) {
+      this.safeEmit('ui:toast', {
+        message: `🎁 ${territory.metadata.name} is now yours`,
+        type: 'success',
+      });
+    }
+  }
+
+  /**
+   * Hand a territory to `to` locally: the defense engine keeps its
+   * points, the move goes into crossChainHistory, the listing lapses
+   * and the new owner's own offer goes. False when this transaction was
+   * already recorded (we apply our own trades before the chain event
+   * comes back).
+   */
+  private recordTransfer(
+    territory: Territory,
+    to: string,
+    chainId: number,
+    transactionHash?: string
+  ): boolean {
+    const history = territory.crossChainHistory ?? [];
+    if (transactionHash && history.some((h) => h.transactionHash === transactionHash)) {
+      return false;
+    }
+    const now = this.clock();
+    territory.crossChainHistory = [...history, { chainId, timestamp: now, transactionHash }];
+    territory.listing = undefined;
+    if (territory.tokenId) {
+      this.setOffers(offersAfterTransfer(this.offers, territory.tokenId, to));
+    }
+    this.applyDefense(territory, { type: 'transfer', at: now, to });
+    return true;
+  }
+
+  private territoryByTokenId(tokenId: string): Territory | undefined {
+    for (const territory of this.claimedTerritories.values()) {
+      if (territory.tokenId === tokenId) return territory;
+    }
+    return undefined;
+  }
+
+  private setOffers(offers: TerritoryOffer[]): void {
+    this.offers = offers;
+    try {
+      localStorage.setItem('runrealm_territory_offers', JSON.stringify(offers));
+    } catch (error) {
+      console.error('Failed to save territory offers:', error);
+    }
+    this.safeEmit('territory:offersUpdated', { offers });
+  }
 }
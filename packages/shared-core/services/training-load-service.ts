@@ -0,0 +1,150 @@
+/**
+ * TrainingLoadService — load, fitness and fatigue across run history.
+ *
+ * Scores each completed or imported run (see utils/training-load.ts),
+ * keeps the scores in storage and summarises them on demand for the
+ * dashboard and AI coaching. Emits `training:loadUpdated` whenever a run
+ * is added.
+ *
+ * Pace-based scores need a threshold speed: it's taken from the runner's
+ * 10K (or 5K, slightly slowed) personal record when there is one.
+ *
+ * Singleton, like PersonalRecordsService.
+ */
+import { BaseService } from '../core/base-service';
+import { StorageAdapter } from '../utils/storage-adapter';
+import {
+  DEFAULT_THRESHOLD_SPEED,
+  type LoadEntry,
+  summarizeTrainingLoad,
+  type TrainingLoadOptions,
+  type TrainingLoadSummary,
+  toLoadEntry,
+} from '../utils/training-load';
+import { PersonalRecordsService } from './personal-records-service';
+import { RUN_HISTORY_STORAGE_KEY, type RunSession } from './run-tracking-service';
+
+const LOAD_STORAGE_KEY = 'runrealm_training_load';
+const MAX_STORED_ENTRIES = 365;
+
+export class TrainingLoadService extends BaseService {
+  private static instance: TrainingLoadService;
+  private entries: LoadEntry[] = []; // oldest first
+
+  static getInstance(): TrainingLoadService {
+    if (!TrainingLoadService.instance) {
+      TrainingLoadService.instance = new TrainingLoadService();
+    }
+    return TrainingLoadService.instance;
+  }
+
+  protected async onInitialize(): Promise<void> {
+    const loaded = await this.loadEntries();
+    if (!loaded) {
+      await this.rebuild(await this.loadStoredRuns());
+    }
+
+    this.subscribe('run:completed' as any, (data: { run?: RunSession }) => {
+      if (data.run) this.addRun(data.run);
+    });
+    this.subscribe('run:imported', (data) => {
+      this.addRun(data.run);
+    });
+
+    this.safeEmit('service:initialized', {
+      service: 'TrainingLoadService',
+      success: true,
+    });
+  }
+
+  getEntries(): LoadEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Fitness, fatigue, form, weekly distance and warnings. Null until
+   * there's at least one run to go on.
+   */
+  getSummary(options: TrainingLoadOptions = {}): TrainingLoadSummary | null {
+    if (this.entries.length === 0) return null;
+    return summarizeTrainingLoad(this.entries, options);
+  }
+
+  /**
+   * Score a finished run and add it, replacing any earlier score for the
+   * same run.
+   */
+  addRun(run: RunSession): LoadEntry | null {
+    if (run.status !== 'completed') return null;
+
+    const entry = toLoadEntry(run, { thresholdSpeed: this.getThresholdSpeed() });
+    this.entries = this.withEntries([entry]);
+    void this.saveEntries();
+
+    const summary = this.getSummary();
+    if (summary) this.safeEmit('training:loadUpdated', { runId: run.id, summary });
+    return entry;
+  }
+
+  /**
+   * Re-score every run in `runs`, e.g. after the threshold pace changed.
+   */
+  async rebuild(runs: RunSession[]): Promise<void> {
+    const thresholdSpeed = this.getThresholdSpeed();
+    this.entries = [];
+    this.entries = this.withEntries(
+      runs
+        .filter((run) => run.status === 'completed')
+        .map((run) => toLoadEntry(run, { thresholdSpeed }))
+    );
+    await this.saveEntries();
+  }
+
+  /** Threshold speed in m/s from 10K or 5K records, else a default. */
+  getThresholdSpeed(): number {
+    const records = PersonalRecordsService.getInstance();
+    const tenK = records.getRecord('10k');
+    if (tenK && tenK.value > 0) return 10000 / (tenK.value / 1000);
+    const fiveK = records.getRecord('5k');
+    // Threshold is a little slower than 5K race pace
+    if (fiveK && fiveK.value > 0) return (5000 / (fiveK.value / 1000)) * 0.95;
+    return DEFAULT_THRESHOLD_SPEED;
+  }
+
+  private withEntries(added: LoadEntry[]): LoadEntry[] {
+    const ids = new Set(added.map((e) => e.runId));
+    return [...this.entries.filter((e) => !ids.has(e.runId)), ...added]
+      .sort((a, b) => a.startTime - b.startTime)
+      .slice(-MAX_STORED_ENTRIES);
+  }
+
+  private async loadEntries(): Promise<boolean> {
+    try {
+      const stored = await StorageAdapter.getItem(LOAD_STORAGE_KEY);
+      if (!stored) return false;
+      this.entries = JSON.parse(stored);
+      return true;
+    } catch (error) {
+      console.warn('Failed to load training load:', error);
+      return false;
+    }
+  }
+
+  private async loadStoredRuns(): Promise<RunSession[]> {
+    try {
+      const stored = await StorageAdapter.getItem(RUN_HISTORY_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load run history for training load:', error);
+      return [];
+    }
+  }
+
+  private async saveEntries(): Promise<void> {
+    try {
+      await StorageAdapter.setItem(LOAD_STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('Failed to save training load:', error);
+    }
+  }
+}
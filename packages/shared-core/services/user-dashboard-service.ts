@@ -5,11 +5,30 @@
 
 import { BaseService } from '../core/base-service';
 import { WidgetStateService } from '../internal/_legacy-widget/widget-state-service';
+import {
+  type ExportedFile,
+  exportRun,
+  exportTerritories,
+  type RunExportFormat,
+  type TerritoryExportFormat,
+} from '../utils/activity-file-exporters';
+import {
+  type HeartRateSummary,
+  type HeartRateZone,
+  heartRateZone,
+  summarizeHeartRate,
+} from '../utils/heart-rate';
+import { computeSplits, type RunSplit, splitUnitFor } from '../utils/splits';
+import type { PendingOffers } from '../utils/territory-trade';
+import type { TrainingLoadSummary } from '../utils/training-load';
 import { AIService } from './ai-service';
+import { DeviceSyncService, type DeviceSyncStatus } from './device-sync-service';
 import { GhostRunnerNFT, GhostRunnerService } from './ghost-runner-service';
 import { PlayerStats, ProgressionService } from './progression-service';
 import { RunPoint, RunSession, RunTrackingService } from './run-tracking-service';
+import { SensorService, WebBluetoothSensorSource } from './sensor-service';
 import { Territory, TerritoryService } from './territory-service';
+import { TrainingLoadService } from './training-load-service';
 import { WalletInfo, Web3Service } from './web3-service';
 
 export interface DashboardState {
@@ -26,8 +45,10 @@ export interface DashboardData {
     recentAchievements: string[];
   };
   territories: Territory[];
+  offers: PendingOffers;
   ghosts: GhostRunnerNFT[];
   walletInfo: WalletInfo | null;
+  sync: DeviceSyncStatus; // this device's sync with the user's others
   aiInsights: {
     suggestedRoute?: {
       route: { coordinates: number[][] | RunPoint[]; distance: number; difficulty?: number };
@@ -62,8 +83,10 @@ export class UserDashboardService extends BaseService {
       recentAchievements: [],
     },
     territories: [],
+    offers: { incoming: [], outgoing: [] },
     ghosts: [],
     walletInfo: null,
+    sync: { state: 'idle', lastSyncedAt: null, pending: 0, conflicts: [] },
     aiInsights: {
       personalizedTips: [],
     },
@@ -83,6 +106,7 @@ export class UserDashboardService extends BaseService {
   private territoryService: TerritoryService;
   private aiService: AIService;
   private ghostRunnerService: GhostRunnerService;
+  private deviceSyncService: DeviceSyncService;
 
   constructor() {
     super();
@@ -93,6 +117,7 @@ export class UserDashboardService extends BaseService {
     this.territoryService = TerritoryService.getInstance();
     this.aiService = AIService.getInstance();
     this.ghostRunnerService = GhostRunnerService.getInstance();
+    this.deviceSyncService = DeviceSyncService.getInstance();
   }
 
   static getInstance(): UserDashboardService {
@@ -199,14 +224,18 @@ export class UserDashboardService extends BaseService {
         achievements: playerStats.achievements,
         activeChallenges: playerStats.activeChallenges,
         streak: playerStats.streak,
+        personalRecords: playerStats.personalRecords,
       };
 
       // Update territories from territory service
       this.dashboardData.territories = this.territoryService.getClaimedTerritories();
+      this.dashboardData.offers = this.territoryService.getPendingOffers();
 
       // Update ghosts from ghost runner service
       this.dashboardData.ghosts = this.ghostRunnerService.getGhosts();
 
+      this.dashboardData.sync = this.deviceSyncService.getStatus();
+
       // Update timestamp
       this.dashboardState.lastUpdated = Date.now();
       this.isDataLoaded = true;
@@ -279,6 +308,24 @@ export class UserDashboardService extends BaseService {
       this.debouncedUpdate?.();
     });
 
+    // Keep the full session of the latest finished run so it can be exported
+    this.subscribe('run:completed' as any, (data: { run?: RunSession }) => {
+      if (data.run) this.dashboardData.recentActivity.lastRun = data.run;
+    });
+
+    this.subscribe('run:imported', (data: { run: RunSession }) => {
+      this.dashboardData.recentActivity.lastRun = data.run;
+      this.debouncedUpdate?.();
+    });
+
+    // Live heart rate and cadence
+    this.subscribe('sensor:sample', () => this.throttledRealTimeUpdate?.());
+    this.subscribe('sensor:connected', () => this.debouncedUpdate?.());
+    this.subscribe('sensor:disconnected', () => this.debouncedUpdate?.());
+
+    // Fitness, fatigue and ramp warnings after each run
+    this.subscribe('training:loadUpdated', () => this.debouncedUpdate?.());
+
     // Listen for territory events
     this.subscribe('territory:claimed', (_data: object) => {
       this.dashboardData.notifications.territoryClaimed = true;
@@ -291,6 +338,17 @@ export class UserDashboardService extends BaseService {
       this.debouncedUpdate?.();
     });
 
+    // Trades: offers coming and going, territories changing hands
+    this.subscribe('territory:offersUpdated', () => this.debouncedUpdate?.());
+    this.subscribe('territory:transferred', () => this.debouncedUpdate?.());
+
+    // Sync with the user's other devices
+    this.subscribe('territory:synced', () => this.debouncedUpdate?.());
+    this.subscribe('sync:statusChanged', (status) => {
+      this.dashboardData.sync = status;
+      this.debouncedUpdate?.();
+    });
+
     // Listen for achievement events
     this.subscribe('game:achievementUnlocked', (data: any) => {
       const achievementId = (data.achievement as any)?.id || data.achievementId || 'unknown';
@@ -425,6 +483,148 @@ export class UserDashboardService extends BaseService {
     this.eventBus.off('dashboard:visibilityChanged', callback);
   }
 
+  /**
+   * Km or mile splits for a run (default: the latest), in the unit the
+   * user currently prefers. Runs stored in the other unit, or from before
+   * splits existed, are split on the fly.
+   */
+  public getRunSplits(
+    run: RunSession | undefined = this.dashboardData.recentActivity.lastRun
+  ): RunSplit[] {
+    if (!run || run.points.length < 2) return [];
+
+    const preferenceService = this.getSiblingService('PreferenceService');
+    const useMetric =
+      preferenceService && typeof preferenceService.getUseMetric === 'function'
+        ? preferenceService.getUseMetric()
+        : true;
+    const unit = splitUnitFor(useMetric);
+
+    if (run.splits?.length && run.splits[0].unit === unit) return run.splits;
+    return computeSplits(run.points, unit);
+  }
+
+  private getMaxHeartRate(): number {
+    const preferenceService = this.getSiblingService('PreferenceService');
+    return preferenceService && typeof preferenceService.getMaxHeartRate === 'function'
+      ? preferenceService.getMaxHeartRate()
+      : 190;
+  }
+
+  /**
+   * Heart-rate zones and time in zone for a run (default: the latest).
+   * Null when the run has no heart-rate data.
+   */
+  public getHeartRateSummary(
+    run: RunSession | undefined = this.dashboardData.recentActivity.lastRun
+  ): HeartRateSummary | null {
+    if (!run) return null;
+    return run.heartRate ?? summarizeHeartRate(run.points, this.getMaxHeartRate());
+  }
+
+  /**
+   * Fitness, fatigue, form and weekly distance with any overtraining
+   * warnings. Null before the first run.
+   */
+  public getTrainingLoad(): TrainingLoadSummary | null {
+    return TrainingLoadService.getInstance().getSummary();
+  }
+
+  /**
+   * Sync with the user's other devices now, signing in if need be.
+   */
+  public syncNow(): Promise<DeviceSyncStatus> {
+    return this.deviceSyncService.syncNow();
+  }
+
+  /**
+   * Dismiss the sync conflicts shown so far.
+   */
+  public clearSyncConflicts(): void {
+    this.deviceSyncService.clearConflicts();
+  }
+
+  /**
+   * Latest sensor reading with its zone, or null when no sensor is connected.
+   */
+  public getLiveSensorReading(): {
+    heartRate?: number;
+    cadence?: number;
+    zone: HeartRateZone | null;
+  } | null {
+    const sensors = SensorService.getInstance();
+    if (!sensors.isConnected()) return null;
+    const reading = sensors.getLatest();
+    return {
+      ...reading,
+      zone:
+        reading.heartRate !== undefined
+          ? heartRateZone(reading.heartRate, this.getMaxHeartRate())
+          : null,
+    };
+  }
+
+  public canConnectHeartRateMonitor(): boolean {
+    return WebBluetoothSensorSource.isAvailable();
+  }
+
+  /**
+   * Pair a Bluetooth heart-rate strap. Must be called from a click
+   * handler: the browser only shows its device picker on a user gesture.
+   */
+  public async connectHeartRateMonitor(): Promise<boolean> {
+    try {
+      await SensorService.getInstance().connect(new WebBluetoothSensorSource('heartRate'));
+      return true;
+    } catch (error) {
+      this.handleError(error, 'connectHeartRateMonitor');
+      return false;
+    }
+  }
+
+  public async disconnectSensors(): Promise<void> {
+    await SensorService.getInstance().disconnect();
+  }
+
+  /**
+   * Export a run as GPX, TCX or GeoJSON. Defaults to the most recent
+   * completed or imported run.
+   */
+  public exportRun(
+    format: RunExportFormat,
+    run: RunSession | undefined = this.dashboardData.recentActivity.lastRun
+  ): ExportedFile | null {
+    if (!run || run.points.length === 0) return null;
+    return exportRun(run, format);
+  }
+
+  /**
+   * Export claimed territories as GeoJSON or KML. Defaults to every
+   * territory the user currently holds.
+   */
+  public exportTerritories(
+    format: TerritoryExportFormat,
+    territories: Territory[] = this.territoryService.getClaimedTerritories()
+  ): ExportedFile | null {
+    if (territories.length === 0) return null;
+    return exportTerritories(territories, format);
+  }
+
+  /**
+   * Save an exported file via a temporary object URL (browser only).
+   */
+  public downloadExport(file: ExportedFile): void {
+    if (typeof document === 'undefined') return;
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
   public hide(): void {
     this.dashboardState.isVisible = false;
     this.saveWidgetState();
@@ -327,6 +327,19 @@ export class Web3Service extends BaseService {
     }
   }
 
+  /**
+   * Sign a plain-text message (EIP-191) with the connected wallet
+   */
+  public async signMessage(message: string): Promise<string> {
+    this.ensureInitialized();
+
+    if (!this.signer) {
+      throw new Error('No wallet connected');
+    }
+
+    return this.signer.signMessage(message);
+  }
+
   /**
    * Get account balance
    */
@@ -0,0 +1,189 @@
+/**
+ * Activity file exporter tests
+ *
+ * Run exports are checked by feeding them back through the importers in
+ * `../activity-file-parsers`, so the two halves can't drift apart.
+ */
+
+import {
+  type ExportableRun,
+  type ExportableTerritory,
+  exportRun,
+  exportRunToGeoJson,
+  exportRunToGpx,
+  exportRunToTcx,
+  exportTerritories,
+  exportTerritoriesToGeoJson,
+  exportTerritoriesToKml,
+} from '../activity-file-exporters';
+import { parseGpx, parseTcx } from '../activity-file-parsers';
+import { coordsToCell } from '../h3-territory';
+
+const START = Date.parse('2024-05-01T07:00:00Z');
+
+const run: ExportableRun = {
+  id: 'run_1',
+  startTime: START,
+  endTime: START + 40_000,
+  points: [
+    { lat: 51.5, lng: -0.12, timestamp: START, altitude: 10, heartRate: 120 },
+    {
+      lat: 51.5005,
+      lng: -0.12,
+      timestamp: START + 10_000,
+      altitude: 11,
+      heartRate: 125,
+      cadence: 172,
+    },
+    { lat: 51.501, lng: -0.12, timestamp: START + 20_000, heartRate: 130 },
+    { lat: 51.5015, lng: -0.12, timestamp: START + 30_000 },
+    { lat: 51.502, lng: -0.12, timestamp: START + 40_000 },
+  ],
+  laps: [{ lapNumber: 1, time: 20_000, distance: 111, totalTime: 20_000 }],
+  totalDistance: 222,
+  totalDuration: 40_000,
+  averageSpeed: 5.55,
+  maxSpeed: 5.6,
+  territoryEligible: false,
+  importedFile: { name: 'Tempo <Tuesday> & hills' },
+};
+
+describe('activity-file-exporters', () => {
+  describe('exportRunToGpx', () => {
+    it('round-trips points, elevation, heart rate and cadence through parseGpx', () => {
+      const parsed = parseGpx(exportRunToGpx(run));
+      expect(parsed.name).toBe('Tempo <Tuesday> & hills');
+      expect(parsed.creator).toBe('RunRealm');
+      expect(parsed.points).toHaveLength(5);
+      expect(parsed.points[0]).toEqual(run.points[0]);
+      expect(parsed.points[1].cadence).toBe(172);
+      expect(parsed.points[2].altitude).toBeUndefined();
+      expect(parsed.points[4].timestamp).toBe(START + 40_000);
+    });
+  });
+
+  describe('exportRunToTcx', () => {
+    it('writes recorded laps plus a trailing lap for the remainder', () => {
+      const parsed = parseTcx(exportRunToTcx(run));
+      expect(parsed.laps).toEqual([
+        { startTime: START, durationMs: 20_000, distance: 111 },
+        { startTime: START + 20_000, durationMs: 20_000, distance: 111 },
+      ]);
+      expect(parsed.points).toHaveLength(5);
+      expect(parsed.points[1].heartRate).toBe(125);
+      expect(parsed.points[1].cadence).toBe(172);
+    });
+
+    it('emits a single lap when the run has none', () => {
+      const parsed = parseTcx(exportRunToTcx({ ...run, laps: [] }));
+      expect(parsed.laps).toHaveLength(1);
+      expect(parsed.laps[0].distance).toBe(222);
+      expect(parsed.points).toHaveLength(5);
+    });
+  });
+
+  describe('exportRunToGeoJson', () => {
+    it('produces a track LineString with per-vertex times and lap markers', () => {
+      const collection = exportRunToGeoJson(run);
+      const [track, lap] = collection.features;
+
+      expect(track.geometry).toEqual({
+        type: 'LineString',
+        coordinates: [
+          [-0.12, 51.5, 10],
+          [-0.12, 51.5005, 11],
+          [-0.12, 51.501],
+          [-0.12, 51.5015],
+          [-0.12, 51.502],
+        ],
+      });
+      expect(track.properties?.coordTimes[1]).toBe('2024-05-01T07:00:10.000Z');
+      expect(track.properties?.heartRates).toEqual([120, 125, 130, null, null]);
+      expect(lap.geometry).toEqual({ type: 'Point', coordinates: [-0.12, 51.501] });
+      expect(lap.properties?.lapNumber).toBe(1);
+    });
+
+    it('adds segment features only on request', () => {
+      const segments = run.points.slice(1).map((_, i) => ({
+        id: `segment_${i}`,
+        distance: 55.5,
+        duration: 10_000,
+        averageSpeed: 5.55,
+      }));
+      const withSegments = { ...run, segments };
+      expect(exportRunToGeoJson(withSegments).features).toHaveLength(2);
+      expect(
+        exportRunToGeoJson(withSegments, { includeSegments: true }).features.filter(
+          (f) => f.properties?.kind === 'segment'
+        )
+      ).toHaveLength(4);
+    });
+  });
+
+  describe('exportRun', () => {
+    it('names the file after the start date and sets the mime type', () => {
+      const file = exportRun(run, 'gpx');
+      expect(file.fileName).toBe('runrealm-run-2024-05-01-run_1.gpx');
+      expect(file.mimeType).toBe('application/gpx+xml');
+      expect(JSON.parse(exportRun(run, 'geojson').content).type).toBe('FeatureCollection');
+    });
+  });
+
+  describe('territories', () => {
+    const cell = coordsToCell(51.5, -0.12);
+    const hexTerritory: ExportableTerritory = {
+      id: 'territory_1',
+      geohash: '51.500000_-0.120000',
+      bounds: { north: 51.502, south: 51.5, east: -0.119, west: -0.121 },
+      metadata: { name: 'Hyde Park Loop', description: 'Around the Serpentine', rarity: 'epic' },
+      h3Cells: [{ h3Index: cell.h3Index }],
+      owner: '0xabc',
+      claimedAt: START,
+    };
+    const boundsOnlyTerritory: ExportableTerritory = {
+      id: 'territory_2',
+      geohash: '51.510000_-0.130000',
+      bounds: { north: 51.511, south: 51.51, east: -0.129, west: -0.13 },
+    };
+
+    it('writes H3 cells as hex polygons and falls back to bounds', () => {
+      const collection = exportTerritoriesToGeoJson([hexTerritory, boundsOnlyTerritory]);
+      const [hex, rect] = collection.features;
+
+      expect(hex.geometry.type).toBe('MultiPolygon');
+      const hexRing = (hex.geometry as GeoJSON.MultiPolygon).coordinates[0][0];
+      expect(hexRing).toHaveLength(7);
+      expect(hex.properties).toMatchObject({
+        name: 'Hyde Park Loop',
+        rarity: 'epic',
+        owner: '0xabc',
+        h3Cells: [cell.h3Index],
+        claimedAt: '2024-05-01T07:00:00.000Z',
+      });
+
+      expect((rect.geometry as GeoJSON.MultiPolygon).coordinates[0][0]).toEqual([
+        [-0.13, 51.51],
+        [-0.129, 51.51],
+        [-0.129, 51.511],
+        [-0.13, 51.511],
+        [-0.13, 51.51],
+      ]);
+      expect(rect.properties?.name).toBe('51.510000_-0.130000');
+    });
+
+    it('writes a KML placemark per territory with extended data', () => {
+      const kml = exportTerritoriesToKml([hexTerritory, boundsOnlyTerritory]);
+      expect(kml.match(/<Placemark /g)).toHaveLength(2);
+      expect(kml).toContain('<name>Hyde Park Loop</name>');
+      expect(kml).toContain('<styleUrl>#rarity-epic</styleUrl>');
+      expect(kml).toContain(`<Data name="h3Cells"><value>${cell.h3Index}</value></Data>`);
+      expect(kml).toContain('-0.13,51.51,0 -0.129,51.51,0');
+    });
+
+    it('names single-territory exports after the geohash', () => {
+      const file = exportTerritories([hexTerritory], 'kml');
+      expect(file.fileName).toBe('runrealm-territory-51.500000_-0.120000.kml');
+      expect(file.mimeType).toBe('application/vnd.google-earth.kml+xml');
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Activity file parser tests
+ *
+ * GPX and TCX fixtures are trimmed-down versions of real Garmin exports.
+ * The FIT fixture is assembled byte-by-byte by `buildFit` below so the
+ * test pins the decoder against the spec rather than a checked-in blob.
+ */
+import {
+  detectActivityFileFormat,
+  parseActivityFile,
+  parseGpx,
+  parseTcx,
+} from '../activity-file-parsers';
+import { decodeFitFile } from '../fit-decoder';
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Garmin Connect"
+  xmlns="http://www.topografix.com/GPX/1/1"
+  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+  <metadata><name>Morning Run &amp; Coffee</name></metadata>
+  <trk>
+    <type>running</type>
+    <trkseg>
+      <trkpt lat="51.500000" lon="-0.120000">
+        <ele>12.4</ele>
+        <time>2024-05-01T07:00:00Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>121</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+      <trkpt lat="51.500500" lon="-0.120000">
+        <ele>13.0</ele>
+        <time>2024-05-01T07:00:10Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>130</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+      <trkpt lat="51.501000" lon="-0.120000"><time>2024-05-01T07:00:20Z</time></trkpt>
+      <trkpt lat="51.502000" lon="-0.120000"/>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+const TCX = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Activities>
+    <Activity Sport="Running">
+      <Id>2024-05-01T07:00:00Z</Id>
+      <Lap StartTime="2024-05-01T07:00:00Z">
+        <TotalTimeSeconds>20.0</TotalTimeSeconds>
+        <DistanceMeters>111.0</DistanceMeters>
+        <Track>
+          <Trackpoint>
+            <Time>2024-05-01T07:00:00Z</Time>
+            <Position><LatitudeDegrees>51.5</LatitudeDegrees><LongitudeDegrees>-0.12</LongitudeDegrees></Position>
+            <AltitudeMeters>10</AltitudeMeters>
+            <DistanceMeters>0</DistanceMeters>
+            <HeartRateBpm><Value>110</Value></HeartRateBpm>
+          </Trackpoint>
+          <Trackpoint>
+            <Time>2024-05-01T07:00:20Z</Time>
+            <Position><LatitudeDegrees>51.501</LatitudeDegrees><LongitudeDegrees>-0.12</LongitudeDegrees></Position>
+            <DistanceMeters>111</DistanceMeters>
+          </Trackpoint>
+        </Track>
+      </Lap>
+      <Lap StartTime="2024-05-01T07:00:20Z">
+        <TotalTimeSeconds>20.0</TotalTimeSeconds>
+        <DistanceMeters>112.0</DistanceMeters>
+        <Track>
+          <Trackpoint><Time>2024-05-01T07:00:30Z</Time></Trackpoint>
+          <Trackpoint>
+            <Time>2024-05-01T07:00:40Z</Time>
+            <Position><LatitudeDegrees>51.502</LatitudeDegrees><LongitudeDegrees>-0.12</LongitudeDegrees></Position>
+          </Trackpoint>
+        </Track>
+      </Lap>
+      <Creator><Name>Forerunner 255</Name></Creator>
+    </Activity>
+  </Activities>
+</TrainingCenterDatabase>`;
+
+// --- FIT builder ----------------------------------------------------------
+
+const FIT_EPOCH_OFFSET_S = 631065600;
+
+type FitField = [num: number, size: number, baseType: number, value: number];
+
+function buildFit(messages: Array<{ local: number; global: number; fields: FitField[] }>) {
+  const body: number[] = [];
+  const push = (size: number, value: number, signed = false) => {
+    const view = new DataView(new ArrayBuffer(size));
+    if (size === 1) view.setUint8(0, value);
+    if (size === 2) view.setUint16(0, value, true);
+    if (size === 4) signed ? view.setInt32(0, value, true) : view.setUint32(0, value, true);
+    body.push(...new Uint8Array(view.buffer));
+  };
+
+  for (const msg of messages) {
+    // definition message
+    body.push(0x40 | msg.local, 0, 0);
+    push(2, msg.global);
+    body.push(msg.fields.length);
+    for (const [num, size, baseType] of msg.fields) body.push(num, size, baseType);
+    // data message
+    body.push(msg.local);
+    for (const [, size, baseType, value] of msg.fields) push(size, value, baseType === 0x85);
+  }
+
+  const header = new DataView(new ArrayBuffer(12));
+  header.setUint8(0, 12);
+  header.setUint8(1, 0x10);
+  header.setUint16(2, 2100, true);
+  header.setUint32(4, body.length, true);
+  [0x2e, 0x46, 0x49, 0x54].forEach((b, i) => {
+    header.setUint8(8 + i, b);
+  });
+
+  return new Uint8Array([...new Uint8Array(header.buffer), ...body, 0, 0]);
+}
+
+const toSemicircles = (deg: number) => Math.round((deg * 2 ** 31) / 180);
+const fitTime = (iso: string) => Date.parse(iso) / 1000 - FIT_EPOCH_OFFSET_S;
+
+function record(iso: string, lat: number, lng: number, hr: number, altitudeM: number) {
+  return {
+    local: 0,
+    global: 20,
+    fields: [
+      [253, 4, 0x86, fitTime(iso)],
+      [0, 4, 0x85, toSemicircles(lat)],
+      [1, 4, 0x85, toSemicircles(lng)],
+      [2, 2, 0x84, (altitudeM + 500) * 5],
+      [3, 1, 0x02, hr],
+    ] as FitField[],
+  };
+}
+
+describe('activity-file-parsers', () => {
+  describe('detectActivityFileFormat', () => {
+    it('sniffs GPX and TCX from content', () => {
+      expect(detectActivityFileFormat(GPX)).toBe('gpx');
+      expect(detectActivityFileFormat(TCX)).toBe('tcx');
+    });
+
+    it('recognises the FIT header signature in binary input', () => {
+      expect(detectActivityFileFormat(buildFit([]))).toBe('fit');
+    });
+
+    it('falls back to the file extension', () => {
+      expect(detectActivityFileFormat('', 'run.GPX')).toBe('gpx');
+      expect(detectActivityFileFormat('', 'notes.txt')).toBeNull();
+    });
+  });
+
+  describe('parseGpx', () => {
+    it('reads timestamped points with elevation and heart rate', () => {
+      const parsed = parseGpx(GPX);
+      expect(parsed.name).toBe('Morning Run & Coffee');
+      expect(parsed.sport).toBe('running');
+      expect(parsed.creator).toBe('Garmin Connect');
+      // The final self-closing trkpt has no <time> and is dropped.
+      expect(parsed.points).toHaveLength(3);
+      expect(parsed.points[0]).toEqual({
+        lat: 51.5,
+        lng: -0.12,
+        timestamp: Date.parse('2024-05-01T07:00:00Z'),
+        altitude: 12.4,
+        heartRate: 121,
+      });
+      expect(parsed.points[2].heartRate).toBeUndefined();
+      expect(parsed.startTime).toBe(Date.parse('2024-05-01T07:00:00Z'));
+    });
+  });
+
+  describe('parseTcx', () => {
+    it('reads laps from lap totals, not trackpoint distances', () => {
+      const parsed = parseTcx(TCX);
+      expect(parsed.sport).toBe('Running');
+      expect(parsed.creator).toBe('Forerunner 255');
+      expect(parsed.laps).toEqual([
+        { startTime: Date.parse('2024-05-01T07:00:00Z'), durationMs: 20000, distance: 111 },
+        { startTime: Date.parse('2024-05-01T07:00:20Z'), durationMs: 20000, distance: 112 },
+      ]);
+    });
+
+    it('skips trackpoints without a position', () => {
+      const parsed = parseTcx(TCX);
+      expect(parsed.points).toHaveLength(3);
+      expect(parsed.points[0].heartRate).toBe(110);
+      expect(parsed.points[0].altitude).toBe(10);
+    });
+  });
+
+  describe('decodeFitFile', () => {
+    it('decodes record, lap and session messages', () => {
+      const bytes = buildFit([
+        record('2024-05-01T07:00:00Z', 51.5, -0.12, 120, 12),
+        record('2024-05-01T07:00:10Z', 51.5005, -0.12, 128, 14),
+        {
+          local: 1,
+          global: 19,
+          fields: [
+            [2, 4, 0x86, fitTime('2024-05-01T07:00:00Z')],
+            [7, 4, 0x86, 10000],
+            [9, 4, 0x86, 5560],
+          ],
+        },
+        { local: 2, global: 18, fields: [[5, 1, 0x00, 1]] },
+      ]);
+
+      const parsed = decodeFitFile(bytes);
+      expect(parsed.sport).toBe('running');
+      expect(parsed.points).toHaveLength(2);
+      expect(parsed.points[0].lat).toBeCloseTo(51.5, 6);
+      expect(parsed.points[0].lng).toBeCloseTo(-0.12, 6);
+      expect(parsed.points[0].altitude).toBeCloseTo(12, 5);
+      expect(parsed.points[1].heartRate).toBe(128);
+      expect(parsed.points[1].timestamp).toBe(Date.parse('2024-05-01T07:00:10Z'));
+      expect(parsed.laps).toEqual([
+        { startTime: Date.parse('2024-05-01T07:00:00Z'), durationMs: 10000, distance: 55.6 },
+      ]);
+    });
+
+    it('drops records with invalid (sentinel) positions', () => {
+      const bytes = buildFit([
+        {
+          local: 0,
+          global: 20,
+          fields: [
+            [253, 4, 0x86, fitTime('2024-05-01T07:00:00Z')],
+            [0, 4, 0x85, 0x7fffffff],
+            [1, 4, 0x85, 0x7fffffff],
+          ],
+        },
+      ]);
+      expect(decodeFitFile(bytes).points).toHaveLength(0);
+    });
+
+    it('rejects data without a FIT signature', () => {
+      expect(() => decodeFitFile(new Uint8Array(14))).toThrow(/Not a FIT file/);
+    });
+  });
+
+  describe('parseActivityFile', () => {
+    it('accepts GPX as an ArrayBuffer', () => {
+      const buffer = new TextEncoder().encode(GPX).buffer;
+      expect(parseActivityFile(buffer, 'run.gpx').format).toBe('gpx');
+    });
+
+    it('throws when a file has no usable points', () => {
+      expect(() => parseActivityFile('<gpx></gpx>')).toThrow(/No timestamped GPS points/);
+    });
+
+    it('throws on unknown formats', () => {
+      expect(() => parseActivityFile('hello', 'run.csv')).toThrow(/Unsupported activity file/);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Auto-pause detector tests
+ */
+import { AutoPauseDetector } from '../auto-pause';
+
+const START = Date.parse('2024-05-01T07:00:00Z');
+const at = (second: number) => START + second * 1000;
+
+/** Feeds one sample per second and collects the transitions. */
+function feed(detector: AutoPauseDetector, from: number, to: number, speed: number) {
+  const transitions = [];
+  for (let t = from; t < to; t++) {
+    const transition = detector.update(at(t), speed);
+    if (transition) transitions.push(transition);
+  }
+  return transitions;
+}
+
+describe('AutoPauseDetector', () => {
+  it('pauses after sustained low speed, backdated to when the runner stopped', () => {
+    const detector = new AutoPauseDetector();
+    expect(feed(detector, 0, 30, 3)).toEqual([]);
+    expect(feed(detector, 30, 40, 0.2)).toEqual([{ type: 'paused', since: at(30) }]);
+    expect(detector.isPaused()).toBe(true);
+  });
+
+  it('ignores a brief slowdown shorter than the window', () => {
+    const detector = new AutoPauseDetector();
+    feed(detector, 0, 10, 3);
+    expect(feed(detector, 10, 13, 0.3)).toEqual([]);
+    expect(feed(detector, 13, 20, 3)).toEqual([]);
+    expect(detector.isPaused()).toBe(false);
+  });
+
+  it('resumes only once speed stays above the higher threshold', () => {
+    const detector = new AutoPauseDetector();
+    feed(detector, 0, 10, 0);
+    // Between the two thresholds: drift, not running.
+    expect(feed(detector, 10, 20, 1)).toEqual([]);
+    expect(feed(detector, 20, 25, 2.8)).toEqual([{ type: 'resumed', at: at(20) }]);
+    expect(detector.isPaused()).toBe(false);
+  });
+
+  it('pauses on tick when fixes stop arriving', () => {
+    const detector = new AutoPauseDetector({ silenceMs: 8000 });
+    feed(detector, 0, 5, 3);
+    expect(detector.tick(at(10))).toBeNull();
+    expect(detector.tick(at(12))).toEqual({ type: 'paused', since: at(4) });
+    expect(detector.tick(at(20))).toBeNull();
+  });
+
+  it('pauses on tick once a low-speed window has run out', () => {
+    const detector = new AutoPauseDetector({ pauseWindowMs: 4000 });
+    detector.update(at(0), 0.1);
+    expect(detector.tick(at(3))).toBeNull();
+    expect(detector.tick(at(4))).toEqual({ type: 'paused', since: at(0) });
+  });
+
+  it('starts over on reset', () => {
+    const detector = new AutoPauseDetector();
+    feed(detector, 0, 10, 0);
+    detector.reset();
+    expect(detector.isPaused()).toBe(false);
+    expect(detector.tick(at(60))).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Territory claim queue tests
+ */
+import {
+  CLAIM_BACKOFF_MAX_MS,
+  type ClaimQueueEntry,
+  claimBackoff,
+  dueClaims,
+  enqueueClaim,
+  finishClaim,
+  isRetryableClaimError,
+  MAX_CLAIM_ATTEMPTS,
+  nextClaimDue,
+  pruneSettled,
+  recoverInterrupted,
+  retryNow,
+  SETTLED_RETENTION_MS,
+  startClaim,
+} from '../claim-queue';
+
+const T0 = Date.parse('2024-06-01T08:00:00Z');
+const offline = { ok: false as const, error: 'Wallet not connected', retryable: true };
+
+function queued(...geohashes: string[]): ClaimQueueEntry<string>[] {
+  return geohashes.reduce<ClaimQueueEntry<string>[]>(
+    (queue, geohash, i) => enqueueClaim(queue, { geohash, payload: geohash }, T0 + i),
+    []
+  );
+}
+
+describe('claim-queue', () => {
+  it('keeps one entry per geohash until it gives up', () => {
+    let queue = queued('u4pruy', 'u4pruz');
+    queue = enqueueClaim(queue, { geohash: 'u4pruy', payload: 'again', runId: 'run_2' }, T0 + 5);
+    expect(queue.map((e) => [e.geohash, e.payload])).toEqual([
+      ['u4pruy', 'u4pruy'],
+      ['u4pruz', 'u4pruz'],
+    ]);
+
+    queue = startClaim(queue, 'u4pruy', T0 + 10);
+    queue = finishClaim(
+      queue,
+      'u4pruy',
+      { ok: false, error: 'execution reverted', retryable: false },
+      T0 + 11
+    );
+    expect(queue[0]).toMatchObject({ status: 'failed', lastError: 'execution reverted' });
+
+    queue = enqueueClaim(queue, { geohash: 'u4pruy', payload: 'again', runId: 'run_2' }, T0 + 20);
+    expect(queue.find((e) => e.geohash === 'u4pruy')).toMatchObject({
+      payload: 'again',
+      runId: 'run_2',
+      status: 'queued',
+      attempts: 0,
+    });
+  });
+
+  it('backs off exponentially while the wallet stays away, then gives up', () => {
+    expect([1, 2, 3, 4].map(claimBackoff)).toEqual([5_000, 10_000, 20_000, 40_000]);
+    expect(claimBackoff(20)).toBe(CLAIM_BACKOFF_MAX_MS);
+
+    let queue = queued('u4pruy');
+    let now = T0;
+    for (let attempt = 1; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+      expect(dueClaims(queue, now).map((e) => e.geohash)).toEqual(['u4pruy']);
+      queue = finishClaim(startClaim(queue, 'u4pruy', now), 'u4pruy', offline, now);
+      expect(queue[0]).toMatchObject({ status: 'queued', attempts: attempt });
+      expect(dueClaims(queue, now + claimBackoff(attempt) - 1)).toEqual([]);
+      now = nextClaimDue(queue) as number;
+      expect(now - (queue[0].lastAttemptAt as number)).toBe(claimBackoff(attempt));
+    }
+
+    queue = finishClaim(startClaim(queue, 'u4pruy', now), 'u4pruy', offline, now);
+    expect(queue[0]).toMatchObject({ status: 'failed', attempts: MAX_CLAIM_ATTEMPTS });
+    expect(nextClaimDue(queue)).toBeNull();
+  });
+
+  it('retries at once when the wallet comes back', () => {
+    let queue = finishClaim(startClaim(queued('u4pruy'), 'u4pruy', T0), 'u4pruy', offline, T0);
+    expect(dueClaims(queue, T0 + 1)).toEqual([]);
+    queue = retryNow(queue, T0 + 1);
+    expect(dueClaims(queue, T0 + 1)).toHaveLength(1);
+  });
+
+  it('records the outcome, keeps it on show for a while, then prunes it', () => {
+    let queue = startClaim(queued('u4pruy', 'u4pruz', 'u4prv0'), 'u4pruy', T0);
+    expect(dueClaims(queue, T0 + 2).map((e) => e.geohash)).toEqual(['u4pruz', 'u4prv0']);
+
+    queue = finishClaim(queue, 'u4pruy', { ok: true, transactionHash: '0xabc' }, T0 + 1);
+    expect(queue[0]).toMatchObject({ status: 'claimed', transactionHash: '0xabc' });
+    queue = startClaim(queue, 'u4pruz', T0);
+    queue = finishClaim(queue, 'u4pruz', { ok: false, error: 'reverted', retryable: false }, T0);
+
+    expect(pruneSettled(queue, T0 + SETTLED_RETENTION_MS - 1)).toHaveLength(3);
+    expect(pruneSettled(queue, T0 + SETTLED_RETENTION_MS).map((e) => e.geohash)).toEqual([
+      'u4prv0',
+    ]);
+  });
+
+  it('puts claims interrupted by a reload back in the queue', () => {
+    const queue = recoverInterrupted(startClaim(queued('u4pruy'), 'u4pruy', T0));
+    expect(queue[0]).toMatchObject({ status: 'queued', attempts: 1 });
+  });
+
+  it('only retries errors that can pass', () => {
+    for (const message of [
+      'Wallet not connected',
+      'Contract service not ready - check network connection',
+      'network changed: 1 => 7001',
+      'Failed to fetch',
+      'timeout exceeded',
+    ]) {
+      expect([message, isRetryableClaimError(message)]).toEqual([message, true]);
+    }
+    for (const message of [
+      'user rejected transaction',
+      'execution reverted: Territory already claimed',
+      'Territory not found',
+    ]) {
+      expect([message, isRetryableClaimError(message)]).toEqual([message, false]);
+    }
+  });
+});
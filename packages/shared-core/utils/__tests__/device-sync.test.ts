@@ -0,0 +1,166 @@
+/**
+ * Device sync tests
+ */
+import {
+  claimsDiffer,
+  type MergeableStats,
+  mergePlayerStats,
+  resolveSyncPush,
+  type SyncPush,
+  type SyncRecord,
+  standingClaim,
+  syncFingerprint,
+} from '../device-sync';
+
+const T0 = Date.parse('2024-06-01T07:00:00Z');
+
+function stats(overrides: Partial<MergeableStats> = {}): MergeableStats {
+  return {
+    level: 1,
+    experience: 0,
+    totalDistance: 0,
+    territoriesOwned: 0,
+    territoriesClaimed: 0,
+    challengesWon: 0,
+    totalTime: 0,
+    personalRecords: 0,
+    achievements: [],
+    activeChallenges: [],
+    streak: 0,
+    ...overrides,
+  };
+}
+
+function stored<T>(kind: SyncRecord['kind'], data: T, seq = 3): SyncRecord<T> {
+  return { kind, id: 'doc', data, updatedAt: T0, deviceId: 'laptop', seq };
+}
+
+function push<T>(
+  kind: SyncPush['kind'],
+  data: T,
+  overrides: Partial<SyncPush<T>> = {}
+): SyncPush<T> {
+  return {
+    kind,
+    id: 'doc',
+    data,
+    updatedAt: T0 + 1000,
+    deviceId: 'phone',
+    baseSeq: 3,
+    ...overrides,
+  };
+}
+
+describe('device-sync', () => {
+  it('adds both devices’ gains on top of the stats they started from', () => {
+    const base = stats({ experience: 100, territoriesOwned: 4, totalTime: 600 });
+    const phone = stats({ experience: 140, territoriesOwned: 5, totalTime: 900, level: 2 });
+    const laptop = stats({ experience: 120, territoriesOwned: 2, totalTime: 600 });
+    expect(mergePlayerStats(base, phone, laptop)).toMatchObject({
+      experience: 160,
+      territoriesOwned: 3, // one claimed on the phone, two traded away on the laptop
+      totalTime: 900,
+      level: 2,
+    });
+
+    // Without a base nothing is counted twice
+    expect(mergePlayerStats(undefined, phone, laptop)).toMatchObject({
+      experience: 140,
+      territoriesOwned: 5,
+    });
+  });
+
+  it('pools achievements and keeps the furthest challenge progress and latest streak', () => {
+    const challenge = { id: 'daily', completed: false, claimed: false, goal: { current: 2000 } };
+    const phone = stats({
+      achievements: ['first-run', '5k-runner'],
+      activeChallenges: [{ ...challenge, goal: { current: 5000 } }],
+      streak: 4,
+      lastActiveDate: '2024-06-03',
+    });
+    const laptop = stats({
+      achievements: ['first-run', 'first-territory'],
+      activeChallenges: [
+        { ...challenge, completed: true },
+        { id: 'weekly', completed: false, claimed: false, goal: { current: 1 } },
+      ],
+      streak: 9,
+      lastActiveDate: '2024-06-02',
+    });
+    const merged = mergePlayerStats(stats(), phone, laptop);
+    expect(merged.achievements).toEqual(['first-run', 'first-territory', '5k-runner']);
+    expect(merged.activeChallenges).toEqual([
+      { ...challenge, completed: true, goal: { current: 5000 } },
+      { id: 'weekly', completed: false, claimed: false, goal: { current: 1 } },
+    ]);
+    expect(merged).toMatchObject({ streak: 4, lastActiveDate: '2024-06-03' });
+  });
+
+  it('lets a confirmed claim stand over an unconfirmed one, else the earlier', () => {
+    const mine = { owner: '0xABC', claimedAt: T0 };
+    expect(claimsDiffer(mine, { owner: '0xabc', claimedAt: T0 })).toBe(false);
+    expect(claimsDiffer(mine, { owner: '0xabc', claimedAt: T0 + 1 })).toBe(true);
+    expect(claimsDiffer(mine, { owner: '0xabc' })).toBe(false);
+
+    const confirmed = { owner: '0xabc', claimedAt: T0 + 500, transactionHash: '0x1' };
+    expect(standingClaim(mine, confirmed)).toBe('device');
+    expect(standingClaim(confirmed, mine)).toBe('server');
+    expect(standingClaim(mine, { owner: '0xdef', claimedAt: T0 - 1 })).toBe('device');
+    expect(standingClaim(mine, { owner: '0xdef', claimedAt: T0 })).toBe('server');
+  });
+
+  it('settles concurrent pushes by kind', () => {
+    // The device had seen the latest copy
+    expect(resolveSyncPush(stored('run', { v: 1 }), push('run', { v: 2 })).record?.data).toEqual({
+      v: 2,
+    });
+    expect(resolveSyncPush(undefined, push('run', { v: 2 }, { baseSeq: 0 })).record).not.toBeNull();
+
+    // Concurrent run edits: last writer, then the higher device id
+    expect(
+      resolveSyncPush(stored('run', { v: 1 }), push('run', { v: 2 }, { baseSeq: 1 })).record
+    ).not.toBeNull();
+    const older = push('run', { v: 2 }, { baseSeq: 1, updatedAt: T0 - 1 });
+    expect(resolveSyncPush(stored('run', { v: 1 }), older)).toEqual({ record: null });
+    const tie = push('run', { v: 2 }, { baseSeq: 1, updatedAt: T0 });
+    expect(resolveSyncPush(stored('run', { v: 1 }), tie).record).not.toBeNull();
+
+    // Concurrent stats merge whatever the clocks say
+    const base = stats({ experience: 10 });
+    const merged = resolveSyncPush(
+      stored('stats', stats({ experience: 30 })),
+      push('stats', stats({ experience: 15 }), { baseSeq: 1, base, updatedAt: T0 - 5000 })
+    );
+    expect(merged.record).toMatchObject({ data: { experience: 35 }, updatedAt: T0 });
+
+    // Same claim on both sides is an ordinary edit, a different one a conflict
+    const claim = { owner: '0xabc', claimedAt: T0, name: 'Park' };
+    const renamed = resolveSyncPush(
+      stored('territory', claim),
+      push('territory', { ...claim, name: 'Big Park' }, { baseSeq: 1 })
+    );
+    expect(renamed).toEqual({
+      record: { data: { ...claim, name: 'Big Park' }, updatedAt: T0 + 1000, deviceId: 'phone' },
+    });
+    const rival = { owner: '0xabc', claimedAt: T0 + 60_000 };
+    expect(
+      resolveSyncPush(stored('territory', claim), push('territory', rival, { baseSeq: 1 }))
+    ).toEqual({
+      record: null,
+      conflict: {
+        kind: 'territory',
+        id: 'doc',
+        reason: 'claimed on two devices',
+        kept: 'server',
+        discarded: rival,
+      },
+    });
+  });
+
+  it('fingerprints JSON regardless of key order', () => {
+    expect(syncFingerprint({ a: 1, b: [1, { c: 2, d: 3 }] })).toBe(
+      syncFingerprint({ b: [1, { d: 3, c: 2 }], a: 1, e: undefined })
+    );
+    expect(syncFingerprint({ a: 1 })).not.toBe(syncFingerprint({ a: 2 }));
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Elevation analysis tests
+ *
+ * Routes run due north at 10 m spacing; altitude noise comes from a
+ * seeded PRNG so the numbers are stable.
+ */
+import {
+  analyzeElevation,
+  calculateGainLoss,
+  type ElevationSample,
+  gradeAdjustedSpeed,
+  runningEnergyCost,
+  smoothAltitudes,
+} from '../elevation';
+
+const START = Date.parse('2024-05-01T07:00:00Z');
+const METERS_PER_DEG_LAT = 111_195;
+
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** One sample every 10 m, 4 s apart (2.5 m/s). */
+function route(altitudeAt: (meters: number) => number | undefined, meters: number) {
+  const samples: ElevationSample[] = [];
+  for (let d = 0; d <= meters; d += 10) {
+    samples.push({
+      lat: 51.5 + d / METERS_PER_DEG_LAT,
+      lng: -0.12,
+      altitude: altitudeAt(d),
+      timestamp: START + (d / 10) * 4000,
+    });
+  }
+  return samples;
+}
+
+describe('elevation', () => {
+  describe('analyzeElevation', () => {
+    it('measures a clean hill: 50 m up over 500 m, 50 m back down', () => {
+      const hill = route((d) => 20 + (d <= 500 ? d : 1000 - d) * 0.1, 1000);
+      const summary = analyzeElevation(hill);
+
+      expect(summary?.gain).toBeGreaterThan(45);
+      expect(summary?.gain).toBeLessThanOrEqual(50);
+      expect(summary?.loss).toBeGreaterThan(45);
+      // The smoothing window is one-sided at the ends.
+      expect(summary?.minAltitude).toBeGreaterThanOrEqual(20);
+      expect(summary?.minAltitude).toBeLessThan(22);
+      expect(summary?.segments[10].grade).toBeCloseTo(0.1, 2);
+      expect(summary?.segments[80].grade).toBeCloseTo(-0.1, 2);
+    });
+
+    it('does not turn GPS altitude noise on the flat into climbing', () => {
+      const random = mulberry32(7);
+      const noisy = route(() => 30 + (random() - 0.5) * 10, 2000);
+      const summary = analyzeElevation(noisy);
+
+      // Raw sample-to-sample gain would be hundreds of metres.
+      expect(summary?.gain).toBeLessThan(15);
+      expect(summary?.loss).toBeLessThan(15);
+    });
+
+    it('makes uphill segments faster and gentle downhill ones slower once adjusted', () => {
+      const hill = route((d) => (d <= 500 ? d * 0.1 : 50 - (d - 500) * 0.05), 1000);
+      const summary = analyzeElevation(hill);
+      const up = summary?.segments[20].gradeAdjustedSpeed ?? 0;
+      const down = summary?.segments[80].gradeAdjustedSpeed ?? 0;
+
+      expect(up).toBeGreaterThan(2.5);
+      expect(down).toBeLessThan(2.5);
+      expect(summary?.gradeAdjustedSpeed).toBeGreaterThan(2.5);
+    });
+
+    it('caps the stored profile and keeps its end points', () => {
+      const long = route((d) => d * 0.01, 5000);
+      const summary = analyzeElevation(long, { maxProfilePoints: 50 });
+
+      expect(summary?.profile).toHaveLength(50);
+      expect(summary?.profile[0].distance).toBe(0);
+      expect(summary?.profile[49].distance).toBeCloseTo(5000, -1);
+    });
+
+    it('returns null without altitude data', () => {
+      expect(analyzeElevation(route(() => undefined, 200))).toBeNull();
+    });
+  });
+
+  describe('smoothAltitudes', () => {
+    it('fills samples that have no altitude from their neighbours', () => {
+      const gappy = route((d) => (d === 50 ? undefined : 10), 100);
+      expect(smoothAltitudes(gappy)?.[5]).toBeCloseTo(10, 5);
+    });
+  });
+
+  describe('calculateGainLoss', () => {
+    it('ignores wobbles below the threshold', () => {
+      expect(calculateGainLoss([10, 12, 10, 12, 10, 16, 14, 20], 3)).toEqual({ gain: 10, loss: 0 });
+    });
+  });
+
+  describe('grade adjustment', () => {
+    it('is neutral on the flat and follows Minetti at the extremes', () => {
+      expect(gradeAdjustedSpeed(3, 0)).toBe(3);
+      expect(runningEnergyCost(0.1)).toBeCloseTo(5.97, 2);
+      // Cheapest around -10% to -20%.
+      expect(runningEnergyCost(-0.15)).toBeLessThan(runningEnergyCost(0));
+      expect(runningEnergyCost(1)).toBe(runningEnergyCost(0.45));
+    });
+  });
+});
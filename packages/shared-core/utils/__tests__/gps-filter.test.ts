@@ -0,0 +1,172 @@
+/**
+ * GPS filter tests
+ *
+ * `recordedTrace` reproduces the shape of a real city run: 1 Hz fixes
+ * with ~5 m noise, a three-second urban-canyon jump, and a minute
+ * waiting at a crossing. It is generated from a seeded PRNG so the
+ * numbers below are stable.
+ */
+import { haversineDistance } from '../geo-distance';
+import {
+  AccuracyGateStage,
+  createGpsFilterPipeline,
+  filterTrace,
+  GpsFilterPipeline,
+  type GpsFix,
+  SpeedSpikeStage,
+} from '../gps-filter';
+
+const START = Date.parse('2024-05-01T07:00:00Z');
+const ORIGIN = { lat: 51.5, lng: -0.12 };
+const METERS_PER_DEG_LAT = 111_195;
+const METERS_PER_DEG_LNG = METERS_PER_DEG_LAT * Math.cos((ORIGIN.lat * Math.PI) / 180);
+
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function fixAt(second: number, northMeters: number, eastMeters: number, accuracy = 8): GpsFix {
+  return {
+    lat: ORIGIN.lat + northMeters / METERS_PER_DEG_LAT,
+    lng: ORIGIN.lng + eastMeters / METERS_PER_DEG_LNG,
+    timestamp: START + second * 1000,
+    accuracy,
+  };
+}
+
+/**
+ * 0-200 s: north at 3 m/s. 200-260 s: standing still. 260-320 s: north
+ * again. Seconds 100-102 jump 150 m east. True distance 780 m.
+ */
+function recordedTrace(): GpsFix[] {
+  const random = mulberry32(42);
+  const gaussian = () => {
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+
+  const fixes: GpsFix[] = [];
+  for (let t = 0; t <= 320; t++) {
+    const north = 3 * Math.min(t, 200) + 3 * Math.max(0, t - 260);
+    const jump = t >= 100 && t <= 102 ? 150 : 0;
+    fixes.push(fixAt(t, north + 5 * gaussian(), jump + 5 * gaussian()));
+  }
+  return fixes;
+}
+
+function pathLength(fixes: GpsFix[]): number {
+  let total = 0;
+  for (let i = 1; i < fixes.length; i++) total += haversineDistance(fixes[i - 1], fixes[i]);
+  return total;
+}
+
+describe('gps-filter', () => {
+  describe('recorded city trace', () => {
+    const trace = recordedTrace();
+    const { accepted, rejected } = filterTrace(trace);
+
+    it('raw GPS inflates distance badly', () => {
+      expect(pathLength(trace)).toBeGreaterThan(780 * 1.5);
+    });
+
+    it('brings the filtered distance within 10% of the true 780 m', () => {
+      const distance = pathLength(accepted);
+      expect(distance).toBeGreaterThan(780 * 0.9);
+      expect(distance).toBeLessThan(780 * 1.1);
+    });
+
+    it('rejects the urban-canyon jump as a speed spike', () => {
+      const jumpTimes = rejected
+        .filter((r) => r.stage === 'speedSpike')
+        .map((r) => (r.fix.timestamp - START) / 1000);
+      expect(jumpTimes).toEqual(expect.arrayContaining([100, 101, 102]));
+      expect(accepted.every((f) => Math.abs(f.lng - ORIGIN.lng) * METERS_PER_DEG_LNG < 30)).toBe(
+        true
+      );
+    });
+
+    it('suppresses drift while standing at the crossing', () => {
+      const whileStopped = accepted.filter(
+        (f) => f.timestamp >= START + 215_000 && f.timestamp < START + 260_000
+      );
+      expect(whileStopped.length).toBeLessThan(5);
+      expect(rejected.some((r) => r.stage === 'stationaryDrift')).toBe(true);
+    });
+
+    it('reports a filtered speed close to the true pace while moving', () => {
+      const moving = accepted.filter(
+        (f) => f.timestamp >= START + 30_000 && f.timestamp < START + 90_000
+      );
+      const mean = moving.reduce((sum, f) => sum + (f.speed ?? 0), 0) / moving.length;
+      expect(mean).toBeGreaterThan(2.5);
+      expect(mean).toBeLessThan(3.5);
+    });
+  });
+
+  describe('AccuracyGateStage', () => {
+    it('drops fixes with poor reported accuracy', () => {
+      const stage = new AccuracyGateStage(20);
+      expect(stage.process(fixAt(0, 0, 0, 35))).toEqual({ reason: 'accuracy 35m > 20m' });
+      expect(stage.process(fixAt(0, 0, 0, 15))).toHaveProperty('fix');
+    });
+  });
+
+  describe('SpeedSpikeStage', () => {
+    it('rejects fixes that do not move forward in time', () => {
+      const stage = new SpeedSpikeStage(12, 5);
+      stage.process(fixAt(10, 0, 0));
+      expect(stage.process(fixAt(9, 5, 0))).toEqual({
+        reason: 'timestamp not after previous fix',
+      });
+    });
+
+    it('re-anchors after persistent spikes from a bad first fix', () => {
+      const stage = new SpeedSpikeStage(12, 3);
+      stage.process(fixAt(0, 500, 0)); // bad cold-start fix
+      expect(stage.process(fixAt(1, 0, 0))).toHaveProperty('reason');
+      expect(stage.process(fixAt(2, 3, 0))).toHaveProperty('reason');
+      expect(stage.process(fixAt(3, 6, 0))).toHaveProperty('fix');
+      expect(stage.process(fixAt(4, 9, 0))).toHaveProperty('fix');
+    });
+  });
+
+  describe('GpsFilterPipeline', () => {
+    it('runs custom stages in order and names the rejecting stage', () => {
+      const pipeline = new GpsFilterPipeline([
+        new AccuracyGateStage(50),
+        {
+          name: 'eastOnly',
+          process: (fix) => (fix.lng > ORIGIN.lng ? { fix } : { reason: 'west of origin' }),
+          reset: () => {},
+        },
+      ]);
+      expect(pipeline.process(fixAt(0, 0, -10))).toMatchObject({
+        accepted: false,
+        stage: 'eastOnly',
+        reason: 'west of origin',
+      });
+      expect(pipeline.process(fixAt(1, 0, 10)).accepted).toBe(true);
+    });
+
+    it('forgets the previous anchor on reset', () => {
+      const pipeline = createGpsFilterPipeline();
+      pipeline.process(fixAt(0, 0, 0));
+      expect(pipeline.process(fixAt(1, 0, 1000)).accepted).toBe(false);
+      pipeline.reset();
+      expect(pipeline.process(fixAt(2, 0, 1000)).accepted).toBe(true);
+    });
+
+    it('can run without the Kalman stage', () => {
+      const names = createGpsFilterPipeline({ kalman: false })
+        .getStages()
+        .map((s) => s.name);
+      expect(names).toEqual(['accuracy', 'speedSpike', 'stationaryDrift']);
+    });
+  });
+});
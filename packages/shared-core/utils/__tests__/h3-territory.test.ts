@@ -7,6 +7,8 @@
  * upgrade doesn't silently change the territory geometry.
  */
 import {
+  boundsToCells,
+  cellOverlap,
   cellsIntersect,
   cellToPolygon,
   coordsToCell,
@@ -127,4 +129,56 @@ describe('h3-territory', () => {
       expect(indices.has(cell.h3Index)).toBe(true);
     });
   });
+
+  describe('cellOverlap', () => {
+    it('splits contested from uncontested cells per territory', () => {
+      const overlap = cellOverlap(
+        ['a', 'b', 'c', 'd'],
+        [
+          { id: 't1', cells: ['b', 'x'] },
+          { id: 't2', cells: ['c', 'd', 'b'] },
+          { id: 't3', cells: ['y'] },
+        ]
+      );
+      expect(overlap.uncontestedCells).toEqual(['a']);
+      expect(overlap.contestedCells).toEqual(['b', 'c', 'd']);
+      expect(overlap.contestedFraction).toBe(0.75);
+      expect(overlap.conflicts).toEqual([
+        { territoryId: 't1', cells: ['b'], fraction: 0.25 },
+        { territoryId: 't2', cells: ['b', 'c', 'd'], fraction: 0.75 },
+      ]);
+    });
+
+    it('reports no conflict for neighbouring territories', () => {
+      const center = coordsToCell(40.758, -73.9855).h3Index;
+      const ring = neighboringCells(center, 1)
+        .map((c) => c.h3Index)
+        .filter((idx) => idx !== center);
+      const overlap = cellOverlap([center], [{ id: 'next-door', cells: ring }]);
+      expect(overlap.conflicts).toEqual([]);
+      expect(overlap.contestedFraction).toBe(0);
+    });
+
+    it('handles an empty candidate', () => {
+      expect(cellOverlap([], [{ id: 't1', cells: ['a'] }]).contestedFraction).toBe(0);
+    });
+  });
+
+  describe('boundsToCells', () => {
+    it('covers a block-sized rectangle with several cells', () => {
+      const cells = boundsToCells({ north: 40.765, south: 40.755, east: -73.975, west: -73.99 });
+      expect(cells.length).toBeGreaterThan(3);
+      expect(cells).toContain(coordsToCell(40.76, -73.9825).h3Index);
+    });
+
+    it('falls back to the centre cell for a tiny rectangle', () => {
+      const cells = boundsToCells({
+        north: 40.7581,
+        south: 40.758,
+        east: -73.9855,
+        west: -73.9856,
+      });
+      expect(cells).toEqual([coordsToCell(40.75805, -73.98555).h3Index]);
+    });
+  });
 });
@@ -0,0 +1,73 @@
+/**
+ * Heart-rate zone tests
+ */
+import {
+  estimateMaxHeartRate,
+  heartRateZone,
+  summarizeHeartRate,
+  zoneBoundaries,
+} from '../heart-rate';
+
+const START = Date.parse('2024-05-01T07:00:00Z');
+
+/** One reading every 5 s for each `[bpm, seconds]` block. */
+function readings(blocks: [number, number][], cadence?: number) {
+  const points = [];
+  let t = 0;
+  for (const [heartRate, seconds] of blocks) {
+    for (let s = 0; s < seconds; s += 5, t += 5) {
+      points.push({ timestamp: START + t * 1000, heartRate, cadence });
+    }
+  }
+  return points;
+}
+
+describe('heart-rate', () => {
+  it('places readings in zones by fraction of max', () => {
+    expect(heartRateZone(90, 200)).toBeNull();
+    expect(heartRateZone(100, 200)).toBe(1);
+    expect(heartRateZone(139, 200)).toBe(2);
+    expect(heartRateZone(170, 200)).toBe(4);
+    expect(heartRateZone(205, 200)).toBe(5);
+  });
+
+  it('gives bpm boundaries and an age-predicted max', () => {
+    expect(zoneBoundaries(200)[2]).toMatchObject({ zone: 3, minBpm: 140, maxBpm: 160 });
+    expect(zoneBoundaries(200)[4].maxBpm).toBeNull();
+    expect(estimateMaxHeartRate(40)).toBe(180);
+  });
+
+  it('adds up time in zone, averages and peak', () => {
+    const points = readings(
+      [
+        [130, 600], // zone 2 for 10 minutes
+        [170, 300], // zone 4 for 5 minutes
+      ],
+      172
+    );
+    const summary = summarizeHeartRate(points, 190);
+
+    // The gap straddling the change averages to 150 bpm: zone 3.
+    expect(summary?.timeInZones[1].duration).toBe(595_000);
+    expect(summary?.timeInZones[2].duration).toBe(5_000);
+    expect(summary?.timeInZones[3].duration).toBe(295_000);
+    expect(summary?.peakHeartRate).toBe(170);
+    expect(summary?.averageHeartRate).toBe(143);
+    expect(summary?.averageCadence).toBe(172);
+  });
+
+  it('ignores gaps longer than maxGapMs', () => {
+    const points = [
+      { timestamp: START, heartRate: 150 },
+      { timestamp: START + 10_000, heartRate: 150 },
+      { timestamp: START + 610_000, heartRate: 150 },
+    ];
+    const summary = summarizeHeartRate(points, 190);
+    expect(summary?.timeInZones[2].duration).toBe(10_000);
+    expect(summary?.averageCadence).toBeUndefined();
+  });
+
+  it('returns null without heart-rate data', () => {
+    expect(summarizeHeartRate([{ timestamp: START }, { timestamp: START + 1000 }], 190)).toBeNull();
+  });
+});
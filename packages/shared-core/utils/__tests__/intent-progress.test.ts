@@ -0,0 +1,118 @@
+/**
+ * Territory intent progress tests
+ */
+import { haversineDistance } from '../geo-distance';
+import {
+  distanceToRoute,
+  IntentTracker,
+  intentCells,
+  isNearIntent,
+  routeCheckpoints,
+} from '../intent-progress';
+
+const T0 = Date.parse('2024-06-01T08:00:00Z');
+
+/** Due east from Hyde Park Corner, roughly 1 km. */
+const ROUTE = [
+  { lat: 51.5027, lng: -0.1527 },
+  { lat: 51.5027, lng: -0.1457 },
+  { lat: 51.5027, lng: -0.1383 },
+];
+
+/** A point every ~10 m along the route, optionally pushed north. */
+function runAlong(northOffset = 0) {
+  const points: Array<{ lat: number; lng: number }> = [];
+  for (let i = 1; i < ROUTE.length; i++) {
+    const from = ROUTE[i - 1];
+    const to = ROUTE[i];
+    const steps = Math.ceil(haversineDistance(from, to) / 10);
+    for (let s = 0; s <= steps; s++) {
+      points.push({
+        lat: from.lat + northOffset + (s / steps) * (to.lat - from.lat),
+        lng: from.lng + (s / steps) * (to.lng - from.lng),
+      });
+    }
+  }
+  return points;
+}
+
+function tracker(expiresAt = T0 + 60 * 60 * 1000) {
+  return new IntentTracker({
+    id: 'intent-1',
+    cells: intentCells({ north: 0, south: 0, east: 0, west: 0 }, ROUTE),
+    plannedRoute: ROUTE,
+    expiresAt,
+  });
+}
+
+describe('intent-progress', () => {
+  it('spaces checkpoints evenly across route vertices, ends included', () => {
+    const checkpoints = routeCheckpoints(ROUTE, 25);
+    expect(checkpoints[0]).toEqual(ROUTE[0]);
+    expect(checkpoints[checkpoints.length - 1]).toEqual(ROUTE[2]);
+    for (let i = 1; i < checkpoints.length - 1; i++) {
+      expect(haversineDistance(checkpoints[i - 1], checkpoints[i])).toBeCloseTo(25, 0);
+    }
+  });
+
+  it('measures how far a point is from the nearest leg', () => {
+    const north = { lat: 51.5027 + 0.0009, lng: -0.1457 }; // ~100 m north of the middle vertex
+    expect(distanceToRoute(north, ROUTE)).toBeGreaterThan(95);
+    expect(distanceToRoute(north, ROUTE)).toBeLessThan(105);
+    expect(distanceToRoute(ROUTE[1], ROUTE)).toBeCloseTo(0, 5);
+  });
+
+  it('takes on intents the run starts near', () => {
+    const cells = intentCells({ north: 0, south: 0, east: 0, west: 0 }, ROUTE);
+    expect(isNearIntent({ lat: 51.5035, lng: -0.153 }, { cells, plannedRoute: ROUTE })).toBe(true);
+    expect(isNearIntent({ lat: 51.52, lng: -0.153 }, { cells, plannedRoute: ROUTE })).toBe(false);
+
+    // Without a route: in or beside one of the intent's cells
+    const park = { north: 51.5075, south: 51.504, east: -0.16, west: -0.168 };
+    const parkCells = intentCells(park);
+    expect(isNearIntent({ lat: 51.506, lng: -0.164 }, { cells: parkCells })).toBe(true);
+    expect(isNearIntent({ lat: 51.52, lng: -0.164 }, { cells: parkCells })).toBe(false);
+  });
+
+  it('climbs to complete when the run follows the planned route', () => {
+    const intent = tracker();
+    let last = intent.getProgress();
+    expect(last.percentComplete).toBe(0);
+
+    for (const point of runAlong()) {
+      const progress = intent.update(point);
+      expect(progress.percentComplete).toBeGreaterThanOrEqual(last.percentComplete);
+      expect(progress.offRoute).toBe(false);
+      last = progress;
+    }
+    expect(last).toMatchObject({ completed: true, percentComplete: 100 });
+    expect(last.checkpointsPassed).toBe(last.checkpointsTotal);
+    expect(last.cellsCovered).toBe(last.cellsTotal);
+  });
+
+  it('reports deviation and stalls once the runner strays', () => {
+    const intent = tracker();
+    const points = runAlong();
+    for (const point of points.slice(0, 20)) intent.update(point);
+    const onRoute = intent.getProgress();
+
+    // A parallel street ~150 m north
+    const strayed = runAlong(0.00135).slice(20);
+    let progress = onRoute;
+    for (const point of strayed) progress = intent.update(point);
+
+    expect(progress.offRoute).toBe(true);
+    expect(progress.deviation).toBeGreaterThan(140);
+    expect(progress.checkpointsPassed).toBe(onRoute.checkpointsPassed);
+    expect(progress.completed).toBe(false);
+  });
+
+  it('expires only while incomplete', () => {
+    const intent = tracker(T0);
+    expect(intent.isExpired(T0 - 1)).toBe(false);
+    expect(intent.isExpired(T0)).toBe(true);
+
+    for (const point of runAlong()) intent.update(point);
+    expect(intent.isExpired(T0 + 1)).toBe(false);
+  });
+});
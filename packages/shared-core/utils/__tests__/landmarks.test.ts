@@ -0,0 +1,100 @@
+/**
+ * Landmark provider tests
+ */
+import {
+  isSpecialLandmark,
+  type Landmark,
+  landmarkKindFromCategory,
+  landmarkTileKey,
+  landmarkTilesForBounds,
+  OfflineLandmarkProvider,
+  rankLandmarks,
+} from '../landmarks';
+
+const HYDE_PARK: Landmark = {
+  id: 'hyde',
+  name: 'Hyde Park',
+  kind: 'park',
+  lat: 51.5073,
+  lng: -0.1657,
+};
+const ALBERT_MEMORIAL: Landmark = {
+  id: 'albert',
+  name: 'Albert Memorial',
+  kind: 'monument',
+  lat: 51.5024,
+  lng: -0.1774,
+};
+const SERPENTINE: Landmark = {
+  id: 'serpentine',
+  name: 'The Serpentine',
+  kind: 'water',
+  lat: 51.5052,
+  lng: -0.1659,
+};
+const ELSEWHERE: Landmark = {
+  id: 'richmond',
+  name: 'Richmond Park',
+  kind: 'park',
+  lat: 51.442,
+  lng: -0.2745,
+};
+
+const BOUNDS = { north: 51.51, south: 51.5, east: -0.16, west: -0.18 };
+
+describe('landmarks', () => {
+  it('keys tiles by their south-west corner, either side of zero', () => {
+    expect(landmarkTileKey(51.5073, -0.1657)).toBe('51.5_-0.2');
+    expect(landmarkTileKey(-33.86, 151.21)).toBe('-33.9_151.2');
+    expect(
+      landmarkTilesForBounds({ north: 51.51, south: 51.49, east: -0.05, west: -0.15 })
+    ).toEqual(['51.4_-0.2', '51.4_-0.1', '51.5_-0.2', '51.5_-0.1']);
+  });
+
+  it('finds landmarks inside the bounds from a bundled array', async () => {
+    const provider = new OfflineLandmarkProvider([HYDE_PARK, ELSEWHERE, SERPENTINE]);
+    const found = await provider.findLandmarks(BOUNDS);
+    expect(found.map((l) => l.id)).toEqual(['hyde', 'serpentine']);
+  });
+
+  it('loads each tile once and survives a failing tile', async () => {
+    const loader = jest.fn(async (key: string) => {
+      if (key === '51.5_-0.2') return [HYDE_PARK, ALBERT_MEMORIAL];
+      throw new Error('missing tile');
+    });
+    const provider = new OfflineLandmarkProvider(loader);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const wider = { ...BOUNDS, east: -0.09 };
+    expect((await provider.findLandmarks(wider)).map((l) => l.id)).toEqual(['hyde', 'albert']);
+    await provider.findLandmarks(wider);
+    // The good tile is cached; the failed one is retried
+    expect(loader.mock.calls.map(([key]) => key)).toEqual(['51.5_-0.2', '51.5_-0.1', '51.5_-0.1']);
+    warn.mockRestore();
+  });
+
+  it('ranks monuments, then parks, then the rest, and drops duplicates', () => {
+    const ranked = rankLandmarks([
+      SERPENTINE,
+      HYDE_PARK,
+      ALBERT_MEMORIAL,
+      { ...HYDE_PARK, id: 'h2' },
+    ]);
+    expect(ranked.map((l) => l.name)).toEqual(['Albert Memorial', 'Hyde Park', 'The Serpentine']);
+  });
+
+  it('treats monuments and significant places as special', () => {
+    expect(isSpecialLandmark(ALBERT_MEMORIAL)).toBe(true);
+    expect(isSpecialLandmark(HYDE_PARK)).toBe(false);
+    expect(isSpecialLandmark({ ...HYDE_PARK, significance: 0.9 })).toBe(true);
+  });
+
+  it('maps geocoder and OSM categories onto kinds', () => {
+    expect(landmarkKindFromCategory('park, playground')).toBe('park');
+    expect(landmarkKindFromCategory('historic site, monument')).toBe('monument');
+    expect(landmarkKindFromCategory('highway=footway')).toBe('trail');
+    expect(landmarkKindFromCategory('tourism=viewpoint')).toBe('viewpoint');
+    expect(landmarkKindFromCategory('coffee, cafe')).toBe('other');
+    expect(landmarkKindFromCategory(undefined)).toBe('other');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Neighbourhood leaderboard tests
+ */
+import { cellToChildren, cellToParent, getResolution, gridDisk, latLngToCell } from 'h3-js';
+import { H3_RESOLUTION_AREA_KM2 } from '../h3-territory';
+import {
+  LEADERBOARD_RESOLUTION,
+  type LeaderboardTerritory,
+  leaderboardArea,
+  ownerColor,
+  ownershipCells,
+  rankOwners,
+} from '../leaderboard';
+
+const HYDE_PARK = { lat: 51.5073, lng: -0.1657 };
+const HOME = latLngToCell(HYDE_PARK.lat, HYDE_PARK.lng, LEADERBOARD_RESOLUTION);
+const AREA = leaderboardArea(HYDE_PARK);
+const CHILDREN = cellToChildren(HOME, 9);
+
+/** A parent three rings out, past the default two-ring area. */
+const FAR = gridDisk(HOME, 3).find((cell) => !AREA.includes(cell)) as string;
+const FAR_CHILDREN = cellToChildren(FAR, 9);
+
+const TERRITORIES: LeaderboardTerritory[] = [
+  { id: 'a1', owner: '0xAAA', cells: CHILDREN.slice(0, 10), activityPoints: 100 },
+  { id: 'a2', owner: '0xaaa', cells: CHILDREN.slice(5, 15), activityPoints: 50 },
+  { id: 'b1', owner: '0xBBB', cells: CHILDREN.slice(20, 32), activityPoints: 400 },
+  { id: 'c1', owner: '0xCCC', cells: FAR_CHILDREN.slice(0, 40), activityPoints: 900 },
+  { id: 'x', cells: CHILDREN.slice(40, 49) },
+];
+
+describe('leaderboard', () => {
+  it('covers the rings of parent cells around the runner', () => {
+    expect(AREA).toHaveLength(19);
+    expect(AREA).toContain(HOME);
+    expect(AREA.every((cell) => getResolution(cell) === LEADERBOARD_RESOLUTION)).toBe(true);
+    expect(cellToParent(CHILDREN[0], LEADERBOARD_RESOLUTION)).toBe(HOME);
+  });
+
+  it('ranks owners by distinct cells held inside the area', () => {
+    const ranked = rankOwners(TERRITORIES, AREA);
+    expect(ranked.map((e) => [e.owner, e.rank, e.cells])).toEqual([
+      ['0xaaa', 1, 15],
+      ['0xbbb', 2, 12],
+    ]);
+    expect(ranked[0]).toMatchObject({ territories: 2, activityPoints: 150 });
+    expect(ranked[0].areaKm2).toBeCloseTo(15 * H3_RESOLUTION_AREA_KM2);
+  });
+
+  it('ranks by activity points when asked, and counts far territories once in range', () => {
+    expect(rankOwners(TERRITORIES, AREA, 'activity').map((e) => e.owner)).toEqual([
+      '0xbbb',
+      '0xaaa',
+    ]);
+    const wider = leaderboardArea(HYDE_PARK, LEADERBOARD_RESOLUTION, 3);
+    expect(rankOwners(TERRITORIES, wider, 'activity')[0]).toMatchObject({
+      owner: '0xccc',
+      cells: 40,
+    });
+  });
+
+  it('breaks ties on the other measures, then the owner', () => {
+    const tied: LeaderboardTerritory[] = [
+      { id: 'z', owner: '0xzzz', cells: CHILDREN.slice(0, 5), activityPoints: 10 },
+      { id: 'y', owner: '0xyyy', cells: CHILDREN.slice(5, 10), activityPoints: 10 },
+      { id: 'w', owner: '0xwww', cells: CHILDREN.slice(10, 15), activityPoints: 20 },
+    ];
+    expect(rankOwners(tied, AREA).map((e) => e.owner)).toEqual(['0xwww', '0xyyy', '0xzzz']);
+  });
+
+  it('shades each parent by its dominant owner', () => {
+    const cells = ownershipCells(TERRITORIES, AREA);
+    expect(cells).toHaveLength(1);
+    expect(cells[0]).toMatchObject({
+      h3Index: HOME,
+      owner: '0xaaa',
+      heldCells: 27,
+      owners: { '0xaaa': 15, '0xbbb': 12 },
+    });
+    expect(cells[0].share).toBeCloseTo(15 / CHILDREN.length);
+
+    const wider = ownershipCells(TERRITORIES, gridDisk(HOME, 3));
+    expect(wider.map((c) => c.h3Index)).toEqual([HOME, FAR].sort());
+  });
+
+  it('gives every owner one colour whatever the case', () => {
+    expect(ownerColor('0xAAA')).toBe(ownerColor('0xaaa'));
+    expect(ownerColor('0xaaa')).not.toBe(ownerColor('0xbbb'));
+    expect(ownerColor('0xaaa')).toMatch(/^hsl\(\d+, 70%, 50%\)$/);
+  });
+});
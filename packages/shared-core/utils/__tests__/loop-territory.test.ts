@@ -0,0 +1,123 @@
+/**
+ * Loop territory tests
+ */
+import { coordsToCell, neighboringCells, routeToCells } from '../h3-territory';
+import { loopTerritory, splitIntoLoops, territoryCells } from '../loop-territory';
+
+const LAT = 40.758;
+const LNG = -73.9855;
+const KM_LAT = 1 / 111.2;
+const KM_LNG = 1 / (111.2 * Math.cos((LAT * Math.PI) / 180));
+
+/** Walk through `corners` (in km from LAT/LNG) in 50 m steps. */
+function route(corners: Array<[number, number]>) {
+  const points: Array<{ lat: number; lng: number }> = [];
+  for (let i = 0; i < corners.length - 1; i++) {
+    const [y0, x0] = corners[i];
+    const [y1, x1] = corners[i + 1];
+    const steps = Math.max(1, Math.round(Math.hypot(y1 - y0, x1 - x0) / 0.05));
+    for (let s = 0; s < steps; s++) {
+      const f = s / steps;
+      points.push({
+        lat: LAT + (y0 + (y1 - y0) * f) * KM_LAT,
+        lng: LNG + (x0 + (x1 - x0) * f) * KM_LNG,
+      });
+    }
+  }
+  return points;
+}
+
+const cellAt = (y: number, x: number) => coordsToCell(LAT + y * KM_LAT, LNG + x * KM_LNG).h3Index;
+
+describe('loop-territory', () => {
+  // A 1.5 km square: 6 km around, ~2.25 km² inside
+  const square = route([
+    [0, 0],
+    [0, 1.5],
+    [1.5, 1.5],
+    [1.5, 0],
+    [0, 0],
+  ]);
+
+  it('claims the interior of a loop, not just the trace', () => {
+    const loop = loopTerritory(square, 6000);
+    const middle = cellAt(0.75, 0.75);
+
+    expect(loop.traceCells).not.toContain(middle);
+    expect(loop.cells).toContain(middle);
+    expect(loop.cells.slice(0, loop.traceCells.length)).toEqual(loop.traceCells);
+    expect(loop.cells.length).toBeGreaterThan(loop.traceCells.length + 5);
+    expect(loop.capped).toBe(false);
+  });
+
+  it('cuts a figure-eight into two loops and fills both lobes', () => {
+    // Crosses itself once in the middle of the bowtie
+    const bowtie = route([
+      [0, 0],
+      [1, 1],
+      [1, 2],
+      [0, 2],
+      [0, 1],
+      [1, 0],
+      [0, 0],
+    ]);
+    const loops = splitIntoLoops(bowtie);
+    expect(loops).toHaveLength(2);
+    for (const loop of loops) {
+      expect(loop[0]).toEqual(loop[loop.length - 1]);
+    }
+
+    const { cells } = loopTerritory(bowtie, 6000);
+    expect(cells).toContain(cellAt(0.5, 1.5));
+    expect(cells).toContain(cellAt(0.5, 0.2));
+  });
+
+  it('caps the claim by distance, keeping the cells nearest the trace', () => {
+    // 3 km square: 12 km around, ~9 km² inside
+    const big = route([
+      [0, 0],
+      [0, 3],
+      [3, 3],
+      [3, 0],
+      [0, 0],
+    ]);
+    const full = loopTerritory(big, 12_000);
+    expect(full.capped).toBe(false);
+
+    const traceOnly = loopTerritory(big, 12_000, { cellsPerKm: 1 });
+    expect(traceOnly.capped).toBe(true);
+    expect(traceOnly.cells).toEqual(traceOnly.traceCells);
+
+    const partial = loopTerritory(big, 12_000, { cellsPerKm: 4 });
+    expect(partial.cells).toHaveLength(48);
+    expect(partial.cells).not.toContain(cellAt(1.5, 1.5));
+    const besideTrace = new Set(
+      partial.traceCells.flatMap((idx) => neighboringCells(idx, 1).map((c) => c.h3Index))
+    );
+    expect(partial.cells.every((idx) => besideTrace.has(idx))).toBe(true);
+  });
+
+  it('grows into a loop far bigger than the cap without filling it', () => {
+    // 20 km square: 80 km around, ~400 km² inside, claimed as a 30 km run
+    const huge = route([
+      [0, 0],
+      [0, 20],
+      [20, 20],
+      [20, 0],
+      [0, 0],
+    ]);
+    const loop = loopTerritory(huge, 30_000, { cellsPerKm: 20 });
+    expect(loop.capped).toBe(true);
+    expect(loop.cells).toHaveLength(600);
+    expect(loop.cells).not.toContain(cellAt(10, 10));
+    expect(loop.cells).toContain(cellAt(0.3, 10));
+    expect(loop.cells).not.toContain(cellAt(-0.3, 10));
+  });
+
+  it('leaves trace mode as the cells passed through', () => {
+    expect(territoryCells(square, 6000, 'trace')).toEqual(
+      routeToCells(square).map((c) => c.h3Index)
+    );
+    expect(splitIntoLoops(square.slice(0, 2))).toEqual([]);
+  });
+});
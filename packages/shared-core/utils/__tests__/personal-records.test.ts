@@ -0,0 +1,88 @@
+/**
+ * Personal records tests
+ */
+import {
+  applyRunToRecords,
+  computeAllRecords,
+  computeRunRecords,
+  findBestEffort,
+  formatRecordValue,
+} from '../personal-records';
+
+const START = Date.parse('2024-05-01T07:00:00Z');
+const METERS_PER_DEGREE_LAT = 111_195;
+
+/**
+ * A run due north, one fix every 10 s, at `speeds[i]` m/s for the i-th
+ * kilometre (the last speed holds for the rest).
+ */
+function run(id: string, distance: number, speeds: number[], startTime = START) {
+  const points = [{ lat: 0, lng: 0, timestamp: startTime }];
+  let covered = 0;
+  let t = startTime;
+  while (covered < distance) {
+    const speed = speeds[Math.min(Math.floor(covered / 1000), speeds.length - 1)];
+    covered = Math.min(distance, covered + speed * 10);
+    t += 10_000;
+    points.push({ lat: covered / METERS_PER_DEGREE_LAT, lng: 0, timestamp: t });
+  }
+  return { id, startTime, totalDistance: distance, points };
+}
+
+describe('personal-records', () => {
+  it('finds the fastest stretch anywhere in the run', () => {
+    // 4 m/s, then a 5 m/s kilometre, then 4 m/s again
+    const effort = findBestEffort(run('a', 3000, [4, 5, 4]).points, 1000);
+    expect(effort?.duration).toBeCloseTo(200_000, -2);
+    expect(effort?.startTime).toBeCloseTo(START + 250_000, -3);
+  });
+
+  it('leaves pauses out of effort time', () => {
+    const { points } = run('a', 2000, [4]);
+    // A 10-minute stop halfway; the 10 s step across it counts as paused too
+    const paused = points.map((p, i) => (i > 25 ? { ...p, timestamp: p.timestamp + 600_000 } : p));
+    expect(findBestEffort(paused, 2000)?.duration).toBeCloseTo(490_000, 0);
+    expect(findBestEffort(paused, 5000)).toBeNull();
+  });
+
+  it('records every distance a run covers, plus distance and climb', () => {
+    const records = computeRunRecords({ ...run('a', 5200, [4]), elevation: { gain: 87 } });
+    expect(records.map((r) => r.kind)).toEqual(['1k', '1mi', '5k', 'longestRun', 'biggestClimb']);
+    expect(records.find((r) => r.kind === '5k')?.value).toBeCloseTo(1_250_000, -3);
+  });
+
+  it('reports only records a run beats, with the one it replaced', () => {
+    const first = applyRunToRecords({}, run('a', 5000, [4]));
+    expect(first.achieved).toEqual([]);
+
+    const second = applyRunToRecords(first.records, run('b', 3000, [5], START + 86_400_000));
+    expect(second.achieved.map((r) => r.kind)).toEqual(['1k', '1mi']);
+    expect(second.achieved[0].previous).toEqual({
+      value: first.records['1k']?.value,
+      runId: 'a',
+      achievedAt: START,
+    });
+    expect(second.records['5k']?.runId).toBe('a');
+    expect(second.records.longestRun?.runId).toBe('a');
+
+    // Checking the same run again changes nothing
+    expect(applyRunToRecords(second.records, run('b', 3000, [5])).achieved).toEqual([]);
+  });
+
+  it('rebuilds the book from history in date order', () => {
+    const later = run('fast', 1000, [5], START + 86_400_000);
+    const earlier = run('slow', 1000, [4]);
+    const book = computeAllRecords([later, earlier]);
+    expect(book['1k']?.runId).toBe('fast');
+    expect(book['1k']?.previous?.runId).toBe('slow');
+  });
+
+  it('formats record values', () => {
+    const record = { runId: 'a', achievedAt: START };
+    expect(formatRecordValue({ ...record, kind: '5k', value: 1_453_000 })).toBe('24:13');
+    expect(formatRecordValue({ ...record, kind: 'longestRun', value: 21_097.5 })).toBe('21.10 km');
+    expect(formatRecordValue({ ...record, kind: 'biggestClimb', value: 312.4 }, false)).toBe(
+      '1025 ft'
+    );
+  });
+});
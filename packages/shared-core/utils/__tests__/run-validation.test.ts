@@ -0,0 +1,219 @@
+/**
+ * Run validation tests
+ *
+ * Runs are generated as laps of a circle from a seeded PRNG, so a
+ * failure reproduces; each cheat is the honest run with one thing
+ * changed.
+ */
+import { haversineDistance } from '../geo-distance';
+import { RUN_VALIDATION_RULES, type ValidationPoint, validateRun } from '../run-validation';
+
+const T0 = Date.parse('2024-06-01T07:00:00Z');
+const CENTER = { lat: 51.5074, lng: -0.1278 };
+const METERS_PER_DEG_LAT = 111_320;
+
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface TrackOptions {
+  seed?: number;
+  meters?: number;
+  speed?: (random: () => number) => number; // m/s per fix
+  accuracy?: (random: () => number) => number;
+  intervalMs?: number;
+}
+
+/** A loop around CENTER at running pace, one fix every few seconds. */
+function track({
+  seed = 1,
+  meters = 3000,
+  speed = (random) => 2.6 + random() * 0.8,
+  accuracy = (random) => 4 + random() * 8,
+  intervalMs = 3000,
+}: TrackOptions = {}): ValidationPoint[] {
+  const random = mulberry32(seed);
+  const radius = meters / (2 * Math.PI);
+  const points: ValidationPoint[] = [];
+  let angle = 0;
+  let at = T0;
+  while (angle < 2 * Math.PI) {
+    points.push({
+      lat: CENTER.lat + (radius * Math.sin(angle)) / METERS_PER_DEG_LAT,
+      lng:
+        CENTER.lng +
+        (radius * Math.cos(angle)) / (METERS_PER_DEG_LAT * Math.cos((CENTER.lat * Math.PI) / 180)),
+      timestamp: at,
+      accuracy: accuracy(random),
+    });
+    angle += (speed(random) * (intervalMs / 1000)) / radius;
+    at += intervalMs;
+  }
+  return points;
+}
+
+function runOf(points: ValidationPoint[]) {
+  let totalDistance = 0;
+  for (let i = 1; i < points.length; i++) {
+    totalDistance += haversineDistance(points[i - 1], points[i]);
+  }
+  return {
+    id: 'run_1',
+    points,
+    totalDistance,
+    totalDuration: points[points.length - 1].timestamp - points[0].timestamp,
+  };
+}
+
+describe('run-validation', () => {
+  it('accepts honest runs', () => {
+    for (const seed of [1, 2, 3, 4, 5]) {
+      const verdict = validateRun(runOf(track({ seed })));
+      expect([seed, verdict.verdict, verdict.reasons]).toEqual([seed, 'accepted', []]);
+      expect(verdict.score).toBe(100);
+    }
+  });
+
+  it('rejects malformed payloads with the reasons', () => {
+    expect(validateRun(null).reasons).toEqual([
+      'run.points must contain at least two points',
+      'run.totalDistance must be a positive number',
+      'run.totalDuration must be a positive number',
+    ]);
+    const points = track();
+    points[3] = { ...points[3], lat: 91 };
+    const verdict = validateRun(runOf(points));
+    expect(verdict).toMatchObject({ verdict: 'rejected', score: 0 });
+    expect(verdict.reasons).toEqual(['run.points[3] needs a valid lat, lng and timestamp']);
+  });
+
+  it('rejects teleporting points', () => {
+    const points = track();
+    // Hop 2 km away and back, once
+    points[40] = { ...points[40], lat: points[40].lat + 2000 / METERS_PER_DEG_LAT };
+    const verdict = validateRun(runOf(points));
+    expect(verdict.verdict).toBe('rejected');
+    expect(verdict.reasons[0]).toMatch(/^2 teleport\(s\), the longest 2\d{3}m$/);
+  });
+
+  it('forgives the odd GPS glitch but not a run full of them', () => {
+    const glitch = (every: number) => {
+      const points = track();
+      for (let i = 20; i < points.length; i += every) {
+        points[i] = { ...points[i], lat: points[i].lat + 120 / METERS_PER_DEG_LAT };
+      }
+      return validateRun(runOf(points));
+    };
+    expect(glitch(150).verdict).toBe('accepted');
+    const noisy = glitch(20);
+    expect(noisy.verdict).toBe('rejected');
+    expect(noisy.reasons.join('\n')).toMatch(/segment\(s\) faster than 12 m\/s/);
+  });
+
+  it('rejects time running backwards or a duration the points do not span', () => {
+    const points = track();
+    [points[10], points[11]] = [points[11], points[10]];
+    expect(validateRun(runOf(points)).reasons).toContain('1 point(s) go back in time');
+
+    const run = runOf(track());
+    const verdict = validateRun({ ...run, totalDuration: run.totalDuration * 2 });
+    expect(verdict.verdict).toBe('rejected');
+    expect(verdict.reasons[0]).toMatch(/^claims \d+s but the points span \d+s$/);
+  });
+
+  it('rejects a totalDistance the points do not cover', () => {
+    const run = runOf(track());
+    const padded = validateRun({ ...run, totalDistance: run.totalDistance * 1.1 });
+    expect(padded.verdict).toBe('accepted');
+
+    const doubled = validateRun({ ...run, totalDistance: run.totalDistance * 2 });
+    expect(doubled.verdict).toBe('rejected');
+    expect(doubled.score).toBeLessThanOrEqual(RUN_VALIDATION_RULES.acceptScore);
+    expect(doubled.reasons[0]).toMatch(/^totalDistance is \d+m but the points cover \d+m$/);
+  });
+
+  it('rejects a hand-made loop of a few far-apart corners', () => {
+    // Four corners of a square, timed at a runner's 6 m/s
+    const square = (degrees: number, totalDistance: number) => {
+      const corners = [
+        [0, 0],
+        [degrees, 0],
+        [degrees, degrees],
+        [0, degrees],
+        [0, 0],
+      ].map(([dLat, dLng]) => ({ lat: CENTER.lat + dLat, lng: CENTER.lng + dLng }));
+      let at = T0;
+      const points = corners.map((corner, i) => {
+        if (i > 0) at += (haversineDistance(corners[i - 1], corner) / 6) * 1000;
+        return { ...corner, timestamp: at, accuracy: 5 + i };
+      });
+      return validateRun({ points, totalDistance, totalDuration: at - T0 });
+    };
+
+    const small = square(0.2, 40_000);
+    expect(small.verdict).toBe('rejected');
+    expect(small.reasons).toContain('jumps 22239m between two points');
+    expect(small.reasons.join('\n')).toMatch(/^totalDistance is 40000m but the points cover/m);
+
+    const large = square(1, 444_000);
+    expect(large.verdict).toBe('rejected');
+    expect(large.reasons.join('\n')).toMatch(/jumps 111\d{3}m between two points/);
+  });
+
+  it('rejects a run averaging faster than any runner', () => {
+    const verdict = validateRun(runOf(track({ speed: (random) => 7 + random() * 0.9 })));
+    expect(verdict.verdict).toBe('rejected');
+    expect(verdict.reasons.join('\n')).toMatch(/averages 7\.\d m\/s/);
+  });
+
+  it('rejects a sustained stretch on wheels', () => {
+    let fix = 0;
+    // Ninety seconds at cycling pace in the middle of a normal run
+    const cycling = (random: () => number) => (fix++ >= 200 && fix <= 230 ? 9.5 : 2.6 + random());
+    const verdict = validateRun(runOf(track({ meters: 5000, speed: cycling })));
+    expect(verdict.verdict).toBe('rejected');
+    expect(verdict.reasons).toContain('90s above 8 m/s');
+  });
+
+  it('rejects machine-steady pace and flags uniform accuracy', () => {
+    const verdict = validateRun(runOf(track({ speed: () => 3, accuracy: () => 5 })));
+    expect(verdict.verdict).toBe('rejected');
+    expect(verdict.reasons).toEqual(['GPS accuracy never varies', 'speed is unnaturally steady']);
+  });
+
+  it('flags sparse tracks and long unrecorded jumps', () => {
+    const sparse = track({ intervalMs: 60_000 });
+    const verdict = validateRun(runOf(sparse));
+    expect(verdict.checks.find((c) => c.name === 'density')).toMatchObject({ passed: false });
+    expect(verdict.reasons.join('\n')).toMatch(/only \d\.\d points per km/);
+    expect(verdict.verdict).toBe('suspicious');
+
+    // Drop a 1.2 km stretch of points, keeping the time it took, as a
+    // pause, a walk and a resume would
+    const points = track({ meters: 5000 });
+    const gapped = [...points.slice(0, 100), ...points.slice(235)];
+    const jumped = validateRun(runOf(gapped));
+    expect(jumped.verdict).toBe('suspicious');
+    expect(jumped.reasons.join('\n')).toMatch(/jumps 1\d{3}m between two points/);
+  });
+
+  it('cannot accept a track without timestamps', () => {
+    const run = runOf(track());
+    const verdict = validateRun({
+      ...run,
+      points: run.points.map((p) => ({ ...p, timestamp: 0 })),
+    });
+    expect(verdict.verdict).toBe('suspicious');
+    expect(verdict.checks.filter((c) => c.skipped).map((c) => c.name)).toEqual([
+      'timestamps',
+      'speed',
+      'vehicle',
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Sign-In with Ethereum message tests
+ */
+import {
+  checkSiweMessage,
+  formatSiweMessage,
+  parseSiweMessage,
+  SIWE_MAX_AGE_MS,
+  SIWE_STATEMENT,
+  type SiweMessage,
+} from '../siwe';
+
+const T0 = Date.parse('2024-06-01T07:00:00Z');
+
+const message: SiweMessage = {
+  domain: 'runrealm.app',
+  address: '0x71C7656EC7ab88b098defB751B7401B5f6d8976F',
+  statement: SIWE_STATEMENT,
+  uri: 'https://runrealm.app',
+  version: '1',
+  chainId: 7001,
+  nonce: '9f2c4e1a7b3d5f60',
+  issuedAt: new Date(T0).toISOString(),
+};
+
+describe('siwe', () => {
+  it('writes the EIP-4361 layout and reads it back', () => {
+    const text = formatSiweMessage(message);
+    expect(text.split('\n')).toEqual([
+      'runrealm.app wants you to sign in with your Ethereum account:',
+      '0x71C7656EC7ab88b098defB751B7401B5f6d8976F',
+      '',
+      'Sign in to RunRealm to sync your runs.',
+      '',
+      'URI: https://runrealm.app',
+      'Version: 1',
+      'Chain ID: 7001',
+      'Nonce: 9f2c4e1a7b3d5f60',
+      'Issued At: 2024-06-01T07:00:00.000Z',
+    ]);
+    expect(parseSiweMessage(text)).toEqual(message);
+
+    const bare = { ...message, statement: undefined, expirationTime: '2024-06-01T07:05:00.000Z' };
+    const { statement: _statement, ...expected } = bare;
+    expect(parseSiweMessage(formatSiweMessage(bare))).toEqual(expected);
+  });
+
+  it('refuses anything that is not a sign-in message', () => {
+    const text = formatSiweMessage(message);
+    expect(parseSiweMessage('hello')).toBeNull();
+    expect(parseSiweMessage(text.replace(message.address, '0x1234'))).toBeNull();
+    expect(parseSiweMessage(text.replace('Version: 1', 'Version: 2'))).toBeNull();
+    expect(parseSiweMessage(`${text}\nResources: injected`)).toBeNull();
+  });
+
+  it('checks the nonce, domain and time window', () => {
+    const expected = { nonce: message.nonce, now: T0 + 1000, domains: ['runrealm.app'] };
+    expect(checkSiweMessage(message, expected)).toEqual([]);
+    expect(checkSiweMessage(message, { ...expected, nonce: 'another0nonce' })).toEqual([
+      'nonce does not match',
+    ]);
+    expect(checkSiweMessage({ ...message, domain: 'evil.example' }, expected)).toEqual([
+      'domain evil.example is not accepted',
+    ]);
+    expect(checkSiweMessage(message, { ...expected, now: T0 + SIWE_MAX_AGE_MS + 1 })).toEqual([
+      'message has expired',
+    ]);
+    expect(checkSiweMessage(message, { ...expected, now: T0 - 5 * 60_000 })).toEqual([
+      'issued in the future',
+    ]);
+    const shortLived = { ...message, expirationTime: new Date(T0 + 500).toISOString() };
+    expect(checkSiweMessage(shortLived, expected)).toEqual(['message has expired']);
+  });
+});
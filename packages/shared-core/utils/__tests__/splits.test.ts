@@ -0,0 +1,121 @@
+/**
+ * Distance split tests
+ *
+ * Routes run due north; one degree of latitude is ~111.195 km.
+ */
+import { computeSplits, markSplitExtremes, type RunSplit, SplitTracker } from '../splits';
+
+const START = Date.parse('2024-05-01T07:00:00Z');
+const METERS_PER_DEG_LAT = 111_195;
+
+function point(meters: number, seconds: number, altitude?: number) {
+  return {
+    lat: 51.5 + meters / METERS_PER_DEG_LAT,
+    lng: -0.12,
+    timestamp: START + seconds * 1000,
+    altitude,
+  };
+}
+
+/** A point every 30 m at a steady `speed` m/s. */
+function steadyRun(meters: number, speed: number) {
+  const points = [];
+  for (let d = 0; d <= meters; d += 30) points.push(point(d, d / speed));
+  return points;
+}
+
+describe('splits', () => {
+  describe('SplitTracker', () => {
+    it('interpolates the boundary between the fixes either side', () => {
+      const tracker = new SplitTracker('km', { maxGapMs: 600_000 });
+      tracker.addPoint(point(0, 0));
+      expect(tracker.addPoint(point(900, 300))).toEqual([]);
+      const [split] = tracker.addPoint(point(1100, 400));
+
+      expect(split.index).toBe(1);
+      expect(split.distance).toBe(1000);
+      // 1000 m sits halfway between the fixes, at 350 s.
+      expect(split.duration).toBeCloseTo(350_000, -3);
+      expect(split.pace).toBeCloseTo(350, 0);
+      expect(split.end.lat).toBeCloseTo(point(1000, 0).lat, 6);
+    });
+
+    it('completes several splits from one long step', () => {
+      const tracker = new SplitTracker('km');
+      tracker.addPoint(point(0, 0));
+      const splits = tracker.addPoint(point(2500, 750));
+      expect(splits.map((s) => s.index)).toEqual([1, 2]);
+      expect(tracker.getPartial()).toMatchObject({ index: 3, partial: true });
+    });
+
+    it('does not count a long gap between fixes as moving time', () => {
+      const tracker = new SplitTracker('km');
+      const splits: RunSplit[] = [];
+      // 3 m/s with a fix every 30 m, paused for 10 minutes at 510 m.
+      for (let d = 0; d <= 1020; d += 30) {
+        const seconds = d / 3 + (d > 510 ? 600 : 0);
+        splits.push(...tracker.addPoint(point(d, seconds)));
+      }
+
+      // The fix after the pause lands 30 m later; those 10 s count.
+      expect(splits[0].duration).toBeCloseTo(323_333, -3);
+      expect(splits[0].endTime - splits[0].startTime).toBeCloseTo(933_333, -3);
+    });
+
+    it('reports the elevation change across a split', () => {
+      const tracker = new SplitTracker('km');
+      tracker.addPoint(point(0, 0, 10));
+      const [split] = tracker.addPoint(point(2000, 600, 50));
+      expect(split.elevationDelta).toBeCloseTo(20, 3);
+    });
+  });
+
+  describe('computeSplits', () => {
+    it('splits a 5.19 km run into five full km and a partial one', () => {
+      const splits = computeSplits(steadyRun(5190, 3), 'km');
+
+      expect(splits).toHaveLength(6);
+      expect(splits.slice(0, 5).every((s) => !s.partial && s.distance === 1000)).toBe(true);
+      expect(splits[5].partial).toBe(true);
+      expect(splits[5].distance).toBeCloseTo(190, 0);
+      // Partial paces are scaled to a full unit.
+      expect(splits[5].pace).toBeCloseTo(333, 0);
+    });
+
+    it('uses miles when asked', () => {
+      const splits = computeSplits(steadyRun(3300, 3), 'mi');
+      expect(splits.map((s) => s.partial)).toEqual([false, false, true]);
+      expect(splits[0]).toMatchObject({ unit: 'mi', distance: 1609.344 });
+      expect(splits[0].pace).toBeCloseTo(536, 0);
+    });
+
+    it('returns nothing for a single point', () => {
+      expect(computeSplits([point(0, 0)], 'km')).toEqual([]);
+    });
+  });
+
+  describe('markSplitExtremes', () => {
+    const split = (index: number, pace: number, partial = false) =>
+      ({ index, pace, partial }) as RunSplit;
+
+    it('flags the fastest and slowest full splits only', () => {
+      const marked = markSplitExtremes([
+        split(1, 300),
+        split(2, 280),
+        split(3, 320),
+        split(4, 200, true),
+      ]);
+      expect(marked.map((s) => [s.fastest ?? false, s.slowest ?? false])).toEqual([
+        [false, false],
+        [true, false],
+        [false, true],
+        [false, false],
+      ]);
+    });
+
+    it('marks nothing when every split is the same pace', () => {
+      const marked = markSplitExtremes([split(1, 300), split(2, 300)]);
+      expect(marked.some((s) => s.fastest || s.slowest)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Territory contest tests
+ */
+import {
+  activeContest,
+  CONTEST_ATTACK_POINTS_PER_CELL,
+  CONTEST_EXPIRY_MS,
+  isContestable,
+  isContestExpired,
+  MAX_CONTEST_HISTORY,
+  recordAttack,
+  resolveContest,
+  startContest,
+  withContest,
+} from '../territory-contest';
+
+const T0 = Date.parse('2024-06-01T08:00:00Z');
+
+describe('territory-contest', () => {
+  it('only opens on vulnerable or claimable territories', () => {
+    expect(isContestable('vulnerable')).toBe(true);
+    expect(isContestable('claimable')).toBe(true);
+    expect(isContestable('moderate')).toBe(false);
+    expect(isContestable(undefined)).toBe(false);
+  });
+
+  it('accumulates attacks across runs, listing each cell and run once', () => {
+    let contest = startContest('c1', '0xchallenger', '0xowner', T0);
+    for (const [cell, runId, at] of [
+      ['a', 'run-1', T0 + 1000],
+      ['b', 'run-1', T0 + 2000],
+      ['a', 'run-2', T0 + 86_400_000],
+    ] as const) {
+      const attack = recordAttack(contest, { cell, runId, at });
+      expect(attack.points).toBe(CONTEST_ATTACK_POINTS_PER_CELL);
+      contest = attack.contest;
+    }
+
+    expect(contest.attackPoints).toBe(3 * CONTEST_ATTACK_POINTS_PER_CELL);
+    expect(contest.cellsHit).toEqual(['a', 'b']);
+    expect(contest.runIds).toEqual(['run-1', 'run-2']);
+    expect(contest.lastAttackAt).toBe(T0 + 86_400_000);
+  });
+
+  it('lapses after a quiet spell, dated from the last attack', () => {
+    const contest = startContest('c1', '0xchallenger', '0xowner', T0);
+    expect(isContestExpired(contest, T0 + CONTEST_EXPIRY_MS - 1)).toBe(false);
+    expect(isContestExpired(contest, T0 + CONTEST_EXPIRY_MS)).toBe(true);
+
+    const expired = resolveContest(contest, 'expired', T0 + 10 * CONTEST_EXPIRY_MS);
+    expect(expired.resolvedAt).toBe(T0 + CONTEST_EXPIRY_MS);
+    expect(isContestExpired(expired, T0 + 10 * CONTEST_EXPIRY_MS)).toBe(false);
+  });
+
+  it('keeps the active contest last and the history capped', () => {
+    const first = startContest('c1', '0xa', '0xowner', T0);
+    let history = withContest(undefined, first);
+    expect(activeContest(history)).toBe(first);
+
+    const attacked = recordAttack(first, { cell: 'a', runId: 'r', at: T0 + 1 }).contest;
+    history = withContest(history, attacked);
+    expect(history).toEqual([attacked]);
+
+    history = withContest(history, resolveContest(attacked, 'defended', T0 + 2));
+    expect(activeContest(history)).toBeNull();
+
+    for (let i = 2; i <= MAX_CONTEST_HISTORY + 5; i++) {
+      history = withContest(
+        history,
+        resolveContest(startContest(`c${i}`, '0xa', '0xo', T0), 'expired', T0)
+      );
+    }
+    expect(history).toHaveLength(MAX_CONTEST_HISTORY);
+    expect(history[history.length - 1].id).toBe(`c${MAX_CONTEST_HISTORY + 5}`);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Territory defense engine tests
+ *
+ * The rules are read back out of the generated RealmRules.sol so the
+ * engine is checked against the constants the contracts actually see,
+ * and the property checks run over event logs drawn from a seeded PRNG
+ * so any failure reproduces.
+ */
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { GAME_RULES } from '../../config/game-rules';
+import {
+  applyDefenseEvent,
+  DAY_MS,
+  type DefenseEvent,
+  type DefenseRules,
+  decayDefense,
+  defenseStatus,
+  defenseStatusAt,
+  nextDecayTick,
+  replayDefense,
+  UNCLAIMED_DEFENSE,
+  utcDay,
+} from '../territory-defense';
+
+const REALM_RULES = join(__dirname, '../../../../contracts/generated/RealmRules.sol');
+
+function solidityConstants(path: string): Record<string, number> {
+  const constants: Record<string, number> = {};
+  for (const [, name, value] of readFileSync(path, 'utf-8').matchAll(
+    /uint256 public constant (\w+)\s*=\s*(\d+);/g
+  )) {
+    constants[name] = Number(value);
+  }
+  return constants;
+}
+
+const SOL = solidityConstants(REALM_RULES);
+const RULES: DefenseRules = {
+  maxPoints: SOL.ACTIVITY_MAX_POINTS,
+  initialPoints: SOL.ACTIVITY_INITIAL_POINTS,
+  decayPerDay: SOL.ACTIVITY_DECAY_PER_DAY,
+  boostPoints: SOL.ACTIVITY_BOOST_POINTS,
+  boostLimitPerDay: SOL.ACTIVITY_BOOST_LIMIT_PER_DAY,
+  runThroughPointsPerCell: SOL.ACTIVITY_RUN_THROUGH_POINTS_PER_CELL,
+  thresholds: {
+    strongMin: SOL.ACTIVITY_STRONG_MIN,
+    moderateMin: SOL.ACTIVITY_MODERATE_MIN,
+    vulnerableMin: SOL.ACTIVITY_VULNERABLE_MIN,
+  },
+  timeoutMs: SOL.ACTIVITY_TIMEOUT_MS,
+};
+
+const T0 = Date.parse('2024-06-01T08:00:00Z');
+const OWNER = '0xOwner';
+const PLAYERS = [OWNER, '0xaaa', '0xbbb'];
+
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A claim followed by a few weeks of run-throughs, boosts and decay ticks. */
+function randomLog(seed: number): DefenseEvent[] {
+  const random = mulberry32(seed);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const events: DefenseEvent[] = [{ type: 'claim', at: T0, owner: OWNER }];
+  let at = T0;
+  for (let i = 0; i < 40; i++) {
+    at += Math.floor(random() * 3 * DAY_MS);
+    const kind = pick(['runThrough', 'runThrough', 'boost', 'decay'] as const);
+    if (kind === 'runThrough') {
+      events.push({ type: kind, at, runner: pick(PLAYERS), cells: 1 + Math.floor(random() * 8) });
+    } else if (kind === 'boost') {
+      events.push({ type: kind, at, by: pick(PLAYERS) });
+    } else {
+      events.push({ type: kind, at });
+    }
+  }
+  return events;
+}
+
+const SEEDS = Array.from({ length: 200 }, (_, i) => i + 1);
+
+describe('territory-defense', () => {
+  it('runs on the same constants the contracts are generated with', () => {
+    const { thresholds, ...flat } = RULES;
+    for (const [key, value] of Object.entries(flat)) {
+      expect([key, value]).toEqual([key, GAME_RULES.activity[key as keyof typeof flat]]);
+    }
+    expect(thresholds).toEqual(GAME_RULES.activity.thresholds);
+  });
+
+  it('grades points by the RealmRules thresholds', () => {
+    const { strongMin, moderateMin, vulnerableMin } = RULES.thresholds;
+    expect(defenseStatus(strongMin, RULES)).toBe('strong');
+    expect(defenseStatus(strongMin - 1, RULES)).toBe('moderate');
+    expect(defenseStatus(moderateMin - 1, RULES)).toBe('vulnerable');
+    expect(defenseStatus(vulnerableMin - 1, RULES)).toBe('claimable');
+  });
+
+  it('decays per UTC day like the contract, floored at zero', () => {
+    const claimed = applyDefenseEvent(
+      UNCLAIMED_DEFENSE,
+      { type: 'claim', at: T0, owner: OWNER },
+      RULES
+    );
+    // Same UTC day: nothing, however many times it runs
+    const endOfDay = (utcDay(T0) + 1) * DAY_MS - 1;
+    expect(decayDefense(claimed, endOfDay, RULES).points).toBe(RULES.initialPoints);
+    expect(nextDecayTick(claimed, T0, RULES)).toBe(endOfDay + 1);
+
+    for (const days of [1, 7, 30, 1000]) {
+      const at = T0 + days * DAY_MS;
+      expect(decayDefense(claimed, at, RULES).points).toBe(
+        Math.max(0, RULES.initialPoints - days * RULES.decayPerDay)
+      );
+    }
+    expect(nextDecayTick(decayDefense(claimed, T0 + 1000 * DAY_MS, RULES), T0, RULES)).toBeNull();
+  });
+
+  it('holds boosts to the daily limit per booster and caps points', () => {
+    let state = applyDefenseEvent(
+      UNCLAIMED_DEFENSE,
+      { type: 'claim', at: T0, owner: OWNER },
+      RULES
+    );
+    state = applyDefenseEvent(state, { type: 'boost', at: T0 + 1, by: OWNER }, RULES);
+    state = applyDefenseEvent(state, { type: 'boost', at: T0 + 2, by: '0xOWNER' }, RULES);
+    expect(state.points).toBe(RULES.initialPoints + RULES.boostPoints * RULES.boostLimitPerDay);
+
+    for (let day = 1; day <= 20; day++) {
+      state = applyDefenseEvent(state, { type: 'boost', at: T0 + day * DAY_MS, by: OWNER }, RULES);
+    }
+    expect(state.points).toBe(RULES.maxPoints);
+  });
+
+  it('hands a worn-down territory to the challenger who runs through it', () => {
+    // 31 days of decay leaves 190 points, but the owner has timed out
+    const quiet = T0 + 31 * DAY_MS;
+    const log: DefenseEvent[] = [
+      { type: 'claim', at: T0, owner: OWNER },
+      { type: 'runThrough', at: quiet, runner: '0xaaa', cells: 2 },
+    ];
+    const attacked = replayDefense(log, quiet, RULES);
+    expect(defenseStatusAt(attacked, quiet, RULES)).toBe('claimable');
+    expect(attacked).toMatchObject({ owner: OWNER, points: 140 });
+
+    log.push({ type: 'runThrough', at: quiet + 1, runner: '0xaaa', cells: 2 });
+    const captured = replayDefense(log, quiet + 1, RULES);
+    expect(captured).toMatchObject({
+      owner: '0xaaa',
+      points: RULES.initialPoints,
+      lastActivityAt: quiet + 1,
+    });
+  });
+
+  it('hands a gifted or sold territory over with its points', () => {
+    const quiet = T0 + 10 * DAY_MS;
+    const log: DefenseEvent[] = [
+      { type: 'claim', at: T0, owner: OWNER },
+      { type: 'transfer', at: quiet, to: '0xaaa' },
+    ];
+    const transferred = replayDefense(log, quiet, RULES);
+    expect(transferred).toMatchObject({
+      owner: '0xaaa',
+      points: RULES.initialPoints - 10 * RULES.decayPerDay,
+      lastActivityAt: quiet,
+    });
+    // The new owner gets a full timeout before the territory is claimable
+    expect(defenseStatusAt(transferred, quiet + RULES.timeoutMs - 1, RULES)).not.toBe('claimable');
+
+    // Nothing to hand over before a claim
+    expect(
+      applyDefenseEvent(UNCLAIMED_DEFENSE, { type: 'transfer', at: T0, to: '0xaaa' }, RULES)
+    ).toBe(UNCLAIMED_DEFENSE);
+  });
+
+  it('shrugs off challengers while the territory is defended', () => {
+    const log: DefenseEvent[] = [
+      { type: 'claim', at: T0, owner: OWNER },
+      { type: 'runThrough', at: T0 + 1, runner: '0xaaa', cells: 50 },
+    ];
+    expect(replayDefense(log, T0 + 1, RULES).points).toBe(RULES.initialPoints);
+  });
+
+  it('keeps points within [0, maxPoints] on every event', () => {
+    for (const seed of SEEDS) {
+      let state = UNCLAIMED_DEFENSE;
+      for (const event of randomLog(seed)) {
+        state = applyDefenseEvent(state, event, RULES);
+        expect(state.points).toBeGreaterThanOrEqual(0);
+        expect(state.points).toBeLessThanOrEqual(RULES.maxPoints);
+        for (const used of Object.values(state.boostsOnDay)) {
+          expect(used).toBeLessThanOrEqual(RULES.boostLimitPerDay);
+        }
+      }
+    }
+  });
+
+  it('replays to the same state whatever order the log arrives in', () => {
+    for (const seed of SEEDS) {
+      const log = randomLog(seed);
+      // Same-time events keep log order, so only shuffle when times are distinct
+      if (new Set(log.map((e) => e.at)).size !== log.length) continue;
+      const at = log[log.length - 1].at + DAY_MS;
+      const random = mulberry32(seed * 31);
+      const shuffled = log
+        .map((event) => ({ event, key: random() }))
+        .sort((a, b) => a.key - b.key)
+        .map(({ event }) => event);
+      expect(replayDefense(shuffled, at, RULES)).toEqual(replayDefense(log, at, RULES));
+    }
+  });
+
+  it('gives the same points however many decay ticks are run', () => {
+    for (const seed of SEEDS) {
+      const log = randomLog(seed);
+      const withoutTicks = log.filter((event) => event.type !== 'decay');
+      const random = mulberry32(seed * 17);
+      const extraTicks: DefenseEvent[] = Array.from({ length: 30 }, () => ({
+        type: 'decay',
+        at: T0 + Math.floor(random() * 60 * DAY_MS),
+      }));
+      for (const at of [T0 + 10 * DAY_MS, T0 + 45 * DAY_MS, T0 + 200 * DAY_MS]) {
+        const expected = replayDefense(withoutTicks, at, RULES);
+        expect(replayDefense(log, at, RULES).points).toBe(expected.points);
+        expect(replayDefense([...withoutTicks, ...extraTicks], at, RULES).points).toBe(
+          expected.points
+        );
+      }
+    }
+  });
+
+  it('only ever loses decay at the scheduled ticks', () => {
+    for (const seed of SEEDS.slice(0, 50)) {
+      const log = randomLog(seed);
+      let at = log[log.length - 1].at;
+      let state = replayDefense(log, at, RULES);
+      for (let tick = nextDecayTick(state, at, RULES); tick !== null; ) {
+        expect(decayDefense(state, tick - 1, RULES)).toBe(state);
+        const next = decayDefense(state, tick, RULES);
+        expect(next.points).toBe(Math.max(0, state.points - RULES.decayPerDay));
+        [state, at] = [next, tick];
+        tick = nextDecayTick(state, at, RULES);
+      }
+      expect(state.points).toBe(0);
+    }
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Territory eligibility tests
+ *
+ * Runs are laps of a circle at a steady-ish running pace; the open ones
+ * stop short of their start.
+ */
+import { GAME_RULES } from '../../config/game-rules';
+import { haversineDistance } from '../geo-distance';
+import { routeToCells } from '../h3-territory';
+import { loopTerritory } from '../loop-territory';
+import {
+  assessTerritoryEligibility,
+  type EligibilityRun,
+  TERRITORY_LOOP_CLOSURE_METERS,
+} from '../territory-eligibility';
+import { territoryIdFromCenter } from '../territory-id';
+import { territoryValue } from '../territory-reward';
+
+const T0 = Date.parse('2024-06-01T07:00:00Z');
+const CENTER = { lat: 51.5074, lng: -0.1278 };
+const METERS_PER_DEG_LAT = 111_320;
+
+/** `meters` around a circle, stopping `gap` meters short of the start. */
+function run(meters: number, gap = 0): EligibilityRun {
+  const circumference = meters + gap;
+  const radius = circumference / (2 * Math.PI);
+  const points: EligibilityRun['points'] = [];
+  for (let i = 0, walked = 0; walked <= meters; i++, walked += 8) {
+    const angle = (walked / circumference) * 2 * Math.PI;
+    points.push({
+      lat: CENTER.lat + (radius * Math.sin(angle)) / METERS_PER_DEG_LAT,
+      lng:
+        CENTER.lng +
+        (radius * Math.cos(angle)) / (METERS_PER_DEG_LAT * Math.cos((CENTER.lat * Math.PI) / 180)),
+      timestamp: T0 + i * 3000 + (i % 3) * 200,
+      accuracy: 4 + (i % 7),
+    });
+  }
+  let totalDistance = 0;
+  for (let i = 1; i < points.length; i++) {
+    totalDistance += haversineDistance(points[i - 1], points[i]);
+  }
+  const totalDuration = points[points.length - 1].timestamp - T0;
+  return {
+    points,
+    totalDistance,
+    totalDuration,
+    averageSpeed: totalDistance / (totalDuration / 1000),
+  };
+}
+
+describe('territory-eligibility', () => {
+  it('gives an eligible loop its territory id, cells and value', () => {
+    const loop = run(3000);
+    const result = assessTerritoryEligibility(loop);
+    expect(result).toMatchObject({ eligible: true, reasons: [] });
+    expect(result.validation.verdict).toBe('accepted');
+    expect(result.geohash).toBe(territoryIdFromCenter(loop.points[0].lat, loop.points[0].lng));
+    expect(result.h3Cells).toEqual(loopTerritory(loop.points, loop.totalDistance).cells);
+    expect(result.value).toEqual(territoryValue(loop));
+
+    const trace = assessTerritoryEligibility(loop, { mode: 'trace' });
+    expect(trace.h3Cells).toEqual(routeToCells(loop.points).map((c) => c.h3Index));
+  });
+
+  it('holds runs to the GAME_RULES distance bounds', () => {
+    const { minDistanceMeters, maxDistanceMeters } = GAME_RULES.territory;
+    expect(assessTerritoryEligibility(run(minDistanceMeters + 20)).eligible).toBe(true);
+
+    const short = assessTerritoryEligibility(run(minDistanceMeters - 30));
+    expect(short.eligible).toBe(false);
+    expect(short.reasons[0]).toMatch(/^\d+m is under the 100m minimum$/);
+    expect(short.geohash).toBeUndefined();
+
+    const long = run(3000);
+    const overLimit = assessTerritoryEligibility({ ...long, totalDistance: maxDistanceMeters + 1 });
+    expect(overLimit.reasons).toContain(`${maxDistanceMeters + 1}m is over the 50000m maximum`);
+  });
+
+  it('needs the run to come back to its start', () => {
+    expect(assessTerritoryEligibility(run(2000, TERRITORY_LOOP_CLOSURE_METERS - 10)).eligible).toBe(
+      true
+    );
+    const open = assessTerritoryEligibility(run(2000, 400));
+    expect(open.eligible).toBe(false);
+    expect(open.reasons).toEqual([
+      expect.stringMatching(/^finishes \d+m from the start, over 50m$/),
+    ]);
+    expect(assessTerritoryEligibility(run(2000, 400), { loopClosure: 500 }).eligible).toBe(true);
+  });
+
+  it('refuses runs the validator rejects and malformed uploads', () => {
+    const loop = run(3000);
+    const teleport = loop.points.map((p, i) =>
+      i === 40 ? { ...p, lat: p.lat + 2000 / METERS_PER_DEG_LAT } : p
+    );
+    const cheat = assessTerritoryEligibility({ ...loop, points: teleport });
+    expect(cheat.validation.verdict).toBe('rejected');
+    expect(cheat.reasons).toContain('rejected by run validation');
+
+    const empty = assessTerritoryEligibility({ ...loop, points: [] });
+    expect(empty).toMatchObject({ eligible: false, reasons: ['needs at least two points'] });
+    const garbage = assessTerritoryEligibility({ ...loop, points: 'nope' } as never);
+    expect(garbage.eligible).toBe(false);
+    expect(garbage.validation.verdict).toBe('rejected');
+  });
+
+  it('keeps suspicious and untimed runs out of territory', () => {
+    const loop = run(3000);
+    // One fix a minute: too sparse to trust, not enough to reject
+    const sparse = loop.points.filter((_p, i) => i % 20 === 0);
+    const suspicious = assessTerritoryEligibility({
+      ...loop,
+      points: [...sparse, loop.points[loop.points.length - 1]],
+    });
+    expect(suspicious.validation.verdict).toBe('suspicious');
+    expect(suspicious).toMatchObject({
+      eligible: false,
+      reasons: ['suspicious by run validation'],
+    });
+    expect(suspicious.h3Cells).toBeUndefined();
+
+    // A Strava polyline: a clean route with no timing at all
+    const untimed = assessTerritoryEligibility({
+      ...loop,
+      points: loop.points.map((p) => ({ ...p, timestamp: 0 })),
+    });
+    expect(untimed.validation.verdict).toBe('suspicious');
+    expect(untimed).toMatchObject({
+      eligible: false,
+      reasons: ['has no timestamps to validate; import the GPX or FIT file instead'],
+    });
+  });
+});
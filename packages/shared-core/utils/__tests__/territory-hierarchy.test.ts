@@ -0,0 +1,105 @@
+/**
+ * Territory hierarchy tests
+ */
+import { cellToChildren, latLngToCell } from 'h3-js';
+import { GAME_RULES } from '../../config/game-rules';
+import { H3_DISTRICT_RESOLUTION, H3_REGION_RESOLUTION, H3_RESOLUTION } from '../h3-territory';
+import {
+  buildHierarchy,
+  controlBonus,
+  controlChanges,
+  LEVEL_MIN_ZOOM,
+  levelForZoom,
+} from '../territory-hierarchy';
+
+const REGION = latLngToCell(51.5073, -0.1657, H3_REGION_RESOLUTION);
+const DISTRICTS = cellToChildren(REGION, H3_DISTRICT_RESOLUTION);
+const cellsOf = (district: string) => cellToChildren(district, H3_RESOLUTION);
+
+describe('territory-hierarchy', () => {
+  it('mirrors its resolutions and bonuses in GAME_RULES', () => {
+    expect(GAME_RULES.h3).toMatchObject({
+      resolution: H3_RESOLUTION,
+      districtResolution: H3_DISTRICT_RESOLUTION,
+      regionResolution: H3_REGION_RESOLUTION,
+    });
+    const { rewards } = GAME_RULES;
+    expect(rewards.districtControlBonusE18).toBe(`${rewards.districtControlBonusRealm} * 10**18`);
+    expect(rewards.regionControlBonusE18).toBe(`${rewards.regionControlBonusRealm} * 10**18`);
+    expect(controlBonus('district')).toBe(rewards.districtControlBonusRealm);
+    expect(controlBonus('region')).toBe(rewards.regionControlBonusRealm);
+  });
+
+  it('gives a district to whoever holds a strict majority of its cells', () => {
+    const cells = cellsOf(DISTRICTS[0]);
+    expect(cells).toHaveLength(49);
+
+    const half = buildHierarchy([
+      { owner: '0xAAA', cells: cells.slice(0, 24) },
+      { owner: '0xbbb', cells: cells.slice(24, 30) },
+    ]);
+    expect(half.districts).toEqual([
+      {
+        h3Index: DISTRICTS[0],
+        level: 'district',
+        controller: null,
+        leader: '0xaaa',
+        held: { '0xaaa': 24, '0xbbb': 6 },
+        children: 49,
+      },
+    ]);
+
+    // Two territories of one owner add up
+    const majority = buildHierarchy([
+      { owner: '0xAAA', cells: cells.slice(0, 24) },
+      { owner: '0xaaa', cells: cells.slice(24, 25) },
+    ]);
+    expect(majority.districts[0].controller).toBe('0xaaa');
+  });
+
+  it('gives a region to whoever controls a majority of its districts', () => {
+    const holdings = (count: number) =>
+      DISTRICTS.slice(0, count).map((district) => ({ owner: '0xaaa', cells: cellsOf(district) }));
+
+    expect(DISTRICTS).toHaveLength(49);
+    expect(buildHierarchy(holdings(24)).regions[0]).toMatchObject({
+      h3Index: REGION,
+      controller: null,
+      held: { '0xaaa': 24 },
+    });
+    expect(buildHierarchy(holdings(25)).regions[0].controller).toBe('0xaaa');
+  });
+
+  it('leaves a cell with its first holder and skips unowned territories', () => {
+    const [first, second] = cellsOf(DISTRICTS[0]);
+    const hierarchy = buildHierarchy([
+      { cells: [second] },
+      { owner: '0xaaa', cells: [first] },
+      { owner: '0xbbb', cells: [first, second] },
+    ]);
+    expect(hierarchy.cells).toEqual({ [first]: '0xaaa', [second]: '0xbbb' });
+  });
+
+  it('reports control gained and lost at both levels', () => {
+    const cells = cellsOf(DISTRICTS[1]);
+    const before = buildHierarchy([{ owner: '0xaaa', cells: cells.slice(0, 30) }]);
+    const after = buildHierarchy([
+      { owner: '0xaaa', cells: cells.slice(0, 10) },
+      { owner: '0xbbb', cells: cells.slice(10, 40) },
+    ]);
+    expect(controlChanges(before, after)).toEqual([
+      { level: 'district', h3Index: DISTRICTS[1], from: '0xaaa', to: '0xbbb' },
+    ]);
+    expect(controlChanges(after, buildHierarchy([]))).toEqual([
+      { level: 'district', h3Index: DISTRICTS[1], from: '0xbbb', to: null },
+    ]);
+    expect(controlChanges(after, after)).toEqual([]);
+  });
+
+  it('draws regions zoomed out, districts between and cells up close', () => {
+    expect(levelForZoom(4)).toBe('region');
+    expect(levelForZoom(LEVEL_MIN_ZOOM.district)).toBe('district');
+    expect(levelForZoom(LEVEL_MIN_ZOOM.cell - 0.1)).toBe('district');
+    expect(levelForZoom(16)).toBe('cell');
+  });
+});
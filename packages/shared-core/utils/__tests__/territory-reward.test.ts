@@ -0,0 +1,69 @@
+/**
+ * Territory reward tests
+ */
+import type { Landmark } from '../landmarks';
+import {
+  climbPerKm,
+  territoryDifficulty,
+  territoryRarity,
+  territoryReward,
+  territoryValue,
+} from '../territory-reward';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('territory-reward', () => {
+  it('scores distance, pace, duration and climb', () => {
+    expect(territoryDifficulty({ totalDistance: 0, totalDuration: 0, averageSpeed: 0 })).toBe(0);
+    expect(
+      territoryDifficulty({
+        totalDistance: 10_000,
+        totalDuration: 2 * HOUR,
+        averageSpeed: 6,
+        elevation: { gain: 400 },
+      })
+    ).toBe(100);
+    // 2.5km at 2.5 m/s for half an hour, flat: 17.5 + 12.5 + 12.5
+    expect(
+      territoryDifficulty({ totalDistance: 2500, totalDuration: HOUR / 2, averageSpeed: 2.5 })
+    ).toBe(43);
+  });
+
+  it('credits grade-adjusted pace on hills', () => {
+    const hill = {
+      totalDistance: 5000,
+      totalDuration: HOUR / 2,
+      averageSpeed: 2,
+      elevation: { gain: 250, gradeAdjustedSpeed: 3 },
+    };
+    expect(climbPerKm(hill)).toBe(50);
+    // 35 + 15 at grade-adjusted pace + 12.5 + 15: 77.5
+    expect(territoryDifficulty(hill)).toBe(78);
+  });
+
+  it('rates ground rarer for difficulty, hills and notable landmarks', () => {
+    const monument: Landmark = { id: 'tower', name: 'Tower', kind: 'monument', lat: 0, lng: 0 };
+    expect(territoryRarity(30, [])).toBe('common');
+    expect(territoryRarity(55, [])).toBe('rare');
+    expect(territoryRarity(75, [])).toBe('epic');
+    expect(territoryRarity(95, [])).toBe('legendary');
+    expect(territoryRarity(10, [monument])).toBe('legendary');
+    const hilly = {
+      totalDistance: 1000,
+      totalDuration: 0,
+      averageSpeed: 0,
+      elevation: { gain: 40 },
+    };
+    expect(territoryRarity(30, [], hilly)).toBe('rare');
+    expect(territoryRarity(55, [], hilly)).toBe('epic');
+  });
+
+  it('multiplies difficulty by rarity', () => {
+    expect(territoryReward(40, 'common')).toBe(40);
+    expect(territoryReward(55, 'rare')).toBe(83);
+    expect(territoryReward(95, 'legendary')).toBe(285);
+    expect(
+      territoryValue({ totalDistance: 2500, totalDuration: HOUR / 2, averageSpeed: 2.5 })
+    ).toEqual({ difficulty: 43, rarity: 'common', estimatedReward: 43 });
+  });
+});
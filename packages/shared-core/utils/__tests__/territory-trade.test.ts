@@ -0,0 +1,91 @@
+/**
+ * Territory trading tests
+ */
+import {
+  formatRealm,
+  isWalletAddress,
+  offersAfterTransfer,
+  parseRealm,
+  pendingOffers,
+  type TerritoryOffer,
+  withOffer,
+  withoutOffer,
+} from '../territory-trade';
+
+const ME = '0x1111111111111111111111111111111111111111';
+const ALICE = '0xAAAAaaaaAAAAaaaaAAAAaaaaAAAAaaaaAAAAaaaa';
+const BOB = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+
+const offer = (tokenId: string, buyer: string, realm: string, madeAt: number): TerritoryOffer => ({
+  tokenId,
+  buyer,
+  amountWei: parseRealm(realm) as string,
+  madeAt,
+});
+
+describe('territory-trade', () => {
+  it('reads REALM amounts into wei and back', () => {
+    expect(parseRealm('50')).toBe('50000000000000000000');
+    expect(parseRealm(' 12.5 ')).toBe('12500000000000000000');
+    expect(parseRealm('.000000000000000001')).toBe('1');
+    for (const bad of ['', '.', '0', '0.0', '-1', '1e3', 'abc', '1.0000000000000000001']) {
+      expect(parseRealm(bad)).toBeNull();
+    }
+
+    expect(formatRealm('12500000000000000000')).toBe('12.5');
+    expect(formatRealm('50000000000000000000')).toBe('50');
+    expect(formatRealm('1')).toBe('0.000000000000000001');
+    expect(formatRealm(parseRealm('1234.0625') as string)).toBe('1234.0625');
+  });
+
+  it('recognises wallet addresses', () => {
+    expect(isWalletAddress(ALICE)).toBe(true);
+    expect(isWalletAddress(` ${BOB} `)).toBe(true);
+    expect(isWalletAddress('0x1234')).toBe(false);
+    expect(isWalletAddress('alice.eth')).toBe(false);
+  });
+
+  it('keeps one offer per buyer per territory', () => {
+    let offers = withOffer([], offer('1', ALICE, '10', 1));
+    offers = withOffer(offers, offer('1', BOB, '12', 2));
+    offers = withOffer(offers, offer('1', ALICE.toLowerCase(), '15', 3));
+    offers = withOffer(offers, offer('2', ALICE, '5', 4));
+
+    expect(offers.map((o) => [o.tokenId, o.buyer.toLowerCase(), formatRealm(o.amountWei)])).toEqual(
+      [
+        ['1', BOB, '12'],
+        ['1', ALICE.toLowerCase(), '15'],
+        ['2', ALICE.toLowerCase(), '5'],
+      ]
+    );
+    expect(withoutOffer(offers, '1', ALICE)).toHaveLength(2);
+  });
+
+  it("drops the new owner's own offer when a territory moves", () => {
+    const offers = [offer('1', ALICE, '10', 1), offer('1', BOB, '12', 2), offer('2', BOB, '3', 3)];
+    expect(offersAfterTransfer(offers, '1', BOB.toUpperCase().replace('0X', '0x'))).toEqual([
+      offers[0],
+      offers[2],
+    ]);
+  });
+
+  it('splits the book into offers waiting on me and offers I made', () => {
+    const offers = [
+      offer('1', ALICE, '10', 1),
+      offer('1', BOB, '12', 2),
+      offer('2', ALICE, '12', 0),
+      offer('3', ME, '7', 4),
+      offer('4', ME, '9', 5),
+      offer('5', BOB, '1', 6), // nobody here owns it
+    ];
+    const { incoming, outgoing } = pendingOffers(offers, ['1', '2'], ME.toUpperCase());
+
+    // Best amount first, earliest first on a tie
+    expect(incoming.map((o) => [o.tokenId, o.buyer])).toEqual([
+      ['2', ALICE],
+      ['1', BOB],
+      ['1', ALICE],
+    ]);
+    expect(outgoing.map((o) => o.tokenId)).toEqual(['4', '3']);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Training load tests
+ */
+import {
+  DEFAULT_THRESHOLD_SPEED,
+  formStatus,
+  type LoadEntry,
+  loadCurve,
+  runLoad,
+  summarizeTrainingLoad,
+} from '../training-load';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 5, 30, 18, 0).getTime();
+const HOUR = 3_600_000;
+
+function run(distance: number, duration: number, extra = {}) {
+  return { id: 'r', startTime: NOW, totalDistance: distance, totalDuration: duration, ...extra };
+}
+
+/** One run per entry of `kms`, a day apart, the last one `daysAgo` before NOW. */
+function entries(kms: number[], daysAgo = 0): LoadEntry[] {
+  return kms.map((km, i) => ({
+    runId: `run-${i}`,
+    startTime: NOW - (kms.length - 1 - i + daysAgo) * DAY,
+    distance: km * 1000,
+    duration: km * 330_000,
+    load: km * 8,
+    method: 'pace',
+  }));
+}
+
+describe('training-load', () => {
+  it('scores an hour at threshold as 100 either way', () => {
+    expect(runLoad(run(DEFAULT_THRESHOLD_SPEED * 3600, HOUR)).load).toBeCloseTo(100);
+
+    const zones = [1, 2, 3, 4, 5].map((zone) => ({ zone, duration: zone === 4 ? HOUR : 0 }));
+    const hr = runLoad(
+      run(5000, HOUR, { heartRate: { timeInZones: zones, belowZonesDuration: 0 } })
+    );
+    expect(hr).toEqual({ load: 100, method: 'heartRate' });
+  });
+
+  it('scales pace load with intensity squared and prefers grade-adjusted speed', () => {
+    const easy = run(DEFAULT_THRESHOLD_SPEED * 0.8 * 1800, HOUR / 2);
+    expect(runLoad(easy).load).toBeCloseTo(32);
+    expect(runLoad(easy, { thresholdSpeed: DEFAULT_THRESHOLD_SPEED * 0.8 }).load).toBeCloseTo(50);
+
+    const hilly = { ...easy, elevation: { gradeAdjustedSpeed: DEFAULT_THRESHOLD_SPEED } };
+    expect(runLoad(hilly).load).toBeCloseTo(50);
+  });
+
+  it('builds fitness and fatigue as 42- and 7-day averages', () => {
+    const [first, second] = loadCurve(entries([12.5], 1), { now: NOW });
+    expect(first.fitness).toBeCloseTo(100 / 42);
+    expect(first.fatigue).toBeCloseTo(100 / 7);
+    expect(second.load).toBe(0);
+    expect(second.fatigue).toBeCloseTo((100 / 7) * (6 / 7));
+    expect(second.form).toBeCloseTo(second.fitness - second.fatigue);
+  });
+
+  it('warns when weekly distance and load ramp up', () => {
+    // Three weeks at 20 km, then 40 km in the last seven days
+    const history = [
+      ...entries([10, 10], 22),
+      ...entries([10, 10], 15),
+      ...entries([10, 10], 8),
+      ...entries([10, 10, 10, 10]),
+    ];
+    const summary = summarizeTrainingLoad(history, { now: NOW });
+
+    expect(summary.weeks.slice(-4).map((w) => w.distance)).toEqual([20000, 20000, 20000, 40000]);
+    expect(summary.loadRatio).toBeCloseTo(1.6);
+    expect(summary.warnings.map((w) => [w.kind, w.severity])).toEqual([
+      ['loadSpike', 'high'],
+      ['mileageRamp', 'high'],
+    ]);
+  });
+
+  it('stays quiet for steady training', () => {
+    const history = [0, 7, 14, 21].flatMap((daysAgo) => entries([8, 8], daysAgo));
+    const summary = summarizeTrainingLoad(history, { now: NOW });
+    expect(summary.loadRatio).toBeCloseTo(1);
+    expect(summary.warnings).toEqual([]);
+    expect(summary.curve.length).toBeGreaterThan(20);
+  });
+
+  it('labels form', () => {
+    expect(formStatus(30)).toBe('detraining');
+    expect(formStatus(10)).toBe('fresh');
+    expect(formStatus(0)).toBe('neutral');
+    expect(formStatus(-20)).toBe('productive');
+    expect(formStatus(-40)).toBe('overreaching');
+  });
+});
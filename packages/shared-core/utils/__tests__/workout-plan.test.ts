@@ -0,0 +1,174 @@
+/**
+ * Structured workout tests
+ */
+import {
+  comparePace,
+  createIntervalWorkout,
+  createPyramidWorkout,
+  createTempoWorkout,
+  summarizeWorkout,
+  WorkoutSession,
+  type WorkoutUpdate,
+} from '../workout-plan';
+
+const target = { fastest: 230, slowest: 245 }; // 3:50–4:05 /km
+
+const sixBy800 = createIntervalWorkout({
+  repeats: 6,
+  work: { distance: 800 },
+  recovery: { duration: 90_000 },
+  targetPace: target,
+  warmup: { distance: 1000 },
+});
+
+/** Drive a session one second at a time at `speed` m/s. */
+function runFor(
+  session: WorkoutSession,
+  from: { distance: number; time: number },
+  seconds: number,
+  speed: number
+) {
+  const updates: WorkoutUpdate[] = [];
+  let { distance, time } = from;
+  for (let i = 0; i < seconds; i++) {
+    distance += speed;
+    time += 1000;
+    updates.push(...session.update(distance, time));
+  }
+  return { updates, at: { distance, time } };
+}
+
+describe('workout-plan', () => {
+  describe('builders', () => {
+    it('lays out 6×800m with recoveries between repeats only', () => {
+      expect(sixBy800.name).toBe('6×800m / 90s');
+      expect(sixBy800.steps.map((s) => s.kind)).toEqual([
+        'warmup',
+        ...Array(5).fill(['work', 'recovery']).flat(),
+        'work',
+      ]);
+      expect(sixBy800.steps[1]).toEqual({
+        kind: 'work',
+        label: 'Interval 1/6',
+        distance: 800,
+        targetPace: target,
+      });
+    });
+
+    it('builds pyramids and tempo blocks', () => {
+      const pyramid = createPyramidWorkout({
+        distances: [200, 400, 600, 400, 200],
+        recovery: { duration: 60_000 },
+      });
+      expect(pyramid.steps.filter((s) => s.kind === 'work').map((s) => s.distance)).toEqual([
+        200, 400, 600, 400, 200,
+      ]);
+
+      const tempo = createTempoWorkout({
+        blocks: 3,
+        block: { duration: 600_000 },
+        recovery: { duration: 120_000 },
+        targetPace: { fastest: 255, slowest: 270 },
+      });
+      expect(tempo.name).toBe('Tempo 3×10min');
+      expect(tempo.steps.map((s) => s.label)).toEqual([
+        'Tempo 1/3',
+        'Recovery',
+        'Tempo 2/3',
+        'Recovery',
+        'Tempo 3/3',
+      ]);
+    });
+  });
+
+  describe('WorkoutSession', () => {
+    it('advances on distance then on time, reporting each boundary once', () => {
+      const session = new WorkoutSession(sixBy800);
+      // Warm-up at 3 m/s: 1000 m takes 334 samples.
+      const warmup = runFor(session, { distance: 0, time: 0 }, 334, 3);
+      expect(warmup.updates.map((u) => u.type)).toEqual(['stepCompleted', 'stepStarted']);
+      expect(session.getCurrentStep()?.step.label).toBe('Interval 1/6');
+
+      // 800 m at 4 m/s, then 90 s of recovery jog.
+      const rep = runFor(session, warmup.at, 200, 4);
+      expect(session.getCurrentStep()?.step.kind).toBe('recovery');
+      const recovery = runFor(session, rep.at, 90, 2);
+      expect(recovery.updates[0]).toMatchObject({
+        type: 'stepCompleted',
+        result: { duration: 90_000, completed: true },
+      });
+      expect(session.getCurrentStep()?.step.label).toBe('Interval 2/6');
+    });
+
+    it('ends open-ended steps only on a manual lap', () => {
+      const session = new WorkoutSession({
+        id: 'fartlek',
+        name: 'Fartlek',
+        steps: [
+          { kind: 'work', label: 'Hard' },
+          { kind: 'recovery', label: 'Easy', duration: 60_000 },
+        ],
+      });
+      expect(runFor(session, { distance: 0, time: 0 }, 600, 4).updates).toEqual([]);
+      const updates = session.advance(2400, 600_000);
+      expect(updates[0]).toMatchObject({ type: 'stepCompleted', result: { completed: true } });
+      expect(updates[1]).toMatchObject({ type: 'stepStarted', index: 1 });
+    });
+
+    it('reports workout completion after the last step', () => {
+      const session = new WorkoutSession(
+        createIntervalWorkout({ repeats: 1, work: { distance: 100 }, recovery: { distance: 0 } })
+      );
+      expect(session.update(120, 30_000).map((u) => u.type)).toEqual([
+        'stepCompleted',
+        'workoutCompleted',
+      ]);
+      expect(session.isComplete()).toBe(true);
+    });
+
+    it('alerts on pace after the grace period, at most once a minute', () => {
+      const session = new WorkoutSession(
+        createIntervalWorkout({
+          repeats: 1,
+          work: { distance: 5000 },
+          recovery: { distance: 0 },
+          targetPace: target,
+        })
+      );
+      // 3 m/s is 5:33/km: too slow, but not judged inside the first 200 m.
+      expect(session.checkPace(150, 50_000)).toBeNull();
+      expect(session.checkPace(300, 100_000)).toBe('tooSlow');
+      expect(session.checkPace(330, 110_000)).toBeNull();
+      expect(session.checkPace(480, 160_000)).toBe('tooSlow');
+    });
+  });
+
+  describe('summarizeWorkout', () => {
+    it('compares each step with its target and marks the unfinished one', () => {
+      const session = new WorkoutSession(sixBy800);
+      session.update(1000, 300_000); // warm-up done
+      session.update(1800, 492_000); // 800 m in 192 s = 4:00/km
+      session.finish(1900, 552_000); // stopped 60 s into recovery
+
+      const breakdown = summarizeWorkout(sixBy800, session.getResults());
+      expect(breakdown).toHaveLength(3);
+      expect(breakdown[1]).toMatchObject({
+        label: 'Interval 1/6',
+        distance: 800,
+        pace: 240,
+        status: 'onTarget',
+        completed: true,
+      });
+      expect(breakdown[2]).toMatchObject({
+        kind: 'recovery',
+        status: 'noTarget',
+        completed: false,
+      });
+    });
+
+    it('classifies paces against the band', () => {
+      expect(comparePace(220, target)).toBe('tooFast');
+      expect(comparePace(250, target)).toBe('tooSlow');
+    });
+  });
+});
@@ -0,0 +1,570 @@
+/**
+ * Activity file exporters (GPX / TCX / GeoJSON / KML)
+ *
+ * The inverse of `./activity-file-parsers`: serialises a completed run
+ * into the formats other tools (Strava, Garmin Connect, QGIS, Google
+ * Earth) accept, and claimed territories into GeoJSON or KML for
+ * archiving and mapping.
+ *
+ * Inputs are typed structurally so the module stays free of service
+ * imports; `RunSession` and `Territory` both satisfy these shapes.
+ * Every exporter returns plain text — turning it into a download or a
+ * share sheet is the caller's job (see `UserDashboardService` and the
+ * mobile history screen).
+ */
+import { haversineDistance } from './geo-distance';
+import { cellToPolygon } from './h3-territory';
+import type { RunSplit } from './splits';
+
+export type RunExportFormat = 'gpx' | 'tcx' | 'geojson';
+export type TerritoryExportFormat = 'geojson' | 'kml';
+
+export interface ExportableRunPoint {
+  lat: number;
+  lng: number;
+  timestamp: number;
+  altitude?: number;
+  heartRate?: number;
+  cadence?: number; // steps per minute (both feet)
+  speed?: number;
+}
+
+export interface ExportableRun {
+  id: string;
+  startTime: number;
+  endTime?: number;
+  points: ExportableRunPoint[];
+  segments?: Array<{ id: string; distance: number; duration: number; averageSpeed: number }>;
+  laps?: Array<{ lapNumber: number; time: number; distance: number; totalTime: number }>;
+  splits?: RunSplit[];
+  totalDistance: number;
+  totalDuration: number;
+  averageSpeed: number;
+  maxSpeed: number;
+  territoryEligible?: boolean;
+  geohash?: string;
+  h3Cells?: string[];
+  importedFile?: { name?: string; sport?: string };
+  externalActivity?: { name: string };
+}
+
+export interface ExportableTerritory {
+  id: string;
+  geohash: string;
+  bounds: { north: number; south: number; east: number; west: number };
+  metadata?: {
+    name?: string;
+    description?: string;
+    landmarks?: string[];
+    difficulty?: number;
+    rarity?: string;
+  };
+  h3Cells?: Array<{ h3Index: string }>;
+  owner?: string;
+  claimedAt?: number;
+  status?: string;
+  rarity?: string;
+  chainId?: number;
+  tokenId?: string;
+  activityPoints?: number;
+  defenseStatus?: string;
+}
+
+export interface ExportedFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface RunExportOptions {
+  /** Track name; defaults to the imported/external name or "RunRealm Run". */
+  name?: string;
+  /** GeoJSON only: add one LineString feature per `RunSegment`. */
+  includeSegments?: boolean;
+}
+
+const CREATOR = 'RunRealm';
+
+const MIME_TYPES: Record<RunExportFormat | TerritoryExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  tcx: 'application/vnd.garmin.tcx+xml',
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+/**
+ * Export a run in the requested format, with a file name derived from
+ * the run's start date.
+ */
+export function exportRun(
+  run: ExportableRun,
+  format: RunExportFormat,
+  options: RunExportOptions = {}
+): ExportedFile {
+  let content: string;
+  if (format === 'gpx') content = exportRunToGpx(run, options);
+  else if (format === 'tcx') content = exportRunToTcx(run, options);
+  else content = JSON.stringify(exportRunToGeoJson(run, options), null, 2);
+
+  const date = new Date(run.startTime).toISOString().slice(0, 10);
+  return {
+    fileName: `runrealm-run-${date}-${run.id}.${format}`,
+    mimeType: MIME_TYPES[format],
+    content,
+  };
+}
+
+/**
+ * Export one or more territories as a single GeoJSON FeatureCollection
+ * or KML document.
+ */
+export function exportTerritories(
+  territories: ExportableTerritory[],
+  format: TerritoryExportFormat
+): ExportedFile {
+  const content =
+    format === 'kml'
+      ? exportTerritoriesToKml(territories)
+      : JSON.stringify(exportTerritoriesToGeoJson(territories), null, 2);
+
+  const fileName =
+    territories.length === 1
+      ? `runrealm-territory-${territories[0].geohash}.${format}`
+      : `runrealm-territories-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return { fileName, mimeType: MIME_TYPES[format], content };
+}
+
+// Garmin's extensions count running cadence for one foot.
+function gpxExtensions(p: ExportableRunPoint): string {
+  const fields = [
+    p.heartRate !== undefined ? `<gpxtpx:hr>${Math.round(p.heartRate)}</gpxtpx:hr>` : '',
+    p.cadence !== undefined ? `<gpxtpx:cad>${Math.round(p.cadence / 2)}</gpxtpx:cad>` : '',
+  ].join('');
+  return fields
+    ? `<extensions><gpxtpx:TrackPointExtension>${fields}</gpxtpx:TrackPointExtension></extensions>`
+    : '';
+}
+
+/**
+ * GPX 1.1 with a single track segment. Heart rate and cadence go in the
+ * Garmin TrackPointExtension so Strava and Garmin Connect pick them up;
+ * GPX has no lap concept, so laps are only carried by the TCX and
+ * GeoJSON exports.
+ */
+export function exportRunToGpx(run: ExportableRun, options: RunExportOptions = {}): string {
+  const name = runName(run, options);
+  const trkpts = run.points.map((p) => {
+    const children = [
+      p.altitude !== undefined ? `<ele>${round(p.altitude, 1)}</ele>` : '',
+      `<time>${isoTime(p.timestamp)}</time>`,
+      gpxExtensions(p),
+    ].join('');
+    return `      <trkpt lat="${round(p.lat, 7)}" lon="${round(p.lng, 7)}">${children}</trkpt>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}"`,
+    '  xmlns="http://www.topografix.com/GPX/1/1"',
+    '  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1"',
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    `  <metadata><name>${escapeXml(name)}</name><time>${isoTime(run.startTime)}</time></metadata>`,
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <type>${escapeXml(run.importedFile?.sport ?? 'running')}</type>`,
+    '    <trkseg>',
+    ...trkpts,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Garmin TCX v2. Recorded laps (`RunLap.totalTime` is cumulative) become
+ * `<Lap>` elements and trackpoints are bucketed into them by timestamp;
+ * a run without laps uses its auto-splits instead, or failing that is
+ * written as one lap. Trackpoints carry cumulative distance, which TCX
+ * consumers use in preference to re-measuring.
+ */
+export function exportRunToTcx(run: ExportableRun, options: RunExportOptions = {}): string {
+  const cumulative = cumulativeDistances(run.points);
+  const laps = lapWindows(run);
+
+  const lapXml = laps.map((lap) => {
+    const trackpoints: string[] = [];
+    run.points.forEach((p, i) => {
+      if (p.timestamp < lap.start || p.timestamp >= lap.end) return;
+      trackpoints.push(
+        [
+          '          <Trackpoint>',
+          `            <Time>${isoTime(p.timestamp)}</Time>`,
+          `            <Position><LatitudeDegrees>${round(p.lat, 7)}</LatitudeDegrees><LongitudeDegrees>${round(p.lng, 7)}</LongitudeDegrees></Position>`,
+          p.altitude !== undefined
+            ? `            <AltitudeMeters>${round(p.altitude, 1)}</AltitudeMeters>`
+            : '',
+          `            <DistanceMeters>${round(cumulative[i], 1)}</DistanceMeters>`,
+          p.heartRate !== undefined
+            ? `            <HeartRateBpm><Value>${Math.round(p.heartRate)}</Value></HeartRateBpm>`
+            : '',
+          p.cadence !== undefined
+            ? `            <Extensions><TPX xmlns="http://www.garmin.com/xmlschemas/ActivityExtension/v2"><RunCadence>${Math.round(p.cadence / 2)}</RunCadence></TPX></Extensions>`
+            : '',
+          '          </Trackpoint>',
+        ]
+          .filter(Boolean)
+          .join('\n')
+      );
+    });
+
+    return [
+      `      <Lap StartTime="${isoTime(lap.start)}">`,
+      `        <TotalTimeSeconds>${round(lap.durationMs / 1000, 1)}</TotalTimeSeconds>`,
+      `        <DistanceMeters>${round(lap.distance, 1)}</DistanceMeters>`,
+      '        <Intensity>Active</Intensity>',
+      `        <TriggerMethod>${lap.trigger}</TriggerMethod>`,
+      '        <Track>',
+      ...trackpoints,
+      '        </Track>',
+      '      </Lap>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">',
+    '  <Activities>',
+    '    <Activity Sport="Running">',
+    `      <Id>${isoTime(run.startTime)}</Id>`,
+    ...lapXml,
+    `      <Notes>${escapeXml(runName(run, options))}</Notes>`,
+    '    </Activity>',
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * GeoJSON FeatureCollection: the track as a LineString (with per-vertex
+ * `coordTimes`/`heartRates`/`cadences` properties, the convention used by
+ * togeojson and Mapbox), a Point per lap and split boundary and,
+ * optionally, one LineString per segment.
+ */
+export function exportRunToGeoJson(
+  run: ExportableRun,
+  options: RunExportOptions = {}
+): GeoJSON.FeatureCollection {
+  const features: GeoJSON.Feature[] = [];
+  const hasHeartRate = run.points.some((p) => p.heartRate !== undefined);
+  const hasCadence = run.points.some((p) => p.cadence !== undefined);
+
+  features.push({
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: run.points.map(toPosition),
+    },
+    properties: {
+      kind: 'track',
+      id: run.id,
+      name: runName(run, options),
+      startTime: isoTime(run.startTime),
+      endTime: run.endTime ? isoTime(run.endTime) : undefined,
+      totalDistance: run.totalDistance,
+      totalDuration: run.totalDuration,
+      averageSpeed: run.averageSpeed,
+      maxSpeed: run.maxSpeed,
+      territoryEligible: run.territoryEligible ?? false,
+      geohash: run.geohash,
+      h3Cells: run.h3Cells,
+      coordTimes: run.points.map((p) => isoTime(p.timestamp)),
+      heartRates: hasHeartRate ? run.points.map((p) => p.heartRate ?? null) : undefined,
+      cadences: hasCadence ? run.points.map((p) => p.cadence ?? null) : undefined,
+    },
+  });
+
+  for (const lap of run.laps ?? []) {
+    const boundary = pointAtTime(run.points, run.startTime + lap.totalTime);
+    if (!boundary) continue;
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: toPosition(boundary) },
+      properties: {
+        kind: 'lap',
+        lapNumber: lap.lapNumber,
+        time: lap.time,
+        distance: lap.distance,
+        totalTime: lap.totalTime,
+      },
+    });
+  }
+
+  for (const split of run.splits ?? []) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [split.end.lng, split.end.lat] },
+      properties: {
+        kind: 'split',
+        index: split.index,
+        unit: split.unit,
+        distance: split.distance,
+        duration: split.duration,
+        pace: split.pace,
+        elevationDelta: split.elevationDelta,
+        partial: split.partial,
+        fastest: split.fastest ?? false,
+        slowest: split.slowest ?? false,
+      },
+    });
+  }
+
+  if (options.includeSegments) {
+    // Segments don't carry their own coordinates in a portable form, so
+    // rebuild each from the consecutive points they were created from.
+    (run.segments ?? []).forEach((segment, i) => {
+      const from = run.points[i];
+      const to = run.points[i + 1];
+      if (!from || !to) return;
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: [toPosition(from), toPosition(to)] },
+        properties: {
+          kind: 'segment',
+          id: segment.id,
+          distance: segment.distance,
+          duration: segment.duration,
+          averageSpeed: segment.averageSpeed,
+        },
+      });
+    });
+  }
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * One feature per territory. Territories with H3 cells are written as a
+ * MultiPolygon of their hexes; older bounds-only claims fall back to the
+ * bounding rectangle.
+ */
+export function exportTerritoriesToGeoJson(
+  territories: ExportableTerritory[]
+): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: territories.map((territory) => ({
+      type: 'Feature',
+      id: territory.id,
+      geometry: { type: 'MultiPolygon', coordinates: territoryRings(territory) },
+      properties: territoryProperties(territory),
+    })),
+  };
+}
+
+/**
+ * KML 2.2 document with one Placemark per territory. Metadata goes in
+ * `<ExtendedData>` so it survives a round trip through Google Earth/QGIS.
+ */
+export function exportTerritoriesToKml(territories: ExportableTerritory[]): string {
+  const placemarks = territories.map((territory) => {
+    const properties = territoryProperties(territory);
+    const data = Object.entries(properties)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(
+        ([key, value]) =>
+          `        <Data name="${key}"><value>${escapeXml(
+            Array.isArray(value) ? value.join(',') : String(value)
+          )}</value></Data>`
+      );
+    const polygons = territoryRings(territory).map((rings) => {
+      const coords = rings[0].map(([lng, lat]) => `${round(lng, 7)},${round(lat, 7)},0`).join(' ');
+      return `        <Polygon><outerBoundaryIs><LinearRing><coordinates>${coords}</coordinates></LinearRing></outerBoundaryIs></Polygon>`;
+    });
+
+    return [
+      `    <Placemark id="${escapeXml(territory.id)}">`,
+      `      <name>${escapeXml(String(properties.name))}</name>`,
+      properties.description
+        ? `      <description>${escapeXml(String(properties.description))}</description>`
+        : '',
+      `      <styleUrl>#rarity-${escapeXml(String(properties.rarity))}</styleUrl>`,
+      '      <ExtendedData>',
+      ...data,
+      '      </ExtendedData>',
+      '      <MultiGeometry>',
+      ...polygons,
+      '      </MultiGeometry>',
+      '    </Placemark>',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${CREATOR} Territories</name>`,
+    ...Object.entries(RARITY_KML_COLORS).map(
+      ([rarity, color]) =>
+        `    <Style id="rarity-${rarity}"><LineStyle><color>ff${color}</color><width>2</width></LineStyle><PolyStyle><color>66${color}</color></PolyStyle></Style>`
+    ),
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** KML colours are aabbggrr; these match the rarity colours on the map. */
+const RARITY_KML_COLORS: Record<string, string> = {
+  common: '71cc2e',
+  rare: 'db9834',
+  epic: 'b6599b',
+  legendary: '0fc4f1',
+};
+
+function runName(run: ExportableRun, options: RunExportOptions): string {
+  return options.name ?? run.importedFile?.name ?? run.externalActivity?.name ?? `${CREATOR} Run`;
+}
+
+function territoryProperties(territory: ExportableTerritory): Record<string, unknown> {
+  return {
+    id: territory.id,
+    geohash: territory.geohash,
+    name: territory.metadata?.name ?? territory.geohash,
+    description: territory.metadata?.description,
+    rarity: territory.rarity ?? territory.metadata?.rarity ?? 'common',
+    difficulty: territory.metadata?.difficulty,
+    landmarks: territory.metadata?.landmarks,
+    owner: territory.owner,
+    status: territory.status,
+    claimedAt: territory.claimedAt ? isoTime(territory.claimedAt) : undefined,
+    chainId: territory.chainId,
+    tokenId: territory.tokenId,
+    activityPoints: territory.activityPoints,
+    defenseStatus: territory.defenseStatus,
+    h3Cells: territory.h3Cells?.map((cell) => cell.h3Index),
+  };
+}
+
+function territoryRings(territory: ExportableTerritory): number[][][][] {
+  if (territory.h3Cells && territory.h3Cells.length > 0) {
+    return territory.h3Cells.map((cell) => cellToPolygon(cell.h3Index).coordinates);
+  }
+  const { north, south, east, west } = territory.bounds;
+  return [
+    [
+      [
+        [west, south],
+        [east, south],
+        [east, north],
+        [west, north],
+        [west, south],
+      ],
+    ],
+  ];
+}
+
+interface LapWindow {
+  start: number;
+  end: number;
+  durationMs: number;
+  distance: number;
+  trigger: 'Manual' | 'Distance';
+}
+
+function lapWindows(run: ExportableRun): LapWindow[] {
+  const lastTimestamp = run.points[run.points.length - 1]?.timestamp ?? run.startTime;
+  const runEnd = Math.max(lastTimestamp + 1, run.endTime ?? 0);
+  const windows: LapWindow[] = [];
+  let start = run.startTime;
+  let distanceSoFar = 0;
+
+  for (const lap of run.laps ?? []) {
+    const end = run.startTime + lap.totalTime;
+    if (end <= start) continue;
+    windows.push({ start, end, durationMs: lap.time, distance: lap.distance, trigger: 'Manual' });
+    start = end;
+    distanceSoFar += lap.distance;
+  }
+
+  // No manual laps: each full split becomes a lap
+  if (windows.length === 0) {
+    for (const split of run.splits ?? []) {
+      if (split.partial || split.endTime <= start) continue;
+      windows.push({
+        start,
+        end: split.endTime,
+        durationMs: split.duration,
+        distance: split.distance,
+        trigger: 'Distance',
+      });
+      start = split.endTime;
+      distanceSoFar += split.distance;
+    }
+  }
+
+  // Whatever follows the last recorded lap (or the whole run, when
+  // there are none) becomes a final lap.
+  if (windows.length === 0 || lastTimestamp >= start) {
+    windows.push({
+      start,
+      end: runEnd,
+      durationMs: Math.max(0, (run.endTime ?? lastTimestamp) - start),
+      distance: Math.max(0, run.totalDistance - distanceSoFar),
+      trigger: 'Manual',
+    });
+  }
+  return windows;
+}
+
+function cumulativeDistances(points: ExportableRunPoint[]): number[] {
+  const out: number[] = [];
+  let total = 0;
+  points.forEach((p, i) => {
+    if (i > 0) total += haversineDistance(points[i - 1], p);
+    out.push(total);
+  });
+  return out;
+}
+
+function pointAtTime(
+  points: ExportableRunPoint[],
+  timestamp: number
+): ExportableRunPoint | undefined {
+  let match: ExportableRunPoint | undefined;
+  for (const p of points) {
+    if (p.timestamp > timestamp) break;
+    match = p;
+  }
+  return match;
+}
+
+function toPosition(p: ExportableRunPoint): number[] {
+  return p.altitude !== undefined ? [p.lng, p.lat, p.altitude] : [p.lng, p.lat];
+}
+
+function isoTime(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function round(value: number, decimals: number): string {
+  return String(Number(value.toFixed(decimals)));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,303 @@
+/**
+ * Activity file parsers (GPX / TCX / FIT)
+ *
+ * Turns the files exported by watches and other trackers into a flat,
+ * format-neutral `ParsedActivity`: timestamped track points plus any lap
+ * markers the device recorded. `RunTrackingService.importActivityFile`
+ * owns the step from here to a full `RunSession` (segments, laps, stats,
+ * territory eligibility) so imported and live runs share one code path.
+ *
+ * The XML formats are read with a small tag scanner rather than
+ * `DOMParser` so the same code runs in the browser, under React Native
+ * and in Node (server + jest). GPX and TCX are flat enough that this is
+ * reliable; anything we don't recognise is ignored, not rejected.
+ *
+ * FIT is binary and lives in `./fit-decoder`.
+ */
+import { decodeFitFile } from './fit-decoder';
+
+export type ActivityFileFormat = 'gpx' | 'tcx' | 'fit';
+
+export interface ParsedTrackPoint {
+  lat: number;
+  lng: number;
+  /** Unix epoch milliseconds */
+  timestamp: number;
+  altitude?: number;
+  heartRate?: number;
+  cadence?: number; // steps per minute (both feet)
+  speed?: number;
+}
+
+export interface ParsedLap {
+  /** Unix epoch milliseconds */
+  startTime: number;
+  /** Device-reported lap duration in ms, when the format carries one */
+  durationMs?: number;
+  /** Device-reported lap distance in meters, when the format carries one */
+  distance?: number;
+}
+
+export interface ParsedActivity {
+  format: ActivityFileFormat;
+  name?: string;
+  sport?: string;
+  creator?: string;
+  /** Unix epoch milliseconds of the first timestamped point */
+  startTime: number;
+  points: ParsedTrackPoint[];
+  laps: ParsedLap[];
+}
+
+/**
+ * Sniff the format from the payload, falling back to the file extension.
+ * Binary FIT files carry a ".FIT" signature at byte 8 of the header.
+ */
+export function detectActivityFileFormat(
+  data: string | ArrayBuffer | Uint8Array,
+  fileName?: string
+): ActivityFileFormat | null {
+  if (typeof data !== 'string') {
+    const bytes = toBytes(data);
+    if (
+      bytes.length >= 12 &&
+      bytes[8] === 0x2e &&
+      bytes[9] === 0x46 &&
+      bytes[10] === 0x49 &&
+      bytes[11] === 0x54
+    ) {
+      return 'fit';
+    }
+    return detectActivityFileFormat(bytesToText(bytes.subarray(0, 4096)), fileName);
+  }
+
+  const head = data.slice(0, 4096);
+  if (/<gpx[\s>]/i.test(head)) return 'gpx';
+  if (/<TrainingCenterDatabase[\s>]/i.test(head)) return 'tcx';
+
+  const ext = fileName?.split('.').pop()?.toLowerCase();
+  if (ext === 'gpx' || ext === 'tcx' || ext === 'fit') return ext;
+  return null;
+}
+
+/**
+ * Parse any supported activity file. Throws when the format cannot be
+ * determined or the file contains no usable (timestamped, positioned)
+ * track points — an import with nothing to draw is a user error worth
+ * surfacing, not an empty run.
+ */
+export function parseActivityFile(
+  data: string | ArrayBuffer | Uint8Array,
+  fileName?: string
+): ParsedActivity {
+  const format = detectActivityFileFormat(data, fileName);
+  if (!format) {
+    throw new Error(`Unsupported activity file${fileName ? ` "${fileName}"` : ''}`);
+  }
+
+  let parsed: ParsedActivity;
+  if (format === 'fit') {
+    if (typeof data === 'string') {
+      throw new Error('FIT files must be read as binary (ArrayBuffer / Uint8Array)');
+    }
+    parsed = decodeFitFile(toBytes(data));
+  } else {
+    const text = typeof data === 'string' ? data : bytesToText(toBytes(data));
+    parsed = format === 'gpx' ? parseGpx(text) : parseTcx(text);
+  }
+
+  if (parsed.points.length === 0) {
+    throw new Error(`No timestamped GPS points found in ${format.toUpperCase()} file`);
+  }
+  return parsed;
+}
+
+/**
+ * GPX 1.0 / 1.1. Reads every `<trkpt>` across all tracks and segments;
+ * heart rate and cadence come from the Garmin TrackPointExtension
+ * (`gpxtpx:hr`, `gpxtpx:cad`) or any other namespace using those names.
+ */
+export function parseGpx(xml: string): ParsedActivity {
+  const points: ParsedTrackPoint[] = [];
+  const trkptPattern = /<(?:[\w-]+:)?trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:[\w-]+:)?trkpt>)/g;
+
+  for (const match of xml.matchAll(trkptPattern)) {
+    const attrs = match[1] ?? '';
+    const body = match[2] ?? '';
+    const lat = toNumber(readAttribute(attrs, 'lat'));
+    const lng = toNumber(readAttribute(attrs, 'lon'));
+    const timestamp = toTimestamp(readElement(body, 'time'));
+    if (lat === undefined || lng === undefined || timestamp === undefined) continue;
+
+    points.push(
+      compactPoint({
+        lat,
+        lng,
+        timestamp,
+        altitude: toNumber(readElement(body, 'ele')),
+        heartRate: toNumber(readElement(body, 'hr')),
+        cadence: bothFeet(toNumber(readElement(body, 'cad'))),
+        speed: toNumber(readElement(body, 'speed')),
+      })
+    );
+  }
+
+  const metadata = readElement(xml, 'metadata') ?? '';
+  const track = readElement(xml, 'trk') ?? '';
+  sortByTime(points);
+
+  return {
+    format: 'gpx',
+    name: decodeEntities(readElement(metadata, 'name') ?? readElement(track, 'name')),
+    sport: decodeEntities(readElement(track, 'type')),
+    creator: decodeEntities(readAttribute(readOpeningTag(xml, 'gpx') ?? '', 'creator')),
+    startTime: points[0]?.timestamp ?? 0,
+    points,
+    laps: [],
+  };
+}
+
+/**
+ * Garmin Training Center (TCX) v2. Uses the first `<Activity>`; every
+ * `<Lap>` becomes a lap marker with the device's own time and distance.
+ */
+export function parseTcx(xml: string): ParsedActivity {
+  const activityTag = readOpeningTag(xml, 'Activity') ?? '';
+  const activity = readElement(xml, 'Activity') ?? xml;
+  const points: ParsedTrackPoint[] = [];
+  const laps: ParsedLap[] = [];
+
+  const lapPattern = /<(?:[\w-]+:)?Lap\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?Lap>/g;
+  for (const lapMatch of activity.matchAll(lapPattern)) {
+    const lapBody = lapMatch[2] ?? '';
+    // Lap totals precede the <Track>; trackpoints carry their own
+    // <DistanceMeters> which must not be mistaken for the lap's.
+    const trackStart = lapBody.search(/<(?:[\w-]+:)?Track\b/);
+    const lapSummary = trackStart >= 0 ? lapBody.slice(0, trackStart) : lapBody;
+    const lapStart = toTimestamp(readAttribute(lapMatch[1] ?? '', 'StartTime'));
+    const totalSeconds = toNumber(readElement(lapSummary, 'TotalTimeSeconds'));
+
+    if (lapStart !== undefined) {
+      laps.push({
+        startTime: lapStart,
+        durationMs: totalSeconds !== undefined ? totalSeconds * 1000 : undefined,
+        distance: toNumber(readElement(lapSummary, 'DistanceMeters')),
+      });
+    }
+
+    for (const tp of readElements(lapBody, 'Trackpoint')) {
+      const position = readElement(tp, 'Position');
+      const timestamp = toTimestamp(readElement(tp, 'Time'));
+      if (!position || timestamp === undefined) continue;
+      const lat = toNumber(readElement(position, 'LatitudeDegrees'));
+      const lng = toNumber(readElement(position, 'LongitudeDegrees'));
+      if (lat === undefined || lng === undefined) continue;
+
+      const heartRateBlock = readElement(tp, 'HeartRateBpm');
+      points.push(
+        compactPoint({
+          lat,
+          lng,
+          timestamp,
+          altitude: toNumber(readElement(tp, 'AltitudeMeters')),
+          heartRate: heartRateBlock ? toNumber(readElement(heartRateBlock, 'Value')) : undefined,
+          cadence: bothFeet(toNumber(readElement(tp, 'RunCadence'))),
+          speed: toNumber(readElement(tp, 'Speed')),
+        })
+      );
+    }
+  }
+
+  sortByTime(points);
+
+  return {
+    format: 'tcx',
+    name: decodeEntities(readElement(activity, 'Notes')),
+    sport: readAttribute(activityTag, 'Sport'),
+    creator: decodeEntities(readElement(readElement(activity, 'Creator') ?? '', 'Name')),
+    startTime: points[0]?.timestamp ?? laps[0]?.startTime ?? 0,
+    points,
+    laps,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tag scanner helpers. Element names match with or without a namespace
+// prefix (`<ele>`, `<gpx:ele>`, `<ns3:hr>`).
+// ---------------------------------------------------------------------------
+
+function readElement(xml: string, name: string): string | undefined {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${name}\\b[^>]*?(?:\\/>|>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${name}>)`
+  );
+  const match = xml.match(pattern);
+  if (!match) return undefined;
+  return (match[1] ?? '').trim();
+}
+
+function readElements(xml: string, name: string): string[] {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${name}>`,
+    'g'
+  );
+  return Array.from(xml.matchAll(pattern), (m) => m[1] ?? '');
+}
+
+function readOpeningTag(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${name}\\b([^>]*)>`));
+  return match?.[1];
+}
+
+function readAttribute(attrs: string, name: string): string | undefined {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return match?.[1];
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function toTimestamp(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+function decodeEntities(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Garmin files count running cadence for one foot.
+function bothFeet(cadence: number | undefined): number | undefined {
+  return cadence === undefined ? undefined : cadence * 2;
+}
+
+function compactPoint(point: ParsedTrackPoint): ParsedTrackPoint {
+  const out: ParsedTrackPoint = { lat: point.lat, lng: point.lng, timestamp: point.timestamp };
+  if (point.altitude !== undefined) out.altitude = point.altitude;
+  if (point.heartRate !== undefined) out.heartRate = point.heartRate;
+  if (point.cadence !== undefined) out.cadence = point.cadence;
+  if (point.speed !== undefined) out.speed = point.speed;
+  return out;
+}
+
+function sortByTime(points: ParsedTrackPoint[]): void {
+  points.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function bytesToText(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes);
+}
@@ -0,0 +1,120 @@
+/**
+ * Auto-pause detection
+ *
+ * Decides when a runner has stopped (traffic lights, tying a shoe) and
+ * when they are moving again, from the filtered speed of each GPS fix.
+ * Pausing needs speed to stay below `pauseSpeedMps` for `pauseWindowMs`;
+ * resuming needs it to stay at or above the higher `resumeSpeedMps` for
+ * `resumeWindowMs`, so jitter around a single threshold can't flap the
+ * state.
+ *
+ * Phones stop reporting fixes altogether when the device isn't moving
+ * (expo-location's `distanceInterval`, iOS power saving), so `tick()`
+ * also pauses after `silenceMs` without a fix.
+ *
+ * Pure and clock-free: callers pass timestamps, which keeps it
+ * deterministic under test. `RunTrackingService` owns one per run.
+ */
+
+export interface AutoPauseOptions {
+  /** Speeds below this count as stopped. Default 0.8 m/s. */
+  pauseSpeedMps?: number;
+  /** How long speed must stay low before pausing. Default 5 s. */
+  pauseWindowMs?: number;
+  /** Speeds at or above this count as moving again. Default 1.2 m/s. */
+  resumeSpeedMps?: number;
+  /** How long speed must stay high before resuming. Default 3 s. */
+  resumeWindowMs?: number;
+  /** Pause when no fix has arrived for this long. Default 10 s. */
+  silenceMs?: number;
+}
+
+export type AutoPauseTransition =
+  /** `since` is when the runner stopped, not when it was detected. */
+  | { type: 'paused'; since: number }
+  /** `at` is when the runner started moving again. */
+  | { type: 'resumed'; at: number };
+
+const DEFAULTS: Required<AutoPauseOptions> = {
+  pauseSpeedMps: 0.8,
+  pauseWindowMs: 5000,
+  resumeSpeedMps: 1.2,
+  resumeWindowMs: 3000,
+  silenceMs: 10000,
+};
+
+export class AutoPauseDetector {
+  private readonly options: Required<AutoPauseOptions>;
+  private paused = false;
+  private lowSince: number | null = null;
+  private highSince: number | null = null;
+  private lastSampleAt: number | null = null;
+
+  constructor(options: AutoPauseOptions = {}) {
+    this.options = { ...DEFAULTS, ...options };
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Feed one speed sample (m/s). Returns a transition when the state
+   * changes, otherwise null.
+   */
+  update(timestamp: number, speed: number): AutoPauseTransition | null {
+    this.lastSampleAt = timestamp;
+
+    if (!this.paused) {
+      if (speed >= this.options.pauseSpeedMps) {
+        this.lowSince = null;
+        return null;
+      }
+      this.lowSince ??= timestamp;
+      return timestamp - this.lowSince >= this.options.pauseWindowMs
+        ? this.pause(this.lowSince)
+        : null;
+    }
+
+    if (speed < this.options.resumeSpeedMps) {
+      this.highSince = null;
+      return null;
+    }
+    this.highSince ??= timestamp;
+    if (timestamp - this.highSince < this.options.resumeWindowMs) return null;
+
+    const at = this.highSince;
+    this.paused = false;
+    this.highSince = null;
+    this.lowSince = null;
+    return { type: 'resumed', at };
+  }
+
+  /**
+   * Time-based check for when fixes stop arriving. Call periodically.
+   */
+  tick(now: number): AutoPauseTransition | null {
+    if (this.paused || this.lastSampleAt === null) return null;
+    if (this.lowSince !== null && now - this.lowSince >= this.options.pauseWindowMs) {
+      return this.pause(this.lowSince);
+    }
+    if (now - this.lastSampleAt >= this.options.silenceMs) {
+      return this.pause(this.lastSampleAt);
+    }
+    return null;
+  }
+
+  /** Back to "moving" with no history, e.g. on run start or manual resume. */
+  reset(): void {
+    this.paused = false;
+    this.lowSince = null;
+    this.highSince = null;
+    this.lastSampleAt = null;
+  }
+
+  private pause(since: number): AutoPauseTransition {
+    this.paused = true;
+    this.highSince = null;
+    return { type: 'paused', since };
+  }
+}
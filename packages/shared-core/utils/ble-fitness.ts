@@ -0,0 +1,89 @@
+/**
+ * Bluetooth LE fitness profile decoding
+ *
+ * Parsers for the two GATT characteristics running sensors expose:
+ * Heart Rate Measurement (0x2A37, Heart Rate service 0x180D) and RSC
+ * Measurement (0x2A53, Running Speed and Cadence service 0x1814). Both
+ * web (Web Bluetooth) and mobile (whatever BLE library the app plugs in)
+ * hand over the raw characteristic value; decoding lives here so they
+ * agree. Values are little-endian per the Bluetooth spec.
+ */
+
+export const BLE_SERVICES = {
+  heartRate: 'heart_rate', // 0x180D
+  runningSpeedAndCadence: 'running_speed_and_cadence', // 0x1814
+} as const;
+
+export const BLE_CHARACTERISTICS = {
+  heartRateMeasurement: 'heart_rate_measurement', // 0x2A37
+  rscMeasurement: 'rsc_measurement', // 0x2A53
+} as const;
+
+/** Full 128-bit UUIDs, for BLE libraries that don't know the aliases. */
+export const BLE_UUIDS = {
+  heartRateService: '0000180d-0000-1000-8000-00805f9b34fb',
+  heartRateMeasurement: '00002a37-0000-1000-8000-00805f9b34fb',
+  rscService: '00001814-0000-1000-8000-00805f9b34fb',
+  rscMeasurement: '00002a53-0000-1000-8000-00805f9b34fb',
+} as const;
+
+export interface HeartRateMeasurement {
+  heartRate: number; // bpm
+  /** Undefined when the sensor doesn't report skin contact. */
+  contactDetected?: boolean;
+  energyExpended?: number; // kJ
+  rrIntervals: number[]; // ms
+}
+
+export interface RscMeasurement {
+  speed: number; // m/s
+  cadence: number; // steps per minute
+  strideLength?: number; // meters
+  totalDistance?: number; // meters
+  running: boolean; // false when the sensor reports walking
+}
+
+export function parseHeartRateMeasurement(value: DataView): HeartRateMeasurement {
+  const flags = value.getUint8(0);
+  const wideHeartRate = (flags & 0x01) !== 0;
+  const contactSupported = (flags & 0x04) !== 0;
+  const hasEnergy = (flags & 0x08) !== 0;
+  const hasRrIntervals = (flags & 0x10) !== 0;
+
+  let offset = 1;
+  const heartRate = wideHeartRate ? value.getUint16(offset, true) : value.getUint8(offset);
+  offset += wideHeartRate ? 2 : 1;
+
+  const measurement: HeartRateMeasurement = { heartRate, rrIntervals: [] };
+  if (contactSupported) measurement.contactDetected = (flags & 0x02) !== 0;
+  if (hasEnergy) {
+    measurement.energyExpended = value.getUint16(offset, true);
+    offset += 2;
+  }
+  if (hasRrIntervals) {
+    for (; offset + 1 < value.byteLength; offset += 2) {
+      // Resolution is 1/1024 s
+      measurement.rrIntervals.push(Math.round((value.getUint16(offset, true) / 1024) * 1000));
+    }
+  }
+  return measurement;
+}
+
+export function parseRscMeasurement(value: DataView): RscMeasurement {
+  const flags = value.getUint8(0);
+  const measurement: RscMeasurement = {
+    speed: value.getUint16(1, true) / 256,
+    cadence: value.getUint8(3),
+    running: (flags & 0x04) !== 0,
+  };
+
+  let offset = 4;
+  if (flags & 0x01) {
+    measurement.strideLength = value.getUint16(offset, true) / 100;
+    offset += 2;
+  }
+  if (flags & 0x02) {
+    measurement.totalDistance = value.getUint32(offset, true) / 10;
+  }
+  return measurement;
+}
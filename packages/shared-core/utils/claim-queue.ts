@@ -0,0 +1,149 @@
+/**
+ * Territory claim queue
+ *
+ * Claims made while the wallet or network is away wait here instead of
+ * failing, the way RunSyncService queues run uploads on mobile:
+ *
+ * - One entry per geohash. Queuing a geohash that's already waiting
+ *   keeps the first entry; one that gave up is queued afresh.
+ * - An attempt that fails for a reason that can pass (no wallet, no
+ *   network, a timeout) is retried with exponential backoff, up to
+ *   `MAX_CLAIM_ATTEMPTS`. Anything else (a revert, a rejected
+ *   signature) fails the entry for good.
+ * - Settled entries, claimed or failed, linger for `SETTLED_RETENTION_MS`
+ *   so the UI can show them, then `pruneSettled` drops them.
+ *
+ * Pure: no storage, no clock; every step takes the time.
+ */
+
+export type ClaimQueueStatus = 'queued' | 'claiming' | 'claimed' | 'failed';
+
+export interface ClaimQueueEntry<T = unknown> {
+  geohash: string;
+  payload: T; // what to claim, e.g. the Territory
+  runId?: string;
+  status: ClaimQueueStatus;
+  attempts: number;
+  queuedAt: number;
+  nextAttemptAt: number;
+  lastAttemptAt?: number;
+  lastError?: string;
+  transactionHash?: string;
+}
+
+export type ClaimOutcome =
+  | { ok: true; transactionHash?: string }
+  | { ok: false; error: string; retryable: boolean };
+
+export const MAX_CLAIM_ATTEMPTS = 6;
+export const CLAIM_BACKOFF_BASE_MS = 5_000;
+export const CLAIM_BACKOFF_MAX_MS = 5 * 60_000;
+export const SETTLED_RETENTION_MS = 60_000;
+
+/** Wait after the `attempts`-th failed attempt: 5 s, 10 s, 20 s … capped at 5 min. */
+export function claimBackoff(attempts: number): number {
+  return Math.min(CLAIM_BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), CLAIM_BACKOFF_MAX_MS);
+}
+
+/** Failures worth retrying: the wallet, network or node being away, not the claim itself. */
+export function isRetryableClaimError(message: string): boolean {
+  if (/reject|denied|revert/i.test(message)) return false;
+  return /wallet not connected|not ready|network|offline|timeout|timed out|failed to fetch|disconnected|could not detect|missing response/i.test(
+    message
+  );
+}
+
+export function enqueueClaim<T>(
+  queue: ClaimQueueEntry<T>[],
+  item: { geohash: string; payload: T; runId?: string },
+  now: number
+): ClaimQueueEntry<T>[] {
+  const existing = queue.find((e) => e.geohash === item.geohash);
+  if (existing && existing.status !== 'failed') return queue;
+  return [
+    ...queue.filter((e) => e.geohash !== item.geohash),
+    { ...item, status: 'queued', attempts: 0, queuedAt: now, nextAttemptAt: now },
+  ];
+}
+
+/** Queued entries whose backoff is over, oldest first. */
+export function dueClaims<T>(queue: ClaimQueueEntry<T>[], now: number): ClaimQueueEntry<T>[] {
+  return queue
+    .filter((e) => e.status === 'queued' && e.nextAttemptAt <= now)
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+/** When the next queued entry comes due, or null when none is waiting. */
+export function nextClaimDue<T>(queue: ClaimQueueEntry<T>[]): number | null {
+  const waiting = queue.filter((e) => e.status === 'queued').map((e) => e.nextAttemptAt);
+  return waiting.length ? Math.min(...waiting) : null;
+}
+
+export function startClaim<T>(
+  queue: ClaimQueueEntry<T>[],
+  geohash: string,
+  now: number
+): ClaimQueueEntry<T>[] {
+  return update(queue, geohash, (e) => ({
+    ...e,
+    status: 'claiming',
+    attempts: e.attempts + 1,
+    lastAttemptAt: now,
+  }));
+}
+
+export function finishClaim<T>(
+  queue: ClaimQueueEntry<T>[],
+  geohash: string,
+  outcome: ClaimOutcome,
+  now: number
+): ClaimQueueEntry<T>[] {
+  return update(queue, geohash, (e) => {
+    if (outcome.ok) {
+      return {
+        ...e,
+        status: 'claimed',
+        lastError: undefined,
+        transactionHash: outcome.transactionHash,
+      };
+    }
+    const retry = outcome.retryable && e.attempts < MAX_CLAIM_ATTEMPTS;
+    return {
+      ...e,
+      status: retry ? 'queued' : 'failed',
+      lastError: outcome.error,
+      nextAttemptAt: retry ? now + claimBackoff(e.attempts) : e.nextAttemptAt,
+    };
+  });
+}
+
+/** Make every queued entry due now, e.g. when the wallet reconnects. */
+export function retryNow<T>(queue: ClaimQueueEntry<T>[], now: number): ClaimQueueEntry<T>[] {
+  return queue.map((e) => (e.status === 'queued' ? { ...e, nextAttemptAt: now } : e));
+}
+
+/**
+ * Entries left 'claiming' by a closed tab go back in the queue. The
+ * contract refuses a geohash minted twice, so a claim that did land
+ * fails its retry harmlessly.
+ */
+export function recoverInterrupted<T>(queue: ClaimQueueEntry<T>[]): ClaimQueueEntry<T>[] {
+  return queue.map((e) => (e.status === 'claiming' ? { ...e, status: 'queued' } : e));
+}
+
+export function pruneSettled<T>(queue: ClaimQueueEntry<T>[], now: number): ClaimQueueEntry<T>[] {
+  return queue.filter(
+    (e) =>
+      e.status === 'queued' ||
+      e.status === 'claiming' ||
+      now - (e.lastAttemptAt ?? e.queuedAt) < SETTLED_RETENTION_MS
+  );
+}
+
+function update<T>(
+  queue: ClaimQueueEntry<T>[],
+  geohash: string,
+  change: (entry: ClaimQueueEntry<T>) => ClaimQueueEntry<T>
+): ClaimQueueEntry<T>[] {
+  return queue.map((e) => (e.geohash === geohash ? change(e) : e));
+}
@@ -0,0 +1,259 @@
+/**
+ * Device sync
+ *
+ * How a user's run history, territories and progression converge across
+ * their devices. Each synced thing is a document — a run, a territory,
+ * the player's stats — that the server keeps once per user with a `seq`
+ * from a per-user counter, so a device catches up by asking for every
+ * document with a higher `seq` than the last one it saw (its cursor).
+ *
+ * A device pushing a document says which `seq` it last saw (`baseSeq`).
+ * If the server's copy is still that one, the push simply replaces it.
+ * If another device got there first, the two edits are concurrent and
+ * `resolveSyncPush` settles them by kind:
+ *
+ * - runs: last writer wins, by `updatedAt`, ties broken by device id;
+ * - stats: merged field by field against the stats the device last
+ *   synced (`mergePlayerStats`), so progress made on both devices adds
+ *   up rather than one side's being lost;
+ * - territories: last writer wins, unless both sides claimed the
+ *   territory differently. Only one of those claims can be real, so the
+ *   one the chain has confirmed (a transaction hash) stands, otherwise
+ *   the earlier claim, and the other is reported as a conflict.
+ *
+ * The server runs this (via server/sync-store.js) as the one place
+ * concurrent edits are settled; DeviceSyncService takes its answer.
+ *
+ * Pure.
+ */
+
+export type SyncKind = 'run' | 'territory' | 'stats';
+
+export const SYNC_KINDS: SyncKind[] = ['run', 'territory', 'stats'];
+
+/** Id of the one stats document each user has. */
+export const STATS_DOCUMENT_ID = 'player';
+
+/** A document as the server keeps it. */
+export interface SyncRecord<T = unknown> {
+  kind: SyncKind;
+  id: string;
+  data: T;
+  updatedAt: number; // when the writing device changed it
+  deviceId: string; // which device wrote it
+  seq: number;
+}
+
+/** A device's changed copy of a document. */
+export interface SyncPush<T = unknown> {
+  kind: SyncKind;
+  id: string;
+  data: T;
+  updatedAt: number;
+  deviceId: string;
+  baseSeq: number; // seq of the server copy the device last saw, 0 for none
+  base?: T; // stats only: the stats as last synced, for the merge
+}
+
+export interface SyncConflict {
+  kind: SyncKind;
+  id: string;
+  reason: string;
+  kept: 'server' | 'device';
+  discarded: unknown; // the losing side's data
+}
+
+export interface SyncResolution<T = unknown> {
+  // What the server should now hold; null keeps its copy as it is
+  record: Pick<SyncRecord<T>, 'data' | 'updatedAt' | 'deviceId'> | null;
+  conflict?: SyncConflict;
+}
+
+/** The parts of PlayerStats (ProgressionService) the merge looks at. */
+export interface MergeableStats {
+  level: number;
+  experience: number;
+  totalDistance: number;
+  territoriesOwned: number;
+  territoriesClaimed: number;
+  challengesWon: number;
+  totalTime: number;
+  personalRecords: number;
+  achievements: string[];
+  activeChallenges: Array<{
+    id: string;
+    completed: boolean;
+    claimed: boolean;
+    goal: { current: number };
+  }>;
+  streak: number;
+  lastActiveDate?: string; // YYYY-MM-DD
+}
+
+/** The parts of a Territory (TerritoryService) that say who claimed it. */
+export interface ClaimedTerritory {
+  owner?: string;
+  claimedAt?: number;
+  transactionHash?: string;
+  tokenId?: string;
+}
+
+// Counters that only grow as the player plays, except territoriesOwned,
+// which trades and gifts take down; all of them add up across devices
+const COUNTERS = [
+  'experience',
+  'totalDistance',
+  'territoriesOwned',
+  'territoriesClaimed',
+  'challengesWon',
+  'totalTime',
+  'personalRecords',
+] as const;
+
+/**
+ * Merge two devices' stats. With `base`, the stats both started from,
+ * each counter gets both devices' gains; without one there is no telling
+ * shared progress from separate progress, so each counter takes the
+ * larger side rather than risk counting anything twice. Achievements are
+ * pooled, the level is the higher one, the streak is the one from the
+ * more recently active device, and challenges keep the furthest progress
+ * either side made.
+ */
+export function mergePlayerStats<T extends MergeableStats>(
+  base: MergeableStats | undefined,
+  local: T,
+  remote: T
+): T {
+  const merged: T = { ...remote };
+  for (const key of COUNTERS) {
+    merged[key] = base
+      ? Math.max(0, local[key] + remote[key] - base[key])
+      : Math.max(local[key], remote[key]);
+  }
+  merged.level = Math.max(local.level, remote.level);
+  merged.achievements = [...new Set([...remote.achievements, ...local.achievements])];
+
+  const localDay = local.lastActiveDate ?? '';
+  const remoteDay = remote.lastActiveDate ?? '';
+  if (localDay > remoteDay || (localDay === remoteDay && local.streak > remote.streak)) {
+    merged.streak = local.streak;
+    merged.lastActiveDate = local.lastActiveDate;
+  }
+
+  const challenges = new Map(remote.activeChallenges.map((c) => [c.id, c]));
+  for (const mine of local.activeChallenges) {
+    const theirs = challenges.get(mine.id);
+    challenges.set(
+      mine.id,
+      theirs
+        ? {
+            ...theirs,
+            completed: theirs.completed || mine.completed,
+            claimed: theirs.claimed || mine.claimed,
+            goal: { ...theirs.goal, current: Math.max(theirs.goal.current, mine.goal.current) },
+          }
+        : mine
+    );
+  }
+  merged.activeChallenges = [...challenges.values()] as T['activeChallenges'];
+  return merged;
+}
+
+/** Whether two copies of a territory record different claims of it. */
+export function claimsDiffer(a: ClaimedTerritory, b: ClaimedTerritory): boolean {
+  if (a.claimedAt === undefined || b.claimedAt === undefined) return false;
+  const claim = (t: ClaimedTerritory) =>
+    `${t.owner?.toLowerCase() ?? ''}|${t.transactionHash ?? t.tokenId ?? t.claimedAt}`;
+  return claim(a) !== claim(b);
+}
+
+/**
+ * Which of two different claims stands: one the chain has confirmed over
+ * one it hasn't, otherwise the earlier one, as the chain would have it.
+ */
+export function standingClaim(
+  server: ClaimedTerritory,
+  device: ClaimedTerritory
+): 'server' | 'device' {
+  if (Boolean(server.transactionHash) !== Boolean(device.transactionHash)) {
+    return server.transactionHash ? 'server' : 'device';
+  }
+  return (device.claimedAt ?? Infinity) < (server.claimedAt ?? Infinity) ? 'device' : 'server';
+}
+
+function isNewer(push: SyncPush, stored: SyncRecord): boolean {
+  if (push.updatedAt !== stored.updatedAt) return push.updatedAt > stored.updatedAt;
+  return push.deviceId > stored.deviceId;
+}
+
+/** Settle a device's push against the server's copy of the document. */
+export function resolveSyncPush<T>(
+  stored: SyncRecord<T> | undefined,
+  push: SyncPush<T>
+): SyncResolution<T> {
+  const { data, updatedAt, deviceId } = push;
+  // Nothing on the server, or the device had seen the latest copy
+  if (!stored || stored.seq <= push.baseSeq) {
+    return { record: { data, updatedAt, deviceId } };
+  }
+
+  switch (push.kind) {
+    case 'stats':
+      return {
+        record: {
+          data: mergePlayerStats(
+            push.base as MergeableStats | undefined,
+            data as MergeableStats,
+            stored.data as MergeableStats
+          ) as T,
+          updatedAt: Math.max(updatedAt, stored.updatedAt),
+          deviceId,
+        },
+      };
+
+    case 'territory': {
+      const server = stored.data as ClaimedTerritory;
+      const device = data as ClaimedTerritory;
+      if (!claimsDiffer(server, device)) break;
+      const kept = standingClaim(server, device);
+      return {
+        record: kept === 'device' ? { data, updatedAt, deviceId } : null,
+        conflict: {
+          kind: push.kind,
+          id: push.id,
+          reason: 'claimed on two devices',
+          kept,
+          discarded: kept === 'device' ? stored.data : data,
+        },
+      };
+    }
+  }
+
+  return { record: isNewer(push, stored) ? { data, updatedAt, deviceId } : null };
+}
+
+/**
+ * A short fingerprint of a JSON value that ignores key order, for telling
+ * whether a document has changed since it was last synced.
+ */
+export function syncFingerprint(value: unknown): string {
+  const text = stableStringify(value);
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}:${text.length}`;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
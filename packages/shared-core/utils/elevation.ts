@@ -0,0 +1,224 @@
+/**
+ * Elevation analysis
+ *
+ * Turns the altitudes recorded on a run into cumulative gain/loss, a
+ * smoothed distance-vs-altitude profile and grade-adjusted pace.
+ *
+ * GPS altitude is noisy (±10 m is normal), so:
+ * - altitudes are smoothed with a distance-weighted moving window before
+ *   anything else looks at them, and
+ * - gain/loss only count once a climb or descent exceeds `gainThreshold`
+ *   from the last turning point (hysteresis), so jitter on the flat adds
+ *   nothing.
+ *
+ * Grade adjustment uses Minetti et al. (2002), "Energy cost of walking
+ * and running at extreme uphill and downhill slopes": a segment's speed
+ * is scaled by the energy cost of its grade relative to the flat, giving
+ * the speed the same effort would have produced on level ground.
+ *
+ * Pure and structurally typed, like the other utils: anything with
+ * lat/lng and an optional altitude works.
+ */
+
+import { haversineDistance } from './geo-distance';
+
+export interface ElevationSample {
+  lat: number;
+  lng: number;
+  altitude?: number; // meters
+  timestamp?: number;
+}
+
+export interface ElevationProfilePoint {
+  distance: number; // meters from the start
+  altitude: number; // smoothed, meters
+}
+
+export interface SegmentElevation {
+  grade: number; // rise over run, e.g. 0.05 for 5%
+  gradeAdjustedSpeed?: number; // m/s; only when the segment has timing
+}
+
+export interface ElevationSummary {
+  gain: number; // meters
+  loss: number; // meters
+  minAltitude: number;
+  maxAltitude: number;
+  /** Smoothed profile, downsampled to at most `maxProfilePoints`. */
+  profile: ElevationProfilePoint[];
+  /** One entry per consecutive pair of samples. */
+  segments: SegmentElevation[];
+  /** Whole-run distance over grade-adjusted time, when timestamps exist. */
+  gradeAdjustedSpeed?: number;
+}
+
+export interface ElevationOptions {
+  /** Half-width of the smoothing window. Default 50 m. */
+  smoothingWindowMeters?: number;
+  /** Minimum climb/descent counted towards gain/loss. Default 3 m. */
+  gainThreshold?: number;
+  /** Profile size cap for storage and charts. Default 200. */
+  maxProfilePoints?: number;
+}
+
+const DEFAULTS: Required<ElevationOptions> = {
+  smoothingWindowMeters: 50,
+  gainThreshold: 3,
+  maxProfilePoints: 200,
+};
+
+// Minetti's fit is only valid within ±45%.
+const MAX_GRADE = 0.45;
+
+/**
+ * Energy cost of running (J/kg/m) at a given grade.
+ */
+export function runningEnergyCost(grade: number): number {
+  const i = Math.max(-MAX_GRADE, Math.min(MAX_GRADE, grade));
+  return 155.4 * i ** 5 - 30.4 * i ** 4 - 43.3 * i ** 3 + 46.3 * i ** 2 + 19.5 * i + 3.6;
+}
+
+/**
+ * Equivalent flat-ground speed for `speed` (m/s) run at `grade`.
+ */
+export function gradeAdjustedSpeed(speed: number, grade: number): number {
+  return speed * (runningEnergyCost(grade) / runningEnergyCost(0));
+}
+
+/**
+ * Cumulative distance along the samples, one entry per sample.
+ */
+function cumulativeDistances(samples: ElevationSample[]): number[] {
+  const distances = [0];
+  for (let i = 1; i < samples.length; i++) {
+    distances.push(distances[i - 1] + haversineDistance(samples[i - 1], samples[i]));
+  }
+  return distances;
+}
+
+/**
+ * Smoothed altitude per sample. Samples without an altitude take the
+ * smoothed value of their neighbours; null when no sample has one.
+ */
+export function smoothAltitudes(
+  samples: ElevationSample[],
+  options: ElevationOptions = {}
+): number[] | null {
+  const { smoothingWindowMeters } = { ...DEFAULTS, ...options };
+  const distances = cumulativeDistances(samples);
+  const known = samples
+    .map((s, i) => ({ distance: distances[i], altitude: s.altitude }))
+    .filter((s): s is ElevationProfilePoint => typeof s.altitude === 'number');
+  if (known.length === 0) return null;
+
+  // Two-pointer sliding window over the samples that have altitude.
+  let lo = 0;
+  let hi = 0;
+  return distances.map((d) => {
+    while (lo < known.length - 1 && known[lo].distance < d - smoothingWindowMeters) lo++;
+    while (hi < known.length - 1 && known[hi + 1].distance <= d + smoothingWindowMeters) hi++;
+
+    let weightSum = 0;
+    let sum = 0;
+    for (let j = lo; j <= hi; j++) {
+      // Triangular weights: nearer samples count more.
+      const weight = 1 - Math.abs(known[j].distance - d) / (smoothingWindowMeters + 1);
+      if (weight <= 0) continue;
+      weightSum += weight;
+      sum += weight * known[j].altitude;
+    }
+    if (weightSum > 0) return sum / weightSum;
+
+    // Gap wider than the window: use whichever known sample is closest.
+    const nearest = known.reduce((best, s) =>
+      Math.abs(s.distance - d) < Math.abs(best.distance - d) ? s : best
+    );
+    return nearest.altitude;
+  });
+}
+
+/**
+ * Gain and loss with hysteresis: a change only counts once it exceeds
+ * `threshold` from the last turning point.
+ */
+export function calculateGainLoss(
+  altitudes: number[],
+  threshold = DEFAULTS.gainThreshold
+): { gain: number; loss: number } {
+  let gain = 0;
+  let loss = 0;
+  if (altitudes.length === 0) return { gain, loss };
+
+  let reference = altitudes[0];
+  for (const altitude of altitudes) {
+    const delta = altitude - reference;
+    if (delta >= threshold) {
+      gain += delta;
+      reference = altitude;
+    } else if (delta <= -threshold) {
+      loss -= delta;
+      reference = altitude;
+    }
+  }
+  return { gain, loss };
+}
+
+function downsample<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  const step = (items.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => items[Math.round(i * step)]);
+}
+
+/**
+ * Full elevation analysis of a route. Returns null when fewer than two
+ * samples carry an altitude.
+ */
+export function analyzeElevation(
+  samples: ElevationSample[],
+  options: ElevationOptions = {}
+): ElevationSummary | null {
+  const settings = { ...DEFAULTS, ...options };
+  if (samples.filter((s) => typeof s.altitude === 'number').length < 2) return null;
+
+  const smoothed = smoothAltitudes(samples, settings);
+  if (!smoothed) return null;
+  const distances = cumulativeDistances(samples);
+
+  const segments: SegmentElevation[] = [];
+  let timedDistance = 0;
+  let adjustedSeconds = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const run = distances[i] - distances[i - 1];
+    const grade =
+      run > 0
+        ? Math.max(-MAX_GRADE, Math.min(MAX_GRADE, (smoothed[i] - smoothed[i - 1]) / run))
+        : 0;
+    const segment: SegmentElevation = { grade };
+
+    const start = samples[i - 1].timestamp;
+    const end = samples[i].timestamp;
+    if (start !== undefined && end !== undefined && end > start && run > 0) {
+      const seconds = (end - start) / 1000;
+      segment.gradeAdjustedSpeed = gradeAdjustedSpeed(run / seconds, grade);
+      timedDistance += run;
+      adjustedSeconds += run / segment.gradeAdjustedSpeed;
+    }
+    segments.push(segment);
+  }
+
+  const { gain, loss } = calculateGainLoss(smoothed, settings.gainThreshold);
+  const profile = downsample(
+    smoothed.map((altitude, i) => ({ distance: distances[i], altitude })),
+    settings.maxProfilePoints
+  );
+
+  return {
+    gain,
+    loss,
+    minAltitude: Math.min(...smoothed),
+    maxAltitude: Math.max(...smoothed),
+    profile,
+    segments,
+    gradeAdjustedSpeed: adjustedSeconds > 0 ? timedDistance / adjustedSeconds : undefined,
+  };
+}
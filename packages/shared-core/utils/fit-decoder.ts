@@ -0,0 +1,303 @@
+/**
+ * Minimal FIT (Flexible and Interoperable Data Transfer) decoder.
+ *
+ * Garmin, Coros, Wahoo and Suunto watches export activities as binary
+ * FIT files. We only need a small slice of the profile — `record`
+ * messages for the track and `lap` / `session` messages for structure —
+ * so rather than pulling in a full SDK this walks the record stream,
+ * tracks local message definitions, and picks out the handful of fields
+ * listed in `RECORD_FIELDS` / `LAP_FIELDS`. Unknown messages, developer
+ * fields and array fields are skipped by size, never interpreted.
+ *
+ * The trailing CRC is not verified: a truncated or slightly corrupt file
+ * still yields every record before the damage, which is what a runner
+ * importing a flaky watch export wants.
+ */
+import type { ParsedActivity, ParsedLap, ParsedTrackPoint } from './activity-file-parsers';
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z). */
+const FIT_EPOCH_OFFSET_S = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+
+const FIELD_TIMESTAMP = 253;
+
+const RECORD_FIELDS = {
+  positionLat: 0,
+  positionLong: 1,
+  altitude: 2,
+  heartRate: 3,
+  distance: 5,
+  speed: 6,
+  enhancedSpeed: 73,
+  enhancedAltitude: 78,
+} as const;
+
+const LAP_FIELDS = {
+  startTime: 2,
+  totalElapsedTime: 7,
+  totalDistance: 9,
+} as const;
+
+const SESSION_FIELDS = {
+  sport: 5,
+} as const;
+
+/** FIT `sport` enum values we surface by name. */
+const SPORT_NAMES: Record<number, string> = {
+  0: 'generic',
+  1: 'running',
+  2: 'cycling',
+  11: 'walking',
+  17: 'hiking',
+};
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  /** Total bytes of developer fields to skip after the regular fields. */
+  developerBytes: number;
+}
+
+/**
+ * Decode a FIT file into the format-neutral `ParsedActivity`. Throws on a
+ * missing/invalid header; tolerates truncation after the header.
+ */
+export function decodeFitFile(bytes: Uint8Array): ParsedActivity {
+  if (bytes.length < 12) {
+    throw new Error('FIT file is too short to contain a header');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = bytes[0];
+  const signature = String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]);
+  if ((headerSize !== 12 && headerSize !== 14) || signature !== '.FIT') {
+    throw new Error('Not a FIT file (missing ".FIT" header signature)');
+  }
+
+  const dataSize = view.getUint32(4, true);
+  const end = Math.min(bytes.length, headerSize + dataSize);
+  const definitions = new Map<number, MessageDefinition>();
+  const points: ParsedTrackPoint[] = [];
+  const laps: ParsedLap[] = [];
+  let sport: string | undefined;
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = bytes[offset++];
+
+    // Compressed-timestamp data message: 5-bit rollover offset against
+    // the last full timestamp we saw.
+    if (header & 0x80) {
+      const local = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1f;
+      let timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+      lastTimestamp = timestamp;
+      const def = definitions.get(local);
+      if (!def) break;
+      const values = readMessage(view, offset, def);
+      if (values === null) break;
+      offset += messageSize(def);
+      if (!values.has(FIELD_TIMESTAMP)) values.set(FIELD_TIMESTAMP, timestamp);
+      collect(def.globalNum, values);
+      continue;
+    }
+
+    const local = header & 0x0f;
+    if (header & 0x40) {
+      const hasDeveloperFields = (header & 0x20) !== 0;
+      if (offset + 5 > end) break;
+      const littleEndian = bytes[offset + 1] === 0;
+      const globalNum = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = bytes[offset + 4];
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        if (offset + 3 > end) break;
+        fields.push({ num: bytes[offset], size: bytes[offset + 1], baseType: bytes[offset + 2] });
+        offset += 3;
+      }
+
+      let developerBytes = 0;
+      if (hasDeveloperFields && offset < end) {
+        const devCount = bytes[offset++];
+        for (let i = 0; i < devCount && offset + 3 <= end; i++) {
+          developerBytes += bytes[offset + 1];
+          offset += 3;
+        }
+      }
+
+      definitions.set(local, { globalNum, littleEndian, fields, developerBytes });
+      continue;
+    }
+
+    const def = definitions.get(local);
+    if (!def) break;
+    const values = readMessage(view, offset, def);
+    if (values === null) break;
+    offset += messageSize(def);
+    const ts = values.get(FIELD_TIMESTAMP);
+    if (ts !== undefined) lastTimestamp = ts;
+    collect(def.globalNum, values);
+  }
+
+  function collect(globalNum: number, values: Map<number, number>): void {
+    if (globalNum === MESG_RECORD) {
+      const point = toTrackPoint(values);
+      if (point) points.push(point);
+    } else if (globalNum === MESG_LAP) {
+      const start = values.get(LAP_FIELDS.startTime);
+      if (start === undefined) return;
+      const elapsed = values.get(LAP_FIELDS.totalElapsedTime);
+      const distance = values.get(LAP_FIELDS.totalDistance);
+      laps.push({
+        startTime: fitTimeToMs(start),
+        // total_elapsed_time is stored in ms (scale 1000 on seconds)
+        durationMs: elapsed,
+        distance: distance !== undefined ? distance / 100 : undefined,
+      });
+    } else if (globalNum === MESG_SESSION) {
+      const sportValue = values.get(SESSION_FIELDS.sport);
+      if (sportValue !== undefined) sport = SPORT_NAMES[sportValue] ?? `sport_${sportValue}`;
+    }
+  }
+
+  points.sort((a, b) => a.timestamp - b.timestamp);
+  laps.sort((a, b) => a.startTime - b.startTime);
+
+  return {
+    format: 'fit',
+    sport,
+    startTime: points[0]?.timestamp ?? laps[0]?.startTime ?? 0,
+    points,
+    laps,
+  };
+}
+
+function toTrackPoint(values: Map<number, number>): ParsedTrackPoint | null {
+  const ts = values.get(FIELD_TIMESTAMP);
+  const lat = values.get(RECORD_FIELDS.positionLat);
+  const lng = values.get(RECORD_FIELDS.positionLong);
+  // Indoor / pre-lock records have no position; they can't be drawn or
+  // claimed, so they are dropped rather than interpolated.
+  if (ts === undefined || lat === undefined || lng === undefined) return null;
+
+  const point: ParsedTrackPoint = {
+    lat: lat * SEMICIRCLES_TO_DEGREES,
+    lng: lng * SEMICIRCLES_TO_DEGREES,
+    timestamp: fitTimeToMs(ts),
+  };
+
+  const altitude = values.get(RECORD_FIELDS.enhancedAltitude) ?? values.get(RECORD_FIELDS.altitude);
+  if (altitude !== undefined) point.altitude = altitude / 5 - 500;
+
+  const heartRate = values.get(RECORD_FIELDS.heartRate);
+  if (heartRate !== undefined) point.heartRate = heartRate;
+
+  const speed = values.get(RECORD_FIELDS.enhancedSpeed) ?? values.get(RECORD_FIELDS.speed);
+  if (speed !== undefined) point.speed = speed / 1000;
+
+  return point;
+}
+
+function fitTimeToMs(fitSeconds: number): number {
+  return (fitSeconds + FIT_EPOCH_OFFSET_S) * 1000;
+}
+
+function messageSize(def: MessageDefinition): number {
+  return def.fields.reduce((sum, f) => sum + f.size, 0) + def.developerBytes;
+}
+
+/**
+ * Read every scalar field of a data message into a num → value map.
+ * Invalid sentinels (0xFF, 0x7FFF, …) are omitted so callers can treat
+ * "missing" and "invalid" identically. Returns null on truncation.
+ */
+function readMessage(
+  view: DataView,
+  offset: number,
+  def: MessageDefinition
+): Map<number, number> | null {
+  if (offset + messageSize(def) > view.byteLength) return null;
+  const values = new Map<number, number>();
+  let cursor = offset;
+
+  for (const field of def.fields) {
+    const value = readScalar(view, cursor, field, def.littleEndian);
+    if (value !== undefined) values.set(field.num, value);
+    cursor += field.size;
+  }
+  return values;
+}
+
+function readScalar(
+  view: DataView,
+  offset: number,
+  field: FieldDefinition,
+  le: boolean
+): number | undefined {
+  // Base type number is the low 5 bits; the high bit only flags
+  // endian-sensitivity.
+  switch (field.baseType & 0x1f) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0a: {
+      // uint8z
+      if (field.size !== 1) return undefined;
+      const v = view.getUint8(offset);
+      return v === 0xff || (field.baseType === 0x0a && v === 0) ? undefined : v;
+    }
+    case 0x01: {
+      if (field.size !== 1) return undefined;
+      const v = view.getInt8(offset);
+      return v === 0x7f ? undefined : v;
+    }
+    case 0x03: {
+      if (field.size !== 2) return undefined;
+      const v = view.getInt16(offset, le);
+      return v === 0x7fff ? undefined : v;
+    }
+    case 0x04:
+    case 0x0b: {
+      if (field.size !== 2) return undefined;
+      const v = view.getUint16(offset, le);
+      return v === 0xffff || ((field.baseType & 0x1f) === 0x0b && v === 0) ? undefined : v;
+    }
+    case 0x05: {
+      if (field.size !== 4) return undefined;
+      const v = view.getInt32(offset, le);
+      return v === 0x7fffffff ? undefined : v;
+    }
+    case 0x06:
+    case 0x0c: {
+      if (field.size !== 4) return undefined;
+      const v = view.getUint32(offset, le);
+      return v === 0xffffffff || ((field.baseType & 0x1f) === 0x0c && v === 0) ? undefined : v;
+    }
+    case 0x08: {
+      if (field.size !== 4) return undefined;
+      const v = view.getFloat32(offset, le);
+      return Number.isFinite(v) ? v : undefined;
+    }
+    case 0x09: {
+      if (field.size !== 8) return undefined;
+      const v = view.getFloat64(offset, le);
+      return Number.isFinite(v) ? v : undefined;
+    }
+    default:
+      // strings, byte arrays and 64-bit integers are not needed
+      return undefined;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Dependency-free great-circle distance.
+ *
+ * `distance-formatter.calculateDistance` goes through Turf, which is the
+ * right call inside services but drags an ESM-only dependency tree into
+ * anything that imports it. Pure helpers that must also run under Node
+ * and jest (file import/export, filtering, validation) use this instead.
+ * The two agree to well under a metre at running distances.
+ */
+
+/** Mean Earth radius in meters (IUGG), the value Turf uses. */
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+/**
+ * Haversine distance in meters between two points.
+ */
+export function haversineDistance(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number {
+  const toRad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * toRad;
+  const dLng = (b.lng - a.lng) * toRad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * toRad) * Math.cos(b.lat * toRad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
@@ -0,0 +1,379 @@
+/**
+ * GPS filtering pipeline
+ *
+ * Raw phone GPS is noisy in exactly the places people run: between tall
+ * buildings a fix can jump 50-200 m sideways for a few seconds, and a
+ * runner waiting at a crossing "drifts" several metres a second. Both
+ * inflate distance and can turn an honest loop into a non-loop (or the
+ * reverse). Every fix therefore goes through an ordered list of stages:
+ *
+ *  1. accuracy gate   — drop fixes whose reported accuracy is too poor
+ *  2. speed spike     — drop fixes that imply an impossible running speed
+ *                       relative to the last plausible fix (teleports)
+ *  3. Kalman          — constant-velocity filter weighted by accuracy;
+ *                       replaces the fix with the filtered estimate
+ *  4. stationary drift — hold position while the filtered speed says the
+ *                       runner is standing still, and drop jitter
+ *                       below a minimum displacement
+ *
+ * Stages are independent objects implementing `GpsFilterStage`, so a
+ * caller can reorder, drop or add stages. `RunTrackingService` (and via
+ * it `MobileRunTrackingService`) owns one pipeline per run;
+ * `filterTrace` replays a recorded trace through a pipeline for tests
+ * and offline tuning.
+ */
+import { EARTH_RADIUS_METERS, haversineDistance } from './geo-distance';
+
+export interface GpsFix {
+  lat: number;
+  lng: number;
+  /** Unix epoch milliseconds */
+  timestamp: number;
+  /** Reported horizontal accuracy (1σ radius) in meters */
+  accuracy?: number;
+  /** Speed in m/s. Set by the Kalman stage to its estimate. */
+  speed?: number;
+}
+
+export type GpsStageOutput = { fix: GpsFix } | { reason: string };
+
+export interface GpsFilterStage {
+  readonly name: string;
+  /** Return the (possibly adjusted) fix, or a rejection reason. */
+  process(fix: GpsFix): GpsStageOutput;
+  /** Forget all state, e.g. when a run starts or resumes. */
+  reset(): void;
+}
+
+export type GpsFilterResult =
+  | { accepted: true; fix: GpsFix }
+  /** `fix` is the input as it reached the rejecting stage. */
+  | { accepted: false; stage: string; reason: string; fix: GpsFix };
+
+export interface GpsFilterOptions {
+  /** Fixes with a worse reported accuracy are dropped. Default 20 m. */
+  maxAccuracyMeters?: number;
+  /** Accuracy assumed for fixes that don't report one. Default 10 m. */
+  defaultAccuracyMeters?: number;
+  /** Fastest plausible running speed. Default 12 m/s (~1:23/km). */
+  maxSpeedMps?: number;
+  /**
+   * After this many consecutive spikes the stage accepts the fix and
+   * re-anchors on it, so one bad anchor can't lock out a whole run.
+   * Default 5.
+   */
+  maxConsecutiveSpikes?: number;
+  /** Kalman process noise as acceleration variance (m²/s⁴). Default 0.1. */
+  processNoise?: number;
+  /** Filtered speeds below this count as standing still. Default 0.5 m/s. */
+  stationarySpeedMps?: number;
+  /** Minimum movement while "stationary" before a fix is kept. Default 5 m. */
+  stationaryRadiusMeters?: number;
+  /**
+   * Minimum movement from the last kept fix at any speed. Keeps lateral
+   * jitter of densely sampled fixes out of the distance. Default 5 m.
+   */
+  minDisplacementMeters?: number;
+  /** Set false to skip the Kalman stage (e.g. for already-smoothed input). */
+  kalman?: boolean;
+}
+
+const DEFAULTS: Required<GpsFilterOptions> = {
+  maxAccuracyMeters: 20,
+  defaultAccuracyMeters: 10,
+  maxSpeedMps: 12,
+  maxConsecutiveSpikes: 5,
+  processNoise: 0.1,
+  stationarySpeedMps: 0.5,
+  stationaryRadiusMeters: 5,
+  minDisplacementMeters: 5,
+  kalman: true,
+};
+
+/**
+ * Runs a fix through each stage in order, stopping at the first rejection.
+ */
+export class GpsFilterPipeline {
+  constructor(private readonly stages: GpsFilterStage[]) {}
+
+  process(fix: GpsFix): GpsFilterResult {
+    let current = fix;
+    for (const stage of this.stages) {
+      const out = stage.process(current);
+      if ('reason' in out) {
+        return { accepted: false, stage: stage.name, reason: out.reason, fix: current };
+      }
+      current = out.fix;
+    }
+    return { accepted: true, fix: current };
+  }
+
+  reset(): void {
+    for (const stage of this.stages) stage.reset();
+  }
+
+  getStages(): readonly GpsFilterStage[] {
+    return this.stages;
+  }
+}
+
+/**
+ * The default four-stage pipeline described at the top of this file.
+ */
+export function createGpsFilterPipeline(options: GpsFilterOptions = {}): GpsFilterPipeline {
+  const opts = { ...DEFAULTS, ...options };
+  const stages: GpsFilterStage[] = [
+    new AccuracyGateStage(opts.maxAccuracyMeters),
+    new SpeedSpikeStage(opts.maxSpeedMps, opts.maxConsecutiveSpikes),
+  ];
+  if (opts.kalman) {
+    stages.push(new KalmanStage(opts.processNoise, opts.defaultAccuracyMeters));
+  }
+  stages.push(
+    new StationaryDriftStage(
+      opts.stationarySpeedMps,
+      opts.stationaryRadiusMeters,
+      opts.minDisplacementMeters
+    )
+  );
+  return new GpsFilterPipeline(stages);
+}
+
+/**
+ * Replay a recorded trace through a pipeline (a fresh default one unless
+ * given). Returns the accepted fixes in order plus every rejection.
+ */
+export function filterTrace(
+  fixes: GpsFix[],
+  pipeline: GpsFilterPipeline = createGpsFilterPipeline()
+): {
+  accepted: GpsFix[];
+  rejected: Array<{ fix: GpsFix; stage: string; reason: string }>;
+} {
+  const accepted: GpsFix[] = [];
+  const rejected: Array<{ fix: GpsFix; stage: string; reason: string }> = [];
+  for (const fix of fixes) {
+    const result = pipeline.process(fix);
+    if (result.accepted) accepted.push(result.fix);
+    else rejected.push({ fix: result.fix, stage: result.stage, reason: result.reason });
+  }
+  return { accepted, rejected };
+}
+
+// ---------------------------------------------------------------------------
+// Stages
+// ---------------------------------------------------------------------------
+
+export class AccuracyGateStage implements GpsFilterStage {
+  readonly name = 'accuracy';
+
+  constructor(private readonly maxAccuracyMeters: number) {}
+
+  process(fix: GpsFix): GpsStageOutput {
+    if (!Number.isFinite(fix.lat) || !Number.isFinite(fix.lng)) {
+      return { reason: 'invalid coordinate' };
+    }
+    if (fix.accuracy !== undefined && fix.accuracy > this.maxAccuracyMeters) {
+      return { reason: `accuracy ${Math.round(fix.accuracy)}m > ${this.maxAccuracyMeters}m` };
+    }
+    return { fix };
+  }
+
+  reset(): void {}
+}
+
+/**
+ * Rejects fixes that would require moving faster than `maxSpeedMps` since
+ * the last accepted fix. Both fixes' accuracy radii are subtracted from
+ * the jump first, so a merely imprecise fix isn't mistaken for a teleport.
+ */
+export class SpeedSpikeStage implements GpsFilterStage {
+  readonly name = 'speedSpike';
+  private anchor: GpsFix | null = null;
+  private consecutiveSpikes = 0;
+
+  constructor(
+    private readonly maxSpeedMps: number,
+    private readonly maxConsecutiveSpikes: number
+  ) {}
+
+  process(fix: GpsFix): GpsStageOutput {
+    if (!this.anchor) {
+      this.anchor = fix;
+      return { fix };
+    }
+
+    const dt = (fix.timestamp - this.anchor.timestamp) / 1000;
+    if (dt <= 0) {
+      return { reason: 'timestamp not after previous fix' };
+    }
+
+    const jump = haversineDistance(this.anchor, fix);
+    const slack = (this.anchor.accuracy ?? 0) + (fix.accuracy ?? 0);
+    const impliedSpeed = Math.max(0, jump - slack) / dt;
+
+    if (impliedSpeed > this.maxSpeedMps) {
+      this.consecutiveSpikes++;
+      if (this.consecutiveSpikes < this.maxConsecutiveSpikes) {
+        return { reason: `implied speed ${impliedSpeed.toFixed(1)}m/s` };
+      }
+      // The "spikes" have persisted: more likely the anchor was the bad
+      // fix (e.g. a cold-start position), so move on from it.
+    }
+
+    this.consecutiveSpikes = 0;
+    this.anchor = fix;
+    return { fix };
+  }
+
+  reset(): void {
+    this.anchor = null;
+    this.consecutiveSpikes = 0;
+  }
+}
+
+/**
+ * Constant-velocity Kalman filter on a local east/north plane. Each axis
+ * is an independent [position, velocity] filter; measurement noise is
+ * the fix's accuracy squared, so a 5 m fix pulls the estimate far harder
+ * than a 20 m one. Outputs the filtered position with `speed` set to the
+ * filtered ground speed.
+ */
+export class KalmanStage implements GpsFilterStage {
+  readonly name = 'kalman';
+  private origin: { lat: number; lng: number; metersPerDegLng: number } | null = null;
+  private x: AxisState | null = null;
+  private y: AxisState | null = null;
+  private lastTimestamp = 0;
+
+  constructor(
+    private readonly processNoise: number,
+    private readonly defaultAccuracyMeters: number
+  ) {}
+
+  process(fix: GpsFix): GpsStageOutput {
+    const accuracy = Math.max(1, fix.accuracy ?? this.defaultAccuracyMeters);
+    const r = accuracy * accuracy;
+
+    if (!this.origin || !this.x || !this.y) {
+      this.origin = {
+        lat: fix.lat,
+        lng: fix.lng,
+        metersPerDegLng: METERS_PER_DEG * Math.cos((fix.lat * Math.PI) / 180),
+      };
+      this.x = initialAxis(0, r);
+      this.y = initialAxis(0, r);
+      this.lastTimestamp = fix.timestamp;
+      return { fix: { ...fix, speed: 0 } };
+    }
+
+    const dt = Math.max(0, (fix.timestamp - this.lastTimestamp) / 1000);
+    this.lastTimestamp = fix.timestamp;
+
+    const mx = (fix.lng - this.origin.lng) * this.origin.metersPerDegLng;
+    const my = (fix.lat - this.origin.lat) * METERS_PER_DEG;
+    this.x = updateAxis(predictAxis(this.x, dt, this.processNoise), mx, r);
+    this.y = updateAxis(predictAxis(this.y, dt, this.processNoise), my, r);
+
+    return {
+      fix: {
+        ...fix,
+        lat: this.origin.lat + this.y.p / METERS_PER_DEG,
+        lng: this.origin.lng + this.x.p / this.origin.metersPerDegLng,
+        speed: Math.hypot(this.x.v, this.y.v),
+      },
+    };
+  }
+
+  reset(): void {
+    this.origin = null;
+    this.x = null;
+    this.y = null;
+    this.lastTimestamp = 0;
+  }
+}
+
+/**
+ * Holds position while the runner is standing still: a fix is dropped
+ * when its speed is below `stationarySpeedMps` and it lies within the
+ * larger of `stationaryRadiusMeters` and its own accuracy of the last
+ * kept fix. Needs `speed` on the fix — put it after the Kalman stage.
+ * Independently of speed, fixes closer than `minDisplacementMeters` to
+ * the last kept one are dropped.
+ */
+export class StationaryDriftStage implements GpsFilterStage {
+  readonly name = 'stationaryDrift';
+  private lastKept: GpsFix | null = null;
+
+  constructor(
+    private readonly stationarySpeedMps: number,
+    private readonly stationaryRadiusMeters: number,
+    private readonly minDisplacementMeters = 0
+  ) {}
+
+  process(fix: GpsFix): GpsStageOutput {
+    if (this.lastKept) {
+      const moved = haversineDistance(this.lastKept, fix);
+      if (fix.speed !== undefined && fix.speed < this.stationarySpeedMps) {
+        const radius = Math.max(this.stationaryRadiusMeters, fix.accuracy ?? 0);
+        if (moved < radius) return { reason: 'stationary drift' };
+      }
+      if (moved < this.minDisplacementMeters) {
+        return { reason: `moved ${moved.toFixed(1)}m < ${this.minDisplacementMeters}m` };
+      }
+    }
+    this.lastKept = fix;
+    return { fix };
+  }
+
+  reset(): void {
+    this.lastKept = null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 1-D constant-velocity Kalman helpers
+// ---------------------------------------------------------------------------
+
+const METERS_PER_DEG = (EARTH_RADIUS_METERS * Math.PI) / 180;
+
+/** Initial velocity variance: we know nothing, ±5 m/s covers running. */
+const INITIAL_VELOCITY_VARIANCE = 25;
+
+interface AxisState {
+  p: number;
+  v: number;
+  /** Covariance [[pp, pv], [pv, vv]] */
+  pp: number;
+  pv: number;
+  vv: number;
+}
+
+function initialAxis(position: number, r: number): AxisState {
+  return { p: position, v: 0, pp: r, pv: 0, vv: INITIAL_VELOCITY_VARIANCE };
+}
+
+function predictAxis(s: AxisState, dt: number, q: number): AxisState {
+  const dt2 = dt * dt;
+  return {
+    p: s.p + s.v * dt,
+    v: s.v,
+    pp: s.pp + 2 * dt * s.pv + dt2 * s.vv + (q * dt2 * dt2) / 4,
+    pv: s.pv + dt * s.vv + (q * dt2 * dt) / 2,
+    vv: s.vv + q * dt2,
+  };
+}
+
+function updateAxis(s: AxisState, z: number, r: number): AxisState {
+  const innovation = z - s.p;
+  const denom = s.pp + r;
+  const kp = s.pp / denom;
+  const kv = s.pv / denom;
+  return {
+    p: s.p + kp * innovation,
+    v: s.v + kv * innovation,
+    pp: (1 - kp) * s.pp,
+    pv: (1 - kp) * s.pv,
+    vv: s.vv - kv * s.pv,
+  };
+}
@@ -25,11 +25,28 @@ import {
   gridDisk,
   isValidCell,
   latLngToCell,
+  polygonToCells,
 } from 'h3-js';
 
 export const H3_RESOLUTION = 9;
 export const H3_RESOLUTION_AREA_KM2 = 0.105;
 
+/**
+ * Coarser levels territory cells roll up into: res 7 "districts"
+ * (~5 km², 49 cells) and res 5 "regions" (~250 km², 49 districts).
+ * See utils/territory-hierarchy.ts for how they're held.
+ */
+export const H3_DISTRICT_RESOLUTION = 7;
+export const H3_REGION_RESOLUTION = 5;
+
+/**
+ * Largest share of a new claim's cells that may already belong to other
+ * territories. Below this the claim goes through on its uncontested cells
+ * only; above it the run mostly retraces someone else's ground and is
+ * rejected outright.
+ */
+export const MAX_CONTESTED_FRACTION = 0.5;
+
 /**
  * GeoJSON polygon for a single H3 cell, suitable for adding to a
  * mapbox-gl/maplibre-gl FeatureCollection. Coordinates are [lng, lat]
@@ -125,6 +142,83 @@ export function cellsIntersect(a: string[], b: string[]): boolean {
   return false;
 }
 
+/** Cells of one existing territory that a candidate claim also covers. */
+export interface CellConflict {
+  territoryId: string;
+  /** Shared H3 indices, in the candidate's order */
+  cells: string[];
+  /** Shared cells as a fraction of the candidate's cells */
+  fraction: number;
+}
+
+export interface CellOverlap {
+  uncontestedCells: string[];
+  contestedCells: string[];
+  /** contestedCells / all candidate cells; 0 for an empty candidate */
+  contestedFraction: number;
+  conflicts: CellConflict[];
+}
+
+/**
+ * Split a candidate claim's cells into the ones nobody holds and the ones
+ * already held, with a per-territory breakdown of the latter. Duplicate
+ * candidate cells are counted once. Territories that merely sit next to
+ * the candidate share no cells and produce no conflict, which is the
+ * point — two loops around adjacent blocks are both claimable.
+ */
+export function cellOverlap(
+  candidate: string[],
+  existing: Array<{ id: string; cells: string[] }>
+): CellOverlap {
+  const cells = [...new Set(candidate)];
+  const contested = new Set<string>();
+  const conflicts: CellConflict[] = [];
+
+  for (const other of existing) {
+    const held = new Set(other.cells);
+    const shared = cells.filter((idx) => held.has(idx));
+    if (shared.length === 0) continue;
+    for (const idx of shared) contested.add(idx);
+    conflicts.push({
+      territoryId: other.id,
+      cells: shared,
+      fraction: shared.length / cells.length,
+    });
+  }
+
+  return {
+    uncontestedCells: cells.filter((idx) => !contested.has(idx)),
+    contestedCells: cells.filter((idx) => contested.has(idx)),
+    contestedFraction: cells.length > 0 ? contested.size / cells.length : 0,
+    conflicts,
+  };
+}
+
+/**
+ * Cells whose centres fall inside a lat/lng rectangle. Used for legacy
+ * territories that predate `h3Cells` and for previews that only have
+ * bounds. A rectangle smaller than one cell still yields the cell under
+ * its centre, so nothing maps to an empty set.
+ */
+export function boundsToCells(bounds: {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}): string[] {
+  const ring: CoordPair[] = [
+    [bounds.north, bounds.west],
+    [bounds.north, bounds.east],
+    [bounds.south, bounds.east],
+    [bounds.south, bounds.west],
+  ];
+  const cells = polygonToCells(ring, H3_RESOLUTION);
+  if (cells.length > 0) return cells;
+  return [
+    latLngToCell((bounds.north + bounds.south) / 2, (bounds.east + bounds.west) / 2, H3_RESOLUTION),
+  ];
+}
+
 /**
  * Return a set of H3 cells within `ringSize` rings of the given center
  * cell. Used for "nearby territory" UI and for resolving which cells a
@@ -138,7 +232,10 @@ export function neighboringCells(h3Index: string, ringSize: number): TerritoryCe
   return gridDisk(h3Index, ringSize).map(toTerritoryCell);
 }
 
-function toTerritoryCell(h3Index: string): TerritoryCell {
+/**
+ * Expand a bare H3 index (as stored on a RunSession) into a TerritoryCell.
+ */
+export function toTerritoryCell(h3Index: string): TerritoryCell {
   const [centerLat, centerLng] = cellToLatLng(h3Index);
   const boundary = cellToBoundary(h3Index, false).map(([lat, lng]) => ({ lat, lng }));
   return {
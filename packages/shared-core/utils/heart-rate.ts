@@ -0,0 +1,149 @@
+/**
+ * Heart-rate zones and cadence
+ *
+ * Five zones as fractions of maximum heart rate (the common 50/60/70/80/90
+ * split). Time in zone is attributed per gap between consecutive points:
+ * the gap takes the zone of the average of its two readings, and gaps
+ * longer than `maxGapMs` (pauses, dropped sensor) count for nothing.
+ *
+ * Pure and structurally typed, like the other utils: anything with a
+ * timestamp and optional `heartRate`/`cadence` works.
+ */
+
+export type HeartRateZone = 1 | 2 | 3 | 4 | 5;
+
+export interface HeartRateZoneDefinition {
+  zone: HeartRateZone;
+  name: string;
+  min: number; // fraction of max HR, inclusive
+  max: number; // fraction of max HR, exclusive (zone 5 has no ceiling)
+}
+
+export const HEART_RATE_ZONES: HeartRateZoneDefinition[] = [
+  { zone: 1, name: 'Recovery', min: 0.5, max: 0.6 },
+  { zone: 2, name: 'Endurance', min: 0.6, max: 0.7 },
+  { zone: 3, name: 'Tempo', min: 0.7, max: 0.8 },
+  { zone: 4, name: 'Threshold', min: 0.8, max: 0.9 },
+  { zone: 5, name: 'VO2 max', min: 0.9, max: Number.POSITIVE_INFINITY },
+];
+
+export interface SensorPoint {
+  timestamp: number;
+  heartRate?: number; // bpm
+  cadence?: number; // steps per minute
+}
+
+export interface ZoneTime {
+  zone: HeartRateZone;
+  name: string;
+  minBpm: number;
+  maxBpm: number | null; // null for zone 5
+  duration: number; // ms
+}
+
+export interface HeartRateSummary {
+  maxHeartRate: number; // the max HR the zones were computed against
+  averageHeartRate: number; // time-weighted, bpm
+  peakHeartRate: number; // highest reading, bpm
+  timeInZones: ZoneTime[]; // one entry per zone, in order
+  belowZonesDuration: number; // ms under 50% of max
+  averageCadence?: number; // time-weighted, steps per minute
+}
+
+export interface HeartRateOptions {
+  /** Gaps between readings longer than this are ignored. Default 30 s. */
+  maxGapMs?: number;
+}
+
+const DEFAULT_MAX_GAP_MS = 30_000;
+
+/**
+ * Age-predicted maximum heart rate (Tanaka et al., 2001).
+ */
+export function estimateMaxHeartRate(age: number): number {
+  return Math.round(208 - 0.7 * age);
+}
+
+/**
+ * Zone for a reading, or null below zone 1.
+ */
+export function heartRateZone(bpm: number, maxHeartRate: number): HeartRateZone | null {
+  const fraction = bpm / maxHeartRate;
+  const match = HEART_RATE_ZONES.find((z) => fraction >= z.min && fraction < z.max);
+  return match ? match.zone : null;
+}
+
+/**
+ * Zone boundaries in bpm for a given max heart rate.
+ */
+export function zoneBoundaries(maxHeartRate: number): Omit<ZoneTime, 'duration'>[] {
+  return HEART_RATE_ZONES.map((z) => ({
+    zone: z.zone,
+    name: z.name,
+    minBpm: Math.round(z.min * maxHeartRate),
+    maxBpm: Number.isFinite(z.max) ? Math.round(z.max * maxHeartRate) : null,
+  }));
+}
+
+function gapValue(a: number | undefined, b: number | undefined): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return (a + b) / 2;
+}
+
+/**
+ * Time in zone, averages and peak for a run. Null when no point carries
+ * a heart rate.
+ */
+export function summarizeHeartRate(
+  points: SensorPoint[],
+  maxHeartRate: number,
+  options: HeartRateOptions = {}
+): HeartRateSummary | null {
+  const readings = points.filter((p) => typeof p.heartRate === 'number');
+  if (readings.length === 0) return null;
+
+  const maxGapMs = options.maxGapMs ?? DEFAULT_MAX_GAP_MS;
+  const timeInZones: ZoneTime[] = zoneBoundaries(maxHeartRate).map((z) => ({
+    ...z,
+    duration: 0,
+  }));
+  let belowZonesDuration = 0;
+  let heartRateTime = 0;
+  let heartRateSum = 0;
+  let cadenceTime = 0;
+  let cadenceSum = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const gap = points[i].timestamp - points[i - 1].timestamp;
+    if (gap <= 0 || gap > maxGapMs) continue;
+
+    const heartRate = gapValue(points[i - 1].heartRate, points[i].heartRate);
+    if (heartRate !== undefined) {
+      heartRateTime += gap;
+      heartRateSum += heartRate * gap;
+      const zone = heartRateZone(heartRate, maxHeartRate);
+      if (zone) timeInZones[zone - 1].duration += gap;
+      else belowZonesDuration += gap;
+    }
+
+    const cadence = gapValue(points[i - 1].cadence, points[i].cadence);
+    if (cadence !== undefined) {
+      cadenceTime += gap;
+      cadenceSum += cadence * gap;
+    }
+  }
+
+  const bpms = readings.map((p) => p.heartRate as number);
+  return {
+    maxHeartRate,
+    averageHeartRate:
+      heartRateTime > 0
+        ? Math.round(heartRateSum / heartRateTime)
+        : Math.round(bpms.reduce((a, b) => a + b, 0) / bpms.length),
+    peakHeartRate: Math.max(...bpms),
+    timeInZones,
+    belowZonesDuration,
+    averageCadence: cadenceTime > 0 ? Math.round(cadenceSum / cadenceTime) : undefined,
+  };
+}
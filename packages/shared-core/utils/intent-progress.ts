@@ -0,0 +1,226 @@
+/**
+ * Territory intent progress
+ *
+ * A territory intent is a plan to claim an area on a later run: the H3
+ * cells it covers and, optionally, the route the runner means to take.
+ * `IntentTracker` follows a live run against one intent:
+ *
+ * - Cell coverage is the share of the intent's cells the run has entered.
+ * - Route coverage is the share of checkpoints along the planned route
+ *   (one every `checkpointSpacing` meters) the run has passed within
+ *   `offRouteMeters` of.
+ * - Percent complete averages the two, or is cell coverage alone when
+ *   there's no planned route.
+ * - Deviation is how far the latest point is from the planned route;
+ *   past `offRouteMeters` the runner is off route.
+ * - The intent is complete once each coverage reaches
+ *   `completeFraction`. Asking for every last cell would fail on GPS
+ *   drift alone.
+ *
+ * Pure: no timers, no services. Distances are meters.
+ */
+import { haversineDistance } from './geo-distance';
+import { boundsToCells, coordsToCell, neighboringCells, routeToCells } from './h3-territory';
+
+export interface IntentPoint {
+  lat: number;
+  lng: number;
+}
+
+/** What an intent asks of a run. */
+export interface IntentTarget {
+  id: string;
+  cells: string[];
+  plannedRoute?: IntentPoint[];
+  expiresAt: number;
+}
+
+export interface IntentProgress {
+  intentId: string;
+  cellsCovered: number;
+  cellsTotal: number;
+  checkpointsPassed: number;
+  checkpointsTotal: number; // 0 without a planned route
+  percentComplete: number; // 0-100
+  deviation: number | null; // meters off the planned route; null without one
+  offRoute: boolean;
+  completed: boolean;
+}
+
+export interface IntentTrackerOptions {
+  /** Farther than this from the planned route is off route. Default 50 m. */
+  offRouteMeters?: number;
+  /** Gap between route checkpoints. Default 25 m. */
+  checkpointSpacing?: number;
+  /** Share of cells and of checkpoints that completes the intent. Default 0.9. */
+  completeFraction?: number;
+}
+
+const TRACKER_DEFAULTS: Required<IntentTrackerOptions> = {
+  offRouteMeters: 50,
+  checkpointSpacing: 25,
+  completeFraction: 0.9,
+};
+
+/** A run starting this close to an intent's route or cells takes it on. */
+export const INTENT_START_RADIUS = 200; // meters
+
+/**
+ * Distance from a point to the nearest part of a route. Uses a flat
+ * projection around the point, which is fine at the scale of a run.
+ */
+export function distanceToRoute(point: IntentPoint, route: IntentPoint[]): number {
+  if (route.length === 0) return Number.POSITIVE_INFINITY;
+  if (route.length === 1) return haversineDistance(point, route[0]);
+
+  const metersPerLat = 111_320;
+  const metersPerLng = metersPerLat * Math.cos((point.lat * Math.PI) / 180);
+  const project = (p: IntentPoint) => ({
+    x: (p.lng - point.lng) * metersPerLng,
+    y: (p.lat - point.lat) * metersPerLat,
+  });
+
+  let nearest = Number.POSITIVE_INFINITY;
+  for (let i = 1; i < route.length; i++) {
+    const a = project(route[i - 1]);
+    const b = project(route[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq));
+    nearest = Math.min(nearest, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return nearest;
+}
+
+/** Points every `spacing` meters along a route, both ends included. */
+export function routeCheckpoints(route: IntentPoint[], spacing: number): IntentPoint[] {
+  if (route.length === 0) return [];
+  const checkpoints = [route[0]];
+  let carried = 0; // meters since the last checkpoint
+  for (let i = 1; i < route.length; i++) {
+    const from = route[i - 1];
+    const to = route[i];
+    const length = haversineDistance(from, to);
+    let along = spacing - carried;
+    while (along <= length) {
+      const t = along / length;
+      checkpoints.push({
+        lat: from.lat + t * (to.lat - from.lat),
+        lng: from.lng + t * (to.lng - from.lng),
+      });
+      along += spacing;
+    }
+    carried = length - (along - spacing);
+  }
+  const last = route[route.length - 1];
+  if (haversineDistance(checkpoints[checkpoints.length - 1], last) > 0) checkpoints.push(last);
+  return checkpoints;
+}
+
+/**
+ * Cells an intent asks the run to cover: those of the planned route, or
+ * every cell in the bounds when there's no route to follow.
+ */
+export function intentCells(
+  bounds: { north: number; south: number; east: number; west: number },
+  plannedRoute?: IntentPoint[]
+): string[] {
+  if (plannedRoute?.length) {
+    return [...new Set(routeToCells(plannedRoute).map((c) => c.h3Index))];
+  }
+  return boundsToCells(bounds);
+}
+
+/**
+ * Whether a run starting at `point` is taking on the intent: near its
+ * planned route, or in or beside one of its cells.
+ */
+export function isNearIntent(
+  point: IntentPoint,
+  intent: Pick<IntentTarget, 'cells' | 'plannedRoute'>,
+  radius = INTENT_START_RADIUS
+): boolean {
+  if (intent.plannedRoute?.length) {
+    return distanceToRoute(point, intent.plannedRoute) <= radius;
+  }
+  const cells = new Set(intent.cells);
+  const start = coordsToCell(point.lat, point.lng).h3Index;
+  return cells.has(start) || neighboringCells(start, 1).some((c) => cells.has(c.h3Index));
+}
+
+export class IntentTracker {
+  readonly intent: IntentTarget;
+  private readonly options: Required<IntentTrackerOptions>;
+  private readonly cells: Set<string>;
+  private readonly covered = new Set<string>();
+  private readonly checkpoints: IntentPoint[];
+  private readonly passed: boolean[];
+  private deviation: number | null = null;
+  private completed = false;
+
+  constructor(intent: IntentTarget, options: IntentTrackerOptions = {}) {
+    this.intent = intent;
+    this.options = { ...TRACKER_DEFAULTS, ...options };
+    this.cells = new Set(intent.cells);
+    this.checkpoints = routeCheckpoints(intent.plannedRoute ?? [], this.options.checkpointSpacing);
+    this.passed = this.checkpoints.map(() => false);
+  }
+
+  /** Take in the next run point and return where the intent stands. */
+  update(point: IntentPoint): IntentProgress {
+    const cell = coordsToCell(point.lat, point.lng).h3Index;
+    if (this.cells.has(cell)) this.covered.add(cell);
+
+    if (this.intent.plannedRoute?.length) {
+      this.deviation = distanceToRoute(point, this.intent.plannedRoute);
+      this.checkpoints.forEach((checkpoint, i) => {
+        if (
+          !this.passed[i] &&
+          haversineDistance(point, checkpoint) <= this.options.offRouteMeters
+        ) {
+          this.passed[i] = true;
+        }
+      });
+    }
+
+    if (!this.completed) {
+      const { completeFraction } = this.options;
+      this.completed =
+        this.cellFraction() >= completeFraction && this.checkpointFraction() >= completeFraction;
+    }
+    return this.getProgress();
+  }
+
+  /** True once the intent's time is up without it being completed. */
+  isExpired(now: number): boolean {
+    return !this.completed && now >= this.intent.expiresAt;
+  }
+
+  getProgress(): IntentProgress {
+    const hasRoute = this.checkpoints.length > 0;
+    const fraction = hasRoute
+      ? (this.cellFraction() + this.checkpointFraction()) / 2
+      : this.cellFraction();
+    return {
+      intentId: this.intent.id,
+      cellsCovered: this.covered.size,
+      cellsTotal: this.cells.size,
+      checkpointsPassed: this.passed.filter(Boolean).length,
+      checkpointsTotal: this.checkpoints.length,
+      percentComplete: this.completed ? 100 : Math.floor(fraction * 100),
+      deviation: this.deviation,
+      offRoute: this.deviation !== null && this.deviation > this.options.offRouteMeters,
+      completed: this.completed,
+    };
+  }
+
+  private cellFraction(): number {
+    return this.cells.size === 0 ? 1 : this.covered.size / this.cells.size;
+  }
+
+  private checkpointFraction(): number {
+    if (this.checkpoints.length === 0) return 1;
+    return this.passed.filter(Boolean).length / this.checkpoints.length;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Landmarks for territory naming and rarity
+ *
+ * A `LandmarkProvider` returns the parks, trails, monuments and other
+ * points of interest inside a territory's bounds. TerritoryService takes
+ * whichever provider the platform sets up:
+ *
+ * - `OfflineLandmarkProvider` reads a bundled extract (e.g. OSM parks and
+ *   monuments exported to JSON), either as one array or as tiles of
+ *   LANDMARK_TILE_DEGREES loaded on demand. Tests use it with fixtures.
+ * - `GeocodingLandmarkProvider` (services/geocoding-service.ts) asks the
+ *   Mapbox geocoder for points of interest when a token is configured.
+ *
+ * Providers only find candidates; ranking and the "is this special" test
+ * live here so every provider names and grades territories the same way.
+ */
+
+export type LandmarkKind =
+  | 'monument'
+  | 'park'
+  | 'trail'
+  | 'water'
+  | 'viewpoint'
+  | 'sports'
+  | 'other';
+
+export interface Landmark {
+  id: string;
+  name: string;
+  kind: LandmarkKind;
+  lat: number;
+  lng: number;
+  /** 0-1; how notable the place is, where the source says (e.g. a heritage listing) */
+  significance?: number;
+}
+
+export interface LandmarkBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface LandmarkProvider {
+  readonly name: string;
+  /** Landmarks inside `bounds`, in no particular order. */
+  findLandmarks(bounds: LandmarkBounds, signal?: AbortSignal): Promise<Landmark[]>;
+}
+
+/** Loads one tile of a bundled extract; null or [] when the tile is empty. */
+export type LandmarkTileLoader = (tileKey: string) => Promise<Landmark[] | null>;
+
+/** Tile size of bundled extracts, in degrees (~11 km north-south). */
+export const LANDMARK_TILE_DEGREES = 0.1;
+
+/** How much each kind counts towards naming a territory. */
+const KIND_PRIORITY: Record<LandmarkKind, number> = {
+  monument: 5,
+  park: 4,
+  trail: 3,
+  water: 3,
+  viewpoint: 2,
+  sports: 1,
+  other: 0,
+};
+
+const SPECIAL_SIGNIFICANCE = 0.8;
+
+/** Key of the tile containing a point: south-west corner as "lat_lng". */
+export function landmarkTileKey(lat: number, lng: number): string {
+  const row = Math.floor(lat / LANDMARK_TILE_DEGREES);
+  const col = Math.floor(lng / LANDMARK_TILE_DEGREES);
+  return `${(row * LANDMARK_TILE_DEGREES).toFixed(1)}_${(col * LANDMARK_TILE_DEGREES).toFixed(1)}`;
+}
+
+/** Keys of every tile `bounds` touches. */
+export function landmarkTilesForBounds(bounds: LandmarkBounds): string[] {
+  const keys: string[] = [];
+  const rows = [
+    Math.floor(bounds.south / LANDMARK_TILE_DEGREES),
+    Math.floor(bounds.north / LANDMARK_TILE_DEGREES),
+  ];
+  const cols = [
+    Math.floor(bounds.west / LANDMARK_TILE_DEGREES),
+    Math.floor(bounds.east / LANDMARK_TILE_DEGREES),
+  ];
+  for (let row = rows[0]; row <= rows[1]; row++) {
+    for (let col = cols[0]; col <= cols[1]; col++) {
+      keys.push(
+        landmarkTileKey((row + 0.5) * LANDMARK_TILE_DEGREES, (col + 0.5) * LANDMARK_TILE_DEGREES)
+      );
+    }
+  }
+  return keys;
+}
+
+export function isInBounds(point: { lat: number; lng: number }, bounds: LandmarkBounds): boolean {
+  return (
+    point.lat <= bounds.north &&
+    point.lat >= bounds.south &&
+    point.lng <= bounds.east &&
+    point.lng >= bounds.west
+  );
+}
+
+/**
+ * Most name-worthy first: by kind, then significance, then name so the
+ * order is stable. Duplicates (same name and kind) are dropped.
+ */
+export function rankLandmarks(landmarks: Landmark[]): Landmark[] {
+  const seen = new Set<string>();
+  return [...landmarks]
+    .sort(
+      (a, b) =>
+        KIND_PRIORITY[b.kind] - KIND_PRIORITY[a.kind] ||
+        (b.significance ?? 0) - (a.significance ?? 0) ||
+        a.name.localeCompare(b.name)
+    )
+    .filter((landmark) => {
+      const key = `${landmark.kind}:${landmark.name.toLowerCase()}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/** Monuments and highly significant places make a territory legendary. */
+export function isSpecialLandmark(landmark: Landmark): boolean {
+  return landmark.kind === 'monument' || (landmark.significance ?? 0) >= SPECIAL_SIGNIFICANCE;
+}
+
+/**
+ * Map a geocoder or OSM category string ("park, playground",
+ * "historic site", "tourism=viewpoint") onto a kind.
+ */
+export function landmarkKindFromCategory(category: string | undefined): LandmarkKind {
+  const c = (category ?? '').toLowerCase();
+  if (/monument|memorial|historic|landmark|castle|statue|cathedral/.test(c)) return 'monument';
+  if (/park|garden|common|nature|forest|wood/.test(c)) return 'park';
+  if (/trail|path|footway|track|greenway/.test(c)) return 'trail';
+  if (/lake|river|canal|pond|beach|reservoir|water/.test(c)) return 'water';
+  if (/viewpoint|lookout|summit|peak|hill/.test(c)) return 'viewpoint';
+  if (/stadium|sport|pitch|track and field|golf/.test(c)) return 'sports';
+  return 'other';
+}
+
+/**
+ * Landmarks from a bundled extract — a plain array, or tiles loaded on
+ * first use and kept for the session.
+ */
+export class OfflineLandmarkProvider implements LandmarkProvider {
+  readonly name = 'offline';
+  private readonly tiles = new Map<string, Promise<Landmark[]>>();
+
+  constructor(private readonly source: Landmark[] | LandmarkTileLoader) {}
+
+  async findLandmarks(bounds: LandmarkBounds): Promise<Landmark[]> {
+    const candidates = Array.isArray(this.source)
+      ? this.source
+      : (await Promise.all(landmarkTilesForBounds(bounds).map((key) => this.tile(key)))).flat();
+    return candidates.filter((landmark) => isInBounds(landmark, bounds));
+  }
+
+  private tile(key: string): Promise<Landmark[]> {
+    const loader = this.source as LandmarkTileLoader;
+    let tile = this.tiles.get(key);
+    if (!tile) {
+      tile = loader(key)
+        .then((landmarks) => landmarks ?? [])
+        .catch((error) => {
+          console.warn(`Failed to load landmark tile ${key}:`, error);
+          this.tiles.delete(key);
+          return [];
+        });
+      this.tiles.set(key, tile);
+    }
+    return tile;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Neighbourhood leaderboard
+ *
+ * Territories hold resolution-9 H3 cells. To see who owns what around a
+ * runner, the cells are rolled up into their parents at a coarser
+ * resolution (res 7 districts by default, about 5 km²) and the area is the
+ * parents within a few rings of the runner's:
+ *
+ * - `ownershipCells` gives each parent in the area its dominant owner and
+ *   the share of its child cells that owner holds — the choropleth.
+ * - `rankOwners` ranks everyone holding cells in the area by cells held,
+ *   area or the activity points of their territories there.
+ *
+ * Owners are compared without case, as wallet addresses are. Territories
+ * without an owner are left out.
+ */
+import { cellToChildrenSize, cellToParent, gridDisk, latLngToCell } from 'h3-js';
+import { H3_DISTRICT_RESOLUTION, H3_RESOLUTION, H3_RESOLUTION_AREA_KM2 } from './h3-territory';
+
+export type LeaderboardMetric = 'cells' | 'area' | 'activity';
+
+/** Default parent resolution the leaderboard groups cells by: districts. */
+export const LEADERBOARD_RESOLUTION = H3_DISTRICT_RESOLUTION;
+/** Default rings of parents around the runner's that make up the area. */
+export const LEADERBOARD_RINGS = 2;
+
+export interface LeaderboardTerritory {
+  id: string;
+  owner?: string;
+  cells: string[]; // resolution-9 H3 indices
+  activityPoints?: number;
+}
+
+export interface LeaderboardEntry {
+  owner: string;
+  rank: number;
+  cells: number;
+  areaKm2: number;
+  activityPoints: number; // summed over their territories in the area
+  territories: number;
+}
+
+export interface OwnershipCell {
+  h3Index: string; // parent cell
+  owner: string; // holds the most child cells
+  share: number; // 0-1: owner's child cells / all child cells of the parent
+  heldCells: number; // child cells held by anyone
+  owners: Record<string, number>; // child cells per owner
+}
+
+/** Parent cells making up the area around `center`. */
+export function leaderboardArea(
+  center: { lat: number; lng: number },
+  resolution = LEADERBOARD_RESOLUTION,
+  rings = LEADERBOARD_RINGS
+): string[] {
+  return gridDisk(latLngToCell(center.lat, center.lng, resolution), rings);
+}
+
+/**
+ * Who holds each parent cell in the area. Parents nobody holds a cell in
+ * are left out. Sorted by index, so the output is stable.
+ */
+export function ownershipCells(
+  territories: LeaderboardTerritory[],
+  area: string[],
+  resolution = LEADERBOARD_RESOLUTION
+): OwnershipCell[] {
+  const byParent = new Map<string, Map<string, Set<string>>>(); // parent → owner → cells
+  for (const { owner, cells } of holdingsIn(territories, area, resolution)) {
+    for (const [parent, children] of cells) {
+      const owners = byParent.get(parent) ?? new Map<string, Set<string>>();
+      const held = owners.get(owner) ?? new Set<string>();
+      for (const child of children) held.add(child);
+      owners.set(owner, held);
+      byParent.set(parent, owners);
+    }
+  }
+
+  return [...byParent.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([h3Index, owners]) => {
+      const counts: Record<string, number> = {};
+      let top = '';
+      for (const [owner, held] of owners) {
+        counts[owner] = held.size;
+        if (!top || held.size > counts[top] || (held.size === counts[top] && owner < top)) {
+          top = owner;
+        }
+      }
+      return {
+        h3Index,
+        owner: top,
+        share: counts[top] / cellToChildrenSize(h3Index, H3_RESOLUTION),
+        heldCells: Object.values(counts).reduce((sum, n) => sum + n, 0),
+        owners: counts,
+      };
+    });
+}
+
+/**
+ * Everyone holding cells in the area, best first by `metric`; ties fall
+ * to the other measures, then the owner's name.
+ */
+export function rankOwners(
+  territories: LeaderboardTerritory[],
+  area: string[],
+  metric: LeaderboardMetric = 'cells',
+  resolution = LEADERBOARD_RESOLUTION
+): LeaderboardEntry[] {
+  const totals = new Map<string, { cells: Set<string>; activity: number; territories: number }>();
+  for (const holding of holdingsIn(territories, area, resolution)) {
+    const total = totals.get(holding.owner) ?? { cells: new Set(), activity: 0, territories: 0 };
+    for (const children of holding.cells.values()) {
+      for (const child of children) total.cells.add(child);
+    }
+    total.activity += holding.activityPoints;
+    total.territories += 1;
+    totals.set(holding.owner, total);
+  }
+
+  const score = (entry: LeaderboardEntry) =>
+    metric === 'activity' ? entry.activityPoints : entry.cells;
+  const rest = (entry: LeaderboardEntry) =>
+    metric === 'activity' ? entry.cells : entry.activityPoints;
+
+  return [...totals.entries()]
+    .map(([owner, total]) => ({
+      owner,
+      rank: 0,
+      cells: total.cells.size,
+      areaKm2: total.cells.size * H3_RESOLUTION_AREA_KM2,
+      activityPoints: total.activity,
+      territories: total.territories,
+    }))
+    .sort((a, b) => score(b) - score(a) || rest(b) - rest(a) || a.owner.localeCompare(b.owner))
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+}
+
+/** A stable colour per owner for the choropleth and the list. */
+export function ownerColor(owner: string): string {
+  let hash = 0;
+  for (const char of owner.toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 70%, 50%)`;
+}
+
+/** Each owned territory's cells inside the area, grouped by parent. */
+function holdingsIn(
+  territories: LeaderboardTerritory[],
+  area: string[],
+  resolution: number
+): Array<{ owner: string; cells: Map<string, string[]>; activityPoints: number }> {
+  const inArea = new Set(area);
+  const holdings: Array<{ owner: string; cells: Map<string, string[]>; activityPoints: number }> =
+    [];
+  for (const territory of territories) {
+    if (!territory.owner) continue;
+    const cells = new Map<string, string[]>();
+    for (const cell of territory.cells) {
+      const parent = cellToParent(cell, resolution);
+      if (!inArea.has(parent)) continue;
+      cells.set(parent, [...(cells.get(parent) ?? []), cell]);
+    }
+    if (cells.size === 0) continue;
+    holdings.push({
+      owner: territory.owner.toLowerCase(),
+      cells,
+      activityPoints: territory.activityPoints ?? 0,
+    });
+  }
+  return holdings;
+}
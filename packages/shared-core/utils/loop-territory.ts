@@ -0,0 +1,237 @@
+/**
+ * Loop-enclosed territory
+ *
+ * `routeToCells` claims only the hexes a run passes through, so running
+ * around a park never captures the park itself. In loop mode a closed run
+ * claims the area it encloses as well:
+ *
+ * - The route is thinned to points at least `minSpacing` apart and closed
+ *   back to its start.
+ * - Wherever the path crosses itself it is cut into simple loops (a
+ *   figure-eight becomes two), because filling a self-intersecting ring
+ *   with the even-odd rule leaves holes where the lobes overlap.
+ * - Each loop is filled with H3 polygon-to-cells and unioned with the
+ *   cells of the trace itself.
+ * - The claim is capped at `cellsPerKm` cells per kilometre run, keeping
+ *   the cells nearest the trace first, so a long loop around a city holds
+ *   a band inside its route rather than the whole city. Trace cells are
+ *   always kept: loop mode never claims less than trace mode.
+ * - Filling costs time in proportion to the area, so a loop enclosing
+ *   far more than the cap allows is not filled at all: cells are tested
+ *   against it one at a time as the claim grows inward from the trace.
+ */
+import {
+  type CoordPair,
+  cellToLatLng,
+  getHexagonAreaAvg,
+  gridDisk,
+  polygonToCells,
+  UNITS,
+} from 'h3-js';
+import { haversineDistance } from './geo-distance';
+import { H3_RESOLUTION, routeToCells } from './h3-territory';
+
+export type TerritoryMode = 'trace' | 'loop';
+
+/**
+ * Cells a loop may claim per kilometre run. A res-9 cell is ~0.1 km², so
+ * this is roughly a square kilometre per kilometre — a 5K loop round a
+ * park claims all of it, a marathon loop round a city does not.
+ */
+export const LOOP_CELLS_PER_KM = 10;
+
+const DEFAULT_MIN_SPACING = 10; // meters
+
+/** Fill loops enclosing up to this many times the cap; test cells past it. */
+const FILL_LIMIT = 4;
+const METERS_PER_DEGREE = 111_320;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface LoopTerritoryOptions {
+  /** Default LOOP_CELLS_PER_KM. */
+  cellsPerKm?: number;
+  /** Drop points closer than this to the last kept one. Default 10 m. */
+  minSpacing?: number;
+}
+
+export interface LoopTerritory {
+  /** Claimed cells: the trace's first, then the interior nearest-first */
+  cells: string[];
+  /** Cells the route passes through */
+  traceCells: string[];
+  /** Simple closed rings the route was cut into, first point repeated last */
+  loops: LatLng[][];
+  /** True when the cap left enclosed cells unclaimed */
+  capped: boolean;
+}
+
+/**
+ * Cut a route, closed back to its start, into simple loops at every
+ * point where it crosses itself. Each loop is returned closed (first
+ * point repeated last). A route that only touches itself is cut there
+ * too, which changes nothing once the loops are filled.
+ */
+export function splitIntoLoops(points: LatLng[], minSpacing = DEFAULT_MIN_SPACING): LatLng[][] {
+  const thinned = thin(points, minSpacing);
+  if (thinned.length < 3) return [];
+
+  const loops: LatLng[][] = [];
+  const path: LatLng[] = [];
+  for (const next of [...thinned, thinned[0]]) {
+    // A cut shortens the path, and the new last segment may cross an
+    // earlier one too, so keep cutting until the step to `next` is clear.
+    let cut = true;
+    while (cut && path.length >= 3) {
+      cut = false;
+      const from = path[path.length - 1];
+      for (let j = 0; j < path.length - 2; j++) {
+        const crossing = segmentCrossing(path[j], path[j + 1], from, next);
+        if (!crossing) continue;
+        loops.push([crossing, ...path.slice(j + 1), crossing]);
+        path.length = j + 1;
+        path.push(crossing);
+        cut = true;
+        break;
+      }
+    }
+    path.push(next);
+  }
+
+  // What's left runs from the start back to it
+  loops.push(path);
+  return loops.filter((loop) => loop.length >= 4);
+}
+
+/**
+ * Cells for a loop-mode claim: the trace plus everything enclosed,
+ * capped by distance run.
+ */
+export function loopTerritory(
+  points: LatLng[],
+  distance: number,
+  options: LoopTerritoryOptions = {}
+): LoopTerritory {
+  const traceCells = [...new Set(routeToCells(points).map((c) => c.h3Index))];
+  const loops = splitIntoLoops(points, options.minSpacing);
+
+  const cap = Math.max(
+    traceCells.length,
+    Math.floor((distance / 1000) * (options.cellsPerKm ?? LOOP_CELLS_PER_KM))
+  );
+
+  const enclosed = loops.reduce((sum, loop) => sum + loopArea(loop), 0);
+  const fill = enclosed / getHexagonAreaAvg(H3_RESOLUTION, UNITS.m2) <= cap * FILL_LIMIT;
+  const filled = new Set(traceCells);
+  if (fill) {
+    for (const loop of loops) {
+      const ring: CoordPair[] = loop.slice(0, -1).map((p) => [p.lat, p.lng]);
+      for (const idx of polygonToCells(ring, H3_RESOLUTION)) filled.add(idx);
+    }
+  }
+  const inside = (idx: string) => {
+    if (fill) return filled.has(idx);
+    const [lat, lng] = cellToLatLng(idx);
+    return loops.some((loop) => encloses(loop, { lat, lng }));
+  };
+
+  // Breadth-first inward from the trace, so the cap trims the cells
+  // farthest from where the runner actually ran
+  const cells = [...traceCells];
+  const seen = new Set(cells);
+  for (let i = 0; i < cells.length && cells.length < cap; i++) {
+    for (const idx of gridDisk(cells[i], 1)) {
+      if (cells.length >= cap) break;
+      if (!seen.has(idx) && inside(idx)) {
+        seen.add(idx);
+        cells.push(idx);
+      }
+    }
+  }
+  if (!fill) return { cells, traceCells, loops, capped: true };
+
+  // Enclosed cells cut off from the trace (e.g. across a GPS gap)
+  for (const idx of filled) {
+    if (cells.length >= cap) break;
+    if (!seen.has(idx)) {
+      seen.add(idx);
+      cells.push(idx);
+    }
+  }
+
+  return { cells, traceCells, loops, capped: cells.length < filled.size };
+}
+
+/**
+ * H3 indices a run claims in the given mode.
+ */
+export function territoryCells(
+  points: LatLng[],
+  distance: number,
+  mode: TerritoryMode,
+  options: LoopTerritoryOptions = {}
+): string[] {
+  if (mode === 'loop') return loopTerritory(points, distance, options).cells;
+  return routeToCells(points).map((c) => c.h3Index);
+}
+
+function thin(points: LatLng[], minSpacing: number): LatLng[] {
+  const out: LatLng[] = [];
+  for (const p of points) {
+    if (!Number.isFinite(p.lat) || !Number.isFinite(p.lng)) continue;
+    const last = out[out.length - 1];
+    if (!last || haversineDistance(last, p) >= minSpacing) {
+      out.push({ lat: p.lat, lng: p.lng });
+    }
+  }
+  return out;
+}
+
+/** Square meters inside a closed loop (shoelace on a local flat projection). */
+function loopArea(loop: LatLng[]): number {
+  const cosLat = Math.cos((loop[0].lat * Math.PI) / 180);
+  let twice = 0;
+  for (let i = 1; i < loop.length; i++) {
+    const a = loop[i - 1];
+    const b = loop[i];
+    twice += a.lng * cosLat * b.lat - b.lng * cosLat * a.lat;
+  }
+  return (Math.abs(twice) / 2) * METERS_PER_DEGREE ** 2;
+}
+
+/** Whether a closed loop encloses `p` (even-odd ray cast). */
+function encloses(loop: LatLng[], p: LatLng): boolean {
+  let inside = false;
+  for (let i = 1; i < loop.length; i++) {
+    const a = loop[i - 1];
+    const b = loop[i];
+    if (a.lat > p.lat !== b.lat > p.lat) {
+      const lng = a.lng + ((p.lat - a.lat) / (b.lat - a.lat)) * (b.lng - a.lng);
+      if (p.lng < lng) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Where segment a→b crosses c→d, or null. Works in plain
+ * lat/lng, which is fine at the scale of a run.
+ */
+function segmentCrossing(a: LatLng, b: LatLng, c: LatLng, d: LatLng): LatLng | null {
+  const rx = b.lng - a.lng;
+  const ry = b.lat - a.lat;
+  const sx = d.lng - c.lng;
+  const sy = d.lat - c.lat;
+  const denom = rx * sy - ry * sx;
+  if (denom === 0) return null; // parallel or collinear
+
+  // Half-open on both so a crossing exactly at a vertex is found once:
+  // at the start of a→b and at the end of c→d
+  const t = ((c.lng - a.lng) * sy - (c.lat - a.lat) * sx) / denom;
+  const u = ((c.lng - a.lng) * ry - (c.lat - a.lat) * rx) / denom;
+  if (t < 0 || t >= 1 || u <= 0 || u > 1) return null;
+  return { lat: a.lat + t * ry, lng: a.lng + t * rx };
+}
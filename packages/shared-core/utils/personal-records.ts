@@ -0,0 +1,217 @@
+/**
+ * Personal records
+ *
+ * Best efforts over standard distances (fastest 1k, mile, 5k, 10k and
+ * half marathon), plus the longest run and the biggest climb, across a
+ * runner's whole history.
+ *
+ * A best effort is the fastest stretch of the given distance anywhere in
+ * a run, not just from the start: a sliding window over cumulative
+ * distance, with the window's start interpolated between fixes so the
+ * effort covers exactly the target distance.
+ *
+ * Effort time is moving time, as for splits: a gap between fixes longer
+ * than `maxGapMs` is a pause and adds no time.
+ */
+
+import { haversineDistance } from './geo-distance';
+import { formatDuration } from './time-utils';
+
+export type BestEffortKind = '1k' | '1mi' | '5k' | '10k' | 'half';
+export type PersonalRecordKind = BestEffortKind | 'longestRun' | 'biggestClimb';
+
+export const BEST_EFFORT_DISTANCES: Record<BestEffortKind, number> = {
+  '1k': 1000,
+  '1mi': 1609.344,
+  '5k': 5000,
+  '10k': 10000,
+  half: 21097.5,
+};
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordKind, string> = {
+  '1k': '1K',
+  '1mi': 'Mile',
+  '5k': '5K',
+  '10k': '10K',
+  half: 'Half marathon',
+  longestRun: 'Longest run',
+  biggestClimb: 'Biggest climb',
+};
+
+export interface EffortPoint {
+  lat: number;
+  lng: number;
+  timestamp: number;
+}
+
+export interface BestEffort {
+  distance: number; // meters
+  duration: number; // ms of moving time
+  startTime: number; // timestamp at the interpolated start
+  endTime: number; // timestamp of the closing fix
+}
+
+export interface RecordRun {
+  id: string;
+  startTime: number;
+  totalDistance: number; // meters
+  points: EffortPoint[];
+  elevation?: { gain: number };
+}
+
+export interface PersonalRecord {
+  kind: PersonalRecordKind;
+  /** ms for best efforts, meters for longest run and biggest climb. */
+  value: number;
+  runId: string;
+  achievedAt: number; // start time of the run
+  previous?: { value: number; runId: string; achievedAt: number };
+}
+
+export type PersonalRecordBook = Partial<Record<PersonalRecordKind, PersonalRecord>>;
+
+export interface BestEffortOptions {
+  /** Gaps between fixes longer than this count as paused. Default 30 s. */
+  maxGapMs?: number;
+}
+
+const DEFAULT_MAX_GAP_MS = 30_000;
+
+/** Best efforts are fastest-wins; the others are biggest-wins. */
+export function isBestEffort(kind: PersonalRecordKind): kind is BestEffortKind {
+  return kind in BEST_EFFORT_DISTANCES;
+}
+
+export function beatsRecord(
+  kind: PersonalRecordKind,
+  value: number,
+  record?: PersonalRecord
+): boolean {
+  if (!record) return true;
+  return isBestEffort(kind) ? value < record.value : value > record.value;
+}
+
+/**
+ * Fastest stretch of `distance` meters in the run, or null when the run
+ * is shorter than that.
+ */
+export function findBestEffort(
+  points: EffortPoint[],
+  distance: number,
+  options: BestEffortOptions = {}
+): BestEffort | null {
+  const maxGapMs = options.maxGapMs ?? DEFAULT_MAX_GAP_MS;
+  const cumDistance = [0];
+  const cumTime = [0];
+  for (let i = 1; i < points.length; i++) {
+    const elapsed = Math.max(0, points[i].timestamp - points[i - 1].timestamp);
+    cumDistance.push(cumDistance[i - 1] + haversineDistance(points[i - 1], points[i]));
+    cumTime.push(cumTime[i - 1] + (elapsed > maxGapMs ? 0 : elapsed));
+  }
+
+  let best: BestEffort | null = null;
+  let start = 0;
+  for (let end = 1; end < points.length; end++) {
+    if (cumDistance[end] < distance) continue;
+    // Latest fix at or before the point `distance` meters back
+    while (cumDistance[end] - cumDistance[start + 1] >= distance) start++;
+
+    const span = cumDistance[start + 1] - cumDistance[start];
+    const f = span > 0 ? (cumDistance[end] - distance - cumDistance[start]) / span : 0;
+    const startMoving = cumTime[start] + f * (cumTime[start + 1] - cumTime[start]);
+    const duration = cumTime[end] - startMoving;
+
+    if (!best || duration < best.duration) {
+      const startTime =
+        points[start].timestamp + f * (points[start + 1].timestamp - points[start].timestamp);
+      best = { distance, duration, startTime, endTime: points[end].timestamp };
+    }
+  }
+  return best;
+}
+
+/**
+ * Every record a single run sets on its own: one per best-effort
+ * distance it covers, its distance and its climb.
+ */
+export function computeRunRecords(
+  run: RecordRun,
+  options: BestEffortOptions = {}
+): PersonalRecord[] {
+  const record = (kind: PersonalRecordKind, value: number): PersonalRecord => ({
+    kind,
+    value,
+    runId: run.id,
+    achievedAt: run.startTime,
+  });
+  const records: PersonalRecord[] = [];
+
+  for (const [kind, distance] of Object.entries(BEST_EFFORT_DISTANCES) as [
+    BestEffortKind,
+    number,
+  ][]) {
+    if (run.totalDistance < distance) continue;
+    const effort = findBestEffort(run.points, distance, options);
+    if (effort && effort.duration > 0) records.push(record(kind, effort.duration));
+  }
+
+  if (run.totalDistance > 0) records.push(record('longestRun', run.totalDistance));
+  if (run.elevation && run.elevation.gain > 0) {
+    records.push(record('biggestClimb', run.elevation.gain));
+  }
+  return records;
+}
+
+/**
+ * Fold one run into the record book. `achieved` lists the records it
+ * beat, each carrying the record it replaced; a kind set for the first
+ * time updates the book but isn't reported.
+ */
+export function applyRunToRecords(
+  book: PersonalRecordBook,
+  run: RecordRun,
+  options: BestEffortOptions = {}
+): { records: PersonalRecordBook; achieved: PersonalRecord[] } {
+  const records: PersonalRecordBook = { ...book };
+  const achieved: PersonalRecord[] = [];
+
+  for (const candidate of computeRunRecords(run, options)) {
+    const current = records[candidate.kind];
+    if (current?.runId === run.id || !beatsRecord(candidate.kind, candidate.value, current)) {
+      continue;
+    }
+    if (current) {
+      const { value, runId, achievedAt } = current;
+      const beaten = { ...candidate, previous: { value, runId, achievedAt } };
+      records[candidate.kind] = beaten;
+      achieved.push(beaten);
+    } else {
+      records[candidate.kind] = candidate;
+    }
+  }
+  return { records, achieved };
+}
+
+/**
+ * Record book for a whole history, oldest run first so each record's
+ * `previous` is the one it actually replaced.
+ */
+export function computeAllRecords(
+  runs: RecordRun[],
+  options: BestEffortOptions = {}
+): PersonalRecordBook {
+  return [...runs]
+    .sort((a, b) => a.startTime - b.startTime)
+    .reduce((book, run) => applyRunToRecords(book, run, options).records, {} as PersonalRecordBook);
+}
+
+/** "24:13" for a best effort, "21.10 km" for the longest run, "312 m" for a climb. */
+export function formatRecordValue(record: PersonalRecord, useMetric = true): string {
+  if (isBestEffort(record.kind)) return formatDuration(record.value / 1000);
+  if (record.kind === 'biggestClimb') {
+    return useMetric ? `${Math.round(record.value)} m` : `${Math.round(record.value * 3.28084)} ft`;
+  }
+  return useMetric
+    ? `${(record.value / 1000).toFixed(2)} km`
+    : `${(record.value / 1609.344).toFixed(2)} mi`;
+}
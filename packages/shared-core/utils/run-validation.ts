@@ -0,0 +1,436 @@
+/**
+ * Run validation
+ *
+ * A territory is only as honest as the run behind it, and a run is just
+ * a list of points anyone can type into a JSON payload. These checks
+ * hold a run to what a person on foot with a phone actually records:
+ *
+ *  - structure  — at least two points with real coordinates and
+ *                 timestamps, positive distance and duration
+ *  - timestamps — time never runs backwards, and the points span at
+ *                 least the claimed duration
+ *  - distance   — the haversine length of the points agrees with
+ *                 `totalDistance`
+ *  - speed      — no jump further than a GPS glitch at more than running
+ *                 speed (a teleport), few faster segments of any length,
+ *                 and an average a runner can hold
+ *  - density    — enough points per kilometre
+ *  - gaps       — no long unrecorded jump between two points
+ *  - accuracy   — reported GPS accuracy looks like a real receiver: not
+ *                 too poor, not suspiciously uniform
+ *  - vehicle    — no sustained stretch at cycling or driving speed, and
+ *                 no machine-steady pace
+ *
+ * Each check scores 0-1; the weighted mean is the run's score out of
+ * 100. A failed structure, timestamps, distance, speed or vehicle check
+ * rejects the run outright — those aren't GPS noise. A long gap only
+ * makes a run suspicious, since pausing, moving on and resuming leaves
+ * one in an honest track too; it still can't claim territory. Tracks
+ * without per-point timestamps (Strava polylines) skip the timing
+ * checks and can't do better than 'suspicious'.
+ *
+ * Shared by RunTrackingService and server.js (built for Node by
+ * tsconfig.server.json), so it depends on nothing but geo-distance.
+ */
+import { haversineDistance } from './geo-distance';
+
+export interface ValidationPoint {
+  lat: number;
+  lng: number;
+  timestamp: number; // Unix epoch milliseconds
+  accuracy?: number; // meters
+}
+
+export type RunCheckName =
+  | 'structure'
+  | 'timestamps'
+  | 'distance'
+  | 'speed'
+  | 'density'
+  | 'gaps'
+  | 'accuracy'
+  | 'vehicle';
+
+export interface RunCheck {
+  name: RunCheckName;
+  score: number; // 0 (fabricated) to 1 (clean)
+  passed: boolean;
+  skipped?: boolean; // not enough data to judge; left out of the score
+  reasons: string[];
+}
+
+export type RunVerdictKind = 'accepted' | 'suspicious' | 'rejected';
+
+export interface RunVerdict {
+  verdict: RunVerdictKind;
+  score: number; // 0-100
+  reasons: string[]; // every check's reasons, in check order
+  checks: RunCheck[];
+  measuredDistance: number; // meters along the points
+}
+
+export interface RunValidationRules {
+  /** Largest relative gap between `totalDistance` and the points. */
+  distanceTolerance: number;
+  /** Fastest plausible segment; matches the GPS filter's spike limit. */
+  maxSegmentSpeedMps: number;
+  /** Share of segments allowed over that speed as GPS glitches. */
+  maxSpikeFraction: number;
+  /** A glitch doesn't jump further than this; a faster segment that does is a teleport. */
+  teleportMeters: number;
+  /** Fastest plausible average over the whole track. */
+  maxAverageSpeedMps: number;
+  minPointsPerKm: number;
+  /** Longest distance between two consecutive points. */
+  maxGapMeters: number;
+  maxMedianAccuracyMeters: number;
+  /** Accuracy readings spread less than this (std dev) look generated. */
+  minAccuracySpreadMeters: number;
+  /** Sustained segments at this speed are someone on wheels. */
+  vehicleSpeedMps: number;
+  maxVehicleStretchMs: number;
+  /** Moving speeds varying less than this (coefficient) look generated. */
+  minSpeedVariation: number;
+  acceptScore: number;
+  rejectScore: number;
+}
+
+export const RUN_VALIDATION_RULES: Readonly<RunValidationRules> = Object.freeze({
+  distanceTolerance: 0.15,
+  maxSegmentSpeedMps: 12,
+  maxSpikeFraction: 0.02,
+  teleportMeters: 250,
+  maxAverageSpeedMps: 7,
+  minPointsPerKm: 10,
+  maxGapMeters: 1000,
+  maxMedianAccuracyMeters: 30,
+  minAccuracySpreadMeters: 0.5,
+  vehicleSpeedMps: 8,
+  maxVehicleStretchMs: 60_000,
+  minSpeedVariation: 0.03,
+  acceptScore: 80,
+  rejectScore: 50,
+});
+
+const WEIGHTS: Record<Exclude<RunCheckName, 'structure'>, number> = {
+  timestamps: 0.15,
+  distance: 0.2,
+  speed: 0.25,
+  density: 0.1,
+  gaps: 0.05,
+  accuracy: 0.1,
+  vehicle: 0.15,
+};
+
+const CRITICAL: RunCheckName[] = ['structure', 'timestamps', 'distance', 'speed', 'vehicle'];
+
+// Fewer moving segments than this and steadiness says nothing
+const MIN_STEADY_SAMPLE = 20;
+const MOVING_SPEED_MPS = 1;
+
+interface Segment {
+  meters: number;
+  ms: number;
+  speed: number; // m/s; Infinity for distance covered in no time
+}
+
+/**
+ * Check a run and return the verdict. `run` may be anything parsed from
+ * an upload; a malformed one is rejected with the structure reasons.
+ */
+export function validateRun(
+  run: unknown,
+  rules: Readonly<RunValidationRules> = RUN_VALIDATION_RULES
+): RunVerdict {
+  const structure = checkStructure(run);
+  if (!structure.passed) {
+    return {
+      verdict: 'rejected',
+      score: 0,
+      reasons: structure.reasons,
+      checks: [structure],
+      measuredDistance: 0,
+    };
+  }
+
+  const { points, totalDistance, totalDuration } = run as {
+    points: ValidationPoint[];
+    totalDistance: number;
+    totalDuration: number;
+  };
+  const segments = toSegments(points);
+  const measured = segments.reduce((sum, s) => sum + s.meters, 0);
+  const span = points[points.length - 1].timestamp - points[0].timestamp;
+  const timed = points.some((p) => p.timestamp !== points[0].timestamp);
+
+  const checks: RunCheck[] = [
+    structure,
+    checkTimestamps(points, totalDuration, timed),
+    checkDistance(measured, totalDistance, rules),
+    checkSpeed(segments, measured, span, timed, rules),
+    checkDensity(segments, measured, rules),
+    checkGaps(segments, rules),
+    checkAccuracy(points, rules),
+    checkVehicle(segments, timed, rules),
+  ];
+
+  const scored = checks.filter(
+    (c): c is RunCheck & { name: keyof typeof WEIGHTS } => c.name !== 'structure' && !c.skipped
+  );
+  const weight = scored.reduce((sum, c) => sum + WEIGHTS[c.name], 0);
+  const score = Math.round(
+    (100 * scored.reduce((sum, c) => sum + WEIGHTS[c.name] * c.score, 0)) / weight
+  );
+
+  let verdict: RunVerdictKind = 'accepted';
+  if (score < rules.rejectScore || checks.some((c) => !c.passed && CRITICAL.includes(c.name))) {
+    verdict = 'rejected';
+  } else if (score < rules.acceptScore || checks.some((c) => !c.passed || c.skipped)) {
+    verdict = 'suspicious';
+  }
+
+  return {
+    verdict,
+    score,
+    reasons: checks.flatMap((c) => c.reasons),
+    checks,
+    measuredDistance: measured,
+  };
+}
+
+function checkStructure(run: unknown): RunCheck {
+  const reasons: string[] = [];
+  const value = (run ?? {}) as Record<string, unknown>;
+  const points = value.points;
+
+  if (!Array.isArray(points) || points.length < 2) {
+    reasons.push('run.points must contain at least two points');
+  } else {
+    const bad = points.findIndex((p) => !isPoint(p));
+    if (bad >= 0) {
+      reasons.push(`run.points[${bad}] needs a valid lat, lng and timestamp`);
+    }
+  }
+  if (!isPositive(value.totalDistance)) {
+    reasons.push('run.totalDistance must be a positive number');
+  }
+  if (!isPositive(value.totalDuration)) {
+    reasons.push('run.totalDuration must be a positive number');
+  }
+
+  return { name: 'structure', score: reasons.length ? 0 : 1, passed: !reasons.length, reasons };
+}
+
+function checkTimestamps(points: ValidationPoint[], duration: number, timed: boolean): RunCheck {
+  if (!timed) {
+    return {
+      name: 'timestamps',
+      score: 0,
+      passed: true,
+      skipped: true,
+      reasons: ['points carry no timestamps; timing checks skipped'],
+    };
+  }
+
+  const reasons: string[] = [];
+  const backwards = points.filter((p, i) => i > 0 && p.timestamp < points[i - 1].timestamp).length;
+  if (backwards > 0) {
+    reasons.push(`${backwards} point(s) go back in time`);
+  }
+  const span = points[points.length - 1].timestamp - points[0].timestamp;
+  if (duration > span * 1.05 + 1000) {
+    reasons.push(
+      `claims ${Math.round(duration / 1000)}s but the points span ${Math.round(span / 1000)}s`
+    );
+  }
+
+  return { name: 'timestamps', score: reasons.length ? 0 : 1, passed: !reasons.length, reasons };
+}
+
+function checkDistance(
+  measured: number,
+  total: number,
+  rules: Readonly<RunValidationRules>
+): RunCheck {
+  const error = Math.abs(measured - total) / Math.max(measured, total);
+  const tolerance = rules.distanceTolerance;
+  if (error <= tolerance) {
+    return { name: 'distance', score: 1, passed: true, reasons: [] };
+  }
+  return {
+    name: 'distance',
+    score: clamp01(1 - (error - tolerance) / (2 * tolerance)),
+    passed: false,
+    reasons: [
+      `totalDistance is ${Math.round(total)}m but the points cover ${Math.round(measured)}m`,
+    ],
+  };
+}
+
+function checkSpeed(
+  segments: Segment[],
+  measured: number,
+  span: number,
+  timed: boolean,
+  rules: Readonly<RunValidationRules>
+): RunCheck {
+  if (!timed) return skipped('speed');
+
+  const reasons: string[] = [];
+  const fast = segments.filter((s) => s.speed > rules.maxSegmentSpeedMps);
+  const teleports = fast.filter((s) => s.meters > rules.teleportMeters);
+  if (teleports.length > 0) {
+    const longest = Math.max(...teleports.map((s) => s.meters));
+    reasons.push(`${teleports.length} teleport(s), the longest ${Math.round(longest)}m`);
+  }
+  const spikes = fast.length;
+  const spikeFraction = spikes / segments.length;
+  if (spikeFraction > rules.maxSpikeFraction) {
+    reasons.push(`${spikes} segment(s) faster than ${rules.maxSegmentSpeedMps} m/s`);
+  }
+  const average = span > 0 ? measured / (span / 1000) : Number.POSITIVE_INFINITY;
+  if (average > rules.maxAverageSpeedMps) {
+    reasons.push(`averages ${average.toFixed(1)} m/s over the whole track`);
+  }
+
+  return {
+    name: 'speed',
+    score: reasons.length ? 0 : 1 - spikeFraction,
+    passed: !reasons.length,
+    reasons,
+  };
+}
+
+function checkDensity(
+  segments: Segment[],
+  measured: number,
+  rules: Readonly<RunValidationRules>
+): RunCheck {
+  const perKm = measured > 0 ? segments.length / (measured / 1000) : Number.POSITIVE_INFINITY;
+  if (perKm >= rules.minPointsPerKm) {
+    return { name: 'density', score: 1, passed: true, reasons: [] };
+  }
+  return {
+    name: 'density',
+    score: perKm / rules.minPointsPerKm,
+    passed: false,
+    reasons: [`only ${perKm.toFixed(1)} points per km`],
+  };
+}
+
+function checkGaps(segments: Segment[], rules: Readonly<RunValidationRules>): RunCheck {
+  const gap = Math.max(...segments.map((s) => s.meters));
+  if (gap <= rules.maxGapMeters) {
+    return { name: 'gaps', score: 1, passed: true, reasons: [] };
+  }
+  return {
+    name: 'gaps',
+    score: 0,
+    passed: false,
+    reasons: [`jumps ${Math.round(gap)}m between two points`],
+  };
+}
+
+function checkAccuracy(points: ValidationPoint[], rules: Readonly<RunValidationRules>): RunCheck {
+  const readings = points
+    .map((p) => p.accuracy)
+    .filter((a): a is number => typeof a === 'number' && Number.isFinite(a));
+  if (readings.length < points.length / 2) {
+    // File imports rarely carry accuracy; that alone isn't a cheat
+    return { name: 'accuracy', score: 0.7, passed: true, reasons: ['no GPS accuracy reported'] };
+  }
+
+  const reasons: string[] = [];
+  let score = 1;
+  if (readings.some((a) => a <= 0)) {
+    reasons.push('reports GPS accuracy of zero or less');
+    score -= 0.5;
+  }
+  const sorted = [...readings].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  if (median > rules.maxMedianAccuracyMeters) {
+    reasons.push(`median GPS accuracy is ${Math.round(median)}m`);
+    score -= 0.5;
+  }
+  if (readings.length >= MIN_STEADY_SAMPLE && stdDev(readings) < rules.minAccuracySpreadMeters) {
+    reasons.push('GPS accuracy never varies');
+    score -= 0.5;
+  }
+  return { name: 'accuracy', score: clamp01(score), passed: !reasons.length, reasons };
+}
+
+function checkVehicle(
+  segments: Segment[],
+  timed: boolean,
+  rules: Readonly<RunValidationRules>
+): RunCheck {
+  if (!timed) return skipped('vehicle');
+
+  const reasons: string[] = [];
+  let stretch = 0;
+  let longest = 0;
+  for (const segment of segments) {
+    stretch =
+      segment.speed > rules.vehicleSpeedMps && Number.isFinite(segment.speed)
+        ? stretch + segment.ms
+        : 0;
+    longest = Math.max(longest, stretch);
+  }
+  if (longest >= rules.maxVehicleStretchMs) {
+    reasons.push(`${Math.round(longest / 1000)}s above ${rules.vehicleSpeedMps} m/s`);
+  }
+
+  const moving = segments
+    .filter((s) => s.ms > 0 && s.speed >= MOVING_SPEED_MPS && Number.isFinite(s.speed))
+    .map((s) => s.speed);
+  if (moving.length >= MIN_STEADY_SAMPLE) {
+    const mean = moving.reduce((sum, v) => sum + v, 0) / moving.length;
+    if (stdDev(moving) / mean < rules.minSpeedVariation) {
+      reasons.push('speed is unnaturally steady');
+    }
+  }
+
+  return { name: 'vehicle', score: reasons.length ? 0 : 1, passed: !reasons.length, reasons };
+}
+
+function toSegments(points: ValidationPoint[]): Segment[] {
+  return points.slice(1).map((point, i) => {
+    const meters = haversineDistance(points[i], point);
+    const ms = point.timestamp - points[i].timestamp;
+    const speed = ms > 0 ? meters / (ms / 1000) : meters > 0 ? Number.POSITIVE_INFINITY : 0;
+    return { meters, ms, speed };
+  });
+}
+
+function skipped(name: RunCheckName): RunCheck {
+  return { name, score: 0, passed: true, skipped: true, reasons: [] };
+}
+
+function isPoint(value: unknown): boolean {
+  const p = value as Partial<ValidationPoint> | null;
+  return (
+    !!p &&
+    isFiniteNumber(p.lat) &&
+    isFiniteNumber(p.lng) &&
+    isFiniteNumber(p.timestamp) &&
+    Math.abs(p.lat) <= 90 &&
+    Math.abs(p.lng) <= 180
+  );
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPositive(value: unknown): boolean {
+  return isFiniteNumber(value) && value > 0;
+}
+
+function stdDev(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,152 @@
+/**
+ * Sign-In with Ethereum messages
+ *
+ * The backend API knows a user by the wallet that will claim their
+ * runs. To sign in, a client asks the server for a nonce, has the wallet
+ * sign an EIP-4361 message carrying it, and trades message + signature
+ * for a short-lived session token. This module writes and reads those
+ * messages so the web app, the mobile app and server.js agree on the
+ * format:
+ *
+ *   runrealm.app wants you to sign in with your Ethereum account:
+ *   0xAbC…
+ *
+ *   Sign in to RunRealm to sync your runs.
+ *
+ *   URI: https://runrealm.app
+ *   Version: 1
+ *   Chain ID: 7001
+ *   Nonce: 9f2c…
+ *   Issued At: 2024-06-01T07:00:00.000Z
+ *   Expiration Time: 2024-06-01T07:10:00.000Z
+ *
+ * Pure: recovering the signer is left to the caller's ethers.
+ */
+
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string; // ISO 8601
+  expirationTime?: string; // ISO 8601
+}
+
+export const SIWE_STATEMENT = 'Sign in to RunRealm to sync your runs.';
+
+/** How long a signed message stays usable when the client sets no expiry. */
+export const SIWE_MAX_AGE_MS = 10 * 60_000;
+
+const HEADER = ' wants you to sign in with your Ethereum account:';
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const NONCE = /^[A-Za-z0-9]{8,}$/;
+
+const FIELDS: Array<
+  [label: string, key: 'uri' | 'version' | 'chainId' | 'nonce' | 'issuedAt' | 'expirationTime']
+> = [
+  ['URI', 'uri'],
+  ['Version', 'version'],
+  ['Chain ID', 'chainId'],
+  ['Nonce', 'nonce'],
+  ['Issued At', 'issuedAt'],
+  ['Expiration Time', 'expirationTime'],
+];
+
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [`${message.domain}${HEADER}`, message.address, ''];
+  if (message.statement) lines.push(message.statement, '');
+  for (const [label, key] of FIELDS) {
+    const value = message[key];
+    if (value !== undefined) lines.push(`${label}: ${value}`);
+  }
+  return lines.join('\n');
+}
+
+/** Read a message written by `formatSiweMessage`; null if it isn't one. */
+export function parseSiweMessage(text: string): SiweMessage | null {
+  if (typeof text !== 'string') return null;
+  const lines = text.split('\n');
+  if (!lines[0]?.endsWith(HEADER) || lines[2] !== '') return null;
+
+  const domain = lines[0].slice(0, -HEADER.length);
+  const address = lines[1];
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] && !lines[index].startsWith('URI: ')) {
+    statement = lines[index];
+    if (lines[index + 1] !== '') return null;
+    index += 2;
+  }
+
+  const values: Partial<Record<(typeof FIELDS)[number][1], string>> = {};
+  for (const [label, key] of FIELDS) {
+    const prefix = `${label}: `;
+    if (lines[index]?.startsWith(prefix)) {
+      values[key] = lines[index].slice(prefix.length);
+      index++;
+    }
+  }
+  if (index !== lines.length) return null;
+
+  const chainId = Number(values.chainId);
+  if (
+    !domain ||
+    !ADDRESS.test(address) ||
+    !values.uri ||
+    values.version !== '1' ||
+    !Number.isInteger(chainId) ||
+    !values.nonce ||
+    !values.issuedAt
+  ) {
+    return null;
+  }
+
+  return {
+    domain,
+    address,
+    ...(statement ? { statement } : {}),
+    uri: values.uri,
+    version: '1',
+    chainId,
+    nonce: values.nonce,
+    issuedAt: values.issuedAt,
+    ...(values.expirationTime ? { expirationTime: values.expirationTime } : {}),
+  };
+}
+
+export interface SiweExpectations {
+  nonce: string;
+  now: number;
+  domains?: string[]; // any domain when absent
+}
+
+/**
+ * Why the server shouldn't accept this message: a nonce it didn't hand
+ * out, a domain it doesn't serve, or a time window that isn't now.
+ * Empty when the message is fine; the signature is checked separately.
+ */
+export function checkSiweMessage(message: SiweMessage, expected: SiweExpectations): string[] {
+  const problems: string[] = [];
+  if (!NONCE.test(message.nonce) || message.nonce !== expected.nonce) {
+    problems.push('nonce does not match');
+  }
+  if (expected.domains && !expected.domains.includes(message.domain)) {
+    problems.push(`domain ${message.domain} is not accepted`);
+  }
+
+  const issuedAt = Date.parse(message.issuedAt);
+  const expiresAt = message.expirationTime
+    ? Date.parse(message.expirationTime)
+    : issuedAt + SIWE_MAX_AGE_MS;
+  if (Number.isNaN(issuedAt) || Number.isNaN(expiresAt)) {
+    problems.push('timestamps are not ISO 8601');
+  } else if (issuedAt > expected.now + 60_000) {
+    problems.push('issued in the future');
+  } else if (expiresAt <= expected.now || expected.now - issuedAt > SIWE_MAX_AGE_MS) {
+    problems.push('message has expired');
+  }
+  return problems;
+}
@@ -0,0 +1,200 @@
+/**
+ * Automatic distance splits
+ *
+ * Cuts a run into whole kilometres or miles. Boundaries are interpolated
+ * between the two GPS points either side, so a split is exactly 1000 m
+ * (or 1609.344 m) regardless of where the fixes fell.
+ *
+ * `SplitTracker` works incrementally during a run; `computeSplits` runs
+ * the same tracker over a finished run's points (smoothing altitude
+ * first), which is what gets stored on the `RunSession`.
+ *
+ * Split time is moving time: a gap between fixes longer than `maxGapMs`
+ * is a pause (manual, auto-pause or lost signal) and adds no time.
+ */
+
+import { smoothAltitudes } from './elevation';
+import { haversineDistance } from './geo-distance';
+
+export type SplitUnit = 'km' | 'mi';
+
+export const SPLIT_DISTANCE: Record<SplitUnit, number> = {
+  km: 1000,
+  mi: 1609.344,
+};
+
+export interface SplitPoint {
+  lat: number;
+  lng: number;
+  timestamp: number;
+  altitude?: number;
+}
+
+export interface RunSplit {
+  index: number; // 1-based
+  unit: SplitUnit;
+  distance: number; // meters; a full unit except for a trailing partial split
+  duration: number; // ms of moving time
+  pace: number; // seconds per unit, scaled up for partial splits
+  elevationDelta?: number; // meters, end minus start
+  startTime: number; // timestamp at the start boundary
+  endTime: number; // timestamp at the end boundary
+  end: { lat: number; lng: number };
+  partial: boolean;
+  fastest?: boolean;
+  slowest?: boolean;
+}
+
+export interface SplitOptions {
+  /** Gaps between fixes longer than this count as paused. Default 30 s. */
+  maxGapMs?: number;
+}
+
+const DEFAULT_MAX_GAP_MS = 30_000;
+
+export function splitUnitFor(useMetric: boolean): SplitUnit {
+  return useMetric ? 'km' : 'mi';
+}
+
+export class SplitTracker {
+  private readonly unitLength: number;
+  private readonly maxGapMs: number;
+  private last: SplitPoint | null = null;
+  private distance = 0;
+  private movingTime = 0;
+  private index = 1;
+  private splitStart = { movingTime: 0, timestamp: 0, altitude: undefined as number | undefined };
+
+  constructor(
+    readonly unit: SplitUnit,
+    options: SplitOptions = {}
+  ) {
+    this.unitLength = SPLIT_DISTANCE[unit];
+    this.maxGapMs = options.maxGapMs ?? DEFAULT_MAX_GAP_MS;
+  }
+
+  /**
+   * Add the next point. Returns the splits it completed (usually none,
+   * occasionally more than one after a long gap).
+   */
+  addPoint(point: SplitPoint): RunSplit[] {
+    const last = this.last;
+    this.last = point;
+    if (!last) {
+      this.splitStart = { movingTime: 0, timestamp: point.timestamp, altitude: point.altitude };
+      return [];
+    }
+
+    const step = haversineDistance(last, point);
+    const elapsed = Math.max(0, point.timestamp - last.timestamp);
+    const moving = elapsed > this.maxGapMs ? 0 : elapsed;
+    const completed: RunSplit[] = [];
+
+    while (step > 0 && this.distance + step >= this.index * this.unitLength) {
+      const f = (this.index * this.unitLength - this.distance) / step;
+      const at = {
+        movingTime: this.movingTime + f * moving,
+        timestamp: last.timestamp + f * elapsed,
+        altitude: interpolate(last.altitude, point.altitude, f),
+      };
+      completed.push(
+        this.buildSplit(this.unitLength, at, {
+          lat: last.lat + f * (point.lat - last.lat),
+          lng: last.lng + f * (point.lng - last.lng),
+        })
+      );
+      this.splitStart = at;
+      this.index++;
+    }
+
+    this.distance += step;
+    this.movingTime += moving;
+    return completed;
+  }
+
+  /** The split in progress, or null right on a boundary. */
+  getPartial(): RunSplit | null {
+    const last = this.last;
+    const covered = this.distance - (this.index - 1) * this.unitLength;
+    if (!last || covered <= 0) return null;
+    return this.buildSplit(
+      covered,
+      { movingTime: this.movingTime, timestamp: last.timestamp, altitude: last.altitude },
+      { lat: last.lat, lng: last.lng }
+    );
+  }
+
+  private buildSplit(
+    distance: number,
+    end: { movingTime: number; timestamp: number; altitude?: number },
+    position: { lat: number; lng: number }
+  ): RunSplit {
+    const duration = end.movingTime - this.splitStart.movingTime;
+    const startAltitude = this.splitStart.altitude;
+    return {
+      index: this.index,
+      unit: this.unit,
+      distance,
+      duration,
+      pace: duration / 1000 / (distance / this.unitLength),
+      elevationDelta:
+        startAltitude !== undefined && end.altitude !== undefined
+          ? end.altitude - startAltitude
+          : undefined,
+      startTime: this.splitStart.timestamp,
+      endTime: end.timestamp,
+      end: position,
+      partial: distance < this.unitLength,
+    };
+  }
+}
+
+function interpolate(a: number | undefined, b: number | undefined, f: number): number | undefined {
+  if (a === undefined || b === undefined) return a ?? b;
+  return a + f * (b - a);
+}
+
+/**
+ * Flag the fastest and slowest full splits. Needs at least two full
+ * splits; partial splits are never marked.
+ */
+export function markSplitExtremes(splits: RunSplit[]): RunSplit[] {
+  const full = splits.filter((s) => !s.partial);
+  const marked = splits.map(({ fastest: _f, slowest: _s, ...split }) => ({ ...split }) as RunSplit);
+  if (full.length < 2) return marked;
+
+  const paces = full.map((s) => s.pace);
+  const fastest = Math.min(...paces);
+  const slowest = Math.max(...paces);
+  if (fastest === slowest) return marked;
+
+  for (const split of marked) {
+    if (split.partial) continue;
+    if (split.pace === fastest) split.fastest = true;
+    if (split.pace === slowest) split.slowest = true;
+  }
+  return marked;
+}
+
+/**
+ * Splits for a finished run, including the trailing partial one, with
+ * fastest/slowest marked. Altitude is smoothed first so elevation deltas
+ * aren't GPS noise.
+ */
+export function computeSplits(
+  points: SplitPoint[],
+  unit: SplitUnit,
+  options: SplitOptions = {}
+): RunSplit[] {
+  const altitudes = smoothAltitudes(points);
+  const tracker = new SplitTracker(unit, options);
+  const splits: RunSplit[] = [];
+
+  points.forEach((point, i) => {
+    splits.push(...tracker.addPoint({ ...point, altitude: altitudes?.[i] }));
+  });
+
+  const partial = tracker.getPartial();
+  if (partial) splits.push(partial);
+  return markSplitExtremes(splits);
+}
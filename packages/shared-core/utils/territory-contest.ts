@@ -0,0 +1,115 @@
+/**
+ * Territory contests
+ *
+ * Once a territory's defence drops to 'vulnerable' another runner can
+ * take it by running through its H3 cells. Each distinct cell a
+ * challenger crosses in a run is an attack worth
+ * CONTEST_ATTACK_POINTS_PER_CELL, taken off the territory's activity
+ * points; when those fall below the vulnerable threshold the territory
+ * changes hands. The owner running through their own cells ends the
+ * contest as defended. A contest with no attack for CONTEST_EXPIRY_MS
+ * lapses.
+ *
+ * These helpers only keep the contest record; the points and the
+ * transfer come from the defense engine (utils/territory-defense.ts).
+ */
+import { GAME_RULES } from '../config/game-rules';
+
+export type ContestOutcome = 'active' | 'captured' | 'defended' | 'expired';
+
+export interface TerritoryContest {
+  id: string;
+  challenger: string; // wallet address
+  defender?: string; // owner when the contest started
+  startedAt: number;
+  lastAttackAt: number;
+  attackPoints: number; // total taken off the territory
+  cellsHit: string[]; // distinct H3 cells attacked, first hit first
+  runIds: string[];
+  outcome: ContestOutcome;
+  resolvedAt?: number;
+}
+
+export const CONTEST_ATTACK_POINTS_PER_CELL = GAME_RULES.activity.runThroughPointsPerCell;
+export const CONTEST_DEFEND_POINTS_PER_CELL = GAME_RULES.activity.runThroughPointsPerCell;
+export const CONTEST_EXPIRY_MS = 48 * 60 * 60 * 1000;
+/** Contests kept on a territory, newest last. */
+export const MAX_CONTEST_HISTORY = 20;
+
+export function isContestable(defenseStatus: string | undefined): boolean {
+  return defenseStatus === 'vulnerable' || defenseStatus === 'claimable';
+}
+
+/** The running contest, which is always the last one recorded. */
+export function activeContest(history: TerritoryContest[] | undefined): TerritoryContest | null {
+  const last = history?.[history.length - 1];
+  return last?.outcome === 'active' ? last : null;
+}
+
+export function isContestExpired(contest: TerritoryContest, now: number): boolean {
+  return contest.outcome === 'active' && now - contest.lastAttackAt >= CONTEST_EXPIRY_MS;
+}
+
+export function startContest(
+  id: string,
+  challenger: string,
+  defender: string | undefined,
+  now: number
+): TerritoryContest {
+  return {
+    id,
+    challenger,
+    defender,
+    startedAt: now,
+    lastAttackAt: now,
+    attackPoints: 0,
+    cellsHit: [],
+    runIds: [],
+    outcome: 'active',
+  };
+}
+
+/**
+ * One cell run through by the challenger. Returns the updated contest
+ * and the points the attack is worth.
+ */
+export function recordAttack(
+  contest: TerritoryContest,
+  attack: { cell: string; runId: string; at: number }
+): { contest: TerritoryContest; points: number } {
+  const points = CONTEST_ATTACK_POINTS_PER_CELL;
+  return {
+    points,
+    contest: {
+      ...contest,
+      lastAttackAt: attack.at,
+      attackPoints: contest.attackPoints + points,
+      cellsHit: contest.cellsHit.includes(attack.cell)
+        ? contest.cellsHit
+        : [...contest.cellsHit, attack.cell],
+      runIds: contest.runIds.includes(attack.runId)
+        ? contest.runIds
+        : [...contest.runIds, attack.runId],
+    },
+  };
+}
+
+export function resolveContest(
+  contest: TerritoryContest,
+  outcome: Exclude<ContestOutcome, 'active'>,
+  at: number
+): TerritoryContest {
+  // An expired contest ended when the last attack went stale, not when noticed
+  const resolvedAt = outcome === 'expired' ? contest.lastAttackAt + CONTEST_EXPIRY_MS : at;
+  return { ...contest, outcome, resolvedAt };
+}
+
+/** Replace the active contest (or append a new one), keeping the history capped. */
+export function withContest(
+  history: TerritoryContest[] | undefined,
+  contest: TerritoryContest
+): TerritoryContest[] {
+  const list = history ?? [];
+  const replaced = list.length > 0 && list[list.length - 1].id === contest.id;
+  return [...(replaced ? list.slice(0, -1) : list), contest].slice(-MAX_CONTEST_HISTORY);
+}
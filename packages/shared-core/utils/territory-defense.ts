@@ -0,0 +1,232 @@
+/**
+ * Territory defense engine
+ *
+ * A territory's activity points are a fold over its event log — claim,
+ * run-through, boost, decay, transfer — with every number taken from
+ * GAME_RULES.activity, the same constants the contracts read from
+ * RealmRules.sol:
+ *
+ * - A claim starts the owner at `initialPoints`.
+ * - Decay is charged per UTC calendar day, keyed like the contracts'
+ *   `block.timestamp / 1 days`: `decayPerDay` for each midnight crossed
+ *   since the last charge, floored at 0. Charging again the same day
+ *   changes nothing, so a decay tick can be missed or repeated and the
+ *   points at any moment come out the same.
+ * - The owner running through a cell adds `runThroughPointsPerCell`. A
+ *   challenger running through a vulnerable or claimable territory
+ *   takes as much off, and captures it once the points fall below
+ *   `vulnerableMin`; the capture counts as a fresh claim.
+ * - A boost adds `boostPoints`, at most `boostLimitPerDay` per booster
+ *   per UTC day.
+ * - A gift or sale hands the territory over with its points; the new
+ *   owner's `timeoutMs` starts from the transfer.
+ * - Points never go above `maxPoints`. A territory whose owner has done
+ *   nothing for `timeoutMs` is claimable whatever its points.
+ *
+ * Nothing here reads the clock. Every event carries its time and every
+ * query takes one, so replays are deterministic and TerritoryService
+ * decides when the next decay tick runs.
+ */
+import { GAME_RULES } from '../config/game-rules';
+
+export type DefenseStatus = 'strong' | 'moderate' | 'vulnerable' | 'claimable';
+
+export type DefenseEvent =
+  | { type: 'claim'; at: number; owner: string }
+  | { type: 'runThrough'; at: number; runner: string; cells?: number }
+  | { type: 'boost'; at: number; by: string }
+  | { type: 'decay'; at: number }
+  | { type: 'transfer'; at: number; to: string }
+  // Points granted or taken outside the rules above, e.g. ghost runs
+  | { type: 'adjust'; at: number; points: number };
+
+/** The part of GAME_RULES.activity the engine runs on. */
+export interface DefenseRules {
+  maxPoints: number;
+  initialPoints: number;
+  decayPerDay: number;
+  boostPoints: number;
+  boostLimitPerDay: number;
+  runThroughPointsPerCell: number;
+  thresholds: { strongMin: number; moderateMin: number; vulnerableMin: number };
+  timeoutMs: number;
+}
+
+export interface DefenseState {
+  owner: string | null; // null until claimed
+  points: number;
+  lastActivityAt: number | null; // last claim, owner run-through, boost or adjustment
+  decayDay: number | null; // UTC day decay has been charged up to
+  boostDay: number | null; // UTC day `boostsOnDay` counts
+  boostsOnDay: Record<string, number>; // lowercased booster → boosts that day
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const UNCLAIMED_DEFENSE: DefenseState = {
+  owner: null,
+  points: 0,
+  lastActivityAt: null,
+  decayDay: null,
+  boostDay: null,
+  boostsOnDay: {},
+};
+
+/** UTC calendar day number, as `block.timestamp / 1 days` on-chain. */
+export function utcDay(at: number): number {
+  return Math.floor(at / DAY_MS);
+}
+
+export function defenseStatus(
+  points: number,
+  rules: DefenseRules = GAME_RULES.activity
+): DefenseStatus {
+  if (points >= rules.thresholds.strongMin) return 'strong';
+  if (points >= rules.thresholds.moderateMin) return 'moderate';
+  if (points >= rules.thresholds.vulnerableMin) return 'vulnerable';
+  return 'claimable';
+}
+
+/** Status at `at`, counting an owner gone quiet for `timeoutMs` as claimable. */
+export function defenseStatusAt(
+  state: DefenseState,
+  at: number,
+  rules: DefenseRules = GAME_RULES.activity
+): DefenseStatus {
+  const settled = decayDefense(state, at, rules);
+  if (settled.lastActivityAt !== null && at - settled.lastActivityAt >= rules.timeoutMs) {
+    return 'claimable';
+  }
+  return defenseStatus(settled.points, rules);
+}
+
+/** Charge decay for every UTC midnight between the last charge and `at`. */
+export function decayDefense(
+  state: DefenseState,
+  at: number,
+  rules: DefenseRules = GAME_RULES.activity
+): DefenseState {
+  if (state.owner === null || state.decayDay === null) return state;
+  const day = utcDay(at);
+  if (day <= state.decayDay) return state;
+  return {
+    ...state,
+    points: Math.max(0, state.points - (day - state.decayDay) * rules.decayPerDay),
+    decayDay: day,
+  };
+}
+
+/**
+ * Apply one event. Decay up to the event's time is charged first, so
+ * events must come in time order (`replayDefense` sorts them). Anything
+ * but a claim is ignored until the territory has an owner.
+ */
+export function applyDefenseEvent(
+  state: DefenseState,
+  event: DefenseEvent,
+  rules: DefenseRules = GAME_RULES.activity
+): DefenseState {
+  if (event.type === 'claim') {
+    return {
+      ...state,
+      owner: event.owner,
+      points: rules.initialPoints,
+      lastActivityAt: event.at,
+      decayDay: utcDay(event.at),
+    };
+  }
+  if (state.owner === null) return state;
+
+  const settled = decayDefense(state, event.at, rules);
+  switch (event.type) {
+    case 'decay':
+      return settled;
+
+    case 'transfer':
+      return { ...settled, owner: event.to, lastActivityAt: event.at };
+
+    case 'adjust':
+      return {
+        ...settled,
+        points: clampPoints(settled.points + event.points, rules),
+        lastActivityAt: event.at,
+      };
+
+    case 'boost': {
+      const day = utcDay(event.at);
+      const booster = event.by.toLowerCase();
+      const boosts = settled.boostDay === day ? settled.boostsOnDay : {};
+      const used = boosts[booster] ?? 0;
+      if (used >= rules.boostLimitPerDay) return settled;
+      return {
+        ...settled,
+        points: clampPoints(settled.points + rules.boostPoints, rules),
+        lastActivityAt: event.at,
+        boostDay: day,
+        boostsOnDay: { ...boosts, [booster]: used + 1 },
+      };
+    }
+
+    case 'runThrough': {
+      const worth = Math.max(0, Math.floor(event.cells ?? 1)) * rules.runThroughPointsPerCell;
+      if (event.runner.toLowerCase() === settled.owner?.toLowerCase()) {
+        return {
+          ...settled,
+          points: clampPoints(settled.points + worth, rules),
+          lastActivityAt: event.at,
+        };
+      }
+
+      const status = defenseStatusAt(settled, event.at, rules);
+      if (status !== 'vulnerable' && status !== 'claimable') return settled;
+      const points = Math.max(0, settled.points - worth);
+      if (points < rules.thresholds.vulnerableMin) {
+        return applyDefenseEvent(
+          settled,
+          { type: 'claim', at: event.at, owner: event.runner },
+          rules
+        );
+      }
+      return { ...settled, points };
+    }
+  }
+}
+
+/**
+ * Defense at `at` from a log: events up to `at` are applied in time
+ * order (ties keep log order), then decay is charged up to `at`.
+ */
+export function replayDefense(
+  events: DefenseEvent[],
+  at: number,
+  rules: DefenseRules = GAME_RULES.activity,
+  from: DefenseState = UNCLAIMED_DEFENSE
+): DefenseState {
+  const ordered = events
+    .map((event, index) => ({ event, index }))
+    .filter(({ event }) => event.at <= at)
+    .sort((a, b) => a.event.at - b.event.at || a.index - b.index);
+  let state = from;
+  for (const { event } of ordered) {
+    state = applyDefenseEvent(state, event, rules);
+  }
+  return decayDefense(state, at, rules);
+}
+
+/**
+ * When decay next changes the points: the first UTC midnight after
+ * `after`, or null when there's nothing left to decay.
+ */
+export function nextDecayTick(
+  state: DefenseState,
+  after: number,
+  rules: DefenseRules = GAME_RULES.activity
+): number | null {
+  if (state.owner === null || rules.decayPerDay <= 0) return null;
+  if (decayDefense(state, after, rules).points === 0) return null;
+  return (utcDay(after) + 1) * DAY_MS;
+}
+
+function clampPoints(points: number, rules: DefenseRules): number {
+  return Math.min(rules.maxPoints, Math.max(0, points));
+}
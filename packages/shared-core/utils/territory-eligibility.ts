@@ -0,0 +1,98 @@
+/**
+ * Territory eligibility
+ *
+ * Whether a run can claim territory, and what it would claim. One
+ * decision for every kind of run — live, imported, or synced from
+ * mobile — made the same way by RunTrackingService and by server.js
+ * (built for Node by tsconfig.server.json):
+ *
+ * - `totalDistance` within GAME_RULES.territory's bounds, the same ones
+ *   GameLogic.validateTerritory enforces on chain;
+ * - a closed loop: the end within `loopClosure` meters of the start;
+ * - accepted by the run validation in utils/run-validation.ts: a
+ *   suspicious run is kept but claims nothing. That includes tracks
+ *   without per-point timestamps, like Strava's route polylines: with no
+ *   timing there is no telling a run from a drawn route or a drive, so
+ *   they claim only once imported again with their timestamps (the
+ *   activity's GPX or FIT file).
+ *
+ * An eligible run gets its territory id (utils/territory-id.ts), the H3
+ * cells it claims in the given territory mode (utils/loop-territory.ts)
+ * and the reward the territory is estimated at before landmarks are
+ * known (utils/territory-reward.ts).
+ *
+ * Pure.
+ */
+import { GAME_RULES } from '../config/game-rules';
+import { haversineDistance } from './geo-distance';
+import { type TerritoryMode, territoryCells } from './loop-territory';
+import { type RunVerdict, validateRun } from './run-validation';
+import { territoryIdFromCenter } from './territory-id';
+import { type RewardRun, type TerritoryValue, territoryValue } from './territory-reward';
+
+/** How close to its start a run must finish to count as a loop. */
+export const TERRITORY_LOOP_CLOSURE_METERS = 50;
+
+export interface EligibilityRun extends RewardRun {
+  points: Array<{ lat: number; lng: number; timestamp: number; accuracy?: number }>;
+}
+
+export interface TerritoryEligibilityOptions {
+  mode?: TerritoryMode; // default 'loop'
+  minDistance?: number; // meters, default GAME_RULES.territory.minDistanceMeters
+  maxDistance?: number; // meters, default GAME_RULES.territory.maxDistanceMeters
+  loopClosure?: number; // meters, default TERRITORY_LOOP_CLOSURE_METERS
+}
+
+export interface TerritoryEligibility {
+  eligible: boolean;
+  reasons: string[]; // why not, empty when eligible
+  validation: RunVerdict;
+  geohash?: string;
+  h3Cells?: string[];
+  value?: TerritoryValue;
+}
+
+export function assessTerritoryEligibility(
+  run: EligibilityRun,
+  {
+    mode = 'loop',
+    minDistance = GAME_RULES.territory.minDistanceMeters,
+    maxDistance = GAME_RULES.territory.maxDistanceMeters,
+    loopClosure = TERRITORY_LOOP_CLOSURE_METERS,
+  }: TerritoryEligibilityOptions = {}
+): TerritoryEligibility {
+  const validation = validateRun(run);
+  // Synced uploads are untrusted; validation has already said what's wrong
+  if (!Array.isArray(run.points) || run.points.length < 2) {
+    return { eligible: false, reasons: ['needs at least two points'], validation };
+  }
+
+  const reasons: string[] = [];
+  if (run.totalDistance < minDistance) {
+    reasons.push(`${Math.round(run.totalDistance)}m is under the ${minDistance}m minimum`);
+  } else if (run.totalDistance > maxDistance) {
+    reasons.push(`${Math.round(run.totalDistance)}m is over the ${maxDistance}m maximum`);
+  }
+  const start = run.points[0];
+  const gap = haversineDistance(start, run.points[run.points.length - 1]);
+  if (gap > loopClosure) {
+    reasons.push(`finishes ${Math.round(gap)}m from the start, over ${loopClosure}m`);
+  }
+  const untimed = validation.checks.some((c) => c.name === 'timestamps' && c.skipped);
+  if (untimed) {
+    reasons.push('has no timestamps to validate; import the GPX or FIT file instead');
+  } else if (validation.verdict !== 'accepted') {
+    reasons.push(`${validation.verdict} by run validation`);
+  }
+  if (reasons.length > 0) return { eligible: false, reasons, validation };
+
+  return {
+    eligible: true,
+    reasons,
+    validation,
+    geohash: territoryIdFromCenter(start.lat, start.lng),
+    h3Cells: territoryCells(run.points, run.totalDistance, mode),
+    value: territoryValue(run),
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Territory hierarchy
+ *
+ * Territories hold resolution-9 cells. Those roll up into res 7
+ * districts and res 5 regions, and control passes up by majority:
+ *
+ * - A runner controls a district when they hold more than half of its
+ *   cells.
+ * - A runner controls a region when they control more than half of its
+ *   districts.
+ *
+ * Nobody controls a parent without a majority, so at most one runner
+ * does. Taking control earns a one-off bonus from GAME_RULES.rewards;
+ * `controlChanges` tells callers when that happened.
+ *
+ * The map shows one level at a time, chosen by zoom (`levelForZoom`):
+ * regions zoomed out, districts in between, cells up close.
+ *
+ * Pure: no services, no clock. Owners are compared without case.
+ */
+import { cellToChildrenSize, cellToParent } from 'h3-js';
+import { GAME_RULES } from '../config/game-rules';
+import { H3_DISTRICT_RESOLUTION, H3_REGION_RESOLUTION, H3_RESOLUTION } from './h3-territory';
+
+export type TerritoryLevel = 'cell' | 'district' | 'region';
+export type ParentLevel = Exclude<TerritoryLevel, 'cell'>;
+
+export const LEVEL_RESOLUTION: Record<TerritoryLevel, number> = {
+  cell: H3_RESOLUTION,
+  district: H3_DISTRICT_RESOLUTION,
+  region: H3_REGION_RESOLUTION,
+};
+
+/**
+ * Map zoom at which each level takes over; it shows until the next
+ * level's. Each level's hexes are about seven times the area of the one
+ * below, nearly three zoom steps, so hexes switch at about the same size
+ * on screen.
+ */
+export const LEVEL_MIN_ZOOM: Record<TerritoryLevel, number> = {
+  region: 0,
+  district: 10,
+  cell: 13,
+};
+
+export interface HierarchyHolding {
+  owner?: string;
+  cells: string[]; // resolution-9 H3 indices
+}
+
+export interface ParentControl {
+  h3Index: string;
+  level: ParentLevel;
+  controller: string | null; // holds the majority, if anyone does
+  leader: string; // holds the most, majority or not; '' when nobody holds any
+  held: Record<string, number>; // cells (districts) or controlled districts (regions) per owner
+  children: number; // all children of the parent at the level below
+}
+
+export interface TerritoryHierarchy {
+  cells: Record<string, string>; // cell → owner
+  districts: ParentControl[]; // sorted by index
+  regions: ParentControl[]; // sorted by index
+}
+
+export interface ControlChange {
+  level: ParentLevel;
+  h3Index: string;
+  from: string | null;
+  to: string | null;
+}
+
+/** The level to draw at a map zoom. */
+export function levelForZoom(zoom: number): TerritoryLevel {
+  if (zoom >= LEVEL_MIN_ZOOM.cell) return 'cell';
+  if (zoom >= LEVEL_MIN_ZOOM.district) return 'district';
+  return 'region';
+}
+
+/**
+ * Roll holdings up into districts and regions. A cell listed under more
+ * than one owner stays with the first. Districts with no held cells,
+ * and regions with none of those, are left out.
+ */
+export function buildHierarchy(holdings: HierarchyHolding[]): TerritoryHierarchy {
+  const cells: Record<string, string> = {};
+  for (const holding of holdings) {
+    if (!holding.owner) continue;
+    const owner = holding.owner.toLowerCase();
+    for (const cell of holding.cells) {
+      if (!(cell in cells)) cells[cell] = owner;
+    }
+  }
+
+  const cellsByDistrict = groupCounts(
+    Object.entries(cells).map(([cell, owner]) => [
+      cellToParent(cell, H3_DISTRICT_RESOLUTION),
+      owner,
+    ])
+  );
+  const districts = controls('district', cellsByDistrict, H3_RESOLUTION);
+
+  const districtsByRegion = groupCounts(
+    districts.map((d) => [cellToParent(d.h3Index, H3_REGION_RESOLUTION), d.controller])
+  );
+  const regions = controls('region', districtsByRegion, H3_DISTRICT_RESOLUTION);
+
+  return { cells, districts, regions };
+}
+
+/** Districts and regions whose controller differs between two hierarchies. */
+export function controlChanges(
+  before: TerritoryHierarchy,
+  after: TerritoryHierarchy
+): ControlChange[] {
+  const changes: ControlChange[] = [];
+  for (const level of ['district', 'region'] as const) {
+    const key = level === 'district' ? 'districts' : 'regions';
+    const was = new Map(before[key].map((p) => [p.h3Index, p.controller]));
+    const now = new Map(after[key].map((p) => [p.h3Index, p.controller]));
+    for (const h3Index of [...new Set([...was.keys(), ...now.keys()])].sort()) {
+      const from = was.get(h3Index) ?? null;
+      const to = now.get(h3Index) ?? null;
+      if (from !== to) changes.push({ level, h3Index, from, to });
+    }
+  }
+  return changes;
+}
+
+/** REALM earned for taking control of a district or region. */
+export function controlBonus(level: ParentLevel): number {
+  return level === 'district'
+    ? GAME_RULES.rewards.districtControlBonusRealm
+    : GAME_RULES.rewards.regionControlBonusRealm;
+}
+
+/** Parent → owner → count, from (parent, owner) pairs; null owners only register the parent. */
+function groupCounts(pairs: Array<[string, string | null]>): Map<string, Map<string, number>> {
+  const groups = new Map<string, Map<string, number>>();
+  for (const [parent, owner] of pairs) {
+    const counts = groups.get(parent) ?? new Map<string, number>();
+    if (owner !== null) counts.set(owner, (counts.get(owner) ?? 0) + 1);
+    groups.set(parent, counts);
+  }
+  return groups;
+}
+
+function controls(
+  level: ParentLevel,
+  groups: Map<string, Map<string, number>>,
+  childResolution: number
+): ParentControl[] {
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([h3Index, counts]) => {
+      const children = cellToChildrenSize(h3Index, childResolution);
+      let leader = '';
+      let most = 0;
+      for (const [owner, count] of counts) {
+        if (count > most || (count === most && owner < leader)) {
+          leader = owner;
+          most = count;
+        }
+      }
+      return {
+        h3Index,
+        level,
+        controller: most * 2 > children ? leader : null,
+        leader,
+        held: Object.fromEntries(counts),
+        children,
+      };
+    });
+}
@@ -0,0 +1,80 @@
+/**
+ * Territory difficulty, rarity and estimated reward
+ *
+ * What a run's territory is worth, from the run itself and the landmarks
+ * inside it. TerritoryService scores the territories it creates with
+ * this, and server.js quotes the same estimate for synced runs. The
+ * server has no landmarks to hand, so its quote is the landmark-free
+ * one: the client may rate the same ground rarer once it has names.
+ *
+ * Pure.
+ */
+import { isSpecialLandmark, type Landmark } from './landmarks';
+
+export type TerritoryRarity = 'common' | 'rare' | 'epic' | 'legendary';
+
+/** The parts of a run the score looks at. */
+export interface RewardRun {
+  totalDistance: number; // meters
+  totalDuration: number; // ms
+  averageSpeed: number; // m/s
+  elevation?: { gain: number; gradeAdjustedSpeed?: number };
+}
+
+export interface TerritoryValue {
+  difficulty: number; // 0-100
+  rarity: TerritoryRarity;
+  estimatedReward: number; // REALM
+}
+
+const RARITY_MULTIPLIER: Record<TerritoryRarity, number> = {
+  common: 1,
+  rare: 1.5,
+  epic: 2,
+  legendary: 3,
+};
+
+/** Elevation gain per kilometre, 0 without elevation data. */
+export function climbPerKm(run: RewardRun): number {
+  if (!run.elevation || run.totalDistance <= 0) return 0;
+  return run.elevation.gain / (run.totalDistance / 1000);
+}
+
+export function territoryDifficulty(run: RewardRun): number {
+  // Grade-adjusted speed credits effort on hills rather than raw pace
+  const speed = run.elevation?.gradeAdjustedSpeed ?? run.averageSpeed;
+
+  const distanceScore = Math.min(run.totalDistance / 5000, 1) * 35; // Max 35 points for 5km+
+  const speedScore = Math.min(speed / 5, 1) * 25; // Max 25 points for 5 m/s average
+  const durationScore = Math.min(run.totalDuration / (60 * 60 * 1000), 1) * 25; // Max 25 points for 1 hour+
+  const terrainScore = Math.min(climbPerKm(run) / 30, 1) * 15; // Max 15 points for 30m+ gain per km
+
+  return Math.round(distanceScore + speedScore + durationScore + terrainScore);
+}
+
+export function territoryRarity(
+  difficulty: number,
+  landmarks: Landmark[],
+  run?: RewardRun
+): TerritoryRarity {
+  // Monuments and other notable places are legendary ground
+  const isSpecialLocation = landmarks.some(isSpecialLandmark);
+  // Properly hilly ground is scarcer than flat streets: one tier up, below legendary
+  const isHilly = run ? climbPerKm(run) >= 40 : false;
+
+  if (difficulty >= 90 || isSpecialLocation) return 'legendary';
+  if (difficulty >= 70) return 'epic';
+  if (difficulty >= 50) return isHilly ? 'epic' : 'rare';
+  return isHilly ? 'rare' : 'common';
+}
+
+export function territoryReward(difficulty: number, rarity: TerritoryRarity): number {
+  return Math.round(difficulty * (RARITY_MULTIPLIER[rarity] ?? 1));
+}
+
+/** Difficulty, rarity and reward for a run's territory. */
+export function territoryValue(run: RewardRun, landmarks: Landmark[] = []): TerritoryValue {
+  const difficulty = territoryDifficulty(run);
+  const rarity = territoryRarity(difficulty, landmarks, run);
+  return { difficulty, rarity, estimatedReward: territoryReward(difficulty, rarity) };
+}
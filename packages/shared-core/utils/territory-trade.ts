@@ -0,0 +1,110 @@
+/**
+ * Territory trading
+ *
+ * Territories change hands three ways: a gift, a sale at a listed REALM
+ * price, or an accepted offer. The chain settles all three — a plain
+ * ERC-721 transfer for gifts, RunRealmTerritoryMarketV1 for the rest —
+ * and this module keeps the local book of listings and offers in step:
+ *
+ * - Amounts are REALM in wei as decimal strings, so they survive JSON
+ *   and match the contract's uint256 exactly.
+ * - A buyer has at most one open offer per territory; a new one
+ *   replaces it, as it does on-chain.
+ * - When a territory moves, its listing lapses and the new owner's own
+ *   offer on it goes. Other offers stay open against the new owner.
+ *
+ * Pure: no services, no clock. Addresses are compared without case.
+ */
+
+export interface TerritoryListing {
+  seller: string;
+  priceWei: string;
+  listedAt: number;
+}
+
+export interface TerritoryOffer {
+  tokenId: string;
+  buyer: string;
+  amountWei: string;
+  madeAt: number;
+  transactionHash?: string;
+}
+
+export interface PendingOffers {
+  incoming: TerritoryOffer[]; // on territories I own, best first
+  outgoing: TerritoryOffer[]; // mine on territories I don't own, newest first
+}
+
+const REALM_DECIMALS = 18;
+const WEI_PER_REALM = 10n ** BigInt(REALM_DECIMALS);
+
+/** REALM typed by a person ("12.5") in wei, or null unless it's a positive amount. */
+export function parseRealm(amount: string): string | null {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(amount.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+  const [, whole = '', fraction = ''] = match;
+  if (fraction.length > REALM_DECIMALS) return null;
+  const wei =
+    BigInt(whole || '0') * WEI_PER_REALM + BigInt(fraction.padEnd(REALM_DECIMALS, '0') || '0');
+  return wei > 0n ? wei.toString() : null;
+}
+
+/** Wei as REALM, without trailing zeros ("12500000000000000000" → "12.5"). */
+export function formatRealm(wei: string): string {
+  const value = BigInt(wei);
+  const whole = value / WEI_PER_REALM;
+  const fraction = (value % WEI_PER_REALM).toString().padStart(REALM_DECIMALS, '0');
+  const trimmed = fraction.replace(/0+$/, '');
+  return trimmed ? `${whole}.${trimmed}` : whole.toString();
+}
+
+export function isWalletAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(value.trim());
+}
+
+/** Add an offer, replacing the buyer's earlier one on the same territory. */
+export function withOffer(offers: TerritoryOffer[], offer: TerritoryOffer): TerritoryOffer[] {
+  return [...withoutOffer(offers, offer.tokenId, offer.buyer), offer];
+}
+
+export function withoutOffer(
+  offers: TerritoryOffer[],
+  tokenId: string,
+  buyer: string
+): TerritoryOffer[] {
+  return offers.filter((o) => !(o.tokenId === tokenId && sameAddress(o.buyer, buyer)));
+}
+
+/** Offers still open once `tokenId` has moved to `to`. */
+export function offersAfterTransfer(
+  offers: TerritoryOffer[],
+  tokenId: string,
+  to: string
+): TerritoryOffer[] {
+  return withoutOffer(offers, tokenId, to);
+}
+
+/** Split the book into offers waiting on `me` and offers `me` is waiting on. */
+export function pendingOffers(
+  offers: TerritoryOffer[],
+  ownedTokenIds: string[],
+  me: string
+): PendingOffers {
+  const owned = new Set(ownedTokenIds);
+  const incoming = offers
+    .filter((o) => owned.has(o.tokenId) && !sameAddress(o.buyer, me))
+    .sort((a, b) => compareWei(b.amountWei, a.amountWei) || a.madeAt - b.madeAt);
+  const outgoing = offers
+    .filter((o) => !owned.has(o.tokenId) && sameAddress(o.buyer, me))
+    .sort((a, b) => b.madeAt - a.madeAt);
+  return { incoming, outgoing };
+}
+
+function compareWei(a: string, b: string): number {
+  const diff = BigInt(a) - BigInt(b);
+  return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
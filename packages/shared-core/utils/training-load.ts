@@ -0,0 +1,269 @@
+/**
+ * Training load, fitness and fatigue
+ *
+ * Scores every run on one scale where an hour at threshold effort is
+ * 100, then aggregates the scores over time:
+ *
+ * - Run load comes from time in heart-rate zone when the run has heart
+ *   rate (hrTSS-style), otherwise from pace against threshold pace
+ *   (rTSS: hours × intensity² × 100, using grade-adjusted speed when the
+ *   run has elevation).
+ * - Fitness and fatigue are exponentially weighted daily loads with 42-
+ *   and 7-day time constants; form is fitness minus fatigue.
+ * - Acute load is the last 7 days' total; chronic load is the weekly
+ *   average over the last 28. Their ratio flags sudden spikes.
+ * - Weekly distance is over rolling 7-day windows ending now, so a
+ *   Monday doesn't reset the comparison, and a week more than 10% (and
+ *   `minRampDistance`) above the one before is flagged.
+ */
+
+export type LoadMethod = 'heartRate' | 'pace';
+
+/** Load per hour in each heart-rate zone; zone 4 is threshold. */
+export const ZONE_LOAD_PER_HOUR = [50, 60, 75, 100, 120] as const;
+const BELOW_ZONES_LOAD_PER_HOUR = 30;
+
+/** Threshold speed when nothing better is known: 5:00/km. */
+export const DEFAULT_THRESHOLD_SPEED = 1000 / 300;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const FITNESS_DAYS = 42;
+const FATIGUE_DAYS = 7;
+
+export interface LoadRun {
+  id: string;
+  startTime: number;
+  totalDistance: number; // meters
+  totalDuration: number; // ms of moving time
+  heartRate?: {
+    timeInZones: { zone: number; duration: number }[];
+    belowZonesDuration: number;
+  } | null;
+  elevation?: { gradeAdjustedSpeed?: number };
+}
+
+export interface LoadEntry {
+  runId: string;
+  startTime: number;
+  distance: number; // meters
+  duration: number; // ms
+  load: number;
+  method: LoadMethod;
+}
+
+export interface LoadDay {
+  date: number; // local midnight
+  load: number;
+  fitness: number;
+  fatigue: number;
+  form: number;
+}
+
+export interface WeeklyLoad {
+  start: number; // window start; the last window ends now
+  distance: number; // meters
+  load: number;
+  runs: number;
+}
+
+export type FormStatus = 'detraining' | 'fresh' | 'neutral' | 'productive' | 'overreaching';
+
+export interface TrainingLoadWarning {
+  kind: 'loadSpike' | 'mileageRamp';
+  severity: 'caution' | 'high';
+  message: string;
+}
+
+export interface TrainingLoadSummary {
+  fitness: number;
+  fatigue: number;
+  form: number;
+  formStatus: FormStatus;
+  acuteLoad: number; // last 7 days
+  chronicLoad: number; // weekly average over the last 28 days
+  loadRatio: number | null; // acute / chronic; null without a base
+  weeks: WeeklyLoad[]; // oldest first
+  curve: LoadDay[]; // oldest first
+  warnings: TrainingLoadWarning[];
+}
+
+export interface RunLoadOptions {
+  /** Threshold (roughly one-hour race) speed in m/s. */
+  thresholdSpeed?: number;
+}
+
+export interface TrainingLoadOptions {
+  now?: number;
+  /** Days of curve to return. Default 90. */
+  days?: number;
+  /** Rolling weeks of distance to return. Default 8. */
+  weeks?: number;
+  /** Week-on-week distance increase that triggers a warning. Default 0.1. */
+  rampThreshold?: number;
+  /** Ignore ramps smaller than this many meters. Default 5000. */
+  minRampDistance?: number;
+}
+
+/**
+ * Load for one run, and which signal it came from.
+ */
+export function runLoad(
+  run: LoadRun,
+  options: RunLoadOptions = {}
+): { load: number; method: LoadMethod } {
+  const hours = (ms: number) => ms / 3_600_000;
+
+  if (run.heartRate) {
+    const inZones = run.heartRate.timeInZones.reduce(
+      (sum, z) => sum + hours(z.duration) * (ZONE_LOAD_PER_HOUR[z.zone - 1] ?? 0),
+      0
+    );
+    const load = inZones + hours(run.heartRate.belowZonesDuration) * BELOW_ZONES_LOAD_PER_HOUR;
+    if (load > 0) return { load, method: 'heartRate' };
+  }
+
+  if (run.totalDuration <= 0) return { load: 0, method: 'pace' };
+  const speed = run.elevation?.gradeAdjustedSpeed ?? run.totalDistance / (run.totalDuration / 1000);
+  const intensity = speed / (options.thresholdSpeed ?? DEFAULT_THRESHOLD_SPEED);
+  return { load: hours(run.totalDuration) * intensity ** 2 * 100, method: 'pace' };
+}
+
+export function toLoadEntry(run: LoadRun, options: RunLoadOptions = {}): LoadEntry {
+  const { load, method } = runLoad(run, options);
+  return {
+    runId: run.id,
+    startTime: run.startTime,
+    distance: run.totalDistance,
+    duration: run.totalDuration,
+    load,
+    method,
+  };
+}
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function addDays(day: number, count: number): number {
+  const date = new Date(day);
+  date.setDate(date.getDate() + count);
+  return date.getTime();
+}
+
+/**
+ * Daily load with fitness, fatigue and form, from the first entry up to
+ * `now`; the last `days` are returned.
+ */
+export function loadCurve(
+  entries: LoadEntry[],
+  { now = Date.now(), days = 90 }: TrainingLoadOptions = {}
+): LoadDay[] {
+  if (entries.length === 0) return [];
+
+  const byDay = new Map<number, number>();
+  for (const entry of entries) {
+    const day = startOfDay(entry.startTime);
+    byDay.set(day, (byDay.get(day) ?? 0) + entry.load);
+  }
+
+  const today = startOfDay(now);
+  const curve: LoadDay[] = [];
+  let fitness = 0;
+  let fatigue = 0;
+  for (let day = Math.min(...byDay.keys()); day <= today; day = addDays(day, 1)) {
+    const load = byDay.get(day) ?? 0;
+    fitness += (load - fitness) / FITNESS_DAYS;
+    fatigue += (load - fatigue) / FATIGUE_DAYS;
+    curve.push({ date: day, load, fitness, fatigue, form: fitness - fatigue });
+  }
+  return curve.slice(-days);
+}
+
+/** Rolling 7-day windows ending at `now`, oldest first. */
+export function weeklyLoads(entries: LoadEntry[], now: number, weeks = 8): WeeklyLoad[] {
+  const windows: WeeklyLoad[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    const end = now - i * WEEK_MS;
+    const inWindow = entries.filter((e) => e.startTime > end - WEEK_MS && e.startTime <= end);
+    windows.push({
+      start: end - WEEK_MS,
+      distance: inWindow.reduce((sum, e) => sum + e.distance, 0),
+      load: inWindow.reduce((sum, e) => sum + e.load, 0),
+      runs: inWindow.length,
+    });
+  }
+  return windows;
+}
+
+export function formStatus(form: number): FormStatus {
+  if (form > 25) return 'detraining';
+  if (form > 5) return 'fresh';
+  if (form >= -10) return 'neutral';
+  if (form >= -30) return 'productive';
+  return 'overreaching';
+}
+
+export function summarizeTrainingLoad(
+  entries: LoadEntry[],
+  options: TrainingLoadOptions = {}
+): TrainingLoadSummary {
+  const now = options.now ?? Date.now();
+  const rampThreshold = options.rampThreshold ?? 0.1;
+  const minRampDistance = options.minRampDistance ?? 5000;
+
+  const curve = loadCurve(entries, { ...options, now });
+  const today = curve[curve.length - 1];
+  const weeks = weeklyLoads(entries, now, Math.max(options.weeks ?? 8, 4));
+  const lastFour = weeks.slice(-4);
+  const acuteLoad = lastFour[3].load;
+  const chronicLoad = lastFour.reduce((sum, w) => sum + w.load, 0) / 4;
+  const loadRatio = chronicLoad > 0 ? acuteLoad / chronicLoad : null;
+
+  const warnings: TrainingLoadWarning[] = [];
+  // Needs two active weeks so a first week back isn't read as a spike
+  if (loadRatio !== null && lastFour.filter((w) => w.runs > 0).length >= 2) {
+    if (loadRatio > 1.5) {
+      warnings.push({
+        kind: 'loadSpike',
+        severity: 'high',
+        message: `This week's load is ${loadRatio.toFixed(1)}× your 4-week average — injury risk is high`,
+      });
+    } else if (loadRatio > 1.3) {
+      warnings.push({
+        kind: 'loadSpike',
+        severity: 'caution',
+        message: `This week's load is ${loadRatio.toFixed(1)}× your 4-week average`,
+      });
+    }
+  }
+
+  const [previous, current] = weeks.slice(-2);
+  const increase = current.distance - previous.distance;
+  if (previous.distance > 0 && increase >= minRampDistance) {
+    const ramp = increase / previous.distance;
+    if (ramp > rampThreshold) {
+      warnings.push({
+        kind: 'mileageRamp',
+        severity: ramp > rampThreshold * 3 ? 'high' : 'caution',
+        message: `Weekly distance is up ${Math.round(ramp * 100)}% on the week before (${(previous.distance / 1000).toFixed(1)} → ${(current.distance / 1000).toFixed(1)} km)`,
+      });
+    }
+  }
+
+  const form = today?.form ?? 0;
+  return {
+    fitness: today?.fitness ?? 0,
+    fatigue: today?.fatigue ?? 0,
+    form,
+    formStatus: formStatus(form),
+    acuteLoad,
+    chronicLoad,
+    loadRatio,
+    weeks: weeks.slice(-(options.weeks ?? 8)),
+    curve,
+    warnings,
+  };
+}
@@ -0,0 +1,369 @@
+/**
+ * Structured workouts
+ *
+ * A `WorkoutPlan` is an ordered list of steps (warm-up, work, recovery,
+ * cool-down), each ending after a distance or a duration, optionally with
+ * a target pace band. Builders cover the common shapes: repeats
+ * (6×800m / 90s), pyramids and tempo blocks.
+ *
+ * `WorkoutSession` walks a plan against the run's cumulative distance and
+ * moving time and reports step boundaries, which `RunTrackingService`
+ * turns into automatic laps and cues. Steps with neither a distance nor
+ * a duration are open-ended and only end on a manual lap.
+ *
+ * Pure: no timers, no services. Times are milliseconds, distances meters,
+ * paces seconds per kilometre.
+ */
+
+export type WorkoutStepKind = 'warmup' | 'work' | 'recovery' | 'cooldown';
+
+/** Acceptable pace band; `fastest` is the lower number. */
+export interface PaceTarget {
+  fastest: number; // s/km
+  slowest: number; // s/km
+}
+
+export interface WorkoutStep {
+  kind: WorkoutStepKind;
+  label: string;
+  distance?: number; // meters
+  duration?: number; // milliseconds of moving time
+  targetPace?: PaceTarget;
+}
+
+export interface WorkoutPlan {
+  id: string;
+  name: string;
+  steps: WorkoutStep[];
+}
+
+/** How a step ends, as given to the builders. */
+export type StepLength = { distance: number } | { duration: number };
+
+export type PaceStatus = 'onTarget' | 'tooFast' | 'tooSlow';
+
+export interface StepResult {
+  index: number;
+  distance: number;
+  duration: number;
+  /** False when the run stopped before the step's distance/duration. */
+  completed: boolean;
+}
+
+export type WorkoutUpdate =
+  | { type: 'stepCompleted'; index: number; step: WorkoutStep; result: StepResult }
+  | { type: 'stepStarted'; index: number; step: WorkoutStep }
+  | { type: 'workoutCompleted' };
+
+export interface IntervalSummary {
+  index: number;
+  kind: WorkoutStepKind;
+  label: string;
+  distance: number;
+  duration: number;
+  pace: number | null; // s/km, null when no distance was covered
+  targetPace?: PaceTarget;
+  status: PaceStatus | 'noTarget';
+  completed: boolean;
+}
+
+export interface WorkoutSessionOptions {
+  /** Don't judge pace until this far into a step. Default 200 m. */
+  paceGraceDistance?: number;
+  /** Don't judge pace until this long into a step. Default 30 s. */
+  paceGraceDuration?: number;
+  /** Minimum gap between repeated off-pace alerts. Default 60 s. */
+  paceAlertIntervalMs?: number;
+}
+
+const SESSION_DEFAULTS: Required<WorkoutSessionOptions> = {
+  paceGraceDistance: 200,
+  paceGraceDuration: 30_000,
+  paceAlertIntervalMs: 60_000,
+};
+
+function lengthLabel(length: StepLength): string {
+  if ('distance' in length) {
+    return length.distance >= 1000 ? `${length.distance / 1000}km` : `${length.distance}m`;
+  }
+  const seconds = Math.round(length.duration / 1000);
+  return seconds % 60 === 0 ? `${seconds / 60}min` : `${seconds}s`;
+}
+
+function step(
+  kind: WorkoutStepKind,
+  label: string,
+  length: StepLength,
+  targetPace?: PaceTarget
+): WorkoutStep {
+  return { kind, label, ...length, ...(targetPace ? { targetPace } : {}) };
+}
+
+function withWarmupAndCooldown(
+  steps: WorkoutStep[],
+  warmup?: StepLength,
+  cooldown?: StepLength
+): WorkoutStep[] {
+  return [
+    ...(warmup ? [step('warmup', 'Warm-up', warmup)] : []),
+    ...steps,
+    ...(cooldown ? [step('cooldown', 'Cool-down', cooldown)] : []),
+  ];
+}
+
+/**
+ * Repeats of one work/recovery pair, e.g. 6×800m with 90s recovery.
+ * No recovery follows the last repeat.
+ */
+export function createIntervalWorkout(options: {
+  repeats: number;
+  work: StepLength;
+  recovery: StepLength;
+  targetPace?: PaceTarget;
+  warmup?: StepLength;
+  cooldown?: StepLength;
+  name?: string;
+}): WorkoutPlan {
+  const { repeats, work, recovery, targetPace } = options;
+  const steps: WorkoutStep[] = [];
+  for (let i = 1; i <= repeats; i++) {
+    steps.push(step('work', `Interval ${i}/${repeats}`, work, targetPace));
+    if (i < repeats) steps.push(step('recovery', 'Recovery', recovery));
+  }
+  const name = options.name ?? `${repeats}×${lengthLabel(work)} / ${lengthLabel(recovery)}`;
+  return {
+    id: `workout_${name.replace(/\W+/g, '-').toLowerCase()}`,
+    name,
+    steps: withWarmupAndCooldown(steps, options.warmup, options.cooldown),
+  };
+}
+
+/**
+ * Work steps of varying distance, e.g. 200-400-600-400-200, each
+ * followed by the same recovery.
+ */
+export function createPyramidWorkout(options: {
+  distances: number[];
+  recovery: StepLength;
+  targetPace?: PaceTarget;
+  warmup?: StepLength;
+  cooldown?: StepLength;
+  name?: string;
+}): WorkoutPlan {
+  const { distances, recovery, targetPace } = options;
+  const steps: WorkoutStep[] = [];
+  distances.forEach((distance, i) => {
+    steps.push(step('work', `${lengthLabel({ distance })} rep`, { distance }, targetPace));
+    if (i < distances.length - 1) steps.push(step('recovery', 'Recovery', recovery));
+  });
+  const name = options.name ?? `Pyramid ${distances.join('-')}`;
+  return {
+    id: `workout_${name.replace(/\W+/g, '-').toLowerCase()}`,
+    name,
+    steps: withWarmupAndCooldown(steps, options.warmup, options.cooldown),
+  };
+}
+
+/**
+ * Sustained blocks at threshold pace, e.g. 3×10min with 2min easy.
+ */
+export function createTempoWorkout(options: {
+  blocks: number;
+  block: StepLength;
+  recovery: StepLength;
+  targetPace: PaceTarget;
+  warmup?: StepLength;
+  cooldown?: StepLength;
+  name?: string;
+}): WorkoutPlan {
+  const plan = createIntervalWorkout({
+    repeats: options.blocks,
+    work: options.block,
+    recovery: options.recovery,
+    targetPace: options.targetPace,
+    warmup: options.warmup,
+    cooldown: options.cooldown,
+    name: options.name ?? `Tempo ${options.blocks}×${lengthLabel(options.block)}`,
+  });
+  let block = 0;
+  plan.steps = plan.steps.map((s) =>
+    s.kind === 'work' ? { ...s, label: `Tempo ${++block}/${options.blocks}` } : s
+  );
+  return plan;
+}
+
+/**
+ * Pace (s/km) for a distance covered in a duration; null for no distance.
+ */
+export function paceFor(distance: number, duration: number): number | null {
+  return distance > 0 ? duration / 1000 / (distance / 1000) : null;
+}
+
+export function comparePace(pace: number, target: PaceTarget): PaceStatus {
+  if (pace < target.fastest) return 'tooFast';
+  if (pace > target.slowest) return 'tooSlow';
+  return 'onTarget';
+}
+
+/**
+ * Progress through one plan during one run.
+ */
+export class WorkoutSession {
+  private readonly options: Required<WorkoutSessionOptions>;
+  private index = 0;
+  private stepStartDistance = 0;
+  private stepStartTime = 0;
+  private lastPaceAlertAt: number | null = null;
+  private readonly results: StepResult[] = [];
+
+  constructor(
+    readonly plan: WorkoutPlan,
+    options: WorkoutSessionOptions = {}
+  ) {
+    this.options = { ...SESSION_DEFAULTS, ...options };
+  }
+
+  /** The active step, or null once every step is done. */
+  getCurrentStep(): { index: number; step: WorkoutStep } | null {
+    const current = this.plan.steps[this.index];
+    return current ? { index: this.index, step: current } : null;
+  }
+
+  isComplete(): boolean {
+    return this.index >= this.plan.steps.length;
+  }
+
+  getResults(): StepResult[] {
+    return [...this.results];
+  }
+
+  /**
+   * Feed the run's cumulative distance and moving time. Returns the step
+   * boundaries crossed since the last call, in order.
+   */
+  update(distance: number, movingTime: number): WorkoutUpdate[] {
+    const updates: WorkoutUpdate[] = [];
+    let current = this.getCurrentStep();
+    while (current && this.isStepDone(current.step, distance, movingTime)) {
+      updates.push(...this.finishStep(distance, movingTime, true));
+      current = this.getCurrentStep();
+    }
+    return updates;
+  }
+
+  /**
+   * End the current step early (manual lap). Required for open-ended
+   * steps; on measured ones the remainder is skipped.
+   */
+  advance(distance: number, movingTime: number): WorkoutUpdate[] {
+    const current = this.getCurrentStep();
+    if (!current) return [];
+    return this.finishStep(distance, movingTime, !this.hasLength(current.step));
+  }
+
+  /**
+   * Record how far the unfinished step got, e.g. when the run stops
+   * mid-workout.
+   */
+  finish(distance: number, movingTime: number): void {
+    const current = this.getCurrentStep();
+    if (!current) return;
+    this.results.push({
+      index: current.index,
+      distance: distance - this.stepStartDistance,
+      duration: movingTime - this.stepStartTime,
+      completed: false,
+    });
+    this.index = this.plan.steps.length;
+  }
+
+  /**
+   * Pace check for the active step. Returns a status only when the
+   * runner should be told: off target, past the grace period, and not
+   * alerted within `paceAlertIntervalMs`.
+   */
+  checkPace(distance: number, movingTime: number): Exclude<PaceStatus, 'onTarget'> | null {
+    const target = this.getCurrentStep()?.step.targetPace;
+    if (!target) return null;
+
+    const stepDistance = distance - this.stepStartDistance;
+    const stepTime = movingTime - this.stepStartTime;
+    if (
+      stepDistance < this.options.paceGraceDistance ||
+      stepTime < this.options.paceGraceDuration
+    ) {
+      return null;
+    }
+
+    const pace = paceFor(stepDistance, stepTime);
+    if (pace === null) return null;
+    const status = comparePace(pace, target);
+    if (status === 'onTarget') return null;
+    if (
+      this.lastPaceAlertAt !== null &&
+      movingTime - this.lastPaceAlertAt < this.options.paceAlertIntervalMs
+    ) {
+      return null;
+    }
+    this.lastPaceAlertAt = movingTime;
+    return status;
+  }
+
+  private hasLength(s: WorkoutStep): boolean {
+    return s.distance !== undefined || s.duration !== undefined;
+  }
+
+  private isStepDone(s: WorkoutStep, distance: number, movingTime: number): boolean {
+    if (s.distance !== undefined && distance - this.stepStartDistance >= s.distance) return true;
+    if (s.duration !== undefined && movingTime - this.stepStartTime >= s.duration) return true;
+    return false;
+  }
+
+  private finishStep(distance: number, movingTime: number, completed: boolean): WorkoutUpdate[] {
+    const index = this.index;
+    const finished = this.plan.steps[index];
+    const result: StepResult = {
+      index,
+      distance: distance - this.stepStartDistance,
+      duration: movingTime - this.stepStartTime,
+      completed,
+    };
+    this.results.push(result);
+
+    this.index++;
+    this.stepStartDistance = distance;
+    this.stepStartTime = movingTime;
+    this.lastPaceAlertAt = null;
+
+    const updates: WorkoutUpdate[] = [{ type: 'stepCompleted', index, step: finished, result }];
+    const next = this.getCurrentStep();
+    updates.push(
+      next
+        ? { type: 'stepStarted', index: next.index, step: next.step }
+        : { type: 'workoutCompleted' }
+    );
+    return updates;
+  }
+}
+
+/**
+ * Post-run breakdown: one row per step that was started, with actual
+ * pace against the target.
+ */
+export function summarizeWorkout(plan: WorkoutPlan, results: StepResult[]): IntervalSummary[] {
+  return results.map((result) => {
+    const s = plan.steps[result.index];
+    const pace = paceFor(result.distance, result.duration);
+    return {
+      index: result.index,
+      kind: s.kind,
+      label: s.label,
+      distance: result.distance,
+      duration: result.duration,
+      pace,
+      targetPace: s.targetPace,
+      status: s.targetPace && pace !== null ? comparePace(pace, s.targetPace) : 'noTarget',
+      completed: result.completed,
+    };
+  });
+}
@@ -2,6 +2,7 @@ export interface LocationInfo {
   lat: number;
   lng: number;
   accuracy?: number;
+  altitude?: number; // meters, when the fix has one
   timestamp?: number;
   address?: string;
 }
@@ -112,6 +112,7 @@ library RealmRules {
   uint256 public constant ACTIVITY_BOOST_COST_REALM_E18    = ${a.boostCostRealmE18};
   uint256 public constant ACTIVITY_BOOST_POINTS            = ${a.boostPoints};
   uint256 public constant ACTIVITY_BOOST_LIMIT_PER_DAY     = ${a.boostLimitPerDay};
+  uint256 public constant ACTIVITY_RUN_THROUGH_POINTS_PER_CELL = ${a.runThroughPointsPerCell};
   uint256 public constant ACTIVITY_STRONG_MIN              = ${a.thresholds.strongMin};
   uint256 public constant ACTIVITY_MODERATE_MIN            = ${a.thresholds.moderateMin};
   uint256 public constant ACTIVITY_VULNERABLE_MIN          = ${a.thresholds.vulnerableMin};
@@ -125,6 +126,8 @@ library RealmRules {
   uint256 public constant DIFFICULTY_BONUS_MAX_E18         = ${rw.difficultyBonusMaxE18};
   uint256 public constant STAKING_BASE_APY_PERCENT         = ${rw.stakingApyPercent};
   uint256 public constant STAKING_MIN_PERIOD_DAYS          = ${rw.stakingMinPeriodDays};
+  uint256 public constant DISTRICT_CONTROL_BONUS_E18       = ${rw.districtControlBonusE18};
+  uint256 public constant REGION_CONTROL_BONUS_E18         = ${rw.regionControlBonusE18};
 
   // Territory validation (mirrors contracts/libraries/GameLogic.sol)
   uint256 public constant MIN_TERRITORY_DISTANCE_METERS    = ${t.minDistanceMeters};
@@ -174,6 +177,8 @@ library ConfidentialRules {
   uint64 public constant LEVEL_DISTANCE_THRESHOLD_METERS  = uint64(${t.levelDistanceThresholdMeters});
 
   uint64 public constant H3_RESOLUTION                    = uint64(${h.resolution});
+  uint64 public constant H3_DISTRICT_RESOLUTION           = uint64(${h.districtResolution});
+  uint64 public constant H3_REGION_RESOLUTION             = uint64(${h.regionResolution});
 ${zamaIds}}
 `;
 }
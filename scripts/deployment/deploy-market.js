@@ -0,0 +1,158 @@
+const hre = require('hardhat');
+const fs = require('node:fs');
+const path = require('node:path');
+const assert = require('node:assert/strict');
+
+/**
+ * ZetaChain Athens deploy script for `RunRealmTerritoryMarketV1`.
+ *
+ * The additive territory marketplace lives on ZetaChain Athens Testnet
+ * (chainId 7001) next to `RunRealmUniversal`. It settles listings and
+ * offers in REALM and moves the territory NFT; gifts go straight
+ * through `RunRealmUniversal.safeTransferFrom`.
+ *
+ * Usage:
+ *   npx hardhat run scripts/deployment/deploy-market.js --network zetachain_testnet
+ *
+ * The deployer's private key is read from `PRIVATE_KEY` via Hardhat's
+ * `zetachain_testnet` network config in `hardhat.config.js`. The
+ * deployed address should be exported as `RUNREALM_MARKET_ADDRESS`.
+ */
+
+const DEPLOYMENT_CONFIG = {
+  networks: {
+    7001: {
+      name: 'zetachain_testnet',
+      explorerUrl: 'https://zetachain-athens-3.blockscout.com',
+      // Fallback addresses on ZetaChain Athens from the shared-core
+      // network config. Override with TERRITORY_MANAGER_ADDRESS and
+      // REALM_TOKEN_ADDRESS env.
+      territoriesAddress:
+        process.env.TERRITORY_MANAGER_ADDRESS || '0x7A52d845Dc37aC5213a546a59A43148308A88983',
+      realmTokenAddress:
+        process.env.REALM_TOKEN_ADDRESS || '0x18082d110113B40A24A41dF10b4b249Ee461D3eb',
+    },
+    31337: {
+      name: 'hardhat',
+      explorerUrl: '',
+      territoriesAddress: process.env.TERRITORY_MANAGER_ADDRESS || '',
+      realmTokenAddress: process.env.REALM_TOKEN_ADDRESS || '',
+    },
+  },
+};
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+class RunRealmMarketDeployer {
+  constructor(network, deployer) {
+    this.network = network;
+    this.deployer = deployer;
+    this.config = DEPLOYMENT_CONFIG.networks[Number(network.chainId)];
+    assert(this.config, `Unsupported chainId: ${network.chainId}`);
+    this.deploymentRecord = {
+      network: {
+        name: network.name,
+        chainId: Number(network.chainId),
+      },
+      deployer: deployer.address,
+      timestamp: new Date().toISOString(),
+      contracts: {},
+    };
+  }
+
+  log(message) {
+    console.log(`🔧 ${message}`);
+  }
+
+  success(message) {
+    console.log(`✅ ${message}`);
+  }
+
+  error(message) {
+    console.log(`❌ ${message}`);
+  }
+
+  async deployMarketContract() {
+    this.log('Deploying RunRealmTerritoryMarketV1 (additive territory market)...');
+
+    const { territoriesAddress, realmTokenAddress } = this.config;
+    assert(
+      territoriesAddress && territoriesAddress !== ZERO_ADDRESS,
+      'Set TERRITORY_MANAGER_ADDRESS env variable or provide a non-zero fallback'
+    );
+    assert(
+      realmTokenAddress && realmTokenAddress !== ZERO_ADDRESS,
+      'Set REALM_TOKEN_ADDRESS env variable or provide a non-zero fallback'
+    );
+
+    const RunRealmTerritoryMarketV1 = await hre.ethers.getContractFactory(
+      'RunRealmTerritoryMarketV1'
+    );
+    const market = await RunRealmTerritoryMarketV1.deploy(territoriesAddress, realmTokenAddress);
+
+    await market.waitForDeployment();
+    const address = await market.getAddress();
+
+    this.deploymentRecord.contracts.RunRealmTerritoryMarketV1 = {
+      address,
+      constructorArgs: [territoriesAddress, realmTokenAddress],
+    };
+
+    this.success(`RunRealmTerritoryMarketV1 deployed: ${address}`);
+    this.log(`Territories: ${territoriesAddress}`);
+    this.log(`Realm token: ${realmTokenAddress}`);
+    return address;
+  }
+
+  async saveDeploymentRecord() {
+    const deploymentsDir = path.join(__dirname, '..', '..', 'deployments', this.config.name);
+    fs.mkdirSync(deploymentsDir, { recursive: true });
+
+    const recordPath = path.join(deploymentsDir, 'RunRealmTerritoryMarketV1.json');
+    fs.writeFileSync(recordPath, JSON.stringify(this.deploymentRecord, null, 2));
+    this.success(`Deployment saved: ${recordPath}`);
+  }
+
+  async run() {
+    console.log('🤝 RunRealm Territory Market V1 Deployment');
+    console.log('========================================================');
+    console.log(`📝 Deployer: ${this.deployer.address}`);
+    console.log(`🌐 Network: ${this.config.name} (${this.network.chainId})`);
+
+    const balance = await hre.ethers.provider.getBalance(this.deployer.address);
+    console.log(`💰 Balance: ${hre.ethers.formatEther(balance)}`);
+
+    try {
+      await this.deployMarketContract();
+      await this.saveDeploymentRecord();
+
+      console.log('\n🎉 DEPLOYMENT COMPLETE!');
+      console.log('========================');
+      const marketAddress = this.deploymentRecord.contracts.RunRealmTerritoryMarketV1.address;
+      console.log(`🤝 RunRealmTerritoryMarketV1: ${marketAddress}`);
+      if (this.config.explorerUrl) {
+        console.log(`🔍 Explorer: ${this.config.explorerUrl}/address/${marketAddress}`);
+      }
+      console.log('\n🎯 Next Steps:');
+      console.log(`   export RUNREALM_MARKET_ADDRESS=${marketAddress}`);
+      console.log('   Rebuild the web app so contracts.ts picks up the address.');
+      console.log('   Owners can now list territories and accept offers in REALM.');
+    } catch (error) {
+      console.log('\n💥 Deployment failed:');
+      console.error(error);
+      process.exitCode = 1;
+    }
+  }
+}
+
+async function main() {
+  const [deployer] = await hre.ethers.getSigners();
+  const network = await hre.ethers.provider.getNetwork();
+  const deployerInstance = new RunRealmMarketDeployer(network, deployer);
+  await deployerInstance.run();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,6 +1,16 @@
 const express = require('express');
 const path = require('node:path');
 require('dotenv').config();
+const {
+  RUN_STATUSES,
+  canTransition,
+  summarize,
+  MemoryRunStore,
+  FileRunStore,
+} = require('./server/run-store');
+const { TERRITORY_MODES, assessRun } = require('./server/run-assessment');
+const { checkPush, MemorySyncStore, FileSyncStore } = require('./server/sync-store');
+const { WalletAuth } = require('./server/wallet-auth');
 const app = express();
 const port = process.env.PORT || 3000;
 
@@ -13,9 +23,16 @@ console.log('GOOGLE_GEMINI_API_KEY:', process.env.GOOGLE_GEMINI_API_KEY ? 'Set'
 console.log('STRAVA_CLIENT_ID:', process.env.STRAVA_CLIENT_ID ? 'Set' : 'Not set');
 console.log('STRAVA_CLIENT_SECRET:', process.env.STRAVA_CLIENT_SECRET ? 'Set' : 'Not set');
 console.log('STRAVA_VERIFY_TOKEN:', process.env.STRAVA_VERIFY_TOKEN ? 'Set' : 'Using default');
-
-// Enable JSON parsing for POST requests
-app.use(express.json());
+console.log('AUTH_SECRET:', process.env.AUTH_SECRET ? 'Set' : 'Not set (sessions end on restart)');
+
+// Enable JSON parsing for POST requests. Routes taking large uploads
+// parse their own bodies with a higher limit, so skip them here: the
+// default 100 kb limit would answer 413 before they run.
+const OWN_BODY_LIMIT = new Set(['POST /api/runs', 'POST /api/sync/changes']);
+const parseJson = express.json();
+app.use((req, res, next) =>
+  OWN_BODY_LIMIT.has(`${req.method} ${req.path}`) ? next() : parseJson(req, res, next)
+);
 app.use(express.urlencoded({ extended: true }));
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
@@ -33,6 +50,45 @@ app.use((req, res, next) => {
 // Serve static files from the public directory
 app.use(express.static(path.join(__dirname, 'public')));
 
+// ---------------------------------------------------------------------------
+// /api/auth — Sign-In with Ethereum.
+// GET /api/auth/nonce hands out a single-use nonce; the client has its
+// wallet sign a sign-in message carrying it (shared-core utils/siwe.ts)
+// and POSTs { message, signature } to /api/auth/verify for a session
+// token tied to that wallet. `requireSession` guards the routes below
+// that act for a user: runs are kept under the wallet that will claim
+// them. See packages/shared-core/services/api-auth-service.ts for the
+// client.
+// ---------------------------------------------------------------------------
+const walletAuth = new WalletAuth({
+  secret: process.env.AUTH_SECRET || require('node:crypto').randomBytes(32).toString('hex'),
+  verifyMessage: require('ethers').verifyMessage,
+  domains: (process.env.AUTH_DOMAINS || '')
+    .split(',')
+    .map((domain) => domain.trim())
+    .filter(Boolean),
+});
+const requireSession = walletAuth.requireSession();
+
+app.get('/api/auth/nonce', (_req, res) => {
+  const nonce = walletAuth.issueNonce();
+  if (!nonce) {
+    return res.status(429).json({ error: 'too many sign-ins in progress, try again shortly' });
+  }
+  res.json(nonce);
+});
+
+app.post('/api/auth/verify', (req, res) => {
+  // Without AUTH_DOMAINS only messages for the host we were reached on count
+  const result = walletAuth.signIn(req.body, Date.now(), req.get('host'));
+  if (!result.valid) {
+    console.warn('[auth] sign-in refused:', result.error);
+    return res.status(401).json({ error: result.error });
+  }
+  console.log(`[auth] signed in ${result.session.address}`);
+  res.json(result.session);
+});
+
 // API endpoint to provide tokens
 app.get('/api/tokens', (req, res) => {
   console.log('Received request for /api/tokens from:', req.ip || req.connection.remoteAddress);
@@ -73,17 +129,33 @@ app.get('/api/tokens', (req, res) => {
   }
 });
 
+// A single-use OAuth `state` for the signed-in wallet. Strava redirects
+// the browser to the callback below without our bearer header, so the
+// state is what ties the callback back to the session.
+app.post('/api/strava/state', requireSession, (req, res) => {
+  const state = walletAuth.issueState(req.userId);
+  if (!state) {
+    return res.status(429).json({ error: 'too many Strava connections in progress' });
+  }
+  res.json(state);
+});
+
 // Strava OAuth callback handler
 app.get('/auth/strava/callback', async (req, res) => {
   console.log('Received Strava OAuth callback');
 
-  const { code, error } = req.query;
+  const { code, error, state } = req.query;
 
   if (error) {
     console.error('Strava OAuth error:', error);
     return res.redirect(`/?strava_error=${encodeURIComponent(error)}`);
   }
 
+  if (!walletAuth.spendState(state)) {
+    console.error('Strava OAuth callback without a wallet session');
+    return res.redirect('/?strava_error=not_signed_in');
+  }
+
   if (!code) {
     console.error('No authorization code received');
     return res.redirect('/?strava_error=no_code');
@@ -124,7 +196,7 @@ app.get('/auth/strava/callback', async (req, res) => {
 });
 
 // Strava token refresh endpoint
-app.post('/api/strava/refresh', async (req, res) => {
+app.post('/api/strava/refresh', requireSession, async (req, res) => {
   console.log('Received Strava token refresh request');
 
   const { refresh_token } = req.body;
@@ -233,87 +305,210 @@ app.get('/index.html', (_req, res) => {
 // ---------------------------------------------------------------------------
 // /api/runs — Mobile run sync endpoint.
 // The mobile app uploads completed RunSession objects here for off-chain
-// validation. Valid runs are held in an in-memory queue and exposed via
-// GET /api/runs/pending so the web app can claim them on-chain. Actual
+// validation. Every run is kept in the run store (server/run-store.js)
+// under the signed-in wallet that uploaded it, with the anti-cheat
+// report: accepted runs are `validated`, suspicious ones stay `pending`,
+// and rejected ones are stored as `rejected` and answered with a 422 and
+// the reasons. Whether a run can claim territory — and the geohash, H3
+// cells and estimated reward it would claim — comes from the same shared
+// code the clients use (shared-core utils/territory-eligibility.ts), so
+// the answer here matches the app's. The web app lists the wallet's
+// validated runs, claims them on-chain and marks them `claimed`. Actual
 // minting still happens from the wallet client; this endpoint does not
 // hold a private key or submit transactions.
 // See packages/mobile-app/src/services/RunSyncService.ts for the client.
 // ---------------------------------------------------------------------------
-const pendingRuns = new Map();
+const runStore =
+  process.env.RUNS_STORE === 'memory'
+    ? new MemoryRunStore()
+    : new FileRunStore(process.env.RUNS_STORE_PATH || path.join(__dirname, 'data', 'runs.json'));
 
-function validateRun(run) {
-  const errors = [];
-  if (!run.id || typeof run.id !== 'string') errors.push('run.id is required');
-  if (!Array.isArray(run.points) || run.points.length < 2) {
-    errors.push('run.points must contain at least two points');
-  }
-  if (typeof run.totalDistance !== 'number' || run.totalDistance <= 0) {
-    errors.push('run.totalDistance must be a positive number');
-  }
-  if (typeof run.totalDuration !== 'number' || run.totalDuration <= 0) {
-    errors.push('run.totalDuration must be a positive number');
-  }
-  if (errors.length > 0) return { valid: false, errors };
-
-  // Basic territory eligibility: 500m+ and a closed-ish loop (start/end within 100m)
-  const minClaimDistance = 500;
-  const loopThreshold = 100;
-  const eligible =
-    run.totalDistance >= minClaimDistance &&
-    (() => {
-      const first = run.points[0];
-      const last = run.points[run.points.length - 1];
-      if (!first || !last) return false;
-      const dx = first.lat - last.lat;
-      const dy = first.lng - last.lng;
-      // rough degrees-to-meters conversion at mid-latitudes
-      const meters = Math.sqrt(dx * dx + dy * dy) * 111_000;
-      return meters <= loopThreshold;
-    })();
-
-  return { valid: true, eligible };
-}
+const STATUS_FOR_VERDICT = { accepted: 'validated', suspicious: 'pending', rejected: 'rejected' };
 
-app.post('/api/runs', express.json({ limit: '5mb' }), (req, res) => {
+app.post('/api/runs', requireSession, express.json({ limit: '5mb' }), async (req, res) => {
   const run = req.body?.run;
   if (!run || typeof run !== 'object') {
     return res.status(400).json({ error: 'invalid run payload' });
   }
 
-  const validation = validateRun(run);
-  if (!validation.valid) {
-    return res.status(400).json({ error: 'validation failed', details: validation.errors });
+  const mode = req.body.territoryMode ?? 'loop';
+  if (!TERRITORY_MODES.includes(mode)) {
+    return res
+      .status(400)
+      .json({ error: `territoryMode must be one of ${TERRITORY_MODES.join(', ')}` });
+  }
+
+  const assessment = assessRun(run, mode);
+  if (!assessment.valid) {
+    return res.status(400).json({ error: 'validation failed', details: assessment.errors });
   }
 
-  const pointCount = Array.isArray(run.points) ? run.points.length : 0;
-  const summary = {
-    runId: run.id,
-    distance: run.totalDistance,
-    duration: run.totalDuration,
-    pointCount,
-    eligible: validation.eligible,
-    receivedAt: new Date().toISOString(),
-  };
-
-  pendingRuns.set(run.id, { ...summary, run });
-  console.log(
-    `[runs] accepted ${run.id} (${pointCount} points, ${run.totalDistance}m, eligible=${validation.eligible})`
-  );
-  res.status(202).json({ status: 'accepted', ...summary });
+  try {
+    const { record, created } = await runStore.create(req.userId, {
+      run,
+      status: STATUS_FOR_VERDICT[assessment.verdict.verdict],
+      eligible: assessment.territory.eligible,
+      territory: assessment.territory,
+      validation: assessment.verdict,
+    });
+    const { score, reasons } = record.validation;
+    if (record.status === 'rejected') {
+      if (created) console.log(`[runs] rejected ${run.id} (score ${score}): ${reasons.join('; ')}`);
+      return res.status(422).json({ error: 'run rejected', runId: record.id, score, reasons });
+    }
+
+    const summary = summarize(record);
+    if (created) {
+      console.log(
+        `[runs] ${record.status} ${run.id} (${summary.pointCount} points, ${run.totalDistance}m, eligible=${record.eligible})`
+      );
+    }
+    res.status(created ? 202 : 200).json({
+      ...summary,
+      runId: record.id,
+      validation: { verdict: record.validation.verdict, score, reasons },
+      territory: record.territory,
+    });
+  } catch (error) {
+    console.error('[runs] failed to store run:', error.message);
+    res.status(500).json({ error: 'failed to store run' });
+  }
 });
 
-app.get('/api/runs/pending', (req, res) => {
-  const runs = Array.from(pendingRuns.values()).map((entry) => entry.summary || entry);
-  res.json({ pending: runs, count: runs.length });
+app.get('/api/runs', requireSession, async (req, res) => {
+  const { status, limit, offset } = req.query;
+  if (status && !RUN_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of ${RUN_STATUSES.join(', ')}` });
+  }
+  try {
+    res.json(
+      await runStore.list(req.userId, {
+        status,
+        limit: limit === undefined ? undefined : Number(limit),
+        offset: offset === undefined ? undefined : Number(offset),
+      })
+    );
+  } catch (error) {
+    console.error('[runs] failed to list runs:', error.message);
+    res.status(500).json({ error: 'failed to list runs' });
+  }
 });
 
-app.delete('/api/runs/:runId', (req, res) => {
+// Validated runs the web app can claim on-chain
+app.get('/api/runs/pending', requireSession, async (req, res) => {
+  try {
+    const { runs } = await runStore.list(req.userId, { status: 'validated', limit: 100 });
+    const claimable = runs.filter((run) => run.eligible);
+    res.json({ pending: claimable, count: claimable.length });
+  } catch (error) {
+    console.error('[runs] failed to list pending runs:', error.message);
+    res.status(500).json({ error: 'failed to list runs' });
+  }
+});
+
+app.get('/api/runs/:runId', requireSession, async (req, res) => {
+  try {
+    const record = await runStore.get(req.userId, req.params.runId);
+    if (!record) {
+      return res.status(404).json({ error: 'run not found' });
+    }
+    res.json(record);
+  } catch (error) {
+    console.error('[runs] failed to read run:', error.message);
+    res.status(500).json({ error: 'failed to read run' });
+  }
+});
+
+// The web app reports a finished on-chain claim; validated → claimed is
+// the only move a client may make, the rest are the validator's.
+app.patch('/api/runs/:runId', requireSession, express.json(), async (req, res) => {
+  const { status, transactionHash } = req.body || {};
+  if (status !== 'claimed') {
+    return res.status(400).json({ error: 'only status "claimed" can be set' });
+  }
+  try {
+    const record = await runStore.get(req.userId, req.params.runId);
+    if (!record) {
+      return res.status(404).json({ error: 'run not found' });
+    }
+    if (!record.eligible || !canTransition(record.status, status)) {
+      return res.status(409).json({ error: `run is ${record.status} and cannot be claimed` });
+    }
+    const updated = await runStore.transition(req.userId, record.id, status, {
+      transactionHash: typeof transactionHash === 'string' ? transactionHash : undefined,
+    });
+    res.json(summarize(updated));
+  } catch (error) {
+    console.error('[runs] failed to update run:', error.message);
+    res.status(500).json({ error: 'failed to update run' });
+  }
+});
+
+app.delete('/api/runs/:runId', requireSession, async (req, res) => {
   const { runId } = req.params;
-  if (!pendingRuns.has(runId)) {
-    return res.status(404).json({ error: 'run not found' });
+  try {
+    if (!(await runStore.delete(req.userId, runId))) {
+      return res.status(404).json({ error: 'run not found' });
+    }
+    res.json({ status: 'deleted', runId });
+  } catch (error) {
+    console.error('[runs] failed to delete run:', error.message);
+    res.status(500).json({ error: 'failed to delete run' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// /api/sync — Run history, territories and progression across devices.
+// Each signed-in wallet has one change feed (server/sync-store.js): a
+// device GETs /api/sync/changes?cursor=N for everything changed since
+// its cursor and POSTs its own changes, each with the `seq` it last saw.
+// Edits two devices made at once are settled here by the shared rules in
+// shared-core utils/device-sync.ts — last writer wins for runs, a merge
+// for stats, and a reported conflict for a territory claimed on both.
+// See packages/shared-core/services/device-sync-service.ts for the
+// client. Runs still go through /api/runs for validation and claiming;
+// this feed only carries history.
+// ---------------------------------------------------------------------------
+const syncStore =
+  process.env.SYNC_STORE === 'memory'
+    ? new MemorySyncStore()
+    : new FileSyncStore(process.env.SYNC_STORE_PATH || path.join(__dirname, 'data', 'sync.json'));
+
+app.get('/api/sync/changes', requireSession, async (req, res) => {
+  const { cursor, limit } = req.query;
+  try {
+    res.json(
+      await syncStore.changes(req.userId, {
+        cursor: cursor === undefined ? undefined : Number(cursor),
+        limit: limit === undefined ? undefined : Number(limit),
+      })
+    );
+  } catch (error) {
+    console.error('[sync] failed to read changes:', error.message);
+    res.status(500).json({ error: 'failed to read changes' });
+  }
+});
+
+app.post('/api/sync/changes', requireSession, express.json({ limit: '5mb' }), async (req, res) => {
+  const changes = req.body?.changes;
+  const problem = checkPush(changes);
+  if (problem) {
+    return res.status(400).json({ error: problem });
+  }
+  try {
+    const result = await syncStore.push(req.userId, changes);
+    for (const { conflict } of result.results) {
+      if (conflict) {
+        console.log(
+          `[sync] ${conflict.kind} ${conflict.id}: ${conflict.reason}, kept ${conflict.kept}`
+        );
+      }
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('[sync] failed to store changes:', error.message);
+    res.status(500).json({ error: 'failed to store changes' });
   }
-  pendingRuns.delete(runId);
-  res.json({ status: 'deleted', runId });
 });
 
 const server = app.listen(port, async () => {
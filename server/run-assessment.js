@@ -0,0 +1,34 @@
+// Shared with the web and mobile clients; built by `npm run build:server`
+const { assessTerritoryEligibility } = require('../dist/server/utils/territory-eligibility');
+
+/**
+ * What the server makes of an uploaded run: the anti-cheat verdict and
+ * whether it can claim territory, with the geohash, H3 cells and
+ * estimated reward it would claim. Both come from shared-core
+ * (utils/territory-eligibility.ts), the code RunTrackingService and
+ * TerritoryService run on the device, so a synced run gets the answer
+ * the app gave it. test/territory-parity.test.js holds the two to that.
+ */
+
+const TERRITORY_MODES = ['loop', 'trace'];
+
+/**
+ * `{ valid: false, errors }` for a malformed upload, otherwise
+ * `{ valid: true, verdict, territory }`. `territoryMode` is the client's
+ * territory mode setting, loop by default as in the app.
+ */
+function assessRun(run, territoryMode = 'loop') {
+  const assessment = assessTerritoryEligibility(run, { mode: territoryMode });
+  const errors = assessment.validation.checks.find((check) => check.name === 'structure').reasons;
+  if (!run.id || typeof run.id !== 'string') errors.unshift('run.id is required');
+  if (errors.length > 0) return { valid: false, errors };
+
+  const { eligible, reasons, geohash, h3Cells, value } = assessment;
+  return {
+    valid: true,
+    verdict: assessment.validation,
+    territory: { eligible, reasons, geohash, h3Cells, ...value },
+  };
+}
+
+module.exports = { TERRITORY_MODES, assessRun };
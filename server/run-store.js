@@ -0,0 +1,214 @@
+const fs = require('node:fs');
+const path = require('node:path');
+
+/**
+ * Run store behind `/api/runs`.
+ *
+ * Every uploaded run belongs to the user who uploaded it and carries its
+ * validation report and where it is in the claim pipeline:
+ *
+ *   pending ──→ validated ──→ claimed
+ *      └────────────┴──→ rejected
+ *
+ * `pending` runs are waiting on a decision (the validator found them
+ * suspicious), `validated` ones can be claimed on-chain, `claimed` ones
+ * have been, and `rejected` is final.
+ *
+ * Two stores share one async interface: `MemoryRunStore` for tests and
+ * `FileRunStore`, the default, which keeps all runs in one JSON file
+ * rewritten atomically after each change so a restart loses nothing.
+ * A JSON file rather than SQLite keeps the server free of native modules.
+ */
+
+const RUN_STATUSES = ['pending', 'validated', 'claimed', 'rejected'];
+
+const TRANSITIONS = {
+  pending: ['validated', 'rejected'],
+  validated: ['claimed', 'rejected'],
+  claimed: [],
+  rejected: [],
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function canTransition(from, to) {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/** What lists return: everything but the points. */
+function summarize(record) {
+  const { run, validation, ...summary } = record;
+  return {
+    ...summary,
+    distance: run.totalDistance,
+    duration: run.totalDuration,
+    pointCount: Array.isArray(run.points) ? run.points.length : 0,
+    score: validation?.score ?? null,
+  };
+}
+
+class MemoryRunStore {
+  constructor(records = []) {
+    this.records = new Map(records.map((record) => [this.key(record.userId, record.id), record]));
+    this.changing = new Map(); // each run's latest change, for the next to wait on
+  }
+
+  key(userId, runId) {
+    return `${userId}:${runId}`;
+  }
+
+  /**
+   * Store a new run alongside `fields` such as its validation report.
+   * Uploading a run id the user already has returns the stored record
+   * unchanged, so client retries are harmless.
+   */
+  async create(userId, { run, status, ...fields }, now = Date.now()) {
+    if (!RUN_STATUSES.includes(status)) throw new Error(`Unknown run status: ${status}`);
+    const key = this.key(userId, run.id);
+    return this.queue(key, async () => {
+      const existing = this.records.get(key);
+      if (existing) return { record: existing, created: false };
+
+      const record = {
+        id: run.id,
+        userId,
+        status,
+        ...fields,
+        run,
+        createdAt: new Date(now).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+      };
+      await this.apply(key, record);
+      return { record, created: true };
+    });
+  }
+
+  async get(userId, runId) {
+    return this.records.get(this.key(userId, runId)) ?? null;
+  }
+
+  /** The user's runs, newest first, `limit` at a time from `offset`. */
+  async list(userId, { status, limit = DEFAULT_PAGE_SIZE, offset = 0 } = {}) {
+    const size = Math.min(Math.max(1, Math.floor(limit) || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const start = Math.max(0, Math.floor(offset) || 0);
+    const mine = [...this.records.values()]
+      .filter((record) => record.userId === userId && (!status || record.status === status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || a.id.localeCompare(b.id));
+    const page = mine.slice(start, start + size);
+    return {
+      runs: page.map(summarize),
+      total: mine.length,
+      limit: size,
+      offset: start,
+      nextOffset: start + page.length < mine.length ? start + page.length : null,
+    };
+  }
+
+  /**
+   * Move a run along the pipeline, merging `changes` (e.g. the claim's
+   * transaction hash) into the record. Null when the user has no such
+   * run; throws when the move isn't allowed.
+   */
+  transition(userId, runId, status, changes = {}, now = Date.now()) {
+    const key = this.key(userId, runId);
+    return this.queue(key, async () => {
+      const record = this.records.get(key);
+      if (!record) return null;
+      if (!canTransition(record.status, status)) {
+        throw new Error(`Run ${runId} cannot go from ${record.status} to ${status}`);
+      }
+      const updated = { ...record, ...changes, status, updatedAt: new Date(now).toISOString() };
+      await this.apply(key, updated);
+      return updated;
+    });
+  }
+
+  delete(userId, runId) {
+    const key = this.key(userId, runId);
+    return this.queue(key, async () => {
+      if (!this.records.has(key)) return false;
+      await this.apply(key, null);
+      return true;
+    });
+  }
+
+  /**
+   * Run `change` once the changes already queued for `key` have settled,
+   * so each one reads the record as the last left it and undoing a
+   * failed write can't undo another change.
+   */
+  queue(key, change) {
+    const run = (this.changing.get(key) ?? Promise.resolve()).then(change);
+    const settled = run.catch(() => {});
+    this.changing.set(key, settled);
+    settled.then(() => {
+      if (this.changing.get(key) === settled) this.changing.delete(key);
+    });
+    return run;
+  }
+
+  /**
+   * Set (or, for null, remove) one record and persist; callers hold the
+   * key's queue. If the write fails the record goes back to what it was
+   * and the error is thrown, so memory never holds what the file doesn't.
+   */
+  async apply(key, record) {
+    const previous = this.records.get(key);
+    if (record) this.records.set(key, record);
+    else this.records.delete(key);
+    try {
+      await this.persist();
+    } catch (error) {
+      if (previous) this.records.set(key, previous);
+      else this.records.delete(key);
+      throw error;
+    }
+  }
+
+  async persist() {
+    // Nothing to do in memory
+  }
+}
+
+class FileRunStore extends MemoryRunStore {
+  constructor(filePath) {
+    super(FileRunStore.load(filePath));
+    this.filePath = filePath;
+    this.writing = Promise.resolve();
+  }
+
+  static load(filePath) {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')).runs ?? [];
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw new Error(`Failed to read run store ${filePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Write to a temp file and rename over the old one; writes run in
+   * order. A failed write rejects its caller but not the writes queued
+   * after it.
+   */
+  persist() {
+    const write = this.writing.then(async () => {
+      const snapshot = JSON.stringify({ runs: [...this.records.values()] });
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const temp = `${this.filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temp, snapshot);
+      await fs.promises.rename(temp, this.filePath);
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+}
+
+module.exports = {
+  RUN_STATUSES,
+  canTransition,
+  summarize,
+  MemoryRunStore,
+  FileRunStore,
+};
@@ -0,0 +1,185 @@
+const fs = require('node:fs');
+const path = require('node:path');
+// Shared with the web and mobile clients; built by `npm run build:server`
+const { SYNC_KINDS, resolveSyncPush } = require('../dist/server/utils/device-sync');
+
+/**
+ * Sync store behind `/api/sync`.
+ *
+ * Keeps the latest copy of every run, territory and stats document each
+ * user's devices have synced, numbered from a per-user counter (`seq`)
+ * that goes up with every change. A device's cursor is the highest `seq`
+ * it has seen; `changes` returns what came after it, oldest first, so
+ * the feed pages and resumes cleanly. Concurrent edits from two devices
+ * are settled by shared-core utils/device-sync.ts, the rules the
+ * clients are written against.
+ *
+ * Like server/run-store.js: `MemorySyncStore` for tests and
+ * `FileSyncStore`, which rewrites one JSON file atomically after each
+ * push. Each user's pushes run one at a time, and a push whose write
+ * fails is undone and throws.
+ */
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+const MAX_PUSH = 200;
+
+/** Why a push from a client can't be taken, or null when it can. */
+function checkPush(changes) {
+  if (!Array.isArray(changes)) return 'changes must be an array';
+  if (changes.length > MAX_PUSH) return `at most ${MAX_PUSH} changes per push`;
+  for (const [i, change] of changes.entries()) {
+    if (!change || typeof change !== 'object') return `changes[${i}] is not an object`;
+    if (!SYNC_KINDS.includes(change.kind)) {
+      return `changes[${i}].kind must be one of ${SYNC_KINDS.join(', ')}`;
+    }
+    if (typeof change.id !== 'string' || !change.id) return `changes[${i}].id is required`;
+    if (!change.data || typeof change.data !== 'object') return `changes[${i}].data is required`;
+    if (!Number.isFinite(change.updatedAt)) return `changes[${i}].updatedAt must be a number`;
+    if (typeof change.deviceId !== 'string' || !change.deviceId) {
+      return `changes[${i}].deviceId is required`;
+    }
+    if (!Number.isInteger(change.baseSeq) || change.baseSeq < 0) {
+      return `changes[${i}].baseSeq must be a non-negative integer`;
+    }
+  }
+  return null;
+}
+
+/** A record as clients see it, without the owner. */
+function publicRecord({ userId, ...record }) {
+  return record;
+}
+
+class MemorySyncStore {
+  constructor(records = []) {
+    this.records = new Map(records.map((record) => [this.key(record), record]));
+    this.seqs = new Map();
+    for (const record of records) {
+      this.seqs.set(record.userId, Math.max(this.seqs.get(record.userId) ?? 0, record.seq));
+    }
+    this.pushing = new Map(); // each user's latest push, for the next to wait on
+  }
+
+  key({ userId, kind, id }) {
+    return `${userId}:${kind}:${id}`;
+  }
+
+  /** The user's documents changed after `cursor`, oldest change first. */
+  async changes(userId, { cursor = 0, limit = DEFAULT_PAGE_SIZE } = {}) {
+    const size = Math.min(Math.max(1, Math.floor(limit) || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const after = Math.max(0, Math.floor(cursor) || 0);
+    const newer = [...this.records.values()]
+      .filter((record) => record.userId === userId && record.seq > after)
+      .sort((a, b) => a.seq - b.seq);
+    const page = newer.slice(0, size);
+    return {
+      changes: page.map(publicRecord),
+      cursor: page.length ? page[page.length - 1].seq : after,
+      hasMore: newer.length > page.length,
+    };
+  }
+
+  /**
+   * Apply a device's changes in order. Each result carries the server's
+   * copy after the push — the device's own, a merge, or the copy that
+   * beat it — and any conflict it lost or won.
+   */
+  push(userId, changes) {
+    // One at a time per user, so undoing a failed write can't undo
+    // another push's seqs and records
+    const push = (this.pushing.get(userId) ?? Promise.resolve()).then(() =>
+      this.applyPush(userId, changes)
+    );
+    const settled = push.catch(() => {});
+    this.pushing.set(userId, settled);
+    settled.then(() => {
+      if (this.pushing.get(userId) === settled) this.pushing.delete(userId);
+    });
+    return push;
+  }
+
+  async applyPush(userId, changes) {
+    const results = [];
+    const previous = new Map(); // what each changed key held before, to undo a failed write
+    const previousSeq = this.seqs.get(userId);
+    for (const change of changes) {
+      const key = this.key({ userId, ...change });
+      const stored = this.records.get(key);
+      const { record, conflict } = resolveSyncPush(stored, change);
+      let current = stored;
+      if (record) {
+        const seq = (this.seqs.get(userId) ?? 0) + 1;
+        this.seqs.set(userId, seq);
+        current = { userId, kind: change.kind, id: change.id, ...record, seq };
+        if (!previous.has(key)) previous.set(key, stored);
+        this.records.set(key, current);
+      }
+      results.push({
+        kind: change.kind,
+        id: change.id,
+        applied: Boolean(record),
+        record: publicRecord(current),
+        ...(conflict ? { conflict } : {}),
+      });
+    }
+    if (previous.size > 0) {
+      try {
+        await this.persist();
+      } catch (error) {
+        for (const [key, stored] of previous) {
+          if (stored) this.records.set(key, stored);
+          else this.records.delete(key);
+        }
+        if (previousSeq === undefined) this.seqs.delete(userId);
+        else this.seqs.set(userId, previousSeq);
+        throw error;
+      }
+    }
+    return { results, cursor: this.seqs.get(userId) ?? 0 };
+  }
+
+  async persist() {
+    // Nothing to do in memory
+  }
+}
+
+class FileSyncStore extends MemorySyncStore {
+  constructor(filePath) {
+    super(FileSyncStore.load(filePath));
+    this.filePath = filePath;
+    this.writing = Promise.resolve();
+  }
+
+  static load(filePath) {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')).records ?? [];
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw new Error(`Failed to read sync store ${filePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Write to a temp file and rename over the old one; writes run in
+   * order. A failed write rejects its caller but not the writes queued
+   * after it.
+   */
+  persist() {
+    const write = this.writing.then(async () => {
+      const snapshot = JSON.stringify({ records: [...this.records.values()] });
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const temp = `${this.filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temp, snapshot);
+      await fs.promises.rename(temp, this.filePath);
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+}
+
+module.exports = {
+  checkPush,
+  MemorySyncStore,
+  FileSyncStore,
+};
@@ -0,0 +1,170 @@
+const crypto = require('node:crypto');
+const { checkSiweMessage, parseSiweMessage } = require('../dist/server/utils/siwe');
+
+/**
+ * Wallet sign-in for the backend API.
+ *
+ * Sign-In with Ethereum (packages/shared-core/utils/siwe.ts): a client
+ * takes a nonce from `issueNonce`, has its wallet sign a message carrying
+ * it, and `signIn` checks the message, recovers the signer and hands back
+ * a session token for that address. Nonces are single use and short
+ * lived, and only so many may be outstanding at once; session tokens are HMAC-signed `<payload>.<mac>` strings, so
+ * verifying one needs no lookup and they stop working once they expire
+ * or the secret changes.
+ *
+ * Redirect flows that can't carry a bearer header, like Strava's OAuth
+ * callback, use `issueState`: a single-use, short-lived value standing in
+ * for the session that `spendState` trades back for its address, so the
+ * token itself never leaves for a third party.
+ *
+ * `requireSession` is the Express middleware: it reads the token from
+ * `Authorization: Bearer …` and sets `req.userId` to the lower-cased
+ * wallet address, or answers 401.
+ */
+
+const NONCE_TTL_MS = 5 * 60_000;
+const STATE_TTL_MS = 10 * 60_000;
+const SESSION_TTL_MS = 60 * 60_000;
+const MAX_NONCES = 10_000;
+
+function bearerToken(req) {
+  const match = /^Bearer\s+(\S+)$/.exec(req.get('authorization') || '');
+  return match ? match[1] : null;
+}
+
+class WalletAuth {
+  /**
+   * `verifyMessage(message, signature)` recovers the signing address
+   * (ethers' `verifyMessage`); `domains` limits which sites may ask for
+   * a signature, only the host the sign-in was sent to when empty.
+   */
+  constructor({
+    secret,
+    verifyMessage,
+    domains = [],
+    sessionTtlMs = SESSION_TTL_MS,
+    maxNonces = MAX_NONCES,
+  }) {
+    this.secret = secret;
+    this.verifyMessage = verifyMessage;
+    this.domains = domains.length > 0 ? domains : undefined;
+    this.sessionTtlMs = sessionTtlMs;
+    this.maxNonces = maxNonces;
+    this.nonces = new Map();
+    this.states = new Map();
+  }
+
+  /** A fresh nonce, or null while too many are outstanding. */
+  issueNonce(now = Date.now()) {
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt <= now) this.nonces.delete(nonce);
+    }
+    if (this.nonces.size >= this.maxNonces) return null;
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const expiresAt = now + NONCE_TTL_MS;
+    this.nonces.set(nonce, expiresAt);
+    return { nonce, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Trade a signed sign-in message for a session: `{ valid, session | error }`.
+   * `host` is the Host the request came in on, the accepted domain when
+   * none were configured.
+   */
+  signIn({ message, signature } = {}, now = Date.now(), host) {
+    const parsed = parseSiweMessage(message);
+    if (!parsed || typeof signature !== 'string') {
+      return { valid: false, error: 'a signed sign-in message is required' };
+    }
+
+    // Spend the nonce whatever happens next, so a message can't be replayed
+    const nonceExpiresAt = this.nonces.get(parsed.nonce);
+    this.nonces.delete(parsed.nonce);
+    const known = nonceExpiresAt !== undefined && nonceExpiresAt > now;
+    const problems = checkSiweMessage(parsed, {
+      nonce: known ? parsed.nonce : '',
+      now,
+      domains: this.domains ?? (host ? [host] : []),
+    });
+    if (problems.length > 0) return { valid: false, error: problems.join('; ') };
+
+    let signer;
+    try {
+      signer = this.verifyMessage(message, signature);
+    } catch {
+      return { valid: false, error: 'signature is malformed' };
+    }
+    if (signer.toLowerCase() !== parsed.address.toLowerCase()) {
+      return { valid: false, error: 'signature does not match the address' };
+    }
+
+    const address = parsed.address.toLowerCase();
+    const expiresAt = now + this.sessionTtlMs;
+    return {
+      valid: true,
+      session: {
+        token: this.sign({ sub: address, exp: expiresAt }),
+        address,
+        expiresAt: new Date(expiresAt).toISOString(),
+      },
+    };
+  }
+
+  /** A state for `address`'s redirect flow, or null while too many are outstanding. */
+  issueState(address, now = Date.now()) {
+    for (const [state, entry] of this.states) {
+      if (entry.expiresAt <= now) this.states.delete(state);
+    }
+    if (this.states.size >= this.maxNonces) return null;
+    const state = crypto.randomBytes(16).toString('hex');
+    const expiresAt = now + STATE_TTL_MS;
+    this.states.set(state, { address, expiresAt });
+    return { state, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /** The address a state was issued to, or null; either way it is spent. */
+  spendState(state, now = Date.now()) {
+    if (typeof state !== 'string') return null;
+    const entry = this.states.get(state);
+    this.states.delete(state);
+    return entry && entry.expiresAt > now ? entry.address : null;
+  }
+
+  /** The wallet address a session token was issued to, or null. */
+  verifyToken(token, now = Date.now()) {
+    if (typeof token !== 'string') return null;
+    const [payload, mac] = token.split('.');
+    if (!payload || !mac) return null;
+    const expected = Buffer.from(this.mac(payload));
+    const given = Buffer.from(mac);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+    try {
+      const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+      return typeof sub === 'string' && typeof exp === 'number' && exp > now ? sub : null;
+    } catch {
+      return null;
+    }
+  }
+
+  requireSession(getToken = bearerToken) {
+    return (req, res, next) => {
+      const address = this.verifyToken(getToken(req));
+      if (!address) {
+        return res.status(401).json({ error: 'sign in with your wallet first' });
+      }
+      req.userId = address;
+      next();
+    };
+  }
+
+  sign(claims) {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${payload}.${this.mac(payload)}`;
+  }
+
+  mac(payload) {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+module.exports = { WalletAuth, bearerToken };
@@ -0,0 +1,221 @@
+const { expect } = require('chai');
+const { ethers } = require('hardhat');
+const { loadFixture } = require('@nomicfoundation/hardhat-network-helpers');
+
+/**
+ * Tests for `RunRealmTerritoryMarketV1`: listings, offers and the
+ * REALM and NFT transfers that settle them, against the real
+ * `RealmToken` and a mintable stand-in for the territory NFT.
+ */
+const TOKEN_ID = 1;
+const PRICE = ethers.parseEther('100');
+const OFFER = ethers.parseEther('60');
+
+describe('RunRealmTerritoryMarketV1', () => {
+  async function deployMarketFixture() {
+    const [deployer, seller, buyer, other] = await ethers.getSigners();
+
+    const RealmToken = await ethers.getContractFactory('RealmToken');
+    const realmToken = await RealmToken.deploy();
+    await realmToken.waitForDeployment();
+
+    const MockTerritoryNFT = await ethers.getContractFactory('MockTerritoryNFT');
+    const territories = await MockTerritoryNFT.deploy();
+    await territories.waitForDeployment();
+
+    const Market = await ethers.getContractFactory('RunRealmTerritoryMarketV1');
+    const market = await Market.deploy(
+      await territories.getAddress(),
+      await realmToken.getAddress()
+    );
+    await market.waitForDeployment();
+    const marketAddress = await market.getAddress();
+
+    await territories.mint(seller.address, TOKEN_ID);
+    await territories.connect(seller).setApprovalForAll(marketAddress, true);
+    for (const account of [buyer, other]) {
+      await realmToken.transfer(account.address, ethers.parseEther('1000'));
+    }
+
+    return { market, marketAddress, realmToken, territories, deployer, seller, buyer, other };
+  }
+
+  async function listedFixture() {
+    const fixture = await deployMarketFixture();
+    await fixture.market.connect(fixture.seller).list(TOKEN_ID, PRICE);
+    return fixture;
+  }
+
+  describe('Deployment', () => {
+    it('rejects zero addresses', async () => {
+      const { realmToken } = await loadFixture(deployMarketFixture);
+      const Market = await ethers.getContractFactory('RunRealmTerritoryMarketV1');
+      await expect(
+        Market.deploy(ethers.ZeroAddress, await realmToken.getAddress())
+      ).to.be.revertedWith('RunRealmTerritoryMarketV1: zero territories');
+    });
+  });
+
+  describe('Listings', () => {
+    it('lets only the owner list, at a non-zero price', async () => {
+      const { market, seller, buyer } = await loadFixture(deployMarketFixture);
+      await expect(market.connect(buyer).list(TOKEN_ID, PRICE))
+        .to.be.revertedWithCustomError(market, 'NotTokenOwner')
+        .withArgs(TOKEN_ID);
+      await expect(market.connect(seller).list(TOKEN_ID, 0)).to.be.revertedWithCustomError(
+        market,
+        'ZeroAmount'
+      );
+      await expect(market.connect(seller).list(TOKEN_ID, PRICE))
+        .to.emit(market, 'Listed')
+        .withArgs(TOKEN_ID, seller.address, PRICE);
+      const listing = await market.listings(TOKEN_ID);
+      expect(listing.seller).to.equal(seller.address);
+      expect(listing.price).to.equal(PRICE);
+    });
+
+    it('lets only the seller cancel', async () => {
+      const { market, seller, buyer } = await loadFixture(listedFixture);
+      await expect(market.connect(buyer).cancelListing(TOKEN_ID)).to.be.revertedWithCustomError(
+        market,
+        'NotListed'
+      );
+      await expect(market.connect(seller).cancelListing(TOKEN_ID))
+        .to.emit(market, 'ListingCancelled')
+        .withArgs(TOKEN_ID, seller.address);
+      expect((await market.listings(TOKEN_ID)).seller).to.equal(ethers.ZeroAddress);
+    });
+  });
+
+  describe('Buying', () => {
+    it('pays the seller and moves the territory to the buyer', async () => {
+      const { market, marketAddress, realmToken, territories, seller, buyer } =
+        await loadFixture(listedFixture);
+      await realmToken.connect(buyer).approve(marketAddress, PRICE);
+
+      await expect(market.connect(buyer).buy(TOKEN_ID, PRICE))
+        .to.emit(market, 'Sold')
+        .withArgs(TOKEN_ID, seller.address, buyer.address, PRICE);
+      expect(await territories.ownerOf(TOKEN_ID)).to.equal(buyer.address);
+      expect(await realmToken.balanceOf(seller.address)).to.equal(PRICE);
+      expect((await market.listings(TOKEN_ID)).seller).to.equal(ethers.ZeroAddress);
+    });
+
+    it('reverts when the price went up past the buyer’s maximum', async () => {
+      const { market, marketAddress, realmToken, territories, seller, buyer } =
+        await loadFixture(listedFixture);
+      const raised = PRICE * 3n;
+      await realmToken.connect(buyer).approve(marketAddress, raised);
+      await market.connect(seller).list(TOKEN_ID, raised);
+
+      await expect(market.connect(buyer).buy(TOKEN_ID, PRICE))
+        .to.be.revertedWithCustomError(market, 'PriceAboveMax')
+        .withArgs(TOKEN_ID, raised, PRICE);
+      expect(await territories.ownerOf(TOKEN_ID)).to.equal(seller.address);
+      expect(await realmToken.balanceOf(seller.address)).to.equal(0);
+    });
+
+    it('charges the listed price when it is below the maximum', async () => {
+      const { market, marketAddress, realmToken, seller, buyer } = await loadFixture(listedFixture);
+      await realmToken.connect(buyer).approve(marketAddress, PRICE * 2n);
+      await market.connect(buyer).buy(TOKEN_ID, PRICE * 2n);
+      expect(await realmToken.balanceOf(seller.address)).to.equal(PRICE);
+    });
+
+    it('reverts on an unlisted or stale listing', async () => {
+      const { market, marketAddress, realmToken, territories, seller, buyer, other } =
+        await loadFixture(listedFixture);
+      await realmToken.connect(buyer).approve(marketAddress, PRICE);
+      await expect(market.connect(buyer).buy(2, PRICE)).to.be.revertedWithCustomError(
+        market,
+        'NotListed'
+      );
+
+      // The seller gave the territory away after listing it
+      await territories
+        .connect(seller)
+        ['safeTransferFrom(address,address,uint256)'](seller.address, other.address, TOKEN_ID);
+      await expect(market.connect(buyer).buy(TOKEN_ID, PRICE)).to.be.revertedWithCustomError(
+        market,
+        'NotListed'
+      );
+    });
+
+    it('reverts without a REALM allowance', async () => {
+      const { market, buyer } = await loadFixture(listedFixture);
+      await expect(market.connect(buyer).buy(TOKEN_ID, PRICE)).to.be.reverted;
+    });
+  });
+
+  describe('Offers', () => {
+    it('rejects zero offers and offers on your own territory', async () => {
+      const { market, seller, buyer } = await loadFixture(deployMarketFixture);
+      await expect(market.connect(buyer).makeOffer(TOKEN_ID, 0)).to.be.revertedWithCustomError(
+        market,
+        'ZeroAmount'
+      );
+      await expect(market.connect(seller).makeOffer(TOKEN_ID, OFFER)).to.be.revertedWithCustomError(
+        market,
+        'NotTokenOwner'
+      );
+    });
+
+    it('sells to an accepted offer and clears the listing', async () => {
+      const { market, marketAddress, realmToken, territories, seller, buyer } =
+        await loadFixture(listedFixture);
+      await realmToken.connect(buyer).approve(marketAddress, OFFER);
+      await expect(market.connect(buyer).makeOffer(TOKEN_ID, OFFER))
+        .to.emit(market, 'OfferMade')
+        .withArgs(TOKEN_ID, buyer.address, OFFER);
+
+      await expect(market.connect(seller).acceptOffer(TOKEN_ID, buyer.address))
+        .to.emit(market, 'OfferAccepted')
+        .withArgs(TOKEN_ID, seller.address, buyer.address, OFFER);
+      expect(await territories.ownerOf(TOKEN_ID)).to.equal(buyer.address);
+      expect(await realmToken.balanceOf(seller.address)).to.equal(OFFER);
+      expect(await market.offers(TOKEN_ID, buyer.address)).to.equal(0);
+      expect((await market.listings(TOKEN_ID)).seller).to.equal(ethers.ZeroAddress);
+    });
+
+    it('lets only the owner accept, and only a standing offer', async () => {
+      const { market, marketAddress, realmToken, seller, buyer, other } =
+        await loadFixture(deployMarketFixture);
+      await realmToken.connect(buyer).approve(marketAddress, OFFER);
+      await market.connect(buyer).makeOffer(TOKEN_ID, OFFER);
+
+      await expect(
+        market.connect(other).acceptOffer(TOKEN_ID, buyer.address)
+      ).to.be.revertedWithCustomError(market, 'NotTokenOwner');
+      await expect(market.connect(seller).acceptOffer(TOKEN_ID, other.address))
+        .to.be.revertedWithCustomError(market, 'NoOffer')
+        .withArgs(TOKEN_ID, other.address);
+
+      await expect(market.connect(buyer).withdrawOffer(TOKEN_ID))
+        .to.emit(market, 'OfferWithdrawn')
+        .withArgs(TOKEN_ID, buyer.address);
+      await expect(
+        market.connect(seller).acceptOffer(TOKEN_ID, buyer.address)
+      ).to.be.revertedWithCustomError(market, 'NoOffer');
+    });
+
+    it('settles two offers that share one added-up allowance', async () => {
+      const { market, marketAddress, realmToken, territories, seller, buyer } =
+        await loadFixture(deployMarketFixture);
+      const SECOND_ID = 2;
+      await territories.mint(seller.address, SECOND_ID);
+
+      // What ContractService does: add each offer to the standing allowance
+      await realmToken.connect(buyer).approve(marketAddress, OFFER);
+      await market.connect(buyer).makeOffer(TOKEN_ID, OFFER);
+      const allowance = await realmToken.allowance(buyer.address, marketAddress);
+      await realmToken.connect(buyer).approve(marketAddress, allowance + OFFER);
+      await market.connect(buyer).makeOffer(SECOND_ID, OFFER);
+
+      await market.connect(seller).acceptOffer(TOKEN_ID, buyer.address);
+      await market.connect(seller).acceptOffer(SECOND_ID, buyer.address);
+      expect(await territories.ownerOf(TOKEN_ID)).to.equal(buyer.address);
+      expect(await territories.ownerOf(SECOND_ID)).to.equal(buyer.address);
+      expect(await realmToken.balanceOf(seller.address)).to.equal(OFFER * 2n);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Run Store Test Suite
+ * Tests per-user ownership, pagination, status transitions and that the
+ * file store survives a restart
+ */
+
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const { MemoryRunStore, FileRunStore, canTransition } = require('../server/run-store');
+
+const T0 = Date.parse('2024-06-01T07:00:00Z');
+
+function runOf(id) {
+  return {
+    id,
+    points: [
+      { lat: 51.5, lng: -0.12, timestamp: T0 },
+      { lat: 51.501, lng: -0.12, timestamp: T0 + 40_000 },
+    ],
+    totalDistance: 111,
+    totalDuration: 40_000,
+  };
+}
+
+const accepted = { verdict: 'accepted', score: 100, reasons: [], checks: [] };
+
+describe('Run store', () => {
+  it('keeps each user to their own runs', async () => {
+    const store = new MemoryRunStore();
+    await store.create('alice', { run: runOf('run_1'), status: 'validated', validation: accepted });
+    await store.create('bob', { run: runOf('run_1'), status: 'pending', validation: accepted });
+
+    expect((await store.get('alice', 'run_1')).status).toBe('validated');
+    expect((await store.get('bob', 'run_1')).status).toBe('pending');
+    expect(await store.get('carol', 'run_1')).toBeNull();
+    expect(await store.delete('carol', 'run_1')).toBe(false);
+    expect(await store.delete('bob', 'run_1')).toBe(true);
+    expect(await store.get('alice', 'run_1')).not.toBeNull();
+  });
+
+  it('treats a repeated upload as the same run', async () => {
+    const store = new MemoryRunStore();
+    const first = await store.create('alice', { run: runOf('run_1'), status: 'validated' });
+    const again = await store.create('alice', { run: runOf('run_1'), status: 'rejected' });
+    expect(first.created).toBe(true);
+    expect(again).toEqual({ record: first.record, created: false });
+  });
+
+  it('pages through runs newest first without their points', async () => {
+    const store = new MemoryRunStore();
+    for (let i = 0; i < 5; i++) {
+      await store.create('alice', { run: runOf(`run_${i}`), status: 'validated' }, T0 + i * 1000);
+    }
+    await store.create('bob', { run: runOf('run_9'), status: 'validated' }, T0);
+
+    const first = await store.list('alice', { limit: 2 });
+    expect(first.runs.map((run) => run.id)).toEqual(['run_4', 'run_3']);
+    expect(first).toMatchObject({ total: 5, nextOffset: 2 });
+    expect(first.runs[0]).toMatchObject({ pointCount: 2, distance: 111 });
+    expect(first.runs[0].run).toBeUndefined();
+
+    const last = await store.list('alice', { limit: 2, offset: 4 });
+    expect(last.runs.map((run) => run.id)).toEqual(['run_0']);
+    expect(last.nextOffset).toBeNull();
+    expect((await store.list('alice', { limit: 1000 })).limit).toBe(100);
+  });
+
+  it('only moves runs forward through the pipeline', async () => {
+    expect(canTransition('pending', 'validated')).toBe(true);
+    expect(canTransition('validated', 'claimed')).toBe(true);
+    expect(canTransition('pending', 'claimed')).toBe(false);
+    expect(canTransition('rejected', 'validated')).toBe(false);
+    expect(canTransition('claimed', 'rejected')).toBe(false);
+
+    const store = new MemoryRunStore();
+    await store.create('alice', { run: runOf('run_1'), status: 'pending' });
+    await expect(store.transition('alice', 'run_1', 'claimed')).rejects.toThrow(
+      'cannot go from pending to claimed'
+    );
+    await store.transition('alice', 'run_1', 'validated');
+    const claimed = await store.transition('alice', 'run_1', 'claimed', {
+      transactionHash: '0xabc',
+    });
+    expect(claimed).toMatchObject({ status: 'claimed', transactionHash: '0xabc' });
+    expect(await store.transition('bob', 'run_1', 'claimed')).toBeNull();
+    expect((await store.list('alice', { status: 'claimed' })).total).toBe(1);
+  });
+
+  it('reloads runs from disk', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-store-'));
+    const file = path.join(dir, 'data', 'runs.json');
+    try {
+      const store = new FileRunStore(file);
+      await store.create('alice', {
+        run: runOf('run_1'),
+        status: 'validated',
+        validation: accepted,
+      });
+      await store.create('alice', { run: runOf('run_2'), status: 'pending' });
+      await store.transition('alice', 'run_1', 'claimed');
+      await store.delete('alice', 'run_2');
+
+      const reopened = new FileRunStore(file);
+      expect(await reopened.get('alice', 'run_1')).toMatchObject({
+        status: 'claimed',
+        validation: accepted,
+      });
+      expect(await reopened.get('alice', 'run_2')).toBeNull();
+      expect(fs.readdirSync(path.dirname(file))).toEqual(['runs.json']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('changes a run one call at a time, so undoing one leaves the next alone', async () => {
+    const store = new MemoryRunStore();
+    await store.create('alice', { run: runOf('run_1'), status: 'pending' });
+    let failWrite;
+    store.persist = jest
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise((_resolve, reject) => {
+            failWrite = reject;
+          })
+      )
+      .mockResolvedValue(undefined);
+
+    const validated = store.transition('alice', 'run_1', 'validated');
+    const rejected = store.transition('alice', 'run_1', 'rejected');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(store.persist).toHaveBeenCalledTimes(1);
+    failWrite(new Error('disk full'));
+
+    await expect(validated).rejects.toThrow('disk full');
+    expect((await rejected).status).toBe('rejected');
+    expect((await store.get('alice', 'run_1')).status).toBe('rejected');
+  });
+
+  it('undoes a change whose write fails and keeps writing after it', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-store-'));
+    const blocked = path.join(dir, 'blocked');
+    fs.writeFileSync(blocked, '');
+    try {
+      const store = new FileRunStore(path.join(dir, 'runs.json'));
+      // A file where the data directory should be: the write fails
+      store.filePath = path.join(blocked, 'runs.json');
+      await expect(
+        store.create('alice', { run: runOf('run_1'), status: 'pending' })
+      ).rejects.toThrow();
+      expect(await store.get('alice', 'run_1')).toBeNull();
+
+      store.filePath = path.join(dir, 'runs.json');
+      await store.create('alice', { run: runOf('run_2'), status: 'pending' });
+      const reopened = new FileRunStore(store.filePath);
+      expect((await reopened.list('alice')).runs.map((run) => run.id)).toEqual(['run_2']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
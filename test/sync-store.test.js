@@ -0,0 +1,232 @@
+/**
+ * Sync Store Test Suite
+ * Tests the per-user change feed, how concurrent pushes from two devices
+ * are settled, push validation and that the file store survives a
+ * restart (needs `npm run build:server` for the shared code)
+ */
+
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const { checkPush, MemorySyncStore, FileSyncStore } = require('../server/sync-store');
+
+const T0 = Date.parse('2024-06-01T07:00:00Z');
+
+function change(kind, id, data, { device = 'phone', at = T0, baseSeq = 0, base } = {}) {
+  return { kind, id, data, updatedAt: at, deviceId: device, baseSeq, ...(base ? { base } : {}) };
+}
+
+function stats(overrides = {}) {
+  return {
+    level: 1,
+    experience: 0,
+    totalDistance: 0,
+    territoriesOwned: 0,
+    territoriesClaimed: 0,
+    challengesWon: 0,
+    totalTime: 0,
+    personalRecords: 0,
+    achievements: [],
+    activeChallenges: [],
+    streak: 0,
+    ...overrides,
+  };
+}
+
+describe('Sync store', () => {
+  it('feeds each user their own changes after a cursor, a page at a time', async () => {
+    const store = new MemorySyncStore();
+    await store.push('alice', [
+      change('run', 'run_1', { id: 'run_1' }),
+      change('run', 'run_2', { id: 'run_2' }),
+      change('run', 'run_3', { id: 'run_3' }),
+    ]);
+    await store.push('bob', [change('run', 'run_9', { id: 'run_9' })]);
+
+    const first = await store.changes('alice', { limit: 2 });
+    expect(first.changes.map((c) => [c.id, c.seq])).toEqual([
+      ['run_1', 1],
+      ['run_2', 2],
+    ]);
+    expect(first).toMatchObject({ cursor: 2, hasMore: true });
+    expect(first.changes[0].userId).toBeUndefined();
+
+    const rest = await store.changes('alice', { cursor: first.cursor });
+    expect(rest.changes.map((c) => c.id)).toEqual(['run_3']);
+    expect(rest).toMatchObject({ cursor: 3, hasMore: false });
+    expect(await store.changes('alice', { cursor: 3 })).toEqual({
+      changes: [],
+      cursor: 3,
+      hasMore: false,
+    });
+    expect((await store.changes('bob')).changes.map((c) => [c.id, c.seq])).toEqual([['run_9', 1]]);
+  });
+
+  it('lets the later of two concurrent run edits win', async () => {
+    const store = new MemorySyncStore();
+    await store.push('alice', [change('run', 'run_1', { name: 'Morning' })]);
+
+    // The laptop renames it having seen seq 1; the phone's older edit never saw that
+    await store.push('alice', [
+      change('run', 'run_1', { name: 'Laptop' }, { device: 'laptop', at: T0 + 2000, baseSeq: 1 }),
+    ]);
+    const { results } = await store.push('alice', [
+      change('run', 'run_1', { name: 'Phone' }, { at: T0 + 1000, baseSeq: 1 }),
+    ]);
+    expect(results[0]).toMatchObject({ applied: false, record: { data: { name: 'Laptop' } } });
+    expect(results[0].conflict).toBeUndefined();
+    expect((await store.changes('alice', { cursor: 1 })).changes).toHaveLength(1);
+  });
+
+  it('adds up progress made on two devices', async () => {
+    const store = new MemorySyncStore();
+    const base = stats({ experience: 100, totalDistance: 5000, achievements: ['first-run'] });
+    await store.push('alice', [change('stats', 'player', base)]);
+
+    await store.push('alice', [
+      change(
+        'stats',
+        'player',
+        { ...base, experience: 150, totalDistance: 8000 },
+        {
+          device: 'laptop',
+          baseSeq: 1,
+          base,
+        }
+      ),
+    ]);
+    const { results } = await store.push('alice', [
+      change(
+        'stats',
+        'player',
+        { ...base, experience: 130, totalDistance: 6000, achievements: ['first-run', '5k-runner'] },
+        { baseSeq: 1, base }
+      ),
+    ]);
+    expect(results[0].applied).toBe(true);
+    expect(results[0].record.data).toMatchObject({
+      experience: 180,
+      totalDistance: 9000,
+      achievements: ['first-run', '5k-runner'],
+    });
+  });
+
+  it('reports a territory claimed on both devices and keeps the confirmed claim', async () => {
+    const store = new MemorySyncStore();
+    const claimed = { id: 't1', owner: '0xabc', claimedAt: T0 + 5000, status: 'claimed' };
+    await store.push('alice', [change('territory', 't1', claimed)]);
+
+    const onChain = { ...claimed, claimedAt: T0 + 9000, transactionHash: '0xfeed' };
+    const { results } = await store.push('alice', [
+      change('territory', 't1', onChain, { device: 'laptop', at: T0 + 9000 }),
+    ]);
+    expect(results[0]).toMatchObject({
+      applied: true,
+      record: { data: onChain, deviceId: 'laptop' },
+      conflict: { kind: 'territory', id: 't1', kept: 'device', discarded: claimed },
+    });
+
+    // Another device that hadn't seen it loses to the confirmed claim
+    const late = { ...claimed, claimedAt: T0 + 1000 };
+    const second = await store.push('alice', [
+      change('territory', 't1', late, { at: T0 + 20_000 }),
+    ]);
+    expect(second.results[0]).toMatchObject({
+      applied: false,
+      record: { data: onChain },
+      conflict: { kept: 'server', discarded: late },
+    });
+  });
+
+  it('refuses malformed pushes', () => {
+    const good = change('run', 'run_1', { id: 'run_1' });
+    expect(checkPush([good])).toBeNull();
+    expect(checkPush(good)).toBe('changes must be an array');
+    expect(checkPush([{ ...good, kind: 'ghost' }])).toMatch(/kind must be one of run, territory/);
+    expect(checkPush([{ ...good, baseSeq: -1 }])).toMatch(/baseSeq/);
+    expect(checkPush([{ ...good, deviceId: '' }])).toMatch(/deviceId is required/);
+    expect(checkPush(new Array(201).fill(good))).toMatch(/at most 200/);
+  });
+
+  it('keeps records and numbering across a restart', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-store-'));
+    const file = path.join(dir, 'sync.json');
+    try {
+      const store = new FileSyncStore(file);
+      await store.push('alice', [
+        change('run', 'run_1', { id: 'run_1' }),
+        change('stats', 'player', stats()),
+      ]);
+
+      const reopened = new FileSyncStore(file);
+      expect((await reopened.changes('alice')).changes.map((c) => c.id)).toEqual([
+        'run_1',
+        'player',
+      ]);
+      const { results, cursor } = await reopened.push('alice', [
+        change('run', 'run_2', { id: 'run_2' }),
+      ]);
+      expect(results[0].record.seq).toBe(3);
+      expect(cursor).toBe(3);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('runs one push at a time, so undoing one leaves the next alone', async () => {
+    const store = new MemorySyncStore();
+    let failWrite;
+    store.persist = jest
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise((_resolve, reject) => {
+            failWrite = reject;
+          })
+      )
+      .mockResolvedValue(undefined);
+
+    const first = store.push('alice', [change('run', 'run_1', { id: 'run_1' })]);
+    const second = store.push('alice', [change('run', 'run_2', { id: 'run_2' })]);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(store.persist).toHaveBeenCalledTimes(1);
+    failWrite(new Error('disk full'));
+
+    await expect(first).rejects.toThrow('disk full');
+    expect((await second).results[0].record.seq).toBe(1);
+    const { changes, cursor } = await store.changes('alice');
+    expect(changes.map((c) => [c.id, c.seq])).toEqual([['run_2', 1]]);
+    expect(cursor).toBe(1);
+  });
+
+  it('undoes a push whose write fails and keeps writing after it', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-store-'));
+    const file = path.join(dir, 'sync.json');
+    const blocked = path.join(dir, 'blocked');
+    fs.writeFileSync(blocked, '');
+    try {
+      const store = new FileSyncStore(file);
+      await store.push('alice', [change('run', 'run_1', { id: 'run_1', v: 1 })]);
+
+      // A file where the data directory should be: the write fails
+      store.filePath = path.join(blocked, 'sync.json');
+      await expect(
+        store.push('alice', [
+          change('run', 'run_1', { id: 'run_1', v: 2 }, { at: T0 + 1, baseSeq: 1 }),
+          change('run', 'run_2', { id: 'run_2' }),
+        ])
+      ).rejects.toThrow();
+      const { changes, cursor } = await store.changes('alice');
+      expect(changes).toEqual([expect.objectContaining({ id: 'run_1', seq: 1 })]);
+      expect(changes[0].data.v).toBe(1);
+      expect(cursor).toBe(1);
+
+      store.filePath = file;
+      const pushed = await store.push('alice', [change('run', 'run_2', { id: 'run_2' })]);
+      expect(pushed.cursor).toBe(2);
+      expect((await new FileSyncStore(file).changes('alice')).cursor).toBe(2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Territory Parity Test Suite
+ * Tests that a synced run gets the same territory answer from the server
+ * as the app gave it on the device: eligibility, geohash, H3 cells and
+ * estimated reward (needs `npm run build:server` for the shared code)
+ */
+
+const { assessRun } = require('../server/run-assessment');
+const { GAME_RULES } = require('../dist/server/config/game-rules');
+const { haversineDistance } = require('../dist/server/utils/geo-distance');
+const { territoryCells } = require('../dist/server/utils/loop-territory');
+const { validateRun } = require('../dist/server/utils/run-validation');
+const { TERRITORY_LOOP_CLOSURE_METERS } = require('../dist/server/utils/territory-eligibility');
+const { territoryIdFromCenter } = require('../dist/server/utils/territory-id');
+const { territoryValue } = require('../dist/server/utils/territory-reward');
+
+const T0 = Date.parse('2024-06-01T07:00:00Z');
+const METERS_PER_DEG_LAT = 111_320;
+
+function mulberry32(seed) {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A RunSession as the app records it: `meters` round a circle somewhere
+ * in London, finishing `gap` meters short of the start.
+ */
+function recordRun(seed, { meters, gap = 0, pace = 3, timed = true }) {
+  const random = mulberry32(seed);
+  const center = { lat: 51.45 + random() * 0.1, lng: -0.2 + random() * 0.2 };
+  const radius = (meters + gap) / (2 * Math.PI);
+  const points = [];
+  let walked = 0;
+  let at = T0;
+  while (walked <= meters) {
+    const angle = (walked / (meters + gap)) * 2 * Math.PI;
+    points.push({
+      lat: center.lat + (radius * Math.sin(angle)) / METERS_PER_DEG_LAT,
+      lng:
+        center.lng +
+        (radius * Math.cos(angle)) / (METERS_PER_DEG_LAT * Math.cos((center.lat * Math.PI) / 180)),
+      timestamp: timed ? at : 0,
+      accuracy: 3 + random() * 9,
+      altitude: 20 + 15 * Math.sin(angle * 3),
+    });
+    const speed = pace * (0.85 + random() * 0.3);
+    walked += speed * 3;
+    at += 3000;
+  }
+  let totalDistance = 0;
+  for (let i = 1; i < points.length; i++) {
+    totalDistance += haversineDistance(points[i - 1], points[i]);
+  }
+  const totalDuration = at - 3000 - T0;
+  return {
+    id: `run_${seed}`,
+    startTime: T0,
+    endTime: T0 + totalDuration,
+    points,
+    segments: [],
+    laps: [],
+    totalDistance,
+    totalDuration,
+    averageSpeed: totalDistance / (totalDuration / 1000),
+    maxSpeed: pace * 1.15,
+    status: 'completed',
+    territoryEligible: false,
+  };
+}
+
+/**
+ * The device's answer, step by step as RunTrackingService (with its
+ * default config) and TerritoryService (no landmarks yet) reach it.
+ */
+function onDevice(run, mode) {
+  const { verdict, score } = validateRun(run);
+  const start = run.points[0];
+  const end = run.points[run.points.length - 1];
+  const eligible =
+    run.totalDistance >= GAME_RULES.territory.minDistanceMeters &&
+    run.totalDistance <= GAME_RULES.territory.maxDistanceMeters &&
+    haversineDistance(start, end) <= TERRITORY_LOOP_CLOSURE_METERS &&
+    verdict === 'accepted';
+  if (!eligible) return { eligible, verdict, score };
+  return {
+    eligible,
+    verdict,
+    score,
+    geohash: territoryIdFromCenter(start.lat, start.lng),
+    h3Cells: territoryCells(run.points, run.totalDistance, mode),
+    ...territoryValue(run),
+  };
+}
+
+/** The server's answer to the same run, uploaded as JSON. */
+function onServer(run, mode) {
+  const upload = JSON.parse(JSON.stringify(run));
+  const { verdict, territory } = assessRun(upload, mode);
+  const { eligible, geohash, h3Cells, difficulty, rarity, estimatedReward } = territory;
+  const answer = { eligible, verdict: verdict.verdict, score: verdict.score };
+  if (!eligible) return answer;
+  return { ...answer, geohash, h3Cells, difficulty, rarity, estimatedReward };
+}
+
+function corpus() {
+  const runs = [];
+  let seed = 1;
+  for (const meters of [60, 99, 140, 600, 1500, 3200, 5000, 10_000]) {
+    for (const gap of [0, 30, 49, 52, 80, 400]) {
+      runs.push(recordRun(seed++, { meters, gap }));
+    }
+  }
+  // Too fast to be on foot, untimed imports, and a teleport
+  runs.push(recordRun(seed++, { meters: 3000, pace: 9 }));
+  runs.push(recordRun(seed++, { meters: 3000, timed: false }));
+  const teleport = recordRun(seed++, { meters: 3000 });
+  teleport.points[30] = { ...teleport.points[30], lat: teleport.points[30].lat + 0.02 };
+  runs.push(teleport);
+  return runs;
+}
+
+describe('Territory parity', () => {
+  const runs = corpus();
+
+  it.each(['loop', 'trace'])('server and device agree on every run in %s mode', (mode) => {
+    const answers = runs.map((run) => [run.id, onServer(run, mode)]);
+    expect(answers).toEqual(runs.map((run) => [run.id, onDevice(run, mode)]));
+
+    // Not a vacuous pass: the corpus has runs on both sides of the line
+    const eligible = answers.filter(([, answer]) => answer.eligible).length;
+    expect(eligible).toBeGreaterThan(10);
+    expect(runs.length - eligible).toBeGreaterThan(10);
+  });
+
+  it('hands back what the app needs to claim', () => {
+    const run = recordRun(99, { meters: 3200 });
+    const { territory } = assessRun(JSON.parse(JSON.stringify(run)));
+    expect(territory).toMatchObject({ eligible: true, reasons: [] });
+    expect(territory.geohash).toMatch(/^-?\d+\.\d{6}_-?\d+\.\d{6}$/);
+    expect(territory.h3Cells.length).toBeGreaterThan(0);
+    expect(territory.estimatedReward).toBeGreaterThan(0);
+  });
+
+  it('explains why a run cannot claim', () => {
+    const { territory } = assessRun(recordRun(7, { meters: 80 }));
+    expect(territory.eligible).toBe(false);
+    expect(territory.reasons[0]).toMatch(/under the 100m minimum/);
+    expect(assessRun({ ...recordRun(8, { meters: 500 }), id: undefined })).toEqual({
+      valid: false,
+      errors: ['run.id is required'],
+    });
+  });
+});
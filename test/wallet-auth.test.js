@@ -0,0 +1,142 @@
+/**
+ * Wallet Auth Test Suite
+ * Tests sign-in with a real signature, nonce reuse, session tokens and
+ * the middleware (needs `npm run build:server` for the shared SIWE code)
+ */
+
+const { Wallet, verifyMessage } = require('ethers');
+const { WalletAuth } = require('../server/wallet-auth');
+const { formatSiweMessage, SIWE_STATEMENT } = require('../dist/server/utils/siwe');
+
+const T0 = Date.parse('2024-06-01T07:00:00Z');
+const wallet = new Wallet(`0x${'11'.repeat(32)}`);
+
+function messageFor(nonce, overrides = {}) {
+  return formatSiweMessage({
+    domain: 'runrealm.app',
+    address: wallet.address,
+    statement: SIWE_STATEMENT,
+    uri: 'https://runrealm.app',
+    version: '1',
+    chainId: 7001,
+    nonce,
+    issuedAt: new Date(T0).toISOString(),
+    ...overrides,
+  });
+}
+
+function createAuth() {
+  return new WalletAuth({ secret: 'test-secret', verifyMessage, domains: ['runrealm.app'] });
+}
+
+describe('Wallet auth', () => {
+  it('signs a wallet in once per nonce', async () => {
+    const auth = createAuth();
+    const { nonce } = auth.issueNonce(T0);
+    const message = messageFor(nonce);
+    const signature = await wallet.signMessage(message);
+
+    const result = auth.signIn({ message, signature }, T0 + 1000);
+    expect(result.valid).toBe(true);
+    expect(result.session.address).toBe(wallet.address.toLowerCase());
+    expect(auth.verifyToken(result.session.token, T0 + 2000)).toBe(wallet.address.toLowerCase());
+
+    expect(auth.signIn({ message, signature }, T0 + 2000)).toEqual({
+      valid: false,
+      error: 'nonce does not match',
+    });
+  });
+
+  it('refuses signatures from another wallet and unknown domains', async () => {
+    const auth = createAuth();
+    const other = new Wallet(`0x${'22'.repeat(32)}`);
+
+    const forged = messageFor(auth.issueNonce(T0).nonce);
+    expect(
+      auth.signIn({ message: forged, signature: await other.signMessage(forged) }, T0)
+    ).toEqual({ valid: false, error: 'signature does not match the address' });
+
+    const phished = messageFor(auth.issueNonce(T0).nonce, { domain: 'evil.example' });
+    expect(
+      auth.signIn({ message: phished, signature: await wallet.signMessage(phished) }, T0).error
+    ).toBe('domain evil.example is not accepted');
+
+    expect(auth.signIn({ message: 'hello', signature: '0x' }, T0).valid).toBe(false);
+  });
+
+  it('accepts only the host it was reached on when no domains are set', async () => {
+    const auth = new WalletAuth({ secret: 'test-secret', verifyMessage });
+    const signed = async (nonce) => {
+      const message = messageFor(nonce);
+      return { message, signature: await wallet.signMessage(message) };
+    };
+
+    expect(auth.signIn(await signed(auth.issueNonce(T0).nonce), T0, 'runrealm.app').valid).toBe(
+      true
+    );
+    expect(auth.signIn(await signed(auth.issueNonce(T0).nonce), T0, 'evil.example').error).toBe(
+      'domain runrealm.app is not accepted'
+    );
+    expect(auth.signIn(await signed(auth.issueNonce(T0).nonce), T0).valid).toBe(false);
+  });
+
+  it('caps the nonces outstanding at once', () => {
+    const auth = new WalletAuth({ secret: 'test-secret', verifyMessage, maxNonces: 2 });
+    expect(auth.issueNonce(T0)).not.toBeNull();
+    expect(auth.issueNonce(T0)).not.toBeNull();
+    expect(auth.issueNonce(T0)).toBeNull();
+    // Expired ones make room again
+    expect(auth.issueNonce(T0 + 5 * 60_000)).not.toBeNull();
+  });
+
+  it('trades a redirect state back for its address once', () => {
+    const auth = createAuth();
+    const { state } = auth.issueState('0xabc', T0);
+    expect(auth.verifyToken(state, T0)).toBeNull();
+    expect(auth.spendState(state, T0 + 1000)).toBe('0xabc');
+    expect(auth.spendState(state, T0 + 2000)).toBeNull();
+
+    const late = auth.issueState('0xabc', T0).state;
+    expect(auth.spendState(late, T0 + 10 * 60_000)).toBeNull();
+    expect(auth.spendState(undefined, T0)).toBeNull();
+  });
+
+  it('only honours its own unexpired tokens', () => {
+    const auth = createAuth();
+    const token = auth.sign({ sub: '0xabc', exp: T0 + 1000 });
+    expect(auth.verifyToken(token, T0)).toBe('0xabc');
+    expect(auth.verifyToken(token, T0 + 1000)).toBeNull();
+    expect(createAuth().verifyToken(token, T0)).toBe('0xabc');
+    expect(new WalletAuth({ secret: 'other', verifyMessage }).verifyToken(token, T0)).toBeNull();
+
+    const [payload, mac] = token.split('.');
+    const tampered = Buffer.from(JSON.stringify({ sub: '0xdef', exp: T0 + 1000 })).toString(
+      'base64url'
+    );
+    expect(auth.verifyToken(`${tampered}.${mac}`, T0)).toBeNull();
+    expect(auth.verifyToken(payload, T0)).toBeNull();
+  });
+
+  it('guards routes with the bearer token', () => {
+    const auth = createAuth();
+    const token = auth.sign({ sub: '0xabc', exp: Date.now() + 60_000 });
+    const respond = () => {
+      const res = { statusCode: 200 };
+      res.status = (code) => Object.assign(res, { statusCode: code });
+      res.json = (body) => Object.assign(res, { body });
+      return res;
+    };
+    const requestWith = (authorization) => ({ get: () => authorization });
+
+    const req = requestWith(`Bearer ${token}`);
+    const next = jest.fn();
+    auth.requireSession()(req, respond(), next);
+    expect(next).toHaveBeenCalled();
+    expect(req.userId).toBe('0xabc');
+
+    const res = respond();
+    auth.requireSession()(requestWith(undefined), res, next);
+    expect(res.statusCode).toBe(401);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});